@@ -0,0 +1,37 @@
+-- Migration: Scoped API keys for server-to-server access
+-- Run this if you have an existing database
+
+-- API keys (stored as SHA-256 hashes; the key itself is shown once, at creation)
+CREATE TABLE IF NOT EXISTS public.api_keys (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    client_id UUID NOT NULL REFERENCES public.clients(id) ON DELETE CASCADE,
+    name VARCHAR(100) NOT NULL,
+    key_prefix VARCHAR(16) NOT NULL, -- Start of the key, so admins can tell keys apart
+    key_hash VARCHAR(64) UNIQUE NOT NULL,
+    scopes TEXT[] NOT NULL DEFAULT '{}', -- 'chat:write', 'documents:read', 'documents:write'
+    allowed_ips TEXT[], -- Addresses or CIDR ranges; NULL allows any
+    created_by UUID REFERENCES public.users(id) ON DELETE SET NULL,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    expires_at TIMESTAMP WITH TIME ZONE,
+    last_used_at TIMESTAMP WITH TIME ZONE,
+    last_used_ip VARCHAR(45),
+    revoked_at TIMESTAMP WITH TIME ZONE,
+    revoked_by UUID REFERENCES public.users(id) ON DELETE SET NULL
+);
+
+CREATE INDEX IF NOT EXISTS idx_api_keys_client_id ON public.api_keys(client_id);
+
+-- Conversations started with an API key belong to the key rather than a user
+ALTER TABLE public.conversations
+ALTER COLUMN user_id DROP NOT NULL;
+
+ALTER TABLE public.conversations
+ADD COLUMN IF NOT EXISTS api_key_id UUID REFERENCES public.api_keys(id) ON DELETE CASCADE;
+
+ALTER TABLE public.conversations
+DROP CONSTRAINT IF EXISTS conversations_owner_check;
+
+ALTER TABLE public.conversations
+ADD CONSTRAINT conversations_owner_check CHECK ((user_id IS NULL) <> (api_key_id IS NULL));
+
+CREATE INDEX IF NOT EXISTS idx_conversations_api_key_id ON public.conversations(api_key_id);
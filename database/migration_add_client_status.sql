@@ -0,0 +1,8 @@
+-- Migration: Client status (tenant registry)
+-- Run this if you have an existing database. Clients are resolved by UUID or
+-- slug from this table; existing clients stay active.
+
+ALTER TABLE public.clients
+    ADD COLUMN IF NOT EXISTS status VARCHAR(20) NOT NULL DEFAULT 'active' CHECK (status IN ('active', 'suspended', 'archived')),
+    ADD COLUMN IF NOT EXISTS suspended_at TIMESTAMP WITH TIME ZONE,
+    ADD COLUMN IF NOT EXISTS archived_at TIMESTAMP WITH TIME ZONE;
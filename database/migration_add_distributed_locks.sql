@@ -0,0 +1,55 @@
+-- Migration: Distributed locks for running several backend instances
+-- Run this if you have an existing database. Only needed when locks are kept
+-- in Postgres (LOCK_STORE=postgres, or no REDIS_URL).
+
+-- Distributed locks (leases held by one backend instance, e.g. the scheduler leader)
+CREATE TABLE IF NOT EXISTS public.distributed_locks (
+    name VARCHAR(255) PRIMARY KEY,
+    holder VARCHAR(255) NOT NULL,
+    expires_at TIMESTAMP WITH TIME ZONE NOT NULL
+);
+
+-- Take a lock that is free or whose lease expired. Returns false while
+-- anyone, including p_holder, holds it.
+CREATE OR REPLACE FUNCTION acquire_lock(
+    p_name TEXT,
+    p_holder TEXT,
+    p_ttl_ms INT
+)
+RETURNS BOOLEAN
+LANGUAGE plpgsql
+AS $$
+DECLARE
+    acquired_name TEXT;
+BEGIN
+    INSERT INTO public.distributed_locks (name, holder, expires_at)
+    VALUES (p_name, p_holder, NOW() + p_ttl_ms * INTERVAL '1 millisecond')
+    ON CONFLICT (name) DO UPDATE
+        SET holder = EXCLUDED.holder,
+            expires_at = EXCLUDED.expires_at
+        WHERE public.distributed_locks.expires_at <= NOW()
+    RETURNING name INTO acquired_name;
+
+    RETURN acquired_name IS NOT NULL;
+END;
+$$;
+
+-- Extend a lease p_holder still holds
+CREATE OR REPLACE FUNCTION renew_lock(
+    p_name TEXT,
+    p_holder TEXT,
+    p_ttl_ms INT
+)
+RETURNS BOOLEAN
+LANGUAGE plpgsql
+AS $$
+BEGIN
+    UPDATE public.distributed_locks
+    SET expires_at = NOW() + p_ttl_ms * INTERVAL '1 millisecond'
+    WHERE name = p_name
+        AND holder = p_holder
+        AND expires_at > NOW();
+
+    RETURN FOUND;
+END;
+$$;
@@ -0,0 +1,17 @@
+-- Migration: Record which embedding provider produced each chunk vector
+-- Run this if you have an existing document_chunks table
+
+ALTER TABLE public.document_chunks
+ADD COLUMN IF NOT EXISTS embedding_provider VARCHAR(255),
+ADD COLUMN IF NOT EXISTS embedding_dimension INTEGER;
+
+-- Existing vectors were all produced by the Claude-analysis hashing path
+UPDATE public.document_chunks
+SET
+    embedding_provider = 'claude-analysis:' || COALESCE(metadata->'chunkMetadata'->>'embeddingModel', 'claude-3-haiku-20240307'),
+    embedding_dimension = 1536
+WHERE embedding IS NOT NULL
+    AND embedding_provider IS NULL
+    AND COALESCE(metadata->'chunkMetadata'->>'embeddingModel', '') <> 'fallback';
+
+CREATE INDEX IF NOT EXISTS idx_document_chunks_embedding_provider ON public.document_chunks(embedding_provider);
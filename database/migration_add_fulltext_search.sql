@@ -0,0 +1,63 @@
+-- Migration: Full-text search over chunks for hybrid retrieval
+-- Run this if you have an existing document_chunks table
+
+ALTER TABLE public.document_chunks
+ADD COLUMN IF NOT EXISTS content_tsv tsvector GENERATED ALWAYS AS (to_tsvector('english', content)) STORED;
+
+CREATE INDEX IF NOT EXISTS idx_document_chunks_content_tsv ON public.document_chunks USING gin (content_tsv);
+
+-- Function to rank chunks by full-text relevance. Query terms are OR'd so
+-- natural-language questions still match chunks containing only some of them.
+CREATE OR REPLACE FUNCTION search_chunks_fulltext(
+    query_text TEXT,
+    match_client_id UUID,
+    match_count int DEFAULT 10,
+    filter_sources TEXT[] DEFAULT NULL,
+    filter_created_after TIMESTAMP WITH TIME ZONE DEFAULT NULL,
+    filter_created_before TIMESTAMP WITH TIME ZONE DEFAULT NULL
+)
+RETURNS TABLE (
+    id UUID,
+    document_id UUID,
+    content TEXT,
+    chunk_index INTEGER,
+    metadata JSONB,
+    rank FLOAT,
+    title TEXT,
+    source TEXT,
+    document_created_at TIMESTAMP WITH TIME ZONE
+)
+LANGUAGE plpgsql
+STABLE
+AS $$
+DECLARE
+    ts_query tsquery;
+BEGIN
+    ts_query := NULLIF(replace(plainto_tsquery('english', query_text)::TEXT, ' & ', ' | '), '')::tsquery;
+
+    IF ts_query IS NULL THEN
+        RETURN;
+    END IF;
+
+    RETURN QUERY
+    SELECT 
+        dc.id,
+        dc.document_id,
+        dc.content,
+        dc.chunk_index,
+        dc.metadata,
+        ts_rank_cd(dc.content_tsv, ts_query, 32)::FLOAT as rank,
+        d.title::TEXT,
+        d.source::TEXT,
+        d.created_at
+    FROM public.document_chunks dc
+    JOIN public.documents d ON dc.document_id = d.id
+    WHERE d.client_id = match_client_id
+        AND dc.content_tsv @@ ts_query
+        AND (filter_sources IS NULL OR d.source = ANY(filter_sources))
+        AND (filter_created_after IS NULL OR d.created_at >= filter_created_after)
+        AND (filter_created_before IS NULL OR d.created_at <= filter_created_before)
+    ORDER BY rank DESC
+    LIMIT match_count;
+END;
+$$;
@@ -0,0 +1,72 @@
+-- Migration: Persistent background job queue
+-- Run this if you have an existing database. Only needed when the job queue
+-- runs on Postgres (JOB_QUEUE_STORE=postgres, or no REDIS_URL).
+
+-- Background jobs (uploads, syncs, backfills) when the job queue runs on Postgres
+CREATE TABLE IF NOT EXISTS public.jobs (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    type VARCHAR(100) NOT NULL,
+    client_id UUID NOT NULL REFERENCES public.clients(id) ON DELETE CASCADE,
+    payload JSONB NOT NULL DEFAULT '{}',
+    status VARCHAR(20) NOT NULL DEFAULT 'queued' CHECK (status IN ('queued', 'running', 'completed', 'failed')),
+    attempts INTEGER NOT NULL DEFAULT 0,
+    max_attempts INTEGER NOT NULL DEFAULT 3,
+    run_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+    progress JSONB,
+    result JSONB,
+    error TEXT,
+    created_by UUID REFERENCES public.users(id) ON DELETE SET NULL,
+    locked_by VARCHAR(255),
+    heartbeat_at TIMESTAMP WITH TIME ZONE,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    started_at TIMESTAMP WITH TIME ZONE,
+    finished_at TIMESTAMP WITH TIME ZONE
+);
+
+-- Jobs indexes
+CREATE INDEX IF NOT EXISTS idx_jobs_status_run_at ON public.jobs(status, run_at);
+CREATE INDEX IF NOT EXISTS idx_jobs_client_id_created_at ON public.jobs(client_id, created_at DESC);
+
+-- Claim the next due job for a worker. Clients with the fewest running jobs go
+-- first and clients at p_max_per_client are skipped; SKIP LOCKED keeps
+-- concurrent workers from taking the same row.
+CREATE OR REPLACE FUNCTION claim_next_job(
+    p_worker_id TEXT,
+    p_max_per_client INT
+)
+RETURNS SETOF public.jobs
+LANGUAGE plpgsql
+AS $$
+DECLARE
+    claimed_id UUID;
+BEGIN
+    SELECT j.id INTO claimed_id
+    FROM public.jobs j
+    LEFT JOIN (
+        SELECT client_id, COUNT(*) AS running
+        FROM public.jobs
+        WHERE status = 'running'
+        GROUP BY client_id
+    ) r ON r.client_id = j.client_id
+    WHERE j.status = 'queued'
+        AND j.run_at <= NOW()
+        AND COALESCE(r.running, 0) < p_max_per_client
+    ORDER BY COALESCE(r.running, 0), j.created_at
+    LIMIT 1
+    FOR UPDATE OF j SKIP LOCKED;
+
+    IF claimed_id IS NULL THEN
+        RETURN;
+    END IF;
+
+    RETURN QUERY
+    UPDATE public.jobs
+    SET status = 'running',
+        attempts = attempts + 1,
+        locked_by = p_worker_id,
+        started_at = NOW(),
+        heartbeat_at = NOW()
+    WHERE id = claimed_id
+    RETURNING *;
+END;
+$$;
@@ -0,0 +1,27 @@
+-- Migration: Content routing rules
+-- Run this if you have an existing database. Replaces the keyword mappings
+-- that were hard-coded in the Notion sync.
+
+-- Content routing rules (which clients synced content is shared with; evaluated highest priority first)
+CREATE TABLE IF NOT EXISTS public.routing_rules (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    client_id UUID NOT NULL REFERENCES public.clients(id) ON DELETE CASCADE,
+    name VARCHAR(255) NOT NULL,
+    type VARCHAR(50) NOT NULL CHECK (type IN ('property', 'database', 'title_regex', 'keyword')),
+    conditions JSONB NOT NULL DEFAULT '{}',
+    priority INTEGER NOT NULL DEFAULT 0,
+    stop_processing BOOLEAN NOT NULL DEFAULT FALSE,
+    enabled BOOLEAN NOT NULL DEFAULT TRUE,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+-- Routing rules indexes
+CREATE INDEX IF NOT EXISTS idx_routing_rules_client_id ON public.routing_rules(client_id);
+
+-- The HTT keyword mapping that used to be hard-coded, for the demo client
+INSERT INTO public.routing_rules (client_id, name, type, conditions)
+SELECT id, 'HTT keywords', 'keyword', '{"keywords": ["HTT", "Health Tech", "HealthTech"], "fields": ["title", "content", "properties"]}'
+FROM public.clients
+WHERE id = 'f47ac10b-58cc-4372-a567-0e02b2c3d479'
+  AND NOT EXISTS (SELECT 1 FROM public.routing_rules WHERE name = 'HTT keywords');
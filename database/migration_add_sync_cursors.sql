@@ -0,0 +1,12 @@
+-- Migration: Persisted sync cursors for incremental Notion syncs
+-- Run this if you have an existing database
+
+-- High-water mark per synced resource (last_edited_time per Notion database).
+-- Databases without a row get a full sync on their next incremental run.
+CREATE TABLE IF NOT EXISTS public.sync_cursors (
+    source VARCHAR(50) NOT NULL,
+    resource_id VARCHAR(255) NOT NULL,
+    high_water_mark TIMESTAMP WITH TIME ZONE NOT NULL,
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    PRIMARY KEY (source, resource_id)
+);
@@ -0,0 +1,8 @@
+-- Migration: Record the sync source's client on sync runs
+-- Run this if you have an existing database
+
+-- Synced pages no routing rule matches go to the source's client
+ALTER TABLE public.sync_runs
+ADD COLUMN IF NOT EXISTS client_id UUID REFERENCES public.clients(id) ON DELETE SET NULL;
+
+CREATE INDEX IF NOT EXISTS idx_sync_runs_client_id ON public.sync_runs(client_id, started_at DESC);
@@ -0,0 +1,28 @@
+-- Migration: Sync run history
+-- Run this if you have an existing database
+
+-- Sync run history, one row per synced resource (e.g. Notion database) per run
+CREATE TABLE IF NOT EXISTS public.sync_runs (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    source VARCHAR(50) NOT NULL,
+    resource_id VARCHAR(255) NOT NULL,
+    resource_name VARCHAR(255),
+    trigger VARCHAR(20) NOT NULL CHECK (trigger IN ('cron', 'manual', 'webhook')),
+    mode VARCHAR(20) NOT NULL CHECK (mode IN ('incremental', 'full')),
+    status VARCHAR(20) NOT NULL CHECK (status IN ('running', 'succeeded', 'partial', 'failed')),
+    pages_seen INTEGER NOT NULL DEFAULT 0,
+    pages_created INTEGER NOT NULL DEFAULT 0,
+    pages_updated INTEGER NOT NULL DEFAULT 0,
+    pages_unchanged INTEGER NOT NULL DEFAULT 0,
+    pages_deleted INTEGER NOT NULL DEFAULT 0,
+    pages_skipped INTEGER NOT NULL DEFAULT 0,
+    pages_failed INTEGER NOT NULL DEFAULT 0,
+    errors JSONB NOT NULL DEFAULT '[]',
+    started_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+    finished_at TIMESTAMP WITH TIME ZONE,
+    duration_ms INTEGER
+);
+
+-- Sync runs indexes
+CREATE INDEX IF NOT EXISTS idx_sync_runs_started_at ON public.sync_runs(started_at DESC);
+CREATE INDEX IF NOT EXISTS idx_sync_runs_source_resource ON public.sync_runs(source, resource_id, started_at DESC);
@@ -0,0 +1,29 @@
+-- Migration: Sync sources registered per client
+-- Run this if you have an existing database. Notion databases configured via
+-- NOTION_*_DB_ID are registered automatically on the next start.
+
+-- Sync sources (Notion databases synced on a schedule, registered per client)
+CREATE TABLE IF NOT EXISTS public.sync_sources (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    client_id UUID NOT NULL REFERENCES public.clients(id) ON DELETE CASCADE,
+    name VARCHAR(255) NOT NULL,
+    source_type VARCHAR(50) NOT NULL CHECK (source_type IN ('notion_meeting_notes', 'notion_client_page', 'notion_website_outline', 'notion_clients')),
+    resource_id VARCHAR(255) NOT NULL,
+    cron VARCHAR(100) NOT NULL,
+    full_sync_cron VARCHAR(100),
+    timezone VARCHAR(100) NOT NULL DEFAULT 'America/New_York',
+    enabled BOOLEAN NOT NULL DEFAULT TRUE,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    UNIQUE (client_id, source_type, resource_id)
+);
+
+-- Sync sources indexes
+CREATE INDEX IF NOT EXISTS idx_sync_sources_client_id ON public.sync_sources(client_id);
+
+-- The clients directory database that used to be hard-coded, for the demo client
+INSERT INTO public.sync_sources (client_id, name, source_type, resource_id, cron, timezone)
+SELECT id, 'Clients', 'notion_clients', '20f9a8eee622805ea2ecd18f3d424818', '0 9-18/2 * * 1-5', 'America/New_York'
+FROM public.clients
+WHERE id = 'f47ac10b-58cc-4372-a567-0e02b2c3d479'
+ON CONFLICT (client_id, source_type, resource_id) DO NOTHING;
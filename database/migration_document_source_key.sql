@@ -0,0 +1,22 @@
+-- Migration: Key documents on (client_id, source, source_id)
+-- Run this if you have an existing database. Earlier Notion syncs inserted a
+-- new copy of a page on every run; this keeps the most recent copy of each.
+
+ALTER TABLE public.documents
+ADD COLUMN IF NOT EXISTS content_hash VARCHAR(64);
+
+-- Remove duplicate copies (their chunks are removed by ON DELETE CASCADE)
+DELETE FROM public.documents d
+USING (
+    SELECT id,
+           ROW_NUMBER() OVER (
+               PARTITION BY client_id, source, source_id
+               ORDER BY updated_at DESC, created_at DESC
+           ) AS copy_rank
+    FROM public.documents
+) ranked
+WHERE d.id = ranked.id
+  AND ranked.copy_rank > 1;
+
+-- One document per source item; syncs update it in place
+CREATE UNIQUE INDEX IF NOT EXISTS idx_documents_source_item ON public.documents(client_id, source, source_id);
@@ -0,0 +1,58 @@
+-- Migration: Enforce row-level security for tenant-scoped queries
+-- Run this if you have an existing database. Lets the policies tolerate an
+-- unset app.current_client_id and adds the role withTenant switches to.
+-- Grant asera_tenant to the login in DATABASE_URL if it isn't postgres.
+
+DROP POLICY IF EXISTS documents_tenant_isolation ON public.documents;
+CREATE POLICY documents_tenant_isolation ON public.documents
+    USING (client_id = NULLIF(current_setting('app.current_client_id', true), '')::UUID);
+
+DROP POLICY IF EXISTS document_chunks_tenant_isolation ON public.document_chunks;
+CREATE POLICY document_chunks_tenant_isolation ON public.document_chunks
+    USING (document_id IN (
+        SELECT id FROM public.documents 
+        WHERE client_id = NULLIF(current_setting('app.current_client_id', true), '')::UUID
+    ));
+
+DROP POLICY IF EXISTS conversations_tenant_isolation ON public.conversations;
+CREATE POLICY conversations_tenant_isolation ON public.conversations
+    USING (client_id = NULLIF(current_setting('app.current_client_id', true), '')::UUID);
+
+DROP POLICY IF EXISTS messages_tenant_isolation ON public.messages;
+CREATE POLICY messages_tenant_isolation ON public.messages
+    USING (conversation_id IN (
+        SELECT id FROM public.conversations 
+        WHERE client_id = NULLIF(current_setting('app.current_client_id', true), '')::UUID
+    ));
+
+DROP POLICY IF EXISTS feedback_tenant_isolation ON public.feedback;
+CREATE POLICY feedback_tenant_isolation ON public.feedback
+    USING (message_id IN (
+        SELECT m.id FROM public.messages m
+        JOIN public.conversations c ON m.conversation_id = c.id
+        WHERE c.client_id = NULLIF(current_setting('app.current_client_id', true), '')::UUID
+    ));
+
+DROP POLICY IF EXISTS integration_logs_tenant_isolation ON public.integration_logs;
+CREATE POLICY integration_logs_tenant_isolation ON public.integration_logs
+    USING (client_id = NULLIF(current_setting('app.current_client_id', true), '')::UUID);
+
+-- Role tenant-scoped queries run as (SET LOCAL ROLE)
+DO $$
+BEGIN
+    IF NOT EXISTS (SELECT 1 FROM pg_roles WHERE rolname = 'asera_tenant') THEN
+        CREATE ROLE asera_tenant NOLOGIN;
+    END IF;
+END
+$$;
+
+GRANT USAGE ON SCHEMA public TO asera_tenant;
+GRANT SELECT, INSERT, UPDATE, DELETE ON
+    public.documents,
+    public.document_chunks,
+    public.conversations,
+    public.messages,
+    public.feedback,
+    public.integration_logs
+TO asera_tenant;
+GRANT asera_tenant TO postgres;
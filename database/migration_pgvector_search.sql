@@ -0,0 +1,67 @@
+-- Migration: Run vector search in Postgres with an HNSW index
+-- Run this if you have an existing document_chunks table (requires pgvector >= 0.5.0)
+-- Recall limit: search_similar_chunks filters the HNSW index's nearest chunks, at most
+-- hnsw.ef_search (400) of them across every client. A client whose chunks are all
+-- further away than that many other chunks gets fewer than match_count results.
+-- pgvector >= 0.8 can lift this with hnsw.iterative_scan.
+
+DROP INDEX IF EXISTS public.idx_document_chunks_embedding;
+CREATE INDEX idx_document_chunks_embedding ON public.document_chunks USING hnsw (embedding vector_cosine_ops) WITH (m = 16, ef_construction = 64);
+
+-- The signature changed, so drop the old function rather than adding an overload
+DROP FUNCTION IF EXISTS search_similar_chunks(vector, UUID, float, int);
+
+-- Function to search similar chunks using vector similarity
+CREATE OR REPLACE FUNCTION search_similar_chunks(
+    query_embedding vector(1536),
+    match_client_id UUID,
+    match_threshold float DEFAULT 0.1,
+    match_count int DEFAULT 10,
+    filter_embedding_provider TEXT DEFAULT NULL,
+    filter_sources TEXT[] DEFAULT NULL,
+    filter_created_after TIMESTAMP WITH TIME ZONE DEFAULT NULL,
+    filter_created_before TIMESTAMP WITH TIME ZONE DEFAULT NULL
+)
+RETURNS TABLE (
+    id UUID,
+    document_id UUID,
+    content TEXT,
+    chunk_index INTEGER,
+    metadata JSONB,
+    similarity FLOAT,
+    title TEXT,
+    source TEXT,
+    document_created_at TIMESTAMP WITH TIME ZONE
+)
+LANGUAGE plpgsql
+STABLE
+-- The HNSW scan returns the ef_search nearest chunks across all clients before the
+-- client, provider, source and date filters apply (pgvector's default is 40).
+-- Widen it so small clients and less-used providers still find their chunks.
+SET hnsw.ef_search = 400
+AS $$
+BEGIN
+    RETURN QUERY
+    SELECT 
+        dc.id,
+        dc.document_id,
+        dc.content,
+        dc.chunk_index,
+        dc.metadata,
+        1 - (dc.embedding <=> query_embedding) as similarity,
+        d.title::TEXT,
+        d.source::TEXT,
+        d.created_at
+    FROM public.document_chunks dc
+    JOIN public.documents d ON dc.document_id = d.id
+    WHERE d.client_id = match_client_id
+        AND dc.embedding IS NOT NULL
+        AND (filter_embedding_provider IS NULL OR dc.embedding_provider = filter_embedding_provider)
+        AND (filter_sources IS NULL OR d.source = ANY(filter_sources))
+        AND (filter_created_after IS NULL OR d.created_at >= filter_created_after)
+        AND (filter_created_before IS NULL OR d.created_at <= filter_created_before)
+        AND 1 - (dc.embedding <=> query_embedding) > match_threshold
+    ORDER BY dc.embedding <=> query_embedding
+    LIMIT match_count;
+END;
+$$;
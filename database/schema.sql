@@ -18,6 +18,9 @@ CREATE TABLE public.clients (
     products_services TEXT,
     client_page_info TEXT,
     settings JSONB DEFAULT '{}',
+    status VARCHAR(20) NOT NULL DEFAULT 'active' CHECK (status IN ('active', 'suspended', 'archived')),
+    suspended_at TIMESTAMP WITH TIME ZONE, -- Suspended clients can't sign in; their data is kept
+    archived_at TIMESTAMP WITH TIME ZONE, -- Archived clients' documents and conversations are deleted
     created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
     updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
 );
@@ -30,6 +33,7 @@ CREATE TABLE public.users (
     name VARCHAR(255) NOT NULL,
     client_id UUID NOT NULL REFERENCES public.clients(id) ON DELETE CASCADE,
     role VARCHAR(20) NOT NULL CHECK (role IN ('admin', 'user')),
+    deactivated_at TIMESTAMP WITH TIME ZONE, -- Deactivated users can't log in or refresh
     created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
     updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
 );
@@ -38,6 +42,70 @@ CREATE TABLE public.users (
 CREATE INDEX idx_users_client_id ON public.users(client_id);
 CREATE INDEX idx_users_email ON public.users(email);
 
+-- Auth sessions (one per login; all refresh tokens issued from a login share its session)
+CREATE TABLE public.auth_sessions (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    user_id UUID NOT NULL REFERENCES public.users(id) ON DELETE CASCADE,
+    client_id UUID NOT NULL REFERENCES public.clients(id) ON DELETE CASCADE,
+    user_agent TEXT,
+    ip_address VARCHAR(45),
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    last_used_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    expires_at TIMESTAMP WITH TIME ZONE NOT NULL,
+    revoked_at TIMESTAMP WITH TIME ZONE,
+    revoked_reason VARCHAR(50) -- 'logout', 'user_revoked', 'refresh_token_reuse', 'user_removed', 'user_deactivated'
+);
+
+-- Refresh tokens (stored as SHA-256 hashes; each is single-use and rotated on refresh)
+CREATE TABLE public.refresh_tokens (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    session_id UUID NOT NULL REFERENCES public.auth_sessions(id) ON DELETE CASCADE,
+    token_hash VARCHAR(64) UNIQUE NOT NULL,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    expires_at TIMESTAMP WITH TIME ZONE NOT NULL,
+    used_at TIMESTAMP WITH TIME ZONE, -- Set when rotated; presenting it again is reuse
+    replaced_by UUID REFERENCES public.refresh_tokens(id) ON DELETE SET NULL
+);
+
+CREATE INDEX idx_auth_sessions_user_id ON public.auth_sessions(user_id);
+CREATE INDEX idx_refresh_tokens_session_id ON public.refresh_tokens(session_id);
+
+-- Invitations (registration requires one; the emailed token is signed and single-use)
+CREATE TABLE public.invitations (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    client_id UUID NOT NULL REFERENCES public.clients(id) ON DELETE CASCADE,
+    email VARCHAR(255) NOT NULL,
+    role VARCHAR(20) NOT NULL CHECK (role IN ('admin', 'user')),
+    invited_by UUID REFERENCES public.users(id) ON DELETE SET NULL,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    expires_at TIMESTAMP WITH TIME ZONE NOT NULL,
+    accepted_at TIMESTAMP WITH TIME ZONE,
+    accepted_by UUID REFERENCES public.users(id) ON DELETE SET NULL,
+    revoked_at TIMESTAMP WITH TIME ZONE
+);
+
+CREATE INDEX idx_invitations_client_id ON public.invitations(client_id);
+
+-- API keys (stored as SHA-256 hashes; the key itself is shown once, at creation)
+CREATE TABLE public.api_keys (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    client_id UUID NOT NULL REFERENCES public.clients(id) ON DELETE CASCADE,
+    name VARCHAR(100) NOT NULL,
+    key_prefix VARCHAR(16) NOT NULL, -- Start of the key, so admins can tell keys apart
+    key_hash VARCHAR(64) UNIQUE NOT NULL,
+    scopes TEXT[] NOT NULL DEFAULT '{}', -- 'chat:write', 'documents:read', 'documents:write'
+    allowed_ips TEXT[], -- Addresses or CIDR ranges; NULL allows any
+    created_by UUID REFERENCES public.users(id) ON DELETE SET NULL,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    expires_at TIMESTAMP WITH TIME ZONE,
+    last_used_at TIMESTAMP WITH TIME ZONE,
+    last_used_ip VARCHAR(45),
+    revoked_at TIMESTAMP WITH TIME ZONE,
+    revoked_by UUID REFERENCES public.users(id) ON DELETE SET NULL
+);
+
+CREATE INDEX idx_api_keys_client_id ON public.api_keys(client_id);
+
 -- ============================================================================
 -- Multi-tenant tables with RLS
 -- ============================================================================
@@ -51,6 +119,7 @@ CREATE TABLE public.documents (
     source VARCHAR(50) NOT NULL CHECK (source IN ('slack', 'notion_meeting_notes', 'notion_client_page', 'notion_website_outline', 'upload')),
     source_id VARCHAR(255) NOT NULL,
     metadata JSONB DEFAULT '{}',
+    content_hash VARCHAR(64), -- SHA-256 of title + content; unchanged items aren't re-embedded
     created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
     updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
 );
@@ -60,10 +129,13 @@ CREATE TABLE public.document_chunks (
     id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
     document_id UUID NOT NULL REFERENCES public.documents(id) ON DELETE CASCADE,
     content TEXT NOT NULL,
-    embedding vector(1536), -- Claude embedding dimension
+    embedding vector(1536), -- Max embedding dimension; smaller vectors are zero-padded
+    embedding_provider VARCHAR(255), -- e.g. 'local:Xenova/all-MiniLM-L6-v2'; NULL if embedding failed
+    embedding_dimension INTEGER, -- Native dimension of the provider's vectors
     chunk_index INTEGER NOT NULL,
     token_count INTEGER NOT NULL,
     metadata JSONB DEFAULT '{}',
+    content_tsv tsvector GENERATED ALWAYS AS (to_tsvector('english', content)) STORED,
     created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
 );
 
@@ -71,10 +143,13 @@ CREATE TABLE public.document_chunks (
 CREATE TABLE public.conversations (
     id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
     client_id UUID NOT NULL REFERENCES public.clients(id) ON DELETE CASCADE,
-    user_id UUID NOT NULL REFERENCES public.users(id) ON DELETE CASCADE,
+    -- Owned by a user, or by the API key it was started with
+    user_id UUID REFERENCES public.users(id) ON DELETE CASCADE,
+    api_key_id UUID REFERENCES public.api_keys(id) ON DELETE CASCADE,
     title TEXT NOT NULL,
     created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
-    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    CONSTRAINT conversations_owner_check CHECK ((user_id IS NULL) <> (api_key_id IS NULL))
 );
 
 -- Messages table (chat messages)
@@ -108,6 +183,96 @@ CREATE TABLE public.integration_logs (
     created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
 );
 
+-- Sync cursors (high-water mark per synced resource, e.g. last_edited_time per Notion database)
+CREATE TABLE public.sync_cursors (
+    source VARCHAR(50) NOT NULL,
+    resource_id VARCHAR(255) NOT NULL,
+    high_water_mark TIMESTAMP WITH TIME ZONE NOT NULL,
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    PRIMARY KEY (source, resource_id)
+);
+
+-- Sync sources (Notion databases synced on a schedule, registered per client)
+CREATE TABLE public.sync_sources (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    client_id UUID NOT NULL REFERENCES public.clients(id) ON DELETE CASCADE,
+    name VARCHAR(255) NOT NULL,
+    source_type VARCHAR(50) NOT NULL CHECK (source_type IN ('notion_meeting_notes', 'notion_client_page', 'notion_website_outline', 'notion_clients')),
+    resource_id VARCHAR(255) NOT NULL,
+    cron VARCHAR(100) NOT NULL,
+    full_sync_cron VARCHAR(100),
+    timezone VARCHAR(100) NOT NULL DEFAULT 'America/New_York',
+    enabled BOOLEAN NOT NULL DEFAULT TRUE,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    UNIQUE (client_id, source_type, resource_id)
+);
+
+-- Content routing rules (which clients synced content is shared with; evaluated highest priority first)
+CREATE TABLE public.routing_rules (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    client_id UUID NOT NULL REFERENCES public.clients(id) ON DELETE CASCADE,
+    name VARCHAR(255) NOT NULL,
+    type VARCHAR(50) NOT NULL CHECK (type IN ('property', 'database', 'title_regex', 'keyword')),
+    conditions JSONB NOT NULL DEFAULT '{}',
+    priority INTEGER NOT NULL DEFAULT 0,
+    stop_processing BOOLEAN NOT NULL DEFAULT FALSE,
+    enabled BOOLEAN NOT NULL DEFAULT TRUE,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+-- Sync run history, one row per synced resource (e.g. Notion database) per run
+CREATE TABLE public.sync_runs (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    source VARCHAR(50) NOT NULL,
+    resource_id VARCHAR(255) NOT NULL,
+    resource_name VARCHAR(255),
+    client_id UUID REFERENCES public.clients(id) ON DELETE SET NULL, -- The sync source's client, which gets unrouted content
+    trigger VARCHAR(20) NOT NULL CHECK (trigger IN ('cron', 'manual', 'webhook')),
+    mode VARCHAR(20) NOT NULL CHECK (mode IN ('incremental', 'full')),
+    status VARCHAR(20) NOT NULL CHECK (status IN ('running', 'succeeded', 'partial', 'failed')),
+    pages_seen INTEGER NOT NULL DEFAULT 0,
+    pages_created INTEGER NOT NULL DEFAULT 0,
+    pages_updated INTEGER NOT NULL DEFAULT 0,
+    pages_unchanged INTEGER NOT NULL DEFAULT 0,
+    pages_deleted INTEGER NOT NULL DEFAULT 0,
+    pages_skipped INTEGER NOT NULL DEFAULT 0,
+    pages_failed INTEGER NOT NULL DEFAULT 0,
+    errors JSONB NOT NULL DEFAULT '[]',
+    started_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+    finished_at TIMESTAMP WITH TIME ZONE,
+    duration_ms INTEGER
+);
+
+-- Distributed locks (leases held by one backend instance, e.g. the scheduler leader)
+CREATE TABLE public.distributed_locks (
+    name VARCHAR(255) PRIMARY KEY,
+    holder VARCHAR(255) NOT NULL,
+    expires_at TIMESTAMP WITH TIME ZONE NOT NULL
+);
+
+-- Background jobs (uploads, syncs, backfills) when the job queue runs on Postgres
+CREATE TABLE public.jobs (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    type VARCHAR(100) NOT NULL,
+    client_id UUID NOT NULL REFERENCES public.clients(id) ON DELETE CASCADE,
+    payload JSONB NOT NULL DEFAULT '{}',
+    status VARCHAR(20) NOT NULL DEFAULT 'queued' CHECK (status IN ('queued', 'running', 'completed', 'failed')),
+    attempts INTEGER NOT NULL DEFAULT 0,
+    max_attempts INTEGER NOT NULL DEFAULT 3,
+    run_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+    progress JSONB,
+    result JSONB,
+    error TEXT,
+    created_by UUID REFERENCES public.users(id) ON DELETE SET NULL,
+    locked_by VARCHAR(255),
+    heartbeat_at TIMESTAMP WITH TIME ZONE,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    started_at TIMESTAMP WITH TIME ZONE,
+    finished_at TIMESTAMP WITH TIME ZONE
+);
+
 -- ============================================================================
 -- Indexes for performance
 -- ============================================================================
@@ -115,15 +280,20 @@ CREATE TABLE public.integration_logs (
 -- Documents indexes
 CREATE INDEX idx_documents_client_id ON public.documents(client_id);
 CREATE INDEX idx_documents_source ON public.documents(source);
+-- One document per source item; syncs update it in place
+CREATE UNIQUE INDEX idx_documents_source_item ON public.documents(client_id, source, source_id);
 CREATE INDEX idx_documents_created_at ON public.documents(created_at DESC);
 
 -- Document chunks indexes (for similarity search)
 CREATE INDEX idx_document_chunks_document_id ON public.document_chunks(document_id);
-CREATE INDEX idx_document_chunks_embedding ON public.document_chunks USING ivfflat (embedding vector_cosine_ops) WITH (lists = 100);
+CREATE INDEX idx_document_chunks_embedding_provider ON public.document_chunks(embedding_provider);
+CREATE INDEX idx_document_chunks_content_tsv ON public.document_chunks USING gin (content_tsv);
+CREATE INDEX idx_document_chunks_embedding ON public.document_chunks USING hnsw (embedding vector_cosine_ops) WITH (m = 16, ef_construction = 64);
 
 -- Conversations indexes
 CREATE INDEX idx_conversations_client_id ON public.conversations(client_id);
 CREATE INDEX idx_conversations_user_id ON public.conversations(user_id);
+CREATE INDEX idx_conversations_api_key_id ON public.conversations(api_key_id);
 CREATE INDEX idx_conversations_updated_at ON public.conversations(updated_at DESC);
 
 -- Messages indexes
@@ -138,10 +308,28 @@ CREATE INDEX idx_feedback_user_id ON public.feedback(user_id);
 CREATE INDEX idx_integration_logs_client_id ON public.integration_logs(client_id);
 CREATE INDEX idx_integration_logs_created_at ON public.integration_logs(created_at DESC);
 
+-- Sync sources indexes
+CREATE INDEX idx_sync_sources_client_id ON public.sync_sources(client_id);
+
+-- Routing rules indexes
+CREATE INDEX idx_routing_rules_client_id ON public.routing_rules(client_id);
+
+-- Sync runs indexes
+CREATE INDEX idx_sync_runs_started_at ON public.sync_runs(started_at DESC);
+CREATE INDEX idx_sync_runs_source_resource ON public.sync_runs(source, resource_id, started_at DESC);
+CREATE INDEX idx_sync_runs_client_id ON public.sync_runs(client_id, started_at DESC);
+
+-- Jobs indexes
+CREATE INDEX idx_jobs_status_run_at ON public.jobs(status, run_at);
+CREATE INDEX idx_jobs_client_id_created_at ON public.jobs(client_id, created_at DESC);
+
 -- ============================================================================
 -- Row Level Security (RLS) Policies
 -- ============================================================================
 
+-- Policies compare rows to app.current_client_id, which withTenant (utils/tenantDb.ts)
+-- sets per transaction. Unset, it matches nothing.
+
 -- Enable RLS on all tenant-specific tables
 ALTER TABLE public.documents ENABLE ROW LEVEL SECURITY;
 ALTER TABLE public.document_chunks ENABLE ROW LEVEL SECURITY;
@@ -152,24 +340,24 @@ ALTER TABLE public.integration_logs ENABLE ROW LEVEL SECURITY;
 
 -- Documents RLS policies
 CREATE POLICY documents_tenant_isolation ON public.documents
-    USING (client_id = current_setting('app.current_client_id')::UUID);
+    USING (client_id = NULLIF(current_setting('app.current_client_id', true), '')::UUID);
 
 -- Document chunks RLS policies (through document relationship)
 CREATE POLICY document_chunks_tenant_isolation ON public.document_chunks
     USING (document_id IN (
         SELECT id FROM public.documents 
-        WHERE client_id = current_setting('app.current_client_id')::UUID
+        WHERE client_id = NULLIF(current_setting('app.current_client_id', true), '')::UUID
     ));
 
 -- Conversations RLS policies
 CREATE POLICY conversations_tenant_isolation ON public.conversations
-    USING (client_id = current_setting('app.current_client_id')::UUID);
+    USING (client_id = NULLIF(current_setting('app.current_client_id', true), '')::UUID);
 
 -- Messages RLS policies (through conversation relationship)
 CREATE POLICY messages_tenant_isolation ON public.messages
     USING (conversation_id IN (
         SELECT id FROM public.conversations 
-        WHERE client_id = current_setting('app.current_client_id')::UUID
+        WHERE client_id = NULLIF(current_setting('app.current_client_id', true), '')::UUID
     ));
 
 -- Feedback RLS policies (through message relationship)
@@ -177,12 +365,33 @@ CREATE POLICY feedback_tenant_isolation ON public.feedback
     USING (message_id IN (
         SELECT m.id FROM public.messages m
         JOIN public.conversations c ON m.conversation_id = c.id
-        WHERE c.client_id = current_setting('app.current_client_id')::UUID
+        WHERE c.client_id = NULLIF(current_setting('app.current_client_id', true), '')::UUID
     ));
 
 -- Integration logs RLS policies
 CREATE POLICY integration_logs_tenant_isolation ON public.integration_logs
-    USING (client_id = current_setting('app.current_client_id')::UUID);
+    USING (client_id = NULLIF(current_setting('app.current_client_id', true), '')::UUID);
+
+-- Role tenant-scoped queries run as (SET LOCAL ROLE). It can't bypass RLS and
+-- owns nothing, so the policies above apply to it; grant it to the DATABASE_URL login.
+DO $$
+BEGIN
+    IF NOT EXISTS (SELECT 1 FROM pg_roles WHERE rolname = 'asera_tenant') THEN
+        CREATE ROLE asera_tenant NOLOGIN;
+    END IF;
+END
+$$;
+
+GRANT USAGE ON SCHEMA public TO asera_tenant;
+GRANT SELECT, INSERT, UPDATE, DELETE ON
+    public.documents,
+    public.document_chunks,
+    public.conversations,
+    public.messages,
+    public.feedback,
+    public.integration_logs
+TO asera_tenant;
+GRANT asera_tenant TO postgres;
 
 -- ============================================================================
 -- Stored Functions
@@ -191,20 +400,31 @@ CREATE POLICY integration_logs_tenant_isolation ON public.integration_logs
 -- Function to search similar chunks using vector similarity
 CREATE OR REPLACE FUNCTION search_similar_chunks(
     query_embedding vector(1536),
-    client_id UUID,
-    match_threshold float DEFAULT 0.7,
-    match_count int DEFAULT 10
+    match_client_id UUID,
+    match_threshold float DEFAULT 0.1,
+    match_count int DEFAULT 10,
+    filter_embedding_provider TEXT DEFAULT NULL,
+    filter_sources TEXT[] DEFAULT NULL,
+    filter_created_after TIMESTAMP WITH TIME ZONE DEFAULT NULL,
+    filter_created_before TIMESTAMP WITH TIME ZONE DEFAULT NULL
 )
 RETURNS TABLE (
     id UUID,
     document_id UUID,
     content TEXT,
+    chunk_index INTEGER,
+    metadata JSONB,
     similarity FLOAT,
     title TEXT,
     source TEXT,
-    metadata JSONB
+    document_created_at TIMESTAMP WITH TIME ZONE
 )
 LANGUAGE plpgsql
+STABLE
+-- The HNSW scan returns the ef_search nearest chunks across all clients before the
+-- client, provider, source and date filters apply (pgvector's default is 40).
+-- Widen it so small clients and less-used providers still find their chunks.
+SET hnsw.ef_search = 400
 AS $$
 BEGIN
     RETURN QUERY
@@ -212,19 +432,171 @@ BEGIN
         dc.id,
         dc.document_id,
         dc.content,
+        dc.chunk_index,
+        dc.metadata,
         1 - (dc.embedding <=> query_embedding) as similarity,
-        d.title,
-        d.source,
-        dc.metadata
+        d.title::TEXT,
+        d.source::TEXT,
+        d.created_at
     FROM public.document_chunks dc
     JOIN public.documents d ON dc.document_id = d.id
-    WHERE d.client_id = search_similar_chunks.client_id
+    WHERE d.client_id = match_client_id
+        AND dc.embedding IS NOT NULL
+        AND (filter_embedding_provider IS NULL OR dc.embedding_provider = filter_embedding_provider)
+        AND (filter_sources IS NULL OR d.source = ANY(filter_sources))
+        AND (filter_created_after IS NULL OR d.created_at >= filter_created_after)
+        AND (filter_created_before IS NULL OR d.created_at <= filter_created_before)
         AND 1 - (dc.embedding <=> query_embedding) > match_threshold
     ORDER BY dc.embedding <=> query_embedding
     LIMIT match_count;
 END;
 $$;
 
+-- Function to rank chunks by full-text relevance. Query terms are OR'd so
+-- natural-language questions still match chunks containing only some of them.
+CREATE OR REPLACE FUNCTION search_chunks_fulltext(
+    query_text TEXT,
+    match_client_id UUID,
+    match_count int DEFAULT 10,
+    filter_sources TEXT[] DEFAULT NULL,
+    filter_created_after TIMESTAMP WITH TIME ZONE DEFAULT NULL,
+    filter_created_before TIMESTAMP WITH TIME ZONE DEFAULT NULL
+)
+RETURNS TABLE (
+    id UUID,
+    document_id UUID,
+    content TEXT,
+    chunk_index INTEGER,
+    metadata JSONB,
+    rank FLOAT,
+    title TEXT,
+    source TEXT,
+    document_created_at TIMESTAMP WITH TIME ZONE
+)
+LANGUAGE plpgsql
+STABLE
+AS $$
+DECLARE
+    ts_query tsquery;
+BEGIN
+    ts_query := NULLIF(replace(plainto_tsquery('english', query_text)::TEXT, ' & ', ' | '), '')::tsquery;
+
+    IF ts_query IS NULL THEN
+        RETURN;
+    END IF;
+
+    RETURN QUERY
+    SELECT 
+        dc.id,
+        dc.document_id,
+        dc.content,
+        dc.chunk_index,
+        dc.metadata,
+        ts_rank_cd(dc.content_tsv, ts_query, 32)::FLOAT as rank,
+        d.title::TEXT,
+        d.source::TEXT,
+        d.created_at
+    FROM public.document_chunks dc
+    JOIN public.documents d ON dc.document_id = d.id
+    WHERE d.client_id = match_client_id
+        AND dc.content_tsv @@ ts_query
+        AND (filter_sources IS NULL OR d.source = ANY(filter_sources))
+        AND (filter_created_after IS NULL OR d.created_at >= filter_created_after)
+        AND (filter_created_before IS NULL OR d.created_at <= filter_created_before)
+    ORDER BY rank DESC
+    LIMIT match_count;
+END;
+$$;
+
+-- Claim the next due job for a worker. Clients with the fewest running jobs go
+-- first and clients at p_max_per_client are skipped; SKIP LOCKED keeps
+-- concurrent workers from taking the same row.
+CREATE OR REPLACE FUNCTION claim_next_job(
+    p_worker_id TEXT,
+    p_max_per_client INT
+)
+RETURNS SETOF public.jobs
+LANGUAGE plpgsql
+AS $$
+DECLARE
+    claimed_id UUID;
+BEGIN
+    SELECT j.id INTO claimed_id
+    FROM public.jobs j
+    LEFT JOIN (
+        SELECT client_id, COUNT(*) AS running
+        FROM public.jobs
+        WHERE status = 'running'
+        GROUP BY client_id
+    ) r ON r.client_id = j.client_id
+    WHERE j.status = 'queued'
+        AND j.run_at <= NOW()
+        AND COALESCE(r.running, 0) < p_max_per_client
+    ORDER BY COALESCE(r.running, 0), j.created_at
+    LIMIT 1
+    FOR UPDATE OF j SKIP LOCKED;
+
+    IF claimed_id IS NULL THEN
+        RETURN;
+    END IF;
+
+    RETURN QUERY
+    UPDATE public.jobs
+    SET status = 'running',
+        attempts = attempts + 1,
+        locked_by = p_worker_id,
+        started_at = NOW(),
+        heartbeat_at = NOW()
+    WHERE id = claimed_id
+    RETURNING *;
+END;
+$$;
+
+-- Take a lock that is free or whose lease expired. Returns false while
+-- anyone, including p_holder, holds it.
+CREATE OR REPLACE FUNCTION acquire_lock(
+    p_name TEXT,
+    p_holder TEXT,
+    p_ttl_ms INT
+)
+RETURNS BOOLEAN
+LANGUAGE plpgsql
+AS $$
+DECLARE
+    acquired_name TEXT;
+BEGIN
+    INSERT INTO public.distributed_locks (name, holder, expires_at)
+    VALUES (p_name, p_holder, NOW() + p_ttl_ms * INTERVAL '1 millisecond')
+    ON CONFLICT (name) DO UPDATE
+        SET holder = EXCLUDED.holder,
+            expires_at = EXCLUDED.expires_at
+        WHERE public.distributed_locks.expires_at <= NOW()
+    RETURNING name INTO acquired_name;
+
+    RETURN acquired_name IS NOT NULL;
+END;
+$$;
+
+-- Extend a lease p_holder still holds
+CREATE OR REPLACE FUNCTION renew_lock(
+    p_name TEXT,
+    p_holder TEXT,
+    p_ttl_ms INT
+)
+RETURNS BOOLEAN
+LANGUAGE plpgsql
+AS $$
+BEGIN
+    UPDATE public.distributed_locks
+    SET expires_at = NOW() + p_ttl_ms * INTERVAL '1 millisecond'
+    WHERE name = p_name
+        AND holder = p_holder
+        AND expires_at > NOW();
+
+    RETURN FOUND;
+END;
+$$;
+
 -- Function to update updated_at timestamp
 CREATE OR REPLACE FUNCTION update_updated_at_column()
 RETURNS TRIGGER AS $$
@@ -280,6 +652,27 @@ INSERT INTO public.users (id, email, password_hash, name, client_id, role) VALUE
     'admin'
 );
 
+-- Clients directory database, synced every 2 hours during business hours
+INSERT INTO public.sync_sources (client_id, name, source_type, resource_id, cron, timezone) VALUES
+(
+    'f47ac10b-58cc-4372-a567-0e02b2c3d479',
+    'Clients',
+    'notion_clients',
+    '20f9a8eee622805ea2ecd18f3d424818',
+    '0 9-18/2 * * 1-5',
+    'America/New_York'
+)
+;
+
+-- Pages mentioning HTT are shared with the demo client
+INSERT INTO public.routing_rules (client_id, name, type, conditions) VALUES
+(
+    'f47ac10b-58cc-4372-a567-0e02b2c3d479',
+    'HTT keywords',
+    'keyword',
+    '{"keywords": ["HTT", "Health Tech", "HealthTech"], "fields": ["title", "content", "properties"]}'
+);
+
 -- Grant necessary permissions
 GRANT USAGE ON SCHEMA public TO postgres;
 GRANT ALL PRIVILEGES ON ALL TABLES IN SCHEMA public TO postgres;
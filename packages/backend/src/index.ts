@@ -6,18 +6,37 @@ import compression from 'compression';
 import morgan from 'morgan';
 
 import { logger } from './utils/logger';
+import { authMiddleware, requireRole, requireScope, requireUser } from './middleware/auth';
+import { errorHandler } from './middleware/errorHandler';
+import { globalRateLimit, userRateLimit, clientRateLimit } from './middleware/rateLimit';
 
 // Import routes
+import authRoutes from './routes/auth';
 import chatRoutes from './routes/chat';
+import documentRoutes from './routes/documents';
+import integrationRoutes from './routes/integrations';
+import analyticsRoutes from './routes/analytics';
+import jobRoutes from './routes/jobs';
 import adminRoutes from './routes/admin';
+import userRoutes from './routes/users';
+import tenantRoutes from './routes/tenants';
+import apiKeyRoutes from './routes/apiKeys';
 import webhookRoutes from './routes/webhooks';
 
 // Import services
 import { syncScheduler } from './services/syncScheduler';
+import { jobQueue, registerJobHandlers } from './services/jobs';
 
 const app = express();
 const PORT = process.env.PORT || 3000;
 
+// Behind a load balancer req.ip is the proxy's address unless Express trusts it.
+// TRUST_PROXY is the number of proxy hops (or "true" to trust all of them).
+if (process.env.TRUST_PROXY) {
+  const hops = Number(process.env.TRUST_PROXY);
+  app.set('trust proxy', Number.isInteger(hops) ? hops : process.env.TRUST_PROXY === 'true');
+}
+
 // Basic middleware
 app.use(helmet());
 app.use(compression());
@@ -25,7 +44,15 @@ app.use(cors({
   origin: process.env.FRONTEND_URL || 'http://localhost:5173',
   credentials: true
 }));
-app.use(express.json({ limit: '10mb' }));
+app.use(express.json({
+  limit: '10mb',
+  verify: (req, res, buf) => {
+    // Webhook signatures are computed over the exact bytes received
+    if (req.url?.startsWith('/api/webhooks/')) {
+      (req as express.Request).rawBody = buf;
+    }
+  },
+}));
 app.use(express.urlencoded({ extended: true, limit: '10mb' }));
 
 // Logging
@@ -40,10 +67,27 @@ app.get('/health', (req, res) => {
   });
 });
 
-// Routes
-app.use('/api/chat', chatRoutes);
-app.use('/api/admin', adminRoutes);
-app.use('/api/webhooks', webhookRoutes);
+// Rate limits per address, then per user and per client once authenticated.
+// authMiddleware also accepts client API keys; only chat, documents and jobs take them.
+const authenticated = [globalRateLimit, authMiddleware, userRateLimit, clientRateLimit];
+const signedIn = [...authenticated, requireUser];
+
+// Public routes
+app.use('/api/auth', globalRateLimit, authRoutes);
+app.use('/api/webhooks', webhookRoutes); // Verified by provider signatures, not JWTs
+
+// Tenant-scoped routes: the client and user come from the JWT, never the request
+app.use('/api/chat', ...authenticated, chatRoutes);
+app.use('/api/documents', ...authenticated, documentRoutes);
+app.use('/api/integrations', ...signedIn, integrationRoutes);
+app.use('/api/analytics', ...signedIn, analyticsRoutes);
+app.use('/api/jobs', ...authenticated, requireScope('documents:write'), jobRoutes); // Keys poll their uploads
+
+// Admin routes
+app.use('/api/users', ...signedIn, requireRole('admin'), userRoutes);
+app.use('/api/admin/tenants', ...signedIn, requireRole('admin'), tenantRoutes);
+app.use('/api/admin/api-keys', ...signedIn, requireRole('admin'), apiKeyRoutes);
+app.use('/api/admin', ...signedIn, requireRole('admin'), adminRoutes);
 
 // Basic test route
 app.get('/api/test', (req, res) => {
@@ -55,20 +99,20 @@ app.get('/api/test', (req, res) => {
 
 // 404 handler
 app.use((req, res) => {
-  res.status(404).json({ error: 'Route not found' });
-});
-
-// Basic error handler
-app.use((error: any, req: any, res: any, next: any) => {
-  logger.error('Request error:', error);
-  res.status(500).json({ 
-    error: 'Internal server error',
-    message: process.env.NODE_ENV === 'development' ? error.message : 'Something went wrong'
+  res.status(404).json({
+    error: {
+      code: 'NOT_FOUND',
+      message: 'Route not found',
+    },
   });
 });
 
+app.use(errorHandler);
+
 function startServer() {
   try {
+    registerJobHandlers();
+
     app.listen(PORT, () => {
       logger.info(`🚀 Asera LLM Backend running on port ${PORT}`);
       logger.info(`Environment: ${process.env.NODE_ENV || 'development'}`);
@@ -76,8 +120,9 @@ function startServer() {
       logger.info(`Test endpoint: http://localhost:${PORT}/api/test`);
       logger.info(`Admin API: http://localhost:${PORT}/api/admin`);
       
-      // Start the sync scheduler
+      // Start the sync scheduler and background job workers
       syncScheduler.start();
+      jobQueue.start();
     });
   } catch (error) {
     logger.error('Failed to start server:', error);
@@ -85,17 +130,15 @@ function startServer() {
   }
 }
 
-// Graceful shutdown
-process.on('SIGTERM', () => {
-  logger.info('SIGTERM received, shutting down gracefully');
-  syncScheduler.stop();
+// Graceful shutdown: let running jobs finish briefly; unfinished ones are requeued later
+async function shutdown(signal: string) {
+  logger.info(`${signal} received, shutting down gracefully`);
+  await syncScheduler.stop();
+  await jobQueue.stop();
   process.exit(0);
-});
+}
 
-process.on('SIGINT', () => {
-  logger.info('SIGINT received, shutting down gracefully');
-  syncScheduler.stop();
-  process.exit(0);
-});
+process.on('SIGTERM', () => shutdown('SIGTERM'));
+process.on('SIGINT', () => shutdown('SIGINT'));
 
 startServer(); 
\ No newline at end of file
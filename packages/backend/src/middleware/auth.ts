@@ -1,6 +1,9 @@
 import { Request, Response, NextFunction } from 'express';
 import * as jwt from 'jsonwebtoken';
+import { v4 as uuidv4 } from 'uuid';
 import { supabase } from '../utils/database';
+import { sessionService } from '../services/sessions';
+import { ApiKeyScope, apiKeyService } from '../services/apiKeys';
 import { logger } from '../utils/logger';
 import { AuthenticationError, AuthorizationError } from '../types/errors';
 
@@ -8,6 +11,8 @@ interface JWTPayload {
   userId: string;
   clientId: string;
   role: 'admin' | 'user';
+  sid?: string;
+  jti?: string;
   iat: number;
   exp: number;
 }
@@ -28,10 +33,25 @@ declare global {
         slug: string;
         settings: Record<string, any>;
       };
+      auth?: {
+        sessionId: string;
+        tokenId: string;
+      };
+      /** Set instead of user and auth when the request carries an API key */
+      apiKey?: {
+        id: string;
+        name: string;
+        scopes: ApiKeyScope[];
+      };
     }
   }
 }
 
+/**
+ * Accepts a user's access token or a client API key as the bearer token.
+ * API keys set req.client and req.apiKey but no req.user, so routes that act
+ * as a user need requireUser, and routes open to keys need requireScope.
+ */
 export async function authMiddleware(
   req: Request,
   res: Response,
@@ -45,6 +65,11 @@ export async function authMiddleware(
     }
 
     const token = authHeader.substring(7);
+
+    if (apiKeyService.isApiKey(token)) {
+      await authenticateApiKey(req, token);
+      return next();
+    }
     
     if (!process.env.JWT_SECRET) {
       throw new Error('JWT_SECRET environment variable not configured');
@@ -57,6 +82,15 @@ export async function authMiddleware(
 
     // Verify JWT token
     const payload = jwt.verify(token, process.env.JWT_SECRET) as JWTPayload;
+
+    // Tokens issued before sessions existed can't be revoked, so they're refused
+    if (!payload.sid || !payload.jti) {
+      throw new AuthenticationError('Token expired');
+    }
+
+    if (!(await sessionService.isSessionActive(payload.sid))) {
+      throw new AuthenticationError('Session has been revoked');
+    }
     
     // Fetch user from database
     const { data: user, error: userError } = await supabase
@@ -69,6 +103,10 @@ export async function authMiddleware(
       throw new AuthenticationError('Invalid user token');
     }
 
+    if (user.deactivated_at) {
+      throw new AuthenticationError('This account has been deactivated');
+    }
+
     // Fetch client from database
     const { data: client, error: clientError } = await supabase
       .from('clients')
@@ -80,6 +118,10 @@ export async function authMiddleware(
       throw new AuthenticationError('Invalid client token');
     }
 
+    if (client.status && client.status !== 'active') {
+      throw new AuthorizationError(`This client is ${client.status}`);
+    }
+
     // Verify user belongs to client
     if (user.client_id !== client.id) {
       throw new AuthorizationError('User does not belong to this client');
@@ -101,6 +143,11 @@ export async function authMiddleware(
       settings: client.settings,
     };
 
+    req.auth = {
+      sessionId: payload.sid,
+      tokenId: payload.jti,
+    };
+
     next();
   } catch (error) {
     if (error instanceof jwt.JsonWebTokenError) {
@@ -116,6 +163,53 @@ export async function authMiddleware(
   }
 }
 
+async function authenticateApiKey(req: Request, key: string): Promise<void> {
+  const { apiKey, client } = await apiKeyService.authenticate(key, req.ip);
+
+  if (client.status && client.status !== 'active') {
+    throw new AuthorizationError(`This client is ${client.status}`);
+  }
+
+  req.client = {
+    id: client.id,
+    name: client.name,
+    slug: client.slug,
+    settings: client.settings,
+  };
+
+  req.apiKey = {
+    id: apiKey.id,
+    name: apiKey.name,
+    scopes: apiKey.scopes,
+  };
+}
+
+/**
+ * Refuse API keys on routes that act as a signed-in user
+ */
+export function requireUser(req: Request, res: Response, next: NextFunction): void {
+  if (!req.user) {
+    throw req.apiKey
+      ? new AuthorizationError('API keys cannot be used for this endpoint')
+      : new AuthenticationError('User not authenticated');
+  }
+
+  next();
+}
+
+/**
+ * Let API keys through only with `scope`. Signed-in users aren't limited by scopes.
+ */
+export function requireScope(scope: ApiKeyScope) {
+  return (req: Request, res: Response, next: NextFunction): void => {
+    if (req.apiKey && !req.apiKey.scopes.includes(scope)) {
+      throw new AuthorizationError(`This API key needs the ${scope} scope`);
+    }
+
+    next();
+  };
+}
+
 export function requireRole(requiredRole: 'admin' | 'user') {
   return (req: Request, res: Response, next: NextFunction): void => {
     if (!req.user) {
@@ -130,10 +224,15 @@ export function requireRole(requiredRole: 'admin' | 'user') {
   };
 }
 
+/**
+ * Sign a short-lived access token bound to a session. Long-lived access is
+ * carried by the session's refresh token (see services/sessions).
+ */
 export function generateToken(user: {
   id: string;
   clientId: string;
   role: 'admin' | 'user';
+  sessionId: string;
 }): string {
   if (!process.env.JWT_SECRET) {
     throw new Error('JWT_SECRET environment variable not configured');
@@ -142,11 +241,12 @@ export function generateToken(user: {
   const payload = { 
     userId: user.id, 
     clientId: user.clientId,
-    role: user.role 
+    role: user.role,
+    sid: user.sessionId,
   };
   
   const secret = process.env.JWT_SECRET;
-  const options = { expiresIn: process.env.JWT_EXPIRES_IN || '7d' };
+  const options = { expiresIn: process.env.JWT_EXPIRES_IN || '15m', jwtid: uuidv4() };
 
   return (jwt as any).sign(payload, secret, options);
 } 
\ No newline at end of file
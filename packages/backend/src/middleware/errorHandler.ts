@@ -4,11 +4,28 @@ import {
   AuthenticationError,
   AuthorizationError,
   ValidationError,
+  NotFoundError,
   ConflictError,
   RateLimitError,
-  PayloadTooLargeError
+  PayloadTooLargeError,
+  UnsupportedFileTypeError,
+  DocumentParsingError
 } from '../types/errors';
 
+// Never write credentials to the logs
+const REDACTED_HEADERS = ['authorization', 'cookie', 'x-api-key'];
+const REDACTED_BODY_FIELDS = ['password', 'token', 'refresh_token', 'refreshToken', 'invitationToken'];
+
+function redact(values: Record<string, any> | undefined, keys: string[]): Record<string, any> | undefined {
+  if (!values || typeof values !== 'object') return values;
+
+  const copy = { ...values };
+  for (const key of keys) {
+    if (key in copy) copy[key] = '[REDACTED]';
+  }
+  return copy;
+}
+
 export function errorHandler(
   error: Error,
   req: Request,
@@ -30,8 +47,8 @@ export function errorHandler(
     request: {
       method: req.method,
       url: req.url,
-      headers: req.headers,
-      body: req.body,
+      headers: redact(req.headers, REDACTED_HEADERS),
+      body: redact(req.body, REDACTED_BODY_FIELDS),
       params: req.params,
       query: req.query,
       ip: req.ip,
@@ -72,6 +89,16 @@ export function errorHandler(
     });
   }
 
+  if (error instanceof NotFoundError) {
+    return res.status(error.statusCode).json({
+      error: {
+        code: error.code,
+        message: error.message,
+        details: error.details,
+      },
+    });
+  }
+
   if (error instanceof ConflictError) {
     return res.status(error.statusCode).json({
       error: {
@@ -83,6 +110,9 @@ export function errorHandler(
   }
 
   if (error instanceof RateLimitError) {
+    if (error.retryAfter !== undefined) {
+      res.setHeader('Retry-After', String(error.retryAfter));
+    }
     return res.status(error.statusCode).json({
       error: {
         code: error.code,
@@ -102,6 +132,26 @@ export function errorHandler(
     });
   }
 
+  if (error instanceof UnsupportedFileTypeError) {
+    return res.status(error.statusCode).json({
+      error: {
+        code: error.code,
+        message: error.message,
+        details: error.details,
+      },
+    });
+  }
+
+  if (error instanceof DocumentParsingError) {
+    return res.status(error.statusCode).json({
+      error: {
+        code: error.code,
+        message: error.message,
+        details: error.details,
+      },
+    });
+  }
+
   // Handle validation errors (from Joi or other validators)
   if (error.name === 'ValidationError') {
     return res.status(400).json({
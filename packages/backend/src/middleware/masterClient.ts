@@ -0,0 +1,19 @@
+import { Request, Response, NextFunction } from 'express';
+import { tenantService } from '../services/tenants';
+import { AuthorizationError } from '../types/errors';
+
+/**
+ * Only callers from the master client (MASTER_CLIENT) get through. Goes after
+ * requireRole('admin') on routes that act across tenants.
+ */
+export async function requireMasterClient(req: Request, res: Response, next: NextFunction): Promise<void> {
+  try {
+    const master = await tenantService.getMaster();
+    if (req.client?.id !== master.id) {
+      throw new AuthorizationError('Only admins of the master client can do this');
+    }
+    next();
+  } catch (error) {
+    next(error);
+  }
+}
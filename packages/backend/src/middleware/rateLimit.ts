@@ -1,17 +1,117 @@
 import { Request, Response, NextFunction } from 'express';
+import { RateLimiterAbstract, RateLimiterMemory, RateLimiterRedis, RateLimiterRes } from 'rate-limiter-flexible';
+import { getRedisClient, isRedisConfigured } from '../utils/redis';
 import { logger } from '../utils/logger';
+import { RateLimitError } from '../types/errors';
 
-// Simple in-memory rate limiting (for development)
-const requests = new Map<string, { count: number; resetTime: number }>();
+/**
+ * What a limit counts requests by. User and client limits only apply behind
+ * authMiddleware; without a user (or API key) or client the request isn't counted.
+ */
+export type RateLimitKey = 'ip' | 'user' | 'client';
 
-export function createRateLimit(options: { windowMs: number; max: number }) {
-  return (req: Request, res: Response, next: NextFunction) => {
-    // For now, just log and continue (disable rate limiting)
-    logger.debug('Rate limiting disabled for development');
-    next();
+export interface RateLimitOptions {
+  /** Counters are namespaced by name, so limits with the same key don't share them */
+  name: string;
+  keyBy: RateLimitKey;
+  windowMs: number;
+  max: number;
+}
+
+const limiters = new Map<string, Promise<RateLimiterAbstract>>();
+
+/**
+ * Counters live in Redis when REDIS_URL is set, so every backend instance
+ * shares them, and in process memory otherwise. RATE_LIMIT_STORE overrides.
+ * If Redis stops answering, a per-process memory limiter stands in.
+ */
+function getLimiter(options: RateLimitOptions): Promise<RateLimiterAbstract> {
+  let limiter = limiters.get(options.name);
+  if (!limiter) {
+    limiter = createLimiter(options);
+    limiters.set(options.name, limiter);
+    limiter.catch(() => limiters.delete(options.name));
+  }
+  return limiter;
+}
+
+async function createLimiter(options: RateLimitOptions): Promise<RateLimiterAbstract> {
+  const store = process.env.RATE_LIMIT_STORE || (isRedisConfigured() ? 'redis' : 'memory');
+  const settings = {
+    keyPrefix: `rate-limit:${options.name}`,
+    points: options.max,
+    duration: Math.ceil(options.windowMs / 1000),
+  };
+
+  if (store === 'redis') {
+    return new RateLimiterRedis({
+      ...settings,
+      storeClient: await getRedisClient(),
+      useRedisPackage: true,
+      insuranceLimiter: new RateLimiterMemory(settings),
+    });
+  }
+  if (store === 'memory') {
+    return new RateLimiterMemory(settings);
+  }
+  throw new Error(`Unknown RATE_LIMIT_STORE "${store}"`);
+}
+
+function keyFor(req: Request, keyBy: RateLimitKey): string | undefined {
+  switch (keyBy) {
+    case 'ip': return req.ip;
+    // An API key counts as a user of its own
+    case 'user': return req.user?.id || (req.apiKey && `api-key:${req.apiKey.id}`);
+    case 'client': return req.client?.id;
+  }
+}
+
+/**
+ * RateLimit-* headers (IETF draft) for the tightest limit applied to the request
+ */
+function setHeaders(res: Response, max: number, result: RateLimiterRes): void {
+  const current = res.getHeader('RateLimit-Remaining');
+  if (current !== undefined && Number(current) <= result.remainingPoints) {
+    return;
+  }
+
+  res.setHeader('RateLimit-Limit', String(max));
+  res.setHeader('RateLimit-Remaining', String(result.remainingPoints));
+  res.setHeader('RateLimit-Reset', String(Math.ceil(result.msBeforeNext / 1000)));
+}
+
+export function createRateLimit(options: RateLimitOptions) {
+  return async (req: Request, res: Response, next: NextFunction) => {
+    const key = keyFor(req, options.keyBy);
+    if (!key) {
+      return next();
+    }
+
+    try {
+      const limiter = await getLimiter(options);
+      setHeaders(res, options.max, await limiter.consume(key));
+      next();
+    } catch (rejection) {
+      if (rejection instanceof RateLimiterRes) {
+        setHeaders(res, options.max, rejection);
+        const retryAfter = Math.ceil(rejection.msBeforeNext / 1000);
+        return next(new RateLimitError('Too many requests, please try again later', { limit: options.name, retryAfter }, retryAfter));
+      }
+
+      // A broken limiter shouldn't take the API down with it
+      logger.error('Rate limiter failed; letting the request through:', { error: rejection, limit: options.name });
+      next();
+    }
   };
 }
 
-export const globalRateLimit = createRateLimit({ windowMs: 15 * 60 * 1000, max: 100 });
-export const authRateLimit = createRateLimit({ windowMs: 15 * 60 * 1000, max: 5 });
-export const uploadRateLimit = createRateLimit({ windowMs: 60 * 60 * 1000, max: 10 }); 
\ No newline at end of file
+// Every API request from an address, before authentication
+export const globalRateLimit = createRateLimit({ name: 'global', keyBy: 'ip', windowMs: 15 * 60 * 1000, max: 1000 });
+// Sign-in and registration attempts from an address
+export const authRateLimit = createRateLimit({ name: 'auth', keyBy: 'ip', windowMs: 15 * 60 * 1000, max: 10 });
+// Authenticated requests per user and per client (all of its users together)
+export const userRateLimit = createRateLimit({ name: 'user', keyBy: 'user', windowMs: 60 * 1000, max: 120 });
+export const clientRateLimit = createRateLimit({ name: 'client', keyBy: 'client', windowMs: 60 * 1000, max: 600 });
+// Expensive routes: chat calls Claude, uploads parse and embed files
+export const chatRateLimit = createRateLimit({ name: 'chat', keyBy: 'user', windowMs: 60 * 1000, max: 20 });
+export const uploadRateLimit = createRateLimit({ name: 'upload', keyBy: 'user', windowMs: 60 * 60 * 1000, max: 30 });
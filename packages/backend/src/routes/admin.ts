@@ -1,10 +1,22 @@
 import { Router, Request, Response } from 'express';
 import { syncScheduler } from '../services/syncScheduler';
+import { SyncMode, SyncRun, SyncRunSource, SyncRunStatus, SyncTrigger, syncRunService } from '../services/syncRuns';
+import { SyncSourceUpdate, syncSourceService } from '../services/syncSources';
 import { notionService } from '../services/notion';
+import { RoutingRuleUpdate, routingService } from '../services/routing';
+import { tenantService } from '../services/tenants';
+import { JOB_TYPES, NotionDatabaseSyncPayload, NotionSyncAllPayload, jobQueue } from '../services/jobs';
 import { ragService } from '../services/rag';
+import { hybridSearchService, HybridSearchResult } from '../services/hybridSearch';
+import { rerank, resolveRerankOptions } from '../services/reranking';
+import { DocumentSourceType } from '../services/vectorIndex';
 import { ClientDatabase } from '../utils/database';
 import { logger } from '../utils/logger';
+import { asyncHandler } from '../middleware/errorHandler';
+import { requireMasterClient } from '../middleware/masterClient';
+import { AuthorizationError, NotFoundError, ValidationError } from '../types/errors';
 import { analyticsService } from '../services/analytics';
+import { tokenBudgetService } from '../services/tokenBudgets';
 import { syncClientsFromNotion } from '../scripts/upload-clients';
 import { clientSyncService } from '../services/clientSync';
 import { createClient } from '@supabase/supabase-js';
@@ -14,19 +26,53 @@ const supabase = createClient(
   process.env.SUPABASE_SERVICE_KEY!
 );
 
+// Mounted behind authMiddleware + requireRole('admin'). Sync, routing, system and
+// client-management routes act on every tenant, so only master client admins get
+// them; the rest act on the caller's own client.
 const router = Router();
 
+router.use([
+  '/sync',
+  '/routing',
+  '/system',
+  '/test/notion',
+  '/clients/mapping',
+  '/clients/upload-from-notion',
+  '/clients/sync',
+  '/clients/status',
+], requireMasterClient);
+
+/**
+ * The client a per-tenant route acts on: the caller's own unless `requested`
+ * names another, which only master client admins may do
+ */
+async function targetClientId(req: Request, requested: unknown): Promise<string> {
+  if (requested === undefined || requested === '') {
+    return req.client!.id;
+  }
+
+  const clientId = await tenantService.resolveId(String(requested));
+  if (clientId !== req.client!.id && req.client!.id !== (await tenantService.getMaster()).id) {
+    throw new AuthorizationError("You cannot access another client's data");
+  }
+  return clientId;
+}
+
 // GET /api/admin/sync/status - Get sync scheduler status
 router.get('/sync/status', async (req: Request, res: Response) => {
   try {
-    const stats = syncScheduler.getStats();
-    const isHealthy = syncScheduler.isHealthy();
+    const [stats, isHealthy, locks] = await Promise.all([
+      syncScheduler.getStats(),
+      syncScheduler.isHealthy(),
+      syncScheduler.getLockStatus(),
+    ]);
 
     res.json({
       success: true,
       data: {
         isHealthy,
         stats,
+        locks,
         healthDetails: {
           hasRecentSync: stats.lastIncrementalSync || stats.lastFullSync ? true : false,
           successRate: stats.totalSyncs > 0 
@@ -48,7 +94,7 @@ router.get('/sync/status', async (req: Request, res: Response) => {
   }
 });
 
-// POST /api/admin/sync/trigger - Trigger manual sync
+// POST /api/admin/sync/trigger - Queue a manual sync; poll /api/jobs/:id for the result
 router.post('/sync/trigger', async (req: Request, res: Response) => {
   try {
     const { type = 'incremental' } = req.body;
@@ -62,13 +108,18 @@ router.post('/sync/trigger', async (req: Request, res: Response) => {
 
     logger.info('Manual sync requested via API:', { type });
     
-    const result = await syncScheduler.triggerManualSync(type);
+    const job = await jobQueue.enqueue<NotionSyncAllPayload>(
+      JOB_TYPES.notionSyncAll,
+      req.client!.id,
+      { type },
+      { createdBy: req.user!.id }
+    );
 
-    res.json({
-      success: result.success,
+    res.status(202).json({
+      success: true,
       data: {
-        message: result.message,
-        stats: result.stats,
+        message: `${type} sync queued`,
+        jobId: job.id,
         syncType: type,
       },
       timestamp: new Date().toISOString(),
@@ -82,14 +133,252 @@ router.post('/sync/trigger', async (req: Request, res: Response) => {
   }
 });
 
+const SYNC_RUN_FILTERS = {
+  source: ['notion', 'notion_clients'] as SyncRunSource[],
+  trigger: ['cron', 'manual', 'webhook'] as SyncTrigger[],
+  mode: ['incremental', 'full'] as SyncMode[],
+  status: ['running', 'succeeded', 'partial', 'failed'] as SyncRunStatus[],
+};
+
+function serializeSyncRun(run: SyncRun) {
+  return {
+    id: run.id,
+    source: run.source,
+    resourceId: run.resourceId,
+    resourceName: run.resourceName,
+    clientId: run.clientId ?? null,
+    trigger: run.trigger,
+    mode: run.mode,
+    status: run.status,
+    pages: {
+      seen: run.seen,
+      created: run.created,
+      updated: run.updated,
+      unchanged: run.unchanged,
+      deleted: run.deleted,
+      skipped: run.skipped,
+      failed: run.failed,
+    },
+    errorCount: run.errors.length,
+    startedAt: run.startedAt,
+    finishedAt: run.finishedAt,
+    durationMs: run.durationMs,
+  };
+}
+
+// GET /api/admin/sync/runs - Sync run history, newest first. Filters: source,
+// resourceId, clientId, trigger, mode, status, since, until (ISO dates), limit, offset
+router.get('/sync/runs', asyncHandler(async (req: Request, res: Response) => {
+  for (const [name, allowed] of Object.entries(SYNC_RUN_FILTERS)) {
+    const value = req.query[name] as string | undefined;
+    if (value && !(allowed as string[]).includes(value)) {
+      throw new ValidationError(`${name} must be one of: ${allowed.join(', ')}`);
+    }
+  }
+
+  for (const name of ['since', 'until']) {
+    const value = req.query[name] as string | undefined;
+    if (value && isNaN(Date.parse(value))) {
+      throw new ValidationError(`${name} must be an ISO date`);
+    }
+  }
+
+  const limit = Math.min(parseInt(req.query.limit as string) || 50, 200);
+  const offset = Math.max(parseInt(req.query.offset as string) || 0, 0);
+
+  const { runs, total } = await syncRunService.list({
+    source: req.query.source as SyncRunSource | undefined,
+    resourceId: req.query.resourceId as string | undefined,
+    clientId: req.query.clientId ? await tenantService.resolveId(req.query.clientId as string) : undefined,
+    trigger: req.query.trigger as SyncTrigger | undefined,
+    mode: req.query.mode as SyncMode | undefined,
+    status: req.query.status as SyncRunStatus | undefined,
+    since: req.query.since as string | undefined,
+    until: req.query.until as string | undefined,
+    limit,
+    offset,
+  });
+
+  res.json({
+    success: true,
+    data: {
+      runs: runs.map(serializeSyncRun),
+      total,
+      limit,
+      offset,
+    },
+  });
+}));
+
+// GET /api/admin/sync/runs/:id - One sync run, including its errors
+router.get('/sync/runs/:id', asyncHandler(async (req: Request, res: Response) => {
+  const run = await syncRunService.get(req.params.id);
+  if (!run) {
+    throw new NotFoundError('Sync run not found');
+  }
+
+  res.json({
+    success: true,
+    data: {
+      ...serializeSyncRun(run),
+      errors: run.errors,
+    },
+  });
+}));
+
+// Fields an admin may set on a sync source
+const SYNC_SOURCE_FIELDS = ['name', 'sourceType', 'resourceId', 'cron', 'fullSyncCron', 'timezone', 'enabled'] as const;
+
+function pickSyncSourceFields(body: Record<string, any>): SyncSourceUpdate {
+  const fields: Record<string, any> = {};
+  for (const field of SYNC_SOURCE_FIELDS) {
+    if (body[field] !== undefined) {
+      fields[field] = body[field];
+    }
+  }
+  return fields;
+}
+
+// GET /api/admin/sync/sources - Registered sync sources (optional ?clientId=)
+router.get('/sync/sources', asyncHandler(async (req: Request, res: Response) => {
+  const clientId = req.query.clientId as string | undefined;
+  const sources = await syncSourceService.list({
+    clientId: clientId ? await tenantService.resolveId(clientId) : undefined,
+  });
+
+  res.json({ success: true, data: { sources } });
+}));
+
+// GET /api/admin/sync/sources/:id
+router.get('/sync/sources/:id', asyncHandler(async (req: Request, res: Response) => {
+  const source = await syncSourceService.get(req.params.id);
+  res.json({ success: true, data: source });
+}));
+
+// POST /api/admin/sync/sources - Register a source; cron, fullSyncCron,
+// timezone and enabled have defaults. clientId defaults to the caller's client.
+router.post('/sync/sources', asyncHandler(async (req: Request, res: Response) => {
+  const { clientId = req.client!.id } = req.body;
+  const fields = pickSyncSourceFields(req.body);
+
+  const source = await syncSourceService.create({
+    ...fields,
+    clientId,
+    name: fields.name!,
+    sourceType: fields.sourceType!,
+    resourceId: fields.resourceId!,
+  });
+  await syncScheduler.reload();
+
+  res.status(201).json({ success: true, data: source });
+}));
+
+// PATCH /api/admin/sync/sources/:id - Change a source's schedule, type or enabled flag
+router.patch('/sync/sources/:id', asyncHandler(async (req: Request, res: Response) => {
+  const source = await syncSourceService.update(req.params.id, pickSyncSourceFields(req.body));
+  await syncScheduler.reload();
+
+  res.json({ success: true, data: source });
+}));
+
+// DELETE /api/admin/sync/sources/:id - Stop syncing a source (synced documents are kept)
+router.delete('/sync/sources/:id', asyncHandler(async (req: Request, res: Response) => {
+  await syncSourceService.delete(req.params.id);
+  await syncScheduler.reload();
+
+  res.json({ success: true, message: 'Sync source deleted' });
+}));
+
+const ROUTING_RULE_FIELDS = ['clientId', 'name', 'type', 'conditions', 'priority', 'stopProcessing', 'enabled'] as const;
+
+function pickRoutingRuleFields(body: Record<string, any>): RoutingRuleUpdate {
+  const fields: Record<string, any> = {};
+  for (const field of ROUTING_RULE_FIELDS) {
+    if (body[field] !== undefined) {
+      fields[field] = body[field];
+    }
+  }
+  return fields;
+}
+
+// GET /api/admin/routing/rules - Content routing rules in evaluation order (optional ?clientId=)
+router.get('/routing/rules', asyncHandler(async (req: Request, res: Response) => {
+  const clientId = req.query.clientId as string | undefined;
+  const rules = await routingService.list({
+    clientId: clientId ? await tenantService.resolveId(clientId) : undefined,
+  });
+
+  res.json({ success: true, data: { rules } });
+}));
+
+// GET /api/admin/routing/rules/:id
+router.get('/routing/rules/:id', asyncHandler(async (req: Request, res: Response) => {
+  const rule = await routingService.get(req.params.id);
+  res.json({ success: true, data: rule });
+}));
+
+// POST /api/admin/routing/rules - Add a rule; priority defaults to 0, stopProcessing
+// to false and enabled to true. Pages re-route on their next sync.
+router.post('/routing/rules', asyncHandler(async (req: Request, res: Response) => {
+  const fields = pickRoutingRuleFields(req.body);
+  if (!fields.clientId) {
+    throw new ValidationError('clientId is required');
+  }
+
+  const rule = await routingService.create({
+    ...fields,
+    clientId: fields.clientId,
+    name: fields.name!,
+    type: fields.type!,
+    conditions: fields.conditions!,
+  });
+
+  res.status(201).json({ success: true, data: rule });
+}));
+
+// PATCH /api/admin/routing/rules/:id
+router.patch('/routing/rules/:id', asyncHandler(async (req: Request, res: Response) => {
+  const rule = await routingService.update(req.params.id, pickRoutingRuleFields(req.body));
+  res.json({ success: true, data: rule });
+}));
+
+// DELETE /api/admin/routing/rules/:id
+router.delete('/routing/rules/:id', asyncHandler(async (req: Request, res: Response) => {
+  await routingService.delete(req.params.id);
+  res.json({ success: true, message: 'Routing rule deleted' });
+}));
+
+// POST /api/admin/routing/dry-run - Show which clients content would be routed
+// to and why, without syncing. Pass a Notion pageId, or title/content/properties/databaseId.
+router.post('/routing/dry-run', asyncHandler(async (req: Request, res: Response) => {
+  const { pageId, title = '', content = '', properties = {}, databaseId } = req.body;
+
+  if (pageId) {
+    const { page, decision } = await notionService.previewRouting(pageId);
+    return res.json({
+      success: true,
+      data: { page: { id: page.id, title: page.title, databaseId: page.databaseId }, ...decision },
+    });
+  }
+
+  if (!title && !content) {
+    throw new ValidationError('pageId, or title or content, is required');
+  }
+  if (typeof properties !== 'object' || Array.isArray(properties)) {
+    throw new ValidationError('properties must be an object of Notion page properties');
+  }
+
+  const decision = await routingService.route({ title, content, properties, databaseId });
+  res.json({ success: true, data: decision });
+}));
+
 // GET /api/admin/system/health - Get overall system health
 router.get('/system/health', async (req: Request, res: Response) => {
   try {
-    const syncStats = syncScheduler.getStats();
-    const syncHealthy = syncScheduler.isHealthy();
+    const [syncStats, syncHealthy] = await Promise.all([syncScheduler.getStats(), syncScheduler.isHealthy()]);
     
     // Get analytics metrics for health check
-    const analyticsMetrics = await analyticsService.getSearchMetrics('asera-master');
+    const analyticsMetrics = await analyticsService.getSearchMetrics((await tenantService.getMaster()).id);
     
     const systemHealth = {
       status: syncHealthy && analyticsMetrics.totalSearches > 0 ? 'healthy' : 'warning',
@@ -135,172 +424,154 @@ router.get('/system/health', async (req: Request, res: Response) => {
 });
 
 // POST /api/admin/test/rag - Test RAG functionality
-router.post('/test/rag', async (req: Request, res: Response) => {
-  try {
-    const { query, clientId = 'asera-master' } = req.body;
+router.post('/test/rag', asyncHandler(async (req: Request, res: Response) => {
+  const { query } = req.body;
 
-    if (!query) {
-      return res.status(400).json({
-        error: 'Query is required'
-      });
-    }
+  if (!query) {
+    throw new ValidationError('Query is required');
+  }
 
-    const clientDb = new ClientDatabase(clientId);
-    
-    // Test RAG response
-    const ragResponse = await ragService.generateRAGResponse(clientDb, query, {
-      model: 'claude-3-haiku-20240307'
-    });
+  const clientId = await targetClientId(req, req.body.clientId);
+  const clientDb = new ClientDatabase(clientId);
+  
+  // Test RAG response
+  const ragResponse = await ragService.generateRAGResponse(clientDb, query, {
+    model: 'claude-3-haiku-20240307'
+  });
 
-    res.json({
-      success: true,
+  res.json({
+    success: true,
+    query,
+    clientId,
+    response: ragResponse,
+    timestamp: new Date().toISOString()
+  });
+}));
+
+// GET /api/admin/debug/search - Debug hybrid search, showing each ranker's contribution
+router.get('/debug/search', asyncHandler(async (req: Request, res: Response) => {
+  const {
+    query = 'asera',
+    limit = '10',
+    vectorWeight,
+    fullTextWeight,
+    rrfK,
+    sources,
+    rerank: rerankParam,
+  } = req.query;
+  
+  const clientId = await targetClientId(req, req.query.clientId);
+  const clientDb = new ClientDatabase(clientId);
+  
+  const totalDocuments = await clientDb.documents.count();
+
+  const resultLimit = parseInt(limit as string, 10) || 10;
+  const rerankOptions = resolveRerankOptions(
+    (await clientDb.getClientSettings()).reranking,
+    rerankParam !== undefined ? rerankParam === 'true' : undefined
+  );
+
+  const search = await hybridSearchService.search(clientDb, query as string, {
+    limit: rerankOptions ? Math.max(rerankOptions.candidates, resultLimit) : resultLimit,
+    weights: {
+      vector: vectorWeight !== undefined ? parseFloat(vectorWeight as string) : undefined,
+      fullText: fullTextWeight !== undefined ? parseFloat(fullTextWeight as string) : undefined,
+      rrfK: rrfK !== undefined ? parseInt(rrfK as string, 10) : undefined,
+    },
+    sources: sources ? (sources as string).split(',') as DocumentSourceType[] : undefined,
+  });
+
+  let rerankTokens = 0;
+  const chunks: Array<HybridSearchResult & { rerank_score?: number }> = rerankOptions
+    ? await rerank(query as string, search.results, resultLimit, rerankOptions, tokenCount => { rerankTokens += tokenCount; })
+    : search.results;
+  await tokenBudgetService.record(clientDb, rerankTokens);
+  
+  res.json({
+    success: true,
+    debug: {
       query,
       clientId,
-      response: ragResponse,
-      timestamp: new Date().toISOString()
-    });
-
-  } catch (error) {
-    logger.error('RAG test failed:', { error });
-    res.status(500).json({
-      error: 'RAG test failed',
-      message: error instanceof Error ? error.message : 'Unknown error'
-    });
-  }
-});
-
-// GET /api/admin/debug/search - Debug search functionality
-router.get('/debug/search', async (req: Request, res: Response) => {
-  try {
-    const { query = 'asera', clientId = 'asera-master' } = req.query;
-    
-    const clientDb = new ClientDatabase(clientId as string);
-    
-    // Get all documents
-    const allDocs = await clientDb.getAllDocuments();
-    
-    // Search for chunks
-    const chunks = await clientDb.searchSimilarChunks(query as string, 10);
-    
-    // Search in document content directly
-    const docsWithContent = allDocs.filter(doc => 
-      doc.content?.toLowerCase().includes((query as string).toLowerCase())
-    );
-    
-    res.json({
-      success: true,
-      debug: {
-        query,
-        clientId,
-        totalDocuments: allDocs.length,
-        chunksFound: chunks.length,
-        documentsWithQueryInContent: docsWithContent.length,
-        documentTitles: allDocs.map(doc => ({
-          id: doc.id,
-          title: doc.title,
-          source: doc.source,
-          contentLength: doc.content?.length || 0,
-          hasQueryInTitle: doc.title?.toLowerCase().includes((query as string).toLowerCase()),
-          hasQueryInContent: doc.content?.toLowerCase().includes((query as string).toLowerCase())
-        })),
-        chunks: chunks.map(chunk => ({
-          id: chunk.id,
-          documentTitle: chunk.documents?.title,
-          contentSnippet: chunk.content.substring(0, 200) + '...',
-          chunkIndex: chunk.chunk_index
-        }))
-      },
-      timestamp: new Date().toISOString()
-    });
-    
-  } catch (error) {
-    logger.error('Debug search failed:', { error });
-    res.status(500).json({
-      error: 'Debug search failed',
-      message: error instanceof Error ? error.message : 'Unknown error'
-    });
-  }
-});
+      totalDocuments,
+      weights: search.weights,
+      embeddingProvider: search.embeddingProvider,
+      vectorResults: search.vectorResults,
+      fullTextResults: search.fullTextResults,
+      rerank: rerankOptions,
+      chunksFound: chunks.length,
+      chunks: chunks.map(chunk => ({
+        id: chunk.id,
+        documentTitle: chunk.documents?.title,
+        source: chunk.documents?.source,
+        contentSnippet: chunk.content.substring(0, 200) + '...',
+        chunkIndex: chunk.chunk_index,
+        score: chunk.score,
+        vector: chunk.rankers.vector || null,
+        fullText: chunk.rankers.fullText || null,
+        rerankScore: chunk.rerank_score ?? null,
+      }))
+    },
+    timestamp: new Date().toISOString()
+  });
+}));
 
 // GET /api/admin/analytics/popular-queries - Get popular search queries
-router.get('/analytics/popular-queries', async (req: Request, res: Response) => {
-  try {
-    const { clientId = 'asera-master', limit = 10 } = req.query;
-    
-    const popularQueries = await analyticsService.getPopularQueries(
-      clientId as string, 
-      parseInt(limit as string)
-    );
+router.get('/analytics/popular-queries', asyncHandler(async (req: Request, res: Response) => {
+  const { limit = 10 } = req.query;
+  const clientId = await targetClientId(req, req.query.clientId);
+  
+  const popularQueries = await analyticsService.getPopularQueries(
+    clientId,
+    parseInt(limit as string)
+  );
 
-    res.json({
-      success: true,
-      data: {
-        popularQueries,
-        totalQueries: popularQueries.length,
-        clientId,
-      },
-      timestamp: new Date().toISOString(),
-    });
-  } catch (error) {
-    logger.error('Failed to get popular queries:', { error });
-    res.status(500).json({
-      error: 'Failed to get analytics',
-      message: error instanceof Error ? error.message : 'Unknown error',
-    });
-  }
-});
+  res.json({
+    success: true,
+    data: {
+      popularQueries,
+      totalQueries: popularQueries.length,
+      clientId,
+    },
+    timestamp: new Date().toISOString(),
+  });
+}));
 
 // GET /api/admin/analytics/metrics - Get comprehensive search metrics
-router.get('/analytics/metrics', async (req: Request, res: Response) => {
-  try {
-    const { clientId = 'asera-master' } = req.query;
-    
-    const metrics = await analyticsService.getSearchMetrics(clientId as string);
+router.get('/analytics/metrics', asyncHandler(async (req: Request, res: Response) => {
+  const clientId = await targetClientId(req, req.query.clientId);
+  
+  const metrics = await analyticsService.getSearchMetrics(clientId);
 
-    res.json({
-      success: true,
-      data: {
-        ...metrics,
-        clientId,
-      },
-      timestamp: new Date().toISOString(),
-    });
-  } catch (error) {
-    logger.error('Failed to get search metrics:', { error });
-    res.status(500).json({
-      error: 'Failed to get search metrics',
-      message: error instanceof Error ? error.message : 'Unknown error',
-    });
-  }
-});
+  res.json({
+    success: true,
+    data: {
+      ...metrics,
+      clientId,
+    },
+    timestamp: new Date().toISOString(),
+  });
+}));
 
 // GET /api/admin/analytics/trending - Get trending queries
-router.get('/analytics/trending', async (req: Request, res: Response) => {
-  try {
-    const { clientId = 'asera-master', limit = 5 } = req.query;
-    
-    const trendingQueries = await analyticsService.getTrendingQueries(
-      clientId as string,
-      parseInt(limit as string)
-    );
+router.get('/analytics/trending', asyncHandler(async (req: Request, res: Response) => {
+  const { limit = 5 } = req.query;
+  const clientId = await targetClientId(req, req.query.clientId);
+  
+  const trendingQueries = await analyticsService.getTrendingQueries(
+    clientId,
+    parseInt(limit as string)
+  );
 
-    res.json({
-      success: true,
-      data: {
-        trendingQueries,
-        clientId,
-        timeframe: 'last 24 hours vs previous 24 hours',
-      },
-      timestamp: new Date().toISOString(),
-    });
-  } catch (error) {
-    logger.error('Failed to get trending queries:', { error });
-    res.status(500).json({
-      error: 'Failed to get trending queries',
-      message: error instanceof Error ? error.message : 'Unknown error',
-    });
-  }
-});
+  res.json({
+    success: true,
+    data: {
+      trendingQueries,
+      clientId,
+      timeframe: 'last 24 hours vs previous 24 hours',
+    },
+    timestamp: new Date().toISOString(),
+  });
+}));
 
 // POST /api/admin/test/notion - Test Notion integration
 router.post('/test/notion', async (req: Request, res: Response) => {
@@ -319,14 +590,17 @@ router.post('/test/notion', async (req: Request, res: Response) => {
       });
     }
 
-    // Test sync in background
-    notionService.syncNotionDatabase(databaseId, sourceType).catch(error => {
-      logger.error('Background Notion test failed:', { error, databaseId });
-    });
+    const job = await jobQueue.enqueue<NotionDatabaseSyncPayload>(
+      JOB_TYPES.notionDatabaseSync,
+      req.client!.id,
+      { databaseId, sourceType },
+      { createdBy: req.user!.id }
+    );
 
-    res.json({
+    res.status(202).json({
       success: true,
-      message: 'Notion sync test triggered',
+      message: 'Notion sync test queued',
+      jobId: job.id,
       databaseId,
       sourceType,
       timestamp: new Date().toISOString()
@@ -341,97 +615,73 @@ router.post('/test/notion', async (req: Request, res: Response) => {
   }
 });
 
-// POST /api/admin/clients/mapping - Add client mapping for data routing
-router.post('/clients/mapping', async (req: Request, res: Response) => {
-  try {
-    const { clientId, clientName, notionKeywords } = req.body;
-
-    if (!clientId || !clientName || !Array.isArray(notionKeywords)) {
-      return res.status(400).json({
-        error: 'clientId, clientName, and notionKeywords (array) are required'
-      });
-    }
-
-    notionService.addClientMapping({
-      clientId,
-      clientName,
-      notionKeywords
-    });
-
-    logger.info('Client mapping added via admin API:', { 
-      clientId, 
-      clientName, 
-      keywords: notionKeywords 
-    });
-
-    res.json({
-      success: true,
-      message: 'Client mapping added successfully',
-      mapping: { clientId, clientName, notionKeywords },
-      timestamp: new Date().toISOString()
-    });
+// POST /api/admin/clients/mapping - Route content mentioning any of the keywords
+// to a client. Kept for existing callers; creates a keyword routing rule.
+router.post('/clients/mapping', asyncHandler(async (req: Request, res: Response) => {
+  const { clientId, clientName, notionKeywords } = req.body;
 
-  } catch (error) {
-    logger.error('Failed to add client mapping:', { error });
-    res.status(500).json({
-      error: 'Failed to add client mapping',
-      message: error instanceof Error ? error.message : 'Unknown error'
-    });
+  if (!clientId || !clientName || !Array.isArray(notionKeywords)) {
+    throw new ValidationError('clientId, clientName, and notionKeywords (array) are required');
   }
-});
 
-// GET /api/admin/clients/:clientId/documents - Get documents for a client
-router.get('/clients/:clientId/documents', async (req: Request, res: Response) => {
-  try {
-    const { clientId } = req.params;
-    const { source, limit = '50' } = req.query;
+  const rule = await routingService.create({
+    clientId,
+    name: `${clientName} keywords`,
+    type: 'keyword',
+    conditions: { keywords: notionKeywords, fields: ['title', 'content', 'properties'] },
+  });
 
-    const clientDb = new ClientDatabase(clientId);
-    
-    let documents;
-    if (source) {
-      documents = await clientDb.getDocumentsBySource(source as string);
-    } else {
-      // Get all documents
-      documents = await clientDb.getAllDocuments();
-    }
+  logger.info('Client mapping added via admin API:', { 
+    clientId, 
+    clientName, 
+    keywords: notionKeywords,
+    ruleId: rule.id,
+  });
 
-    // Limit results
-    const limitNum = parseInt(limit as string);
-    const limitedDocs = documents.slice(0, limitNum);
+  res.json({
+    success: true,
+    message: 'Client mapping added successfully',
+    mapping: { clientId, clientName, notionKeywords },
+    rule,
+    timestamp: new Date().toISOString()
+  });
+}));
 
-    res.json({
-      success: true,
-      clientId,
-      documents: limitedDocs.map(doc => ({
-        id: doc.id,
-        title: doc.title,
-        source: doc.source,
-        contentLength: doc.content?.length || 0,
-        lastUpdated: doc.updated_at,
-        metadata: {
-          sourceId: doc.source_id,
-          syncedAt: doc.metadata?.syncedAt
-        }
-      })),
-      total: limitedDocs.length,
-      timestamp: new Date().toISOString()
-    });
+// GET /api/admin/clients/:clientId/documents - Get documents for a client
+router.get('/clients/:clientId/documents', asyncHandler(async (req: Request, res: Response) => {
+  const { source, limit = '50', offset = '0', cursor } = req.query;
+
+  const clientId = await targetClientId(req, req.params.clientId);
+  const clientDb = new ClientDatabase(clientId);
+  const page = await clientDb.documents.list({
+    source: source as DocumentSourceType | undefined,
+    limit: parseInt(limit as string),
+    offset: parseInt(offset as string),
+    cursor: cursor as string | undefined,
+  });
 
-  } catch (error) {
-    logger.error('Failed to get client documents:', { 
-      error, 
-      clientId: req.params.clientId 
-    });
-    res.status(500).json({
-      error: 'Failed to get client documents',
-      message: error instanceof Error ? error.message : 'Unknown error'
-    });
-  }
-});
+  res.json({
+    success: true,
+    clientId,
+    documents: page.items.map(doc => ({
+      id: doc.id,
+      title: doc.title,
+      source: doc.source,
+      contentLength: doc.content?.length || 0,
+      lastUpdated: doc.updated_at,
+      metadata: {
+        sourceId: doc.source_id,
+        syncedAt: doc.metadata?.syncedAt
+      }
+    })),
+    total: page.total,
+    nextCursor: page.nextCursor,
+    timestamp: new Date().toISOString()
+  });
+}));
 
 // GET /api/admin/system/status - Get basic system status
-router.get('/system/status', (req: Request, res: Response) => {
+router.get('/system/status', asyncHandler(async (req: Request, res: Response) => {
   const status = {
     server: {
       uptime: process.uptime(),
@@ -445,8 +695,8 @@ router.get('/system/status', (req: Request, res: Response) => {
       supabase: !!(process.env.SUPABASE_URL && process.env.SUPABASE_SERVICE_KEY),
     },
     sync: {
-      isHealthy: syncScheduler.isHealthy(),
-      stats: syncScheduler.getStats(),
+      isHealthy: await syncScheduler.isHealthy(),
+      stats: await syncScheduler.getStats(),
     },
     timestamp: new Date().toISOString()
   };
@@ -455,7 +705,7 @@ router.get('/system/status', (req: Request, res: Response) => {
     success: true,
     status
   });
-});
+}));
 
 // POST /api/admin/clients/upload-from-notion - Upload clients from Notion
 router.post('/clients/upload-from-notion', async (req: Request, res: Response) => {
@@ -483,43 +733,40 @@ router.post('/clients/upload-from-notion', async (req: Request, res: Response) =
   }
 });
 
-// POST /api/admin/clients/sync - Sync clients (incremental or full)
-router.post('/clients/sync', async (req: Request, res: Response) => {
-  try {
-    const { type = 'incremental', hoursBack = 2 } = req.body;
-    
-    if (!['incremental', 'full'].includes(type)) {
-      return res.status(400).json({
-        error: 'Invalid sync type',
-        message: 'Type must be "incremental" or "full"',
-      });
-    }
+// POST /api/admin/clients/sync - Sync clients (incremental or full) from a
+// registered clients database (`sourceId`, default the first enabled one)
+router.post('/clients/sync', asyncHandler(async (req: Request, res: Response) => {
+  const { type = 'incremental', hoursBack = 2, sourceId } = req.body;
+  
+  if (!['incremental', 'full'].includes(type)) {
+    throw new ValidationError('Type must be "incremental" or "full"');
+  }
 
-    logger.info('Client sync requested via API:', { type, hoursBack });
-    
-    let result;
-    if (type === 'full') {
-      result = await clientSyncService.syncAllClients();
-    } else {
-      const sinceDate = new Date(Date.now() - hoursBack * 60 * 60 * 1000);
-      result = await clientSyncService.syncUpdatedClients(sinceDate);
-    }
+  const source = sourceId
+    ? await syncSourceService.get(sourceId)
+    : (await syncSourceService.list({ sourceType: 'notion_clients', enabled: true }))[0];
 
-    res.json({
-      success: result.success,
-      message: `${type} client sync completed`,
-      stats: result.stats,
-      timestamp: new Date().toISOString()
-    });
+  if (!source || source.sourceType !== 'notion_clients') {
+    throw new ValidationError('Register a notion_clients sync source first');
+  }
 
-  } catch (error) {
-    logger.error('Failed to sync clients:', { error });
-    res.status(500).json({
-      error: 'Failed to sync clients',
-      message: error instanceof Error ? error.message : 'Unknown error'
-    });
+  logger.info('Client sync requested via API:', { type, hoursBack, sourceId: source.id });
+  
+  let result;
+  if (type === 'full') {
+    result = await clientSyncService.syncAllClients(source.resourceId);
+  } else {
+    const sinceDate = new Date(Date.now() - hoursBack * 60 * 60 * 1000);
+    result = await clientSyncService.syncUpdatedClients(source.resourceId, sinceDate);
   }
-});
+
+  res.json({
+    success: result.success,
+    message: `${type} client sync completed`,
+    stats: result.stats,
+    timestamp: new Date().toISOString()
+  });
+}));
 
 // GET /api/admin/clients/status - Get client sync status
 router.get('/clients/status', async (req: Request, res: Response) => {
@@ -1,4 +1,5 @@
 import { Router, Request, Response } from 'express';
+import { tokenBudgetService } from '../services/tokenBudgets';
 import { ClientDatabase } from '../utils/database';
 import { logger } from '../utils/logger';
 import { asyncHandler } from '../middleware/errorHandler';
@@ -34,4 +35,15 @@ router.get('/usage', asyncHandler(async (req: Request, res: Response) => {
   }
 }));
 
+// GET /api/analytics/token-usage - Claude tokens used against the client's daily and monthly budgets
+router.get('/token-usage', asyncHandler(async (req: Request, res: Response) => {
+  const clientDb = new ClientDatabase(req.client!.id);
+  const usage = await tokenBudgetService.getUsage(clientDb);
+
+  res.json({
+    usage,
+    client_id: req.client!.id,
+  });
+}));
+
 export default router; 
\ No newline at end of file
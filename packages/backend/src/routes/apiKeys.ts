@@ -0,0 +1,38 @@
+import { Router, Request, Response } from 'express';
+import { asyncHandler } from '../middleware/errorHandler';
+import { apiKeyService } from '../services/apiKeys';
+
+// Client admins manage their own client's API keys. Mounted behind
+// authMiddleware, requireUser and requireRole('admin'), so req.user and req.client are set.
+const router = Router();
+
+// GET /api/admin/api-keys - List the client's keys (never the keys themselves)
+router.get('/', asyncHandler(async (req: Request, res: Response) => {
+  const apiKeys = await apiKeyService.listKeys(req.client!.id);
+  res.json({ api_keys: apiKeys });
+}));
+
+// POST /api/admin/api-keys - Create a key: { name, scopes, expires_at?, allowed_ips? }.
+// The response is the only time `key` is shown.
+router.post('/', asyncHandler(async (req: Request, res: Response) => {
+  const { name, scopes, expires_at: expiresAt, allowed_ips: allowedIps } = req.body;
+
+  const { apiKey, key } = await apiKeyService.createKey({
+    clientId: req.client!.id,
+    name,
+    scopes,
+    expiresAt,
+    allowedIps,
+    createdBy: req.user!.id,
+  });
+
+  res.status(201).json({ api_key: apiKey, key });
+}));
+
+// DELETE /api/admin/api-keys/:id - Revoke a key
+router.delete('/:id', asyncHandler(async (req: Request, res: Response) => {
+  const apiKey = await apiKeyService.revokeKey(req.client!.id, req.params.id, req.user!.id);
+  res.json({ success: true, api_key: apiKey });
+}));
+
+export default router;
@@ -1,15 +1,26 @@
 import { Router, Request, Response } from 'express';
 import bcrypt from 'bcryptjs';
 import { supabase } from '../utils/database';
-import { generateToken } from '../middleware/auth';
+import { authMiddleware, requireUser } from '../middleware/auth';
+import { authRateLimit } from '../middleware/rateLimit';
+import { sessionService } from '../services/sessions';
+import { invitationService } from '../services/invitations';
 import { logger } from '../utils/logger';
 import { asyncHandler } from '../middleware/errorHandler';
-import { AuthenticationError, ValidationError } from '../types/errors';
+import { AuthenticationError, AuthorizationError, ConflictError, NotFoundError, ValidationError } from '../types/errors';
 
 const router = Router();
 
+// Device details recorded on a new session
+function sessionContext(req: Request) {
+  return {
+    userAgent: req.get('user-agent'),
+    ipAddress: req.ip,
+  };
+}
+
 // POST /api/auth/login - User login
-router.post('/login', asyncHandler(async (req: Request, res: Response) => {
+router.post('/login', authRateLimit, asyncHandler(async (req: Request, res: Response) => {
   const { email, password } = req.body;
 
   if (!email || !password) {
@@ -38,12 +49,9 @@ router.post('/login', asyncHandler(async (req: Request, res: Response) => {
       throw new AuthenticationError('Invalid email or password');
     }
 
-    // Generate JWT token
-    const token = generateToken({
-      id: user.id,
-      clientId: user.client_id,
-      role: user.role,
-    });
+    if (user.deactivated_at) {
+      throw new AuthenticationError('This account has been deactivated');
+    }
 
     // Get client information
     const { data: client } = await supabase
@@ -52,14 +60,27 @@ router.post('/login', asyncHandler(async (req: Request, res: Response) => {
       .eq('id', user.client_id)
       .single();
 
+    if (client?.status && client.status !== 'active') {
+      throw new AuthorizationError(`This client is ${client.status}`);
+    }
+
+    const session = await sessionService.createSession({
+      id: user.id,
+      clientId: user.client_id,
+      role: user.role,
+    }, sessionContext(req));
+
     logger.info('User logged in:', {
       userId: user.id,
       email: user.email,
       clientId: user.client_id,
+      sessionId: session.sessionId,
     });
 
     res.json({
-      token,
+      token: session.accessToken,
+      refresh_token: session.refreshToken,
+      expires_in: session.expiresIn,
       user: {
         id: user.id,
         email: user.email,
@@ -75,45 +96,48 @@ router.post('/login', asyncHandler(async (req: Request, res: Response) => {
   }
 }));
 
-// POST /api/auth/register - User registration (admin only or invitation-based)
-router.post('/register', asyncHandler(async (req: Request, res: Response) => {
-  const { email, password, name, clientId, invitationToken } = req.body;
+// POST /api/auth/register - Accept an invitation and create the account
+router.post('/register', authRateLimit, asyncHandler(async (req: Request, res: Response) => {
+  const { email, password, name, invitationToken } = req.body;
 
-  if (!email || !password || !name || !clientId) {
-    throw new ValidationError('Email, password, name, and clientId are required');
+  if (!password || !name || !invitationToken) {
+    throw new ValidationError('Password, name, and invitationToken are required');
   }
 
   if (!supabase) {
     throw new Error('Database not configured');
   }
 
-  try {
-    // Verify invitation token or admin permissions here
-    // For now, we'll allow registration with a valid client ID
+  // The invitation decides the client and role, never the request body
+  const invitation = await invitationService.verify(invitationToken);
 
-    // Check if user already exists
-    const { data: existingUser } = await supabase
-      .from('users')
-      .select('id')
-      .eq('email', email.toLowerCase())
-      .single();
+  if (email && email.toLowerCase() !== invitation.email) {
+    throw new ValidationError('Email does not match the invitation');
+  }
 
-    if (existingUser) {
-      throw new ValidationError('User with this email already exists');
-    }
+  const { data: existingUser } = await supabase
+    .from('users')
+    .select('id')
+    .eq('email', invitation.email)
+    .maybeSingle();
+
+  if (existingUser) {
+    throw new ConflictError('User with this email already exists');
+  }
+
+  const passwordHash = await bcrypt.hash(password, 12);
 
-    // Hash password
-    const passwordHash = await bcrypt.hash(password, 12);
+  await invitationService.claim(invitation.id);
 
-    // Create user
+  try {
     const { data: newUser, error: createError } = await supabase
       .from('users')
       .insert({
-        email: email.toLowerCase(),
+        email: invitation.email,
         password_hash: passwordHash,
         name,
-        client_id: clientId,
-        role: 'user',
+        client_id: invitation.client_id,
+        role: invitation.role,
         created_at: new Date().toISOString(),
         updated_at: new Date().toISOString(),
       })
@@ -124,21 +148,25 @@ router.post('/register', asyncHandler(async (req: Request, res: Response) => {
       throw new Error('Failed to create user account');
     }
 
-    // Generate JWT token
-    const token = generateToken({
+    await invitationService.markAccepted(invitation.id, newUser.id);
+
+    const session = await sessionService.createSession({
       id: newUser.id,
       clientId: newUser.client_id,
       role: newUser.role,
-    });
+    }, sessionContext(req));
 
     logger.info('User registered:', {
       userId: newUser.id,
       email: newUser.email,
       clientId: newUser.client_id,
+      invitationId: invitation.id,
     });
 
     res.status(201).json({
-      token,
+      token: session.accessToken,
+      refresh_token: session.refreshToken,
+      expires_in: session.expiresIn,
       user: {
         id: newUser.id,
         email: newUser.email,
@@ -148,27 +176,66 @@ router.post('/register', asyncHandler(async (req: Request, res: Response) => {
       },
     });
   } catch (error) {
-    logger.error('Registration failed:', { error, email });
+    await invitationService.release(invitation.id);
+    logger.error('Registration failed:', { error, invitationId: invitation.id });
     throw error;
   }
 }));
 
-// POST /api/auth/refresh - Refresh JWT token
+// POST /api/auth/refresh - Exchange a refresh token for a new token pair
 router.post('/refresh', asyncHandler(async (req: Request, res: Response) => {
-  // This would typically use a refresh token mechanism
-  // For simplicity, we'll require re-authentication
-  res.status(401).json({
-    error: {
-      code: 'TOKEN_REFRESH_NOT_IMPLEMENTED',
-      message: 'Please log in again',
-    },
+  const { refresh_token: refreshToken } = req.body;
+
+  if (!refreshToken || typeof refreshToken !== 'string') {
+    throw new ValidationError('refresh_token is required');
+  }
+
+  const session = await sessionService.refresh(refreshToken);
+
+  res.json({
+    token: session.accessToken,
+    refresh_token: session.refreshToken,
+    expires_in: session.expiresIn,
   });
 }));
 
-// POST /api/auth/logout - User logout
-router.post('/logout', asyncHandler(async (req: Request, res: Response) => {
-  // In a more sophisticated setup, you might invalidate the token
+// POST /api/auth/logout - Revoke the current session
+router.post('/logout', authMiddleware, requireUser, asyncHandler(async (req: Request, res: Response) => {
+  await sessionService.revokeSession(req.auth!.sessionId, 'logout');
+
+  logger.info('User logged out:', { userId: req.user!.id, sessionId: req.auth!.sessionId });
+
   res.json({ success: true, message: 'Logged out successfully' });
 }));
 
+// GET /api/auth/sessions - List the current user's active sessions
+router.get('/sessions', authMiddleware, requireUser, asyncHandler(async (req: Request, res: Response) => {
+  const sessions = await sessionService.listSessions(req.user!.id);
+
+  res.json({
+    sessions: sessions.map(session => ({
+      ...session,
+      current: session.id === req.auth!.sessionId,
+    })),
+  });
+}));
+
+// DELETE /api/auth/sessions/:id - Revoke one of the current user's sessions
+router.delete('/sessions/:id', authMiddleware, requireUser, asyncHandler(async (req: Request, res: Response) => {
+  const revoked = await sessionService.revokeSession(req.params.id, 'user_revoked', req.user!.id);
+
+  if (!revoked) {
+    throw new NotFoundError('Session not found');
+  }
+
+  res.json({ success: true });
+}));
+
+// DELETE /api/auth/sessions - Revoke every session except the current one
+router.delete('/sessions', authMiddleware, requireUser, asyncHandler(async (req: Request, res: Response) => {
+  const revoked = await sessionService.revokeAllSessions(req.user!.id, 'user_revoked', req.auth!.sessionId);
+
+  res.json({ success: true, revoked });
+}));
+
 export default router; 
\ No newline at end of file
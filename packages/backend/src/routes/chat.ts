@@ -1,68 +1,374 @@
 import { Router, Request, Response } from 'express';
-import { claudeService } from '../services/claude';
-import { ragService } from '../services/rag';
+import { v4 as uuidv4 } from 'uuid';
+import { ragService, RAGOptions, RAGResponse } from '../services/rag';
+import { ChatMessage } from '../services/claude';
+import { ConversationOwner, ConversationRecord, ConversationSort, SortDirection } from '../services/repositories';
+import { parseRequestRerankOption } from '../services/reranking';
+import { tokenBudgetService } from '../services/tokenBudgets';
 import { ClientDatabase } from '../utils/database';
 import { logger } from '../utils/logger';
+import { asyncHandler } from '../middleware/errorHandler';
+import { chatRateLimit } from '../middleware/rateLimit';
+import { requireScope, requireUser } from '../middleware/auth';
+import { NotFoundError, ValidationError } from '../types/errors';
 
 const router = Router();
 
+const CHAT_MODEL = 'claude-3-haiku-20240307'; // Fast and cost-effective for demos
+const MAX_HISTORY_MESSAGES = 20; // Earlier turns sent to Claude as context
+const MAX_TITLE_LENGTH = 80;
+
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+/**
+ * Chats belong to the signed-in user, or to the API key sending them
+ */
+function ownerOf(req: Request): ConversationOwner {
+  return req.user ? { userId: req.user.id } : { apiKeyId: req.apiKey!.id };
+}
+
+/**
+ * Derive a conversation title from its first message
+ */
+function titleFromMessage(message: string): string {
+  const singleLine = message.replace(/\s+/g, ' ').trim();
+  return singleLine.length > MAX_TITLE_LENGTH
+    ? `${singleLine.substring(0, MAX_TITLE_LENGTH - 3)}...`
+    : singleLine;
+}
+
+/**
+ * Write a single server-sent event
+ */
+function writeEvent(res: Response, event: string, data: unknown): void {
+  res.write(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`);
+}
+
+/**
+ * Store the assistant's answer with the sources it cited
+ */
+async function saveAssistantMessage(
+  clientDb: ClientDatabase,
+  conversationId: string,
+  messageId: string,
+  response: RAGResponse,
+  model: string
+): Promise<void> {
+  await clientDb.messages.insert({
+    id: messageId,
+    conversationId,
+    role: 'assistant',
+    content: response.answer,
+    metadata: {
+      sources: response.sources.map(source => ({
+        document_id: source.documentId,
+        chunk_id: source.chunkId,
+        similarity_score: source.relevanceScore,
+        title: source.title,
+        source: source.source,
+      })),
+      token_count: response.tokenCount,
+      model,
+    },
+  });
+  await clientDb.conversations.touch(conversationId);
+}
+
 // POST /api/chat - Send a chat message
-router.post('/', async (req: Request, res: Response) => {
-  try {
-    const { message } = req.body;
+// With `stream: true` the response is a text/event-stream of `start`, `sources`,
+// `token` and `done` events (or `error` if generation fails mid-stream).
+// `rerank` is a boolean, or { candidates, lambda, maxPerDocument } to tune the
+// client's reranker; the reranking model is always the client's own.
+// 429 once the client's daily or monthly token budget is used up.
+// API keys need the chat:write scope and can only continue their own conversations.
+router.post('/', requireScope('chat:write'), chatRateLimit, asyncHandler(async (req: Request, res: Response) => {
+  const { message, conversation_id: conversationId, stream = false } = req.body;
+  const clientId = req.client!.id;
+  const owner = ownerOf(req);
 
-    if (!message || typeof message !== 'string') {
-      return res.status(400).json({
-        error: 'Message is required and must be a string'
-      });
-    }
+  if (!message || typeof message !== 'string') {
+    throw new ValidationError('Message is required and must be a string');
+  }
 
-    logger.info('Chat request received:', {
-      messageLength: message.length,
-      timestamp: new Date().toISOString()
+  if (conversationId !== undefined && (typeof conversationId !== 'string' || !UUID_PATTERN.test(conversationId))) {
+    throw new ValidationError('conversation_id must be a UUID');
+  }
+
+  const rerank = parseRequestRerankOption(req.body.rerank);
+
+  logger.info('Chat request received:', {
+    messageLength: message.length,
+    conversationId,
+    stream: !!stream,
+    clientId,
+    userId: req.user?.id,
+    apiKeyId: req.apiKey?.id,
+  });
+
+  const clientDb = new ClientDatabase(clientId);
+
+  // Refuse before anything is saved, and while a stream can still answer 429
+  await tokenBudgetService.assertAvailable(clientDb);
+
+  // Resume the requested conversation, or start a new one
+  let conversation: ConversationRecord | null;
+  if (conversationId) {
+    conversation = await clientDb.conversations.get(conversationId, owner);
+    if (!conversation) {
+      throw new NotFoundError('Conversation not found');
+    }
+  } else {
+    conversation = await clientDb.conversations.create({
+      id: uuidv4(),
+      owner,
+      title: titleFromMessage(message),
     });
+  }
+
+  const history: ChatMessage[] = (await clientDb.messages.recent(conversation.id, MAX_HISTORY_MESSAGES))
+    .filter(previous => previous.role === 'user' || previous.role === 'assistant')
+    .map(previous => ({ role: previous.role as ChatMessage['role'], content: previous.content }));
+
+  await clientDb.messages.insert({
+    id: uuidv4(),
+    conversationId: conversation.id,
+    role: 'user',
+    content: message,
+    metadata: {},
+  });
 
-    // Use RAG to generate contextual response
-    // Default to 'asera-master' if no specific client context
-    const clientId = req.query.clientId as string || 'asera-master';
-    const clientDb = new ClientDatabase(clientId);
+  const assistantMessageId = uuidv4();
 
-    const ragResponse = await ragService.generateRAGResponse(clientDb, message, {
-      model: 'claude-3-haiku-20240307', // Fast and cost-effective for demos
+  if (stream) {
+    return streamChatResponse(res, {
+      clientDb,
+      clientId,
+      message,
+      history,
+      rerank,
+      conversationId: conversation.id,
+      assistantMessageId,
     });
+  }
 
-    logger.info('RAG response generated:', {
-      query: message.substring(0, 100),
-      responseLength: ragResponse.answer.length,
-      sourcesUsed: ragResponse.sources.length,
+  const ragResponse = await ragService.generateRAGResponse(clientDb, message, {
+    model: CHAT_MODEL,
+    history,
+    rerank,
+  });
+
+  await saveAssistantMessage(clientDb, conversation.id, assistantMessageId, ragResponse, CHAT_MODEL);
+
+  logger.info('RAG response generated:', {
+    query: message.substring(0, 100),
+    responseLength: ragResponse.answer.length,
+    sourcesUsed: ragResponse.sources.length,
+    tokenCount: ragResponse.tokenCount,
+    conversationId: conversation.id,
+    historyMessages: history.length,
+    clientId
+  });
+
+  res.json({
+    success: true,
+    response: ragResponse.answer,
+    sources: ragResponse.sources,
+    conversation_id: conversation.id,
+    message_id: assistantMessageId,
+    metadata: {
+      model: CHAT_MODEL,
       tokenCount: ragResponse.tokenCount,
-      clientId
-    });
+      sourcesUsed: ragResponse.sources.length,
+      clientId,
+      timestamp: new Date().toISOString()
+    }
+  });
+}));
+
+/**
+ * Stream a RAG answer to the client as server-sent events
+ */
+async function streamChatResponse(
+  res: Response,
+  context: {
+    clientDb: ClientDatabase;
+    clientId: string;
+    message: string;
+    history: ChatMessage[];
+    rerank?: RAGOptions['rerank'];
+    conversationId: string;
+    assistantMessageId: string;
+  }
+): Promise<void> {
+  const { clientDb, clientId, message, history, rerank, conversationId, assistantMessageId } = context;
+
+  // no-transform keeps the compression middleware from buffering the stream
+  res.status(200);
+  res.setHeader('Content-Type', 'text/event-stream');
+  res.setHeader('Cache-Control', 'no-cache, no-transform');
+  res.setHeader('Connection', 'keep-alive');
+  res.setHeader('X-Accel-Buffering', 'no');
+  res.flushHeaders();
 
-    res.json({
-      success: true,
-      response: ragResponse.answer,
-      sources: ragResponse.sources,
-      metadata: {
-        model: 'claude-3-haiku-20240307',
-        tokenCount: ragResponse.tokenCount,
-        sourcesUsed: ragResponse.sources.length,
-        clientId,
-        timestamp: new Date().toISOString()
+  let clientDisconnected = false;
+  res.on('close', () => {
+    if (!res.writableEnded) {
+      clientDisconnected = true;
+    }
+  });
+
+  writeEvent(res, 'start', {
+    conversation_id: conversationId,
+    message_id: assistantMessageId,
+  });
+
+  try {
+    for await (const event of ragService.streamRAGResponse(clientDb, message, {
+      model: CHAT_MODEL,
+      history,
+      rerank,
+    })) {
+      if (clientDisconnected) {
+        logger.info('Client disconnected, aborting chat stream:', { conversationId, clientId });
+        break;
       }
-    });
 
+      if (event.type === 'sources') {
+        writeEvent(res, 'sources', { sources: event.sources });
+      } else if (event.type === 'token') {
+        writeEvent(res, 'token', { text: event.text });
+      } else {
+        await saveAssistantMessage(clientDb, conversationId, assistantMessageId, event, CHAT_MODEL);
+
+        logger.info('Streamed RAG response generated:', {
+          query: message.substring(0, 100),
+          responseLength: event.answer.length,
+          sourcesUsed: event.sources.length,
+          tokenCount: event.tokenCount,
+          conversationId,
+          clientId
+        });
+
+        writeEvent(res, 'done', {
+          conversation_id: conversationId,
+          message_id: assistantMessageId,
+          metadata: {
+            model: event.model,
+            tokenCount: event.tokenCount,
+            sourcesUsed: event.sources.length,
+            clientId,
+            timestamp: new Date().toISOString()
+          }
+        });
+      }
+    }
   } catch (error) {
-    logger.error('Chat request failed:', {
+    logger.error('Chat stream failed:', {
       error: error instanceof Error ? error.message : 'Unknown error',
-      stack: error instanceof Error ? error.stack : undefined
+      stack: error instanceof Error ? error.stack : undefined,
+      conversationId
     });
 
-    res.status(500).json({
-      error: 'Failed to generate response',
-      message: error instanceof Error ? error.message : 'Unknown error'
-    });
+    if (!clientDisconnected) {
+      writeEvent(res, 'error', {
+        error: 'Failed to generate response',
+        message: error instanceof Error ? error.message : 'Unknown error'
+      });
+    }
+  } finally {
+    res.end();
   }
-});
+}
+
+// Conversation management is for signed-in users; API keys only send messages
+router.use('/conversations', requireUser);
+
+// GET /api/chat/conversations - List the current user's conversations
+// (?limit, ?offset or ?cursor, ?search, ?sort=updated_at|created_at|title, ?order=asc|desc)
+router.get('/conversations', asyncHandler(async (req: Request, res: Response) => {
+  const clientDb = new ClientDatabase(req.client!.id);
+  const page = await clientDb.conversations.list({ userId: req.user!.id }, {
+    limit: parseInt(req.query.limit as string) || 20,
+    offset: parseInt(req.query.offset as string) || 0,
+    cursor: req.query.cursor as string | undefined,
+    search: req.query.search as string | undefined,
+    sort: req.query.sort as ConversationSort | undefined,
+    order: req.query.order as SortDirection | undefined,
+  });
+
+  res.json({
+    success: true,
+    conversations: page.items,
+    pagination: {
+      limit: page.limit,
+      offset: page.offset,
+      count: page.items.length,
+      total: page.total,
+      nextCursor: page.nextCursor,
+    },
+  });
+}));
+
+// GET /api/chat/conversations/:id - Get a conversation with its messages
+router.get('/conversations/:id', asyncHandler(async (req: Request, res: Response) => {
+  const clientDb = new ClientDatabase(req.client!.id);
+
+  const conversation = await clientDb.conversations.get(req.params.id, { userId: req.user!.id });
+  if (!conversation) {
+    throw new NotFoundError('Conversation not found');
+  }
+
+  const messages = await clientDb.messages.recent(conversation.id);
+
+  res.json({
+    success: true,
+    conversation,
+    messages,
+  });
+}));
+
+// PATCH /api/chat/conversations/:id - Rename a conversation
+router.patch('/conversations/:id', asyncHandler(async (req: Request, res: Response) => {
+  const { title } = req.body;
+
+  if (!title || typeof title !== 'string' || !title.trim()) {
+    throw new ValidationError('Title is required and must be a non-empty string');
+  }
+
+  const clientDb = new ClientDatabase(req.client!.id);
+
+  const conversation = await clientDb.conversations.rename(
+    req.params.id,
+    { userId: req.user!.id },
+    title.trim().substring(0, 255)
+  );
+
+  if (!conversation) {
+    throw new NotFoundError('Conversation not found');
+  }
+
+  res.json({
+    success: true,
+    conversation,
+  });
+}));
+
+// DELETE /api/chat/conversations/:id - Delete a conversation and its messages
+router.delete('/conversations/:id', asyncHandler(async (req: Request, res: Response) => {
+  const clientDb = new ClientDatabase(req.client!.id);
+
+  const deleted = await clientDb.conversations.delete(req.params.id, { userId: req.user!.id });
+  if (!deleted) {
+    throw new NotFoundError('Conversation not found');
+  }
+
+  logger.info('Conversation deleted:', {
+    conversationId: req.params.id,
+    userId: req.user!.id,
+    clientId: req.client!.id,
+  });
+
+  res.json({ success: true });
+}));
 
-export default router; 
\ No newline at end of file
+export default router;
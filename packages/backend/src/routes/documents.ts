@@ -1,10 +1,16 @@
 import { Router, Request, Response } from 'express';
 import { v4 as uuidv4 } from 'uuid';
 import multer from 'multer';
-import { ragService } from '../services/rag';
+import { JOB_TYPES, DocumentIngestPayload, DocumentReprocessPayload, jobQueue } from '../services/jobs';
+import { DocumentSort, SortDirection } from '../services/repositories';
+import { DocumentSourceType } from '../services/vectorIndex';
 import { ClientDatabase } from '../utils/database';
 import { logger } from '../utils/logger';
 import { asyncHandler } from '../middleware/errorHandler';
+import { uploadRateLimit } from '../middleware/rateLimit';
+import { requireScope } from '../middleware/auth';
+import { extractDocument, findExtractor } from '../services/documentParsing';
+import { UnsupportedFileTypeError } from '../types/errors';
 
 const router = Router();
 
@@ -15,48 +21,40 @@ const upload = multer({
     fileSize: 10 * 1024 * 1024, // 10MB limit
   },
   fileFilter: (req, file, cb) => {
-    const allowedTypes = [
-      'text/plain',
-      'application/pdf',
-      'application/msword',
-      'application/vnd.openxmlformats-officedocument.wordprocessingml.document',
-    ];
-    
-    if (allowedTypes.includes(file.mimetype)) {
+    if (findExtractor(file.originalname, file.mimetype)) {
       cb(null, true);
     } else {
-      cb(new Error('Unsupported file type'));
+      cb(new UnsupportedFileTypeError(`Unsupported file type "${file.mimetype}" for "${file.originalname}"`));
     }
   },
 });
 
 // GET /api/documents - List documents for client
-router.get('/', asyncHandler(async (req: Request, res: Response) => {
+// (?limit, ?offset or ?cursor, ?source, ?search, ?updated_after, ?updated_before,
+// ?sort=created_at|updated_at|title, ?order=asc|desc)
+router.get('/', requireScope('documents:read'), asyncHandler(async (req: Request, res: Response) => {
   const clientDb = new ClientDatabase(req.client!.id);
-  const limit = parseInt(req.query.limit as string) || 50;
-  const offset = parseInt(req.query.offset as string) || 0;
-  const source = req.query.source as string;
 
   try {
-    let query = 'SELECT * FROM documents WHERE client_id = $1';
-    const params: any[] = [req.client!.id];
-
-    if (source) {
-      query += ' AND source = $2';
-      params.push(source);
-    }
-
-    query += ' ORDER BY created_at DESC LIMIT $' + (params.length + 1) + ' OFFSET $' + (params.length + 2);
-    params.push(limit, offset);
-
-    const documents = await clientDb.queryInClientSchema(query, params);
+    const page = await clientDb.documents.list({
+      limit: parseInt(req.query.limit as string) || 50,
+      offset: parseInt(req.query.offset as string) || 0,
+      cursor: req.query.cursor as string | undefined,
+      source: req.query.source as DocumentSourceType | undefined,
+      search: req.query.search as string | undefined,
+      updatedAfter: req.query.updated_after as string | undefined,
+      updatedBefore: req.query.updated_before as string | undefined,
+      sort: req.query.sort as DocumentSort | undefined,
+      order: req.query.order as SortDirection | undefined,
+    });
 
     res.json({
-      documents: documents || [],
+      documents: page.items,
       pagination: {
-        limit,
-        offset,
-        total: documents?.length || 0,
+        limit: page.limit,
+        offset: page.offset,
+        total: page.total,
+        nextCursor: page.nextCursor,
       },
     });
   } catch (error) {
@@ -68,8 +66,9 @@ router.get('/', asyncHandler(async (req: Request, res: Response) => {
   }
 }));
 
-// POST /api/documents/upload - Upload and process document
-router.post('/upload', upload.single('file'), asyncHandler(async (req: Request, res: Response) => {
+// POST /api/documents/upload - Parse a document and queue it for embedding.
+// Responds 202 with the job to poll at /api/jobs/:id.
+router.post('/upload', requireScope('documents:write'), uploadRateLimit, upload.single('file'), asyncHandler(async (req: Request, res: Response) => {
   if (!req.file) {
     return res.status(400).json({
       error: {
@@ -79,69 +78,64 @@ router.post('/upload', upload.single('file'), asyncHandler(async (req: Request,
     });
   }
 
-  const clientDb = new ClientDatabase(req.client!.id);
   const documentId = uuidv4();
 
   try {
-    // Extract text from file (simplified - you'd use proper parsers)
-    let content = '';
-    if (req.file.mimetype === 'text/plain') {
-      content = req.file.buffer.toString('utf-8');
-    } else {
-      // For PDF/Word documents, you'd use libraries like pdf-parse or mammoth
-      content = 'Document content extraction not implemented for this file type';
-    }
+    // Throws UnsupportedFileTypeError / DocumentParsingError rather than storing unreadable content
+    const extracted = await extractDocument(req.file);
 
-    // Process and store document
-    await ragService.processDocument(clientDb, {
-      id: documentId,
+    // Embedding can take minutes; the worker stores and embeds the parsed sections
+    const job = await jobQueue.enqueue<DocumentIngestPayload>(JOB_TYPES.documentIngest, req.client!.id, {
+      documentId,
       title: req.file.originalname,
-      content,
-      source: 'upload',
-      sourceId: documentId,
+      sections: extracted.sections,
       metadata: {
+        ...extracted.metadata,
+        ...(extracted.title && { extractedTitle: extracted.title }),
         filename: req.file.originalname,
         mimetype: req.file.mimetype,
+        format: extracted.format,
         size: req.file.size,
-        uploadedBy: req.user!.id,
+        ...(req.user ? { uploadedBy: req.user.id } : { uploadedByApiKey: req.apiKey!.id }),
       },
-    });
+    }, { createdBy: req.user?.id });
 
-    logger.info('Document uploaded and processed:', {
+    logger.info('Document uploaded and queued:', {
       documentId,
+      jobId: job.id,
       filename: req.file.originalname,
       clientId: req.client!.id,
-      userId: req.user!.id,
+      userId: req.user?.id,
+      apiKeyId: req.apiKey?.id,
     });
 
-    res.json({
+    res.status(202).json({
       document_id: documentId,
+      job_id: job.id,
       filename: req.file.originalname,
-      status: 'processed',
+      status: job.status,
     });
   } catch (error) {
     logger.error('Document upload failed:', {
       error,
       filename: req.file?.originalname,
       clientId: req.client!.id,
-      userId: req.user!.id,
+      userId: req.user?.id,
+      apiKeyId: req.apiKey?.id,
     });
     throw error;
   }
 }));
 
 // GET /api/documents/:id - Get specific document
-router.get('/:id', asyncHandler(async (req: Request, res: Response) => {
+router.get('/:id', requireScope('documents:read'), asyncHandler(async (req: Request, res: Response) => {
   const documentId = req.params.id;
   const clientDb = new ClientDatabase(req.client!.id);
 
   try {
-    const documents = await clientDb.queryInClientSchema(
-      'SELECT * FROM documents WHERE id = $1 AND client_id = $2',
-      [documentId, req.client!.id]
-    );
+    const document = await clientDb.documents.get(documentId);
 
-    if (!documents || documents.length === 0) {
+    if (!document) {
       return res.status(404).json({
         error: {
           code: 'DOCUMENT_NOT_FOUND',
@@ -150,7 +144,7 @@ router.get('/:id', asyncHandler(async (req: Request, res: Response) => {
       });
     }
 
-    res.json(documents[0]);
+    res.json(document);
   } catch (error) {
     logger.error('Failed to fetch document:', {
       error,
@@ -162,27 +156,18 @@ router.get('/:id', asyncHandler(async (req: Request, res: Response) => {
 }));
 
 // DELETE /api/documents/:id - Delete document
-router.delete('/:id', asyncHandler(async (req: Request, res: Response) => {
+router.delete('/:id', requireScope('documents:write'), asyncHandler(async (req: Request, res: Response) => {
   const documentId = req.params.id;
   const clientDb = new ClientDatabase(req.client!.id);
 
   try {
-    // Delete document chunks first
-    await clientDb.queryInClientSchema(
-      'DELETE FROM document_chunks WHERE document_id = $1',
-      [documentId]
-    );
-
-    // Delete document
-    await clientDb.queryInClientSchema(
-      'DELETE FROM documents WHERE id = $1 AND client_id = $2',
-      [documentId, req.client!.id]
-    );
+    await clientDb.deleteDocument(documentId);
 
     logger.info('Document deleted:', {
       documentId,
       clientId: req.client!.id,
-      userId: req.user!.id,
+      userId: req.user?.id,
+      apiKeyId: req.apiKey?.id,
     });
 
     res.json({ success: true });
@@ -196,18 +181,16 @@ router.delete('/:id', asyncHandler(async (req: Request, res: Response) => {
   }
 }));
 
-// POST /api/documents/:id/reprocess - Reprocess document embeddings
-router.post('/:id/reprocess', asyncHandler(async (req: Request, res: Response) => {
+// POST /api/documents/:id/reprocess - Queue the document to be re-chunked and re-embedded.
+// Responds 202 with the job to poll at /api/jobs/:id.
+router.post('/:id/reprocess', requireScope('documents:write'), asyncHandler(async (req: Request, res: Response) => {
   const documentId = req.params.id;
   const clientDb = new ClientDatabase(req.client!.id);
 
   try {
-    const documents = await clientDb.queryInClientSchema(
-      'SELECT * FROM documents WHERE id = $1 AND client_id = $2',
-      [documentId, req.client!.id]
-    );
+    const document = await clientDb.documents.get(documentId);
 
-    if (!documents || documents.length === 0) {
+    if (!document) {
       return res.status(404).json({
         error: {
           code: 'DOCUMENT_NOT_FOUND',
@@ -216,18 +199,23 @@ router.post('/:id/reprocess', asyncHandler(async (req: Request, res: Response) =
       });
     }
 
-    const document = documents[0];
-
-    // Update embeddings
-    await ragService.updateDocumentEmbeddings(clientDb, documentId, document.content);
+    const job = await jobQueue.enqueue<DocumentReprocessPayload>(JOB_TYPES.documentReprocess, req.client!.id, {
+      documentId,
+    }, { createdBy: req.user?.id });
 
-    logger.info('Document reprocessed:', {
+    logger.info('Document queued for reprocessing:', {
       documentId,
+      jobId: job.id,
       clientId: req.client!.id,
-      userId: req.user!.id,
+      userId: req.user?.id,
+      apiKeyId: req.apiKey?.id,
     });
 
-    res.json({ success: true, message: 'Document reprocessed successfully' });
+    res.status(202).json({
+      document_id: documentId,
+      job_id: job.id,
+      status: job.status,
+    });
   } catch (error) {
     logger.error('Failed to reprocess document:', {
       error,
@@ -1,6 +1,9 @@
 import { Router, Request, Response } from 'express';
-import { logger } from '../utils/logger';
 import { asyncHandler } from '../middleware/errorHandler';
+import { requireRole } from '../middleware/auth';
+import { JOB_TYPES, SlackBackfillPayload, jobQueue } from '../services/jobs';
+import { slackIngestionService } from '../services/slack';
+import { ValidationError } from '../types/errors';
 
 const router = Router();
 
@@ -10,6 +13,7 @@ router.get('/', asyncHandler(async (req: Request, res: Response) => {
     slack: {
       connected: !!req.client!.settings?.slack_channel_id,
       channel_id: req.client!.settings?.slack_channel_id || null,
+      ingestion_configured: slackIngestionService.isConfigured(),
     },
     notion: {
       connected: !!req.client!.settings?.notion_workspace_id,
@@ -27,6 +31,41 @@ router.post('/slack/connect', asyncHandler(async (req: Request, res: Response) =
   });
 }));
 
+// POST /api/integrations/slack/backfill - Import the connected channel's history
+router.post('/slack/backfill', requireRole('admin'), asyncHandler(async (req: Request, res: Response) => {
+  const channelId = req.client!.settings?.slack_channel_id;
+  const { days } = req.body;
+
+  if (!channelId) {
+    throw new ValidationError('No Slack channel is connected for this client');
+  }
+
+  if (!slackIngestionService.isConfigured()) {
+    throw new ValidationError('Slack ingestion is not configured on this server');
+  }
+
+  if (days !== undefined && (!Number.isFinite(days) || days <= 0)) {
+    throw new ValidationError('days must be a positive number');
+  }
+
+  const oldest = days ? String(Math.floor(Date.now() / 1000 - days * 86400)) : undefined;
+
+  // History can take minutes to import; track it as a job
+  const job = await jobQueue.enqueue<SlackBackfillPayload>(
+    JOB_TYPES.slackBackfill,
+    req.client!.id,
+    { channelId, oldest },
+    { createdBy: req.user!.id }
+  );
+
+  res.status(202).json({
+    message: 'Slack backfill queued',
+    job_id: job.id,
+    channel_id: channelId,
+    since: oldest ? new Date(parseInt(oldest, 10) * 1000).toISOString() : null,
+  });
+}));
+
 // POST /api/integrations/notion/connect - Connect Notion integration
 router.post('/notion/connect', asyncHandler(async (req: Request, res: Response) => {
   // This would handle Notion OAuth flow
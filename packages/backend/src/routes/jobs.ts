@@ -0,0 +1,109 @@
+import { Router, Request, Response } from 'express';
+import { asyncHandler } from '../middleware/errorHandler';
+import { Job, JobStatus, jobQueue } from '../services/jobs';
+import { NotFoundError, ValidationError } from '../types/errors';
+
+// Status of background jobs (uploads, syncs, backfills) for the caller's client.
+// Mounted behind authMiddleware; API keys need the documents:write scope.
+const router = Router();
+
+const STATUSES: JobStatus[] = ['queued', 'running', 'completed', 'failed'];
+const EVENTS_POLL_INTERVAL_MS = 1000;
+const EVENTS_KEEPALIVE_MS = 15_000;
+
+// Payloads can hold whole documents, so they're never returned
+function serializeJob(job: Job) {
+  return {
+    id: job.id,
+    type: job.type,
+    status: job.status,
+    progress: job.progress,
+    result: job.result,
+    error: job.error,
+    attempts: job.attempts,
+    max_attempts: job.maxAttempts,
+    run_at: job.runAt,
+    created_by: job.createdBy,
+    created_at: job.createdAt,
+    started_at: job.startedAt,
+    finished_at: job.finishedAt,
+  };
+}
+
+async function findClientJob(clientId: string, jobId: string): Promise<Job> {
+  const job = await jobQueue.getJob(jobId);
+  if (!job || job.clientId !== clientId) {
+    throw new NotFoundError('Job not found');
+  }
+  return job;
+}
+
+function isFinished(job: Job): boolean {
+  return job.status === 'completed' || job.status === 'failed';
+}
+
+// GET /api/jobs - Recent jobs, newest first (optional ?status=, ?limit=)
+router.get('/', asyncHandler(async (req: Request, res: Response) => {
+  const status = req.query.status as JobStatus | undefined;
+  const limit = Math.min(parseInt(req.query.limit as string) || 20, 100);
+
+  if (status && !STATUSES.includes(status)) {
+    throw new ValidationError(`status must be one of: ${STATUSES.join(', ')}`);
+  }
+
+  const jobs = await jobQueue.listJobs(req.client!.id, { status, limit });
+  res.json({ jobs: jobs.map(serializeJob) });
+}));
+
+// GET /api/jobs/:id - Poll a job's status and progress
+router.get('/:id', asyncHandler(async (req: Request, res: Response) => {
+  const job = await findClientJob(req.client!.id, req.params.id);
+  res.json(serializeJob(job));
+}));
+
+// GET /api/jobs/:id/events - text/event-stream of `job` events whenever the job
+// changes, ending after it completes or fails
+router.get('/:id/events', asyncHandler(async (req: Request, res: Response) => {
+  const clientId = req.client!.id;
+  let job = await findClientJob(clientId, req.params.id);
+
+  res.setHeader('Content-Type', 'text/event-stream');
+  res.setHeader('Cache-Control', 'no-cache, no-transform');
+  res.setHeader('Connection', 'keep-alive');
+  res.setHeader('X-Accel-Buffering', 'no');
+  res.flushHeaders();
+
+  let last = '';
+  let lastWrite = Date.now();
+  let closed = false;
+  res.on('close', () => {
+    closed = true;
+  });
+
+  // Jobs may run in another process, so changes are picked up by polling the store
+  while (!closed) {
+    const data = JSON.stringify(serializeJob(job));
+    if (data !== last) {
+      res.write(`event: job\ndata: ${data}\n\n`);
+      last = data;
+      lastWrite = Date.now();
+    } else if (Date.now() - lastWrite >= EVENTS_KEEPALIVE_MS) {
+      res.write(': keepalive\n\n');
+      lastWrite = Date.now();
+    }
+
+    if (isFinished(job)) break;
+
+    await new Promise(resolve => setTimeout(resolve, EVENTS_POLL_INTERVAL_MS));
+    try {
+      job = await findClientJob(clientId, job.id);
+    } catch (error) {
+      res.write(`event: error\ndata: ${JSON.stringify({ message: 'Job is no longer available' })}\n\n`);
+      break;
+    }
+  }
+
+  res.end();
+}));
+
+export default router;
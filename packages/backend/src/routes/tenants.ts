@@ -0,0 +1,100 @@
+import { Router, Request, Response } from 'express';
+import { logger } from '../utils/logger';
+import { asyncHandler } from '../middleware/errorHandler';
+import { requireMasterClient } from '../middleware/masterClient';
+import { TENANT_STATUSES, TenantStatus, TenantUpdate, tenantService } from '../services/tenants';
+import { syncScheduler } from '../services/syncScheduler';
+import { NotFoundError, ValidationError } from '../types/errors';
+
+// Operators manage every tenant (client) from here. Mounted behind authMiddleware
+// and requireRole('admin'); only admins of the master client get through.
+const router = Router();
+
+router.use(requireMasterClient);
+
+// Suspending or archiving your own client would lock you out. `id` may be a
+// UUID or a slug, so it's resolved before comparing.
+async function assertNotOwnClient(req: Request, action: string) {
+  let clientId: string;
+  try {
+    clientId = await tenantService.resolveId(req.params.id);
+  } catch (error) {
+    // Not a live client, so not the caller's; the tenant service reports it
+    if (error instanceof NotFoundError) return;
+    throw error;
+  }
+
+  if (clientId === req.client!.id) {
+    throw new ValidationError(`You cannot ${action} your own client`);
+  }
+}
+
+// GET /api/admin/tenants - List clients (optional ?status=active|suspended|archived)
+router.get('/', asyncHandler(async (req: Request, res: Response) => {
+  const status = req.query.status as TenantStatus | undefined;
+  if (status && !TENANT_STATUSES.includes(status)) {
+    throw new ValidationError(`status must be one of: ${TENANT_STATUSES.join(', ')}`);
+  }
+
+  const tenants = await tenantService.list({ status });
+  res.json({ success: true, data: { tenants } });
+}));
+
+// GET /api/admin/tenants/:id - `:id` is a UUID or slug here and in the routes below
+router.get('/:id', asyncHandler(async (req: Request, res: Response) => {
+  const tenant = await tenantService.get(req.params.id);
+  res.json({ success: true, data: tenant });
+}));
+
+// POST /api/admin/tenants - Create a client
+router.post('/', asyncHandler(async (req: Request, res: Response) => {
+  const { name, slug, settings } = req.body;
+
+  const tenant = await tenantService.create({ name, slug, settings });
+  logger.info('Client created via admin API:', { tenantId: tenant.id, createdBy: req.user!.id });
+
+  res.status(201).json({ success: true, data: tenant });
+}));
+
+// PATCH /api/admin/tenants/:id - Rename a client, change its slug or replace its settings
+router.patch('/:id', asyncHandler(async (req: Request, res: Response) => {
+  const changes: TenantUpdate = {};
+  for (const field of ['name', 'slug', 'settings'] as const) {
+    if (req.body[field] !== undefined) {
+      changes[field] = req.body[field];
+    }
+  }
+
+  const tenant = await tenantService.update(req.params.id, changes);
+  res.json({ success: true, data: tenant });
+}));
+
+// POST /api/admin/tenants/:id/suspend - Refuse sign-in and API access; data and syncs are kept
+router.post('/:id/suspend', asyncHandler(async (req: Request, res: Response) => {
+  await assertNotOwnClient(req, 'suspend');
+
+  const tenant = await tenantService.suspend(req.params.id);
+  logger.info('Client suspended via admin API:', { tenantId: tenant.id, suspendedBy: req.user!.id });
+
+  res.json({ success: true, data: tenant });
+}));
+
+// POST /api/admin/tenants/:id/reactivate - Lift a suspension
+router.post('/:id/reactivate', asyncHandler(async (req: Request, res: Response) => {
+  const tenant = await tenantService.reactivate(req.params.id);
+  res.json({ success: true, data: tenant });
+}));
+
+// POST /api/admin/tenants/:id/archive - Archive a client and delete its documents,
+// chunks, conversations, sync sources and routing rules. Can't be undone.
+router.post('/:id/archive', asyncHandler(async (req: Request, res: Response) => {
+  await assertNotOwnClient(req, 'archive');
+
+  const result = await tenantService.archive(req.params.id);
+  await syncScheduler.reload();
+  logger.info('Client archived via admin API:', { tenantId: result.tenant.id, archivedBy: req.user!.id });
+
+  res.json({ success: true, data: result });
+}));
+
+export default router;
@@ -0,0 +1,191 @@
+import { Router, Request, Response } from 'express';
+import { supabase } from '../utils/database';
+import { logger } from '../utils/logger';
+import { asyncHandler } from '../middleware/errorHandler';
+import { invitationService } from '../services/invitations';
+import { sessionService } from '../services/sessions';
+import { NotFoundError, ValidationError } from '../types/errors';
+
+// Client admins manage the users of their own client. Mounted behind
+// authMiddleware and requireRole('admin'), so req.user and req.client are set.
+const router = Router();
+
+const USER_COLUMNS = 'id, email, name, role, client_id, deactivated_at, created_at, updated_at';
+const ROLES = ['admin', 'user'];
+
+function db() {
+  if (!supabase) {
+    throw new Error('Database not configured');
+  }
+  return supabase;
+}
+
+async function findClientUser(clientId: string, userId: string) {
+  const { data: user } = await db()
+    .from('users')
+    .select(USER_COLUMNS)
+    .eq('id', userId)
+    .eq('client_id', clientId)
+    .maybeSingle();
+
+  if (!user) {
+    throw new NotFoundError('User not found');
+  }
+
+  return user;
+}
+
+// Admins can't demote, deactivate or remove themselves, so a client always keeps an admin
+function assertNotSelf(req: Request, action: string) {
+  if (req.params.id === req.user!.id) {
+    throw new ValidationError(`You cannot ${action} your own account`);
+  }
+}
+
+// GET /api/users - List users in the client
+router.get('/', asyncHandler(async (req: Request, res: Response) => {
+  const { data: users, error } = await db()
+    .from('users')
+    .select(USER_COLUMNS)
+    .eq('client_id', req.client!.id)
+    .order('created_at', { ascending: true });
+
+  if (error) {
+    throw error;
+  }
+
+  res.json({ users: users || [] });
+}));
+
+// POST /api/users/invitations - Invite a user by email
+router.post('/invitations', asyncHandler(async (req: Request, res: Response) => {
+  const { email, role = 'user' } = req.body;
+
+  if (!email || typeof email !== 'string' || !/^[^\s@]+@[^\s@]+$/.test(email)) {
+    throw new ValidationError('A valid email is required');
+  }
+
+  if (!ROLES.includes(role)) {
+    throw new ValidationError(`role must be one of: ${ROLES.join(', ')}`);
+  }
+
+  const invitation = await invitationService.createInvitation({
+    clientId: req.client!.id,
+    clientName: req.client!.name,
+    email,
+    role,
+    invitedBy: { id: req.user!.id, name: req.user!.name },
+  });
+
+  res.status(201).json({ invitation });
+}));
+
+// GET /api/users/invitations - List invitations for the client
+router.get('/invitations', asyncHandler(async (req: Request, res: Response) => {
+  const invitations = await invitationService.listInvitations(req.client!.id);
+  res.json({ invitations });
+}));
+
+// DELETE /api/users/invitations/:id - Revoke a pending invitation
+router.delete('/invitations/:id', asyncHandler(async (req: Request, res: Response) => {
+  await invitationService.revokeInvitation(req.client!.id, req.params.id);
+  res.json({ success: true });
+}));
+
+// PATCH /api/users/:id - Change a user's role
+router.patch('/:id', asyncHandler(async (req: Request, res: Response) => {
+  const { role } = req.body;
+
+  if (!ROLES.includes(role)) {
+    throw new ValidationError(`role must be one of: ${ROLES.join(', ')}`);
+  }
+
+  assertNotSelf(req, 'change the role of');
+  await findClientUser(req.client!.id, req.params.id);
+
+  const { data: user, error } = await db()
+    .from('users')
+    .update({ role })
+    .eq('id', req.params.id)
+    .eq('client_id', req.client!.id)
+    .select(USER_COLUMNS)
+    .single();
+
+  if (error) {
+    throw error;
+  }
+
+  logger.info('User role changed:', { userId: req.params.id, role, changedBy: req.user!.id });
+
+  res.json({ user });
+}));
+
+// POST /api/users/:id/deactivate - Block a user from signing in and end their sessions
+router.post('/:id/deactivate', asyncHandler(async (req: Request, res: Response) => {
+  assertNotSelf(req, 'deactivate');
+  await findClientUser(req.client!.id, req.params.id);
+
+  const { data: user, error } = await db()
+    .from('users')
+    .update({ deactivated_at: new Date().toISOString() })
+    .eq('id', req.params.id)
+    .eq('client_id', req.client!.id)
+    .select(USER_COLUMNS)
+    .single();
+
+  if (error) {
+    throw error;
+  }
+
+  await sessionService.revokeAllSessions(req.params.id, 'user_deactivated');
+
+  logger.info('User deactivated:', { userId: req.params.id, deactivatedBy: req.user!.id });
+
+  res.json({ user });
+}));
+
+// POST /api/users/:id/reactivate - Allow a deactivated user to sign in again
+router.post('/:id/reactivate', asyncHandler(async (req: Request, res: Response) => {
+  await findClientUser(req.client!.id, req.params.id);
+
+  const { data: user, error } = await db()
+    .from('users')
+    .update({ deactivated_at: null })
+    .eq('id', req.params.id)
+    .eq('client_id', req.client!.id)
+    .select(USER_COLUMNS)
+    .single();
+
+  if (error) {
+    throw error;
+  }
+
+  logger.info('User reactivated:', { userId: req.params.id, reactivatedBy: req.user!.id });
+
+  res.json({ user });
+}));
+
+// DELETE /api/users/:id - Remove a user from the client
+router.delete('/:id', asyncHandler(async (req: Request, res: Response) => {
+  assertNotSelf(req, 'remove');
+  await findClientUser(req.client!.id, req.params.id);
+
+  // Revoke first so the session cache is cleared before the rows cascade away
+  await sessionService.revokeAllSessions(req.params.id, 'user_removed');
+
+  const { error } = await db()
+    .from('users')
+    .delete()
+    .eq('id', req.params.id)
+    .eq('client_id', req.client!.id);
+
+  if (error) {
+    throw error;
+  }
+
+  logger.info('User removed:', { userId: req.params.id, removedBy: req.user!.id });
+
+  res.json({ success: true });
+}));
+
+export default router;
@@ -1,5 +1,7 @@
 import { Router, Request, Response } from 'express';
+import { isValidSlackRequest } from '@slack/bolt';
 import { clientSyncService } from '../services/clientSync';
+import { slackIngestionService, SlackEventEnvelope } from '../services/slack';
 import { logger } from '../utils/logger';
 import crypto from 'crypto';
 
@@ -112,6 +114,59 @@ router.post('/notion', async (req: Request, res: Response) => {
   }
 });
 
+/**
+ * Verify a Slack request signature against the raw body (rejects requests older than 5 minutes)
+ */
+function verifySlackWebhook(request: Request): boolean {
+  const signature = request.headers['x-slack-signature'] as string;
+  const timestamp = request.headers['x-slack-request-timestamp'] as string;
+  const signingSecret = process.env.SLACK_SIGNING_SECRET;
+
+  if (!signature || !timestamp || !signingSecret || !request.rawBody) {
+    logger.warn('Missing Slack verification data:', {
+      hasSignature: !!signature,
+      hasTimestamp: !!timestamp,
+      hasSecret: !!signingSecret,
+    });
+    return false;
+  }
+
+  return isValidSlackRequest({
+    signingSecret,
+    body: request.rawBody.toString('utf8'),
+    headers: {
+      'x-slack-signature': signature,
+      'x-slack-request-timestamp': parseInt(timestamp, 10),
+    },
+  });
+}
+
+/**
+ * POST /api/webhooks/slack/events - Handle Slack Events API callbacks
+ */
+router.post('/slack/events', async (req: Request, res: Response) => {
+  if (!verifySlackWebhook(req)) {
+    logger.warn('Invalid Slack signature, rejecting request');
+    return res.status(401).json({ error: 'Invalid signature' });
+  }
+
+  const envelope = req.body as SlackEventEnvelope;
+
+  if (envelope.type === 'url_verification') {
+    return res.json({ challenge: envelope.challenge });
+  }
+
+  // Slack expects an acknowledgement within 3 seconds, so ingest after responding
+  res.status(200).end();
+
+  slackIngestionService.handleEvent(envelope).catch(error => {
+    logger.error('Error ingesting Slack event:', {
+      error,
+      eventId: envelope.type === 'event_callback' ? envelope.event_id : undefined,
+    });
+  });
+});
+
 /**
  * GET /api/webhooks/notion/health - Health check for webhook endpoint
  */
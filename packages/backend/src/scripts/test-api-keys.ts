@@ -0,0 +1,121 @@
+import assert from 'assert/strict';
+import express from 'express';
+import { AddressInfo } from 'net';
+import { requireScope, requireUser } from '../middleware/auth';
+import { errorHandler } from '../middleware/errorHandler';
+import { apiKeyService } from '../services/apiKeys';
+import { isIpAllowed, isValidIpEntry } from '../utils/ipAllowlist';
+import { logger } from '../utils/logger';
+
+/**
+ * Check API key IP allowlists and how scopes gate routes. Needs no database:
+ * the caller is set from x-user / x-api-key-scopes headers in place of authMiddleware.
+ */
+
+async function withServer(fn: (request: (path: string, headers?: Record<string, string>) => Promise<number>) => Promise<void>) {
+  const app = express();
+  app.use((req, res, next) => {
+    if (req.get('x-user')) {
+      req.user = { id: req.get('x-user')!, email: '', name: '', role: 'user', clientId: 'client' };
+    } else if (req.get('x-api-key-scopes') !== undefined) {
+      req.apiKey = { id: 'key', name: 'Test key', scopes: req.get('x-api-key-scopes')!.split(',').filter(Boolean) as any };
+    }
+    next();
+  });
+  app.get('/documents', requireScope('documents:read'), (req, res) => { res.json({ ok: true }); });
+  app.post('/documents', requireScope('documents:write'), (req, res) => { res.json({ ok: true }); });
+  app.get('/conversations', requireUser, (req, res) => { res.json({ ok: true }); });
+  app.use(errorHandler);
+
+  const server = app.listen(0);
+  const { port } = server.address() as AddressInfo;
+  try {
+    await fn(async (path, headers) => {
+      const [method, route] = path.split(' ');
+      return (await fetch(`http://localhost:${port}${route}`, { method, headers })).status;
+    });
+  } finally {
+    server.close();
+  }
+}
+
+async function testAllowlistEntries() {
+  for (const entry of ['203.0.113.7', '10.0.0.0/8', '2001:db8::1', '2001:db8::/32', '0.0.0.0/0']) {
+    assert.ok(isValidIpEntry(entry), `${entry} is valid`);
+  }
+  for (const entry of ['203.0.113', '10.0.0.0/33', '2001:db8::/129', '10.0.0.0/8/8', 'localhost', '10.0.0.0/x']) {
+    assert.ok(!isValidIpEntry(entry), `${entry} is invalid`);
+  }
+}
+
+async function testAllowlistMatching() {
+  const allowlist = ['203.0.113.7', '10.1.0.0/16', '2001:db8::/32'];
+
+  assert.ok(isIpAllowed('203.0.113.7', allowlist));
+  assert.ok(isIpAllowed('10.1.200.3', allowlist));
+  assert.ok(isIpAllowed('2001:db8:1::5', allowlist));
+  // IPv4 callers of a dual-stack server arrive IPv4-mapped
+  assert.ok(isIpAllowed('::ffff:203.0.113.7', allowlist));
+  assert.ok(isIpAllowed('::ffff:10.1.0.1', allowlist));
+
+  assert.ok(!isIpAllowed('203.0.113.8', allowlist));
+  assert.ok(!isIpAllowed('10.2.0.1', allowlist));
+  assert.ok(!isIpAllowed('2001:db9::1', allowlist));
+  assert.ok(!isIpAllowed(undefined, allowlist));
+  assert.ok(!isIpAllowed('not-an-ip', allowlist));
+  assert.ok(!isIpAllowed('203.0.113.7', []));
+}
+
+async function testKeysAreRecognised() {
+  assert.ok(apiKeyService.isApiKey('ak_abc123'));
+  assert.ok(!apiKeyService.isApiKey('eyJhbGciOiJIUzI1NiIsInR5cCI6IkpXVCJ9.e30.sig'));
+}
+
+async function testScopes() {
+  await withServer(async request => {
+    const reader = { 'x-api-key-scopes': 'documents:read' };
+    assert.equal(await request('GET /documents', reader), 200);
+    assert.equal(await request('POST /documents', reader), 403, 'documents:read does not allow writes');
+    assert.equal(await request('POST /documents', { 'x-api-key-scopes': 'documents:read,documents:write' }), 200);
+    assert.equal(await request('GET /documents', { 'x-api-key-scopes': 'chat:write' }), 403);
+
+    // Users aren't limited by scopes
+    assert.equal(await request('POST /documents', { 'x-user': 'user' }), 200);
+  });
+}
+
+async function testUserOnlyRoutes() {
+  await withServer(async request => {
+    assert.equal(await request('GET /conversations', { 'x-user': 'user' }), 200);
+    assert.equal(await request('GET /conversations', { 'x-api-key-scopes': 'chat:write,documents:read,documents:write' }), 403);
+    assert.equal(await request('GET /conversations'), 401);
+  });
+}
+
+async function main() {
+  const tests = {
+    testAllowlistEntries,
+    testAllowlistMatching,
+    testKeysAreRecognised,
+    testScopes,
+    testUserOnlyRoutes,
+  };
+  let failed = 0;
+
+  for (const [name, test] of Object.entries(tests)) {
+    try {
+      await test();
+      logger.info(`✓ ${name}`);
+    } catch (error) {
+      failed++;
+      logger.error(`✗ ${name}`, { error: error instanceof Error ? error.message : error });
+    }
+  }
+
+  if (failed > 0) {
+    process.exit(1);
+  }
+  logger.info('All API key tests passed');
+}
+
+main();
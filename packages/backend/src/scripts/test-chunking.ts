@@ -0,0 +1,123 @@
+import assert from 'assert/strict';
+import { chunkDocument, countTokens } from '../services/chunking';
+import { logger } from '../utils/logger';
+
+/**
+ * Check the chunker's token limits, overlap, structure handling and
+ * per-source strategies. Needs no database or API keys.
+ */
+
+const sentence = (n: number) => `Sentence number ${n} talks about the onboarding plan for the client.`;
+const paragraph = (from: number, count: number) =>
+  Array.from({ length: count }, (_, i) => sentence(from + i)).join(' ');
+
+function testTokenLimitsAndOverlap() {
+  const content = [paragraph(0, 20), paragraph(20, 20), paragraph(40, 20)].join('\n\n');
+  const chunks = chunkDocument({ content }, { maxTokens: 120, overlapTokens: 30 });
+
+  assert.ok(chunks.length > 3, 'long text is split');
+  for (const chunk of chunks) {
+    assert.ok(chunk.tokenCount <= 120, `chunk ${chunk.index} has ${chunk.tokenCount} tokens`);
+    assert.equal(chunk.tokenCount, countTokens(chunk.content));
+  }
+
+  for (let i = 1; i < chunks.length; i++) {
+    const previousWords = chunks[i - 1].content.split(/\s+/);
+    const opening = chunks[i].content.split(/\s+/).slice(0, 5).join(' ');
+    assert.ok(
+      previousWords.slice(-40).join(' ').includes(opening),
+      `chunk ${i} starts with the end of chunk ${i - 1}`
+    );
+  }
+
+  const withoutOverlap = chunkDocument({ content }, { maxTokens: 120, overlapTokens: 0 });
+  assert.ok(withoutOverlap.length < chunks.length, 'overlap costs extra chunks');
+}
+
+function testHeadingsAndCodeBlocks() {
+  const code = ['```ts', ...Array.from({ length: 12 }, (_, i) => `const value${i} = computeSomething(${i});`), '```'].join('\n');
+  const content = [
+    '# Setup',
+    paragraph(0, 2),
+    '## Install',
+    paragraph(2, 3),
+    code,
+    '| Plan | Price |\n| --- | --- |\n| Basic | $10 |\n| Pro | $30 |',
+  ].join('\n\n');
+
+  const chunks = chunkDocument({ content }, { maxTokens: 100, overlapTokens: 10 });
+
+  assert.deepEqual(chunks[0].section, { headingPath: ['Setup'] });
+  const install = chunks.filter(chunk => chunk.section?.headingPath?.join(' > ') === 'Setup > Install');
+  assert.ok(install.length >= 2, 'Install section is chunked under its heading path');
+
+  const codeChunk = chunks.find(chunk => chunk.content.includes('```ts'));
+  assert.ok(codeChunk?.content.includes('value0') && codeChunk.content.includes('value11'), 'code block stays whole');
+  assert.ok(chunks.some(chunk => chunk.content.includes('| Plan | Price |\n| --- | --- |\n| Basic | $10 |\n| Pro | $30 |')), 'table stays whole');
+}
+
+function testMeetingNotesByAgendaItem() {
+  const content = [
+    '# Weekly sync',
+    'Attendees: Dana, Sam',
+    '1. Q3 scope',
+    '   - Client signed off on the SOW',
+    '   - Budget still TBD',
+    '2. Launch date',
+    '   - Moved to Thursday',
+  ].join('\n');
+
+  const chunks = chunkDocument({ content, source: 'notion_meeting_notes' });
+
+  assert.equal(chunks.length, 3);
+  assert.deepEqual(chunks.map(chunk => chunk.section?.headingPath), [
+    ['Weekly sync'],
+    ['Weekly sync', 'Q3 scope'],
+    ['Weekly sync', 'Launch date'],
+  ]);
+  assert.match(chunks[1].content, /Budget still TBD/);
+  assert.doesNotMatch(chunks[1].content, /Moved to Thursday/);
+}
+
+function testSlackByMessage() {
+  const messages = Array.from({ length: 30 }, (_, i) =>
+    `[2024-05-01 15:${String(i).padStart(2, '0')} UTC] Sam: ${sentence(i)}`);
+  const content = [
+    'Slack thread in #htt-project',
+    'Started by Dana on 2024-05-01 14:50 UTC',
+    '',
+    ...messages,
+  ].join('\n');
+
+  const chunks = chunkDocument({ content, source: 'slack' }, { maxTokens: 150, overlapTokens: 20 });
+
+  assert.ok(chunks.length > 1);
+  for (const chunk of chunks) {
+    assert.ok(chunk.content.startsWith('Slack thread in #htt-project\nStarted by Dana'), 'every chunk has the thread header');
+    assert.ok(chunk.tokenCount <= 150);
+  }
+  const messageLines = chunks.flatMap(chunk => chunk.content.split('\n').filter(line => line.startsWith('[')));
+  assert.deepEqual(messageLines, messages, 'messages are neither split nor repeated');
+}
+
+function main() {
+  const tests = { testTokenLimitsAndOverlap, testHeadingsAndCodeBlocks, testMeetingNotesByAgendaItem, testSlackByMessage };
+  let failed = 0;
+
+  for (const [name, test] of Object.entries(tests)) {
+    try {
+      test();
+      logger.info(`✓ ${name}`);
+    } catch (error) {
+      failed++;
+      logger.error(`✗ ${name}`, { error: error instanceof Error ? error.message : error });
+    }
+  }
+
+  if (failed > 0) {
+    process.exit(1);
+  }
+  logger.info('All chunking tests passed');
+}
+
+main();
@@ -0,0 +1,174 @@
+import assert from 'assert/strict';
+import express from 'express';
+import { AddressInfo } from 'net';
+import { v4 as uuidv4 } from 'uuid';
+import { createRateLimit } from '../middleware/rateLimit';
+import { errorHandler } from '../middleware/errorHandler';
+import { tokenBudgetService } from '../services/tokenBudgets';
+import { RateLimitError } from '../types/errors';
+import { ClientDatabase } from '../utils/database';
+import { logger } from '../utils/logger';
+
+/**
+ * Check the rate limit headers and 429s, and the per-client token budgets,
+ * with the in-memory stores. Needs no Redis, database or API keys.
+ */
+
+process.env.RATE_LIMIT_STORE = 'memory';
+process.env.TOKEN_BUDGET_STORE = 'memory';
+
+/**
+ * Serve `middleware` in front of a trivial route, with the request's user and
+ * client taken from the x-user and x-client headers
+ */
+async function withServer(
+  middleware: express.RequestHandler[],
+  fn: (request: (headers?: Record<string, string>) => Promise<globalThis.Response>) => Promise<void>
+) {
+  const app = express();
+  app.use((req, res, next) => {
+    if (req.get('x-user')) req.user = { id: req.get('x-user') } as Express.Request['user'];
+    if (req.get('x-client')) req.client = { id: req.get('x-client') } as Express.Request['client'];
+    next();
+  });
+  app.get('/', ...middleware, (req, res) => { res.json({ ok: true }); });
+  app.use(errorHandler);
+
+  const server = app.listen(0);
+  const { port } = server.address() as AddressInfo;
+  try {
+    await fn(headers => fetch(`http://localhost:${port}/`, { headers }));
+  } finally {
+    server.close();
+  }
+}
+
+/** Just enough of a ClientDatabase for the budget service */
+function fakeClientDb(settings: Record<string, any> = {}): ClientDatabase {
+  const clientId = uuidv4();
+  return {
+    getResolvedClientId: () => clientId,
+    getClientSettings: async () => settings,
+  } as unknown as ClientDatabase;
+}
+
+async function testHeadersAndRejection() {
+  const limit = createRateLimit({ name: `test-ip-${uuidv4()}`, keyBy: 'ip', windowMs: 60_000, max: 2 });
+
+  await withServer([limit], async request => {
+    const first = await request();
+    assert.equal(first.status, 200);
+    assert.equal(first.headers.get('ratelimit-limit'), '2');
+    assert.equal(first.headers.get('ratelimit-remaining'), '1');
+    assert.ok(Number(first.headers.get('ratelimit-reset')) > 0);
+
+    assert.equal((await request()).status, 200);
+
+    const rejected = await request();
+    assert.equal(rejected.status, 429);
+    assert.equal(rejected.headers.get('ratelimit-remaining'), '0');
+    const retryAfter = Number(rejected.headers.get('retry-after'));
+    assert.ok(retryAfter > 0 && retryAfter <= 60, `Retry-After ${retryAfter}`);
+    const body = await rejected.json();
+    assert.equal(body.error.code, 'RATE_LIMIT_ERROR');
+  });
+}
+
+async function testKeysAreSeparate() {
+  const perUser = createRateLimit({ name: `test-user-${uuidv4()}`, keyBy: 'user', windowMs: 60_000, max: 1 });
+  const perClient = createRateLimit({ name: `test-client-${uuidv4()}`, keyBy: 'client', windowMs: 60_000, max: 2 });
+  const client = uuidv4();
+
+  await withServer([perUser, perClient], async request => {
+    assert.equal((await request({ 'x-user': 'alice', 'x-client': client })).status, 200);
+    assert.equal((await request({ 'x-user': 'alice', 'x-client': client })).status, 429, 'alice is over the per-user limit');
+    assert.equal((await request({ 'x-user': 'bob', 'x-client': client })).status, 200, "alice's limit isn't bob's");
+    assert.equal((await request({ 'x-user': 'carol', 'x-client': client })).status, 429, 'the client as a whole is over');
+    assert.equal((await request({ 'x-user': 'dave', 'x-client': uuidv4() })).status, 200, 'other clients are unaffected');
+
+    // Without a user there's nothing to count by
+    assert.equal((await request()).status, 200);
+    assert.equal((await request()).status, 200);
+  });
+}
+
+async function testTightestLimitInHeaders() {
+  const loose = createRateLimit({ name: `test-loose-${uuidv4()}`, keyBy: 'ip', windowMs: 60_000, max: 100 });
+  const tight = createRateLimit({ name: `test-tight-${uuidv4()}`, keyBy: 'ip', windowMs: 60_000, max: 5 });
+
+  await withServer([loose, tight], async request => {
+    const response = await request();
+    assert.equal(response.headers.get('ratelimit-limit'), '5');
+    assert.equal(response.headers.get('ratelimit-remaining'), '4');
+  });
+}
+
+async function testTokenBudgets() {
+  const clientDb = fakeClientDb({ token_budgets: { daily: 1000, monthly: 5000 } });
+
+  await tokenBudgetService.assertAvailable(clientDb);
+  await tokenBudgetService.record(clientDb, 600);
+  await tokenBudgetService.assertAvailable(clientDb);
+
+  // The call that crosses the budget completes; the next one is refused
+  await tokenBudgetService.record(clientDb, 600);
+  const error = await tokenBudgetService.assertAvailable(clientDb).then(() => null, error => error);
+  assert.ok(error instanceof RateLimitError, 'daily budget is enforced');
+  assert.ok(error.retryAfter! > 0 && error.retryAfter! <= 24 * 60 * 60, `Retry-After ${error.retryAfter}`);
+
+  const usage = await tokenBudgetService.getUsage(clientDb);
+  assert.deepEqual(usage.map(period => [period.period, period.used, period.limit]), [
+    ['daily', 1200, 1000],
+    ['monthly', 1200, 5000],
+  ]);
+
+  // Counters are per client
+  await tokenBudgetService.assertAvailable(fakeClientDb({ token_budgets: { daily: 1000 } }));
+}
+
+async function testBudgetDefaults() {
+  process.env.CLAUDE_DAILY_TOKEN_BUDGET = '100';
+  try {
+    const limited = fakeClientDb();
+    await tokenBudgetService.record(limited, 100);
+    await assert.rejects(tokenBudgetService.assertAvailable(limited), RateLimitError);
+
+    // A client's explicit null lifts the default
+    const unlimited = fakeClientDb({ token_budgets: { daily: null } });
+    await tokenBudgetService.record(unlimited, 10_000);
+    await tokenBudgetService.assertAvailable(unlimited);
+    assert.equal((await tokenBudgetService.getBudgets(unlimited)).daily, null);
+  } finally {
+    delete process.env.CLAUDE_DAILY_TOKEN_BUDGET;
+  }
+
+  assert.deepEqual(await tokenBudgetService.getBudgets(fakeClientDb()), { daily: null, monthly: null });
+}
+
+async function main() {
+  const tests = {
+    testHeadersAndRejection,
+    testKeysAreSeparate,
+    testTightestLimitInHeaders,
+    testTokenBudgets,
+    testBudgetDefaults,
+  };
+  let failed = 0;
+
+  for (const [name, test] of Object.entries(tests)) {
+    try {
+      await test();
+      logger.info(`✓ ${name}`);
+    } catch (error) {
+      failed++;
+      logger.error(`✗ ${name}`, { error: error instanceof Error ? error.message : error });
+    }
+  }
+
+  if (failed > 0) {
+    process.exit(1);
+  }
+  logger.info('All rate limit tests passed');
+}
+
+main();
@@ -0,0 +1,283 @@
+import assert from 'assert/strict';
+import { v4 as uuidv4 } from 'uuid';
+import { ChunkRepository } from '../services/repositories/chunks';
+import { ConversationRepository } from '../services/repositories/conversations';
+import { DocumentRepository } from '../services/repositories/documents';
+import { FeedbackRepository } from '../services/repositories/feedback';
+import { MemoryRecordStore } from '../services/repositories/memoryStore';
+import { MessageRepository } from '../services/repositories/messages';
+import { DocumentRecord, Page } from '../services/repositories/types';
+import { NotFoundError, ValidationError } from '../types/errors';
+import { logger } from '../utils/logger';
+
+/**
+ * Check the repositories' pagination, filtering, sorting and client scoping
+ * against the in-memory store. Needs no database or API keys.
+ */
+
+const CLIENT_A = uuidv4();
+const CLIENT_B = uuidv4();
+const USER_A = uuidv4();
+const OTHER_USER_A = uuidv4();
+const USER_B = uuidv4();
+const API_KEY_A = uuidv4();
+
+function repositoriesFor(store: MemoryRecordStore, clientId: string) {
+  const documents = new DocumentRepository(store, clientId);
+  const conversations = new ConversationRepository(store, clientId);
+  const messages = new MessageRepository(store, clientId, conversations);
+  return {
+    documents,
+    chunks: new ChunkRepository(store, clientId, documents),
+    conversations,
+    messages,
+    feedback: new FeedbackRepository(store, clientId, conversations, messages),
+  };
+}
+
+const at = (minute: number) => new Date(Date.UTC(2024, 0, 1, 9, minute)).toISOString();
+
+async function seedDocument(
+  store: MemoryRecordStore,
+  clientId: string,
+  fields: Partial<DocumentRecord> & { title: string; created_at: string }
+): Promise<DocumentRecord> {
+  return store.insert<DocumentRecord>(clientId, 'documents', {
+    id: uuidv4(),
+    client_id: clientId,
+    content: `${fields.title} content`,
+    source: 'upload',
+    source_id: uuidv4(),
+    metadata: {},
+    content_hash: null,
+    updated_at: fields.created_at,
+    ...fields,
+  });
+}
+
+async function seed() {
+  const store = new MemoryRecordStore();
+  const titles = ['Onboarding plan', 'Brand guide', 'Q3 roadmap', 'Launch checklist', 'Meeting notes', 'Pricing', 'Retro'];
+  const documents: DocumentRecord[] = [];
+  for (const [i, title] of titles.entries()) {
+    // Two documents share a timestamp so ties have to be broken by id
+    documents.push(await seedDocument(store, CLIENT_A, {
+      title,
+      created_at: at(i === 4 ? 3 : i),
+      source: i % 2 === 0 ? 'upload' : 'slack',
+    }));
+  }
+  const otherClientDocument = await seedDocument(store, CLIENT_B, { title: 'Onboarding plan', created_at: at(30) });
+
+  return { store, documents, otherClientDocument };
+}
+
+async function collectPages(fetch: (cursor?: string) => Promise<Page<DocumentRecord>>): Promise<string[]> {
+  const ids: string[] = [];
+  let cursor: string | undefined;
+  do {
+    const page = await fetch(cursor);
+    ids.push(...page.items.map(item => item.id));
+    cursor = page.nextCursor || undefined;
+  } while (cursor);
+  return ids;
+}
+
+async function testOffsetPagination() {
+  const { store, documents } = await seed();
+  const { documents: repository } = repositoriesFor(store, CLIENT_A);
+
+  const newestFirst = (await repository.list({ limit: 100 })).items.map(document => document.id);
+  assert.equal(newestFirst.length, documents.length);
+
+  const page = await repository.list({ limit: 3, offset: 3 });
+  assert.deepEqual(page.items.map(document => document.id), newestFirst.slice(3, 6));
+  assert.equal(page.total, documents.length);
+  assert.equal(page.offset, 3);
+  assert.ok(page.nextCursor, 'a next page exists');
+
+  const last = await repository.list({ limit: 3, offset: 6 });
+  assert.equal(last.items.length, 1);
+  assert.equal(last.nextCursor, null);
+}
+
+async function testCursorPagination() {
+  const { store, documents } = await seed();
+  const { documents: repository } = repositoriesFor(store, CLIENT_A);
+
+  const byCreated = await collectPages(cursor => repository.list({ limit: 2, cursor }));
+  assert.equal(byCreated.length, documents.length);
+  assert.equal(new Set(byCreated).size, documents.length, 'no document is repeated across pages, ties included');
+  assert.deepEqual(byCreated, (await repository.list({ limit: 100 })).items.map(document => document.id));
+
+  const byTitle = await collectPages(cursor => repository.list({ limit: 3, cursor, sort: 'title', order: 'asc' }));
+  const titles = documents.map(document => document.title).sort();
+  assert.deepEqual(byTitle.map(id => documents.find(document => document.id === id)!.title), titles);
+
+  // A document added before the cursor's position doesn't shift the next page
+  const first = await repository.list({ limit: 3 });
+  await seedDocument(store, CLIENT_A, { title: 'Newest', created_at: at(59) });
+  const second = await repository.list({ limit: 3, cursor: first.nextCursor! });
+  assert.deepEqual(second.items.map(document => document.id), byCreated.slice(3, 6));
+  assert.equal(second.offset, null);
+  assert.equal(second.total, documents.length + 1);
+}
+
+async function testFiltersAndSorting() {
+  const { store, documents } = await seed();
+  const { documents: repository } = repositoriesFor(store, CLIENT_A);
+
+  const slack = await repository.list({ source: 'slack' });
+  assert.equal(slack.total, 3);
+  assert.ok(slack.items.every(document => document.source === 'slack'));
+
+  const search = await repository.list({ search: 'PLAN' });
+  assert.deepEqual(search.items.map(document => document.title), ['Onboarding plan']);
+
+  const recent = await repository.list({ updatedAfter: at(5), sort: 'updated_at', order: 'asc' });
+  assert.deepEqual(recent.items.map(document => document.title), ['Pricing', 'Retro']);
+
+  const titleDescending = await repository.list({ sort: 'title', order: 'desc', limit: 2 });
+  assert.deepEqual(titleDescending.items.map(document => document.title), ['Retro', 'Q3 roadmap']);
+
+  assert.equal(await repository.count({ source: 'upload' }), 4);
+  assert.equal((await repository.listAll({ source: 'upload' })).length, 4);
+  assert.equal((await repository.get(documents[0].id))?.title, 'Onboarding plan');
+}
+
+async function testClientScoping() {
+  const { store, documents, otherClientDocument } = await seed();
+  const a = repositoriesFor(store, CLIENT_A);
+  const b = repositoriesFor(store, CLIENT_B);
+
+  assert.ok((await a.documents.listAll()).every(document => document.client_id === CLIENT_A));
+  assert.equal(await a.documents.get(otherClientDocument.id), null);
+  assert.equal((await b.documents.list()).total, 1);
+
+  await store.insert(CLIENT_A, 'document_chunks', {
+    id: uuidv4(),
+    document_id: documents[0].id,
+    content: 'chunk',
+    embedding: [0.1, 0.2],
+    embedding_provider: 'test',
+    embedding_dimension: 2,
+    chunk_index: 0,
+    token_count: 1,
+    metadata: {},
+    created_at: at(0),
+  });
+  const chunks = await a.chunks.listByDocument(documents[0].id);
+  assert.equal(chunks.total, 1);
+  assert.equal('embedding' in chunks.items[0], false, 'embeddings stay out of listings');
+  assert.equal((await b.chunks.listByDocument(documents[0].id)).total, 0);
+
+  const conversation = await a.conversations.create({ id: uuidv4(), owner: { userId: USER_A }, title: 'Roadmap questions' });
+  const message = await a.messages.insert({ id: uuidv4(), conversationId: conversation.id, role: 'user', content: 'Hi', metadata: {} });
+  assert.deepEqual(await b.messages.recent(conversation.id), []);
+  assert.equal((await b.messages.listByConversation(conversation.id)).total, 0);
+  assert.equal(await b.messages.get(message.id), null);
+  assert.equal(await b.conversations.get(conversation.id, { userId: USER_A }), null);
+
+  await assert.rejects(
+    b.feedback.create({ id: uuidv4(), messageId: message.id, userId: USER_B, rating: 'negative' }),
+    NotFoundError
+  );
+  await a.feedback.create({ id: uuidv4(), messageId: message.id, userId: USER_A, rating: 'positive' });
+  assert.equal((await a.feedback.listByConversation(conversation.id)).total, 1);
+  assert.equal((await a.feedback.listByConversation(conversation.id, { rating: 'negative' })).total, 0);
+  assert.equal((await b.feedback.listByConversation(conversation.id)).total, 0);
+}
+
+async function testConversationsAndMessages() {
+  const store = new MemoryRecordStore();
+  const { conversations, messages } = repositoriesFor(store, CLIENT_A);
+
+  const first = await conversations.create({ id: uuidv4(), owner: { userId: USER_A }, title: 'Brand colours' });
+  await new Promise(resolve => setTimeout(resolve, 5));
+  const second = await conversations.create({ id: uuidv4(), owner: { userId: USER_A }, title: 'Launch date' });
+  await conversations.create({ id: uuidv4(), owner: { userId: OTHER_USER_A }, title: 'Someone else' });
+
+  const listed = await conversations.list({ userId: USER_A });
+  assert.deepEqual(listed.items.map(conversation => conversation.id), [second.id, first.id]);
+  assert.equal(listed.total, 2, "other users' conversations aren't listed");
+
+  // Conversations started with an API key belong to the key, not to any user
+  const automated = await conversations.create({ id: uuidv4(), owner: { apiKeyId: API_KEY_A }, title: 'Nightly digest' });
+  assert.equal(automated.user_id, null);
+  assert.equal((await conversations.list({ userId: USER_A })).total, 2);
+  assert.deepEqual((await conversations.list({ apiKeyId: API_KEY_A })).items.map(c => c.id), [automated.id]);
+  assert.equal(await conversations.get(automated.id, { userId: USER_A }), null);
+  assert.equal(await conversations.get(first.id, { apiKeyId: API_KEY_A }), null);
+
+  await new Promise(resolve => setTimeout(resolve, 5));
+  await conversations.touch(first.id);
+  assert.equal((await conversations.list({ userId: USER_A }, { limit: 1 })).items[0].id, first.id, 'touched conversation sorts first');
+  assert.deepEqual((await conversations.list({ userId: USER_A }, { search: 'launch' })).items.map(c => c.id), [second.id]);
+
+  assert.equal(await conversations.rename(first.id, { userId: OTHER_USER_A }, 'Taken'), null);
+  assert.equal((await conversations.rename(first.id, { userId: USER_A }, 'Brand palette'))?.title, 'Brand palette');
+
+  for (let i = 0; i < 5; i++) {
+    await store.insert(CLIENT_A, 'messages', {
+      id: uuidv4(),
+      conversation_id: first.id,
+      role: i % 2 === 0 ? 'user' : 'assistant',
+      content: `message ${i}`,
+      metadata: {},
+      created_at: at(i),
+    });
+  }
+  assert.deepEqual((await messages.recent(first.id, 2)).map(message => message.content), ['message 3', 'message 4']);
+  const page = await messages.listByConversation(first.id, { limit: 2, offset: 2 });
+  assert.deepEqual(page.items.map(message => message.content), ['message 2', 'message 3']);
+  assert.equal(page.total, 5);
+
+  assert.equal(await conversations.delete(first.id, { userId: OTHER_USER_A }), false);
+  assert.equal(await conversations.delete(first.id, { userId: USER_A }), true);
+  assert.equal(await conversations.get(first.id, { userId: USER_A }), null);
+}
+
+async function testInvalidOptionsAreRejected() {
+  const { store } = await seed();
+  const { documents } = repositoriesFor(store, CLIENT_A);
+
+  await assert.rejects(documents.list({ sort: 'content' as any }), ValidationError);
+  await assert.rejects(documents.list({ order: 'sideways' as any }), ValidationError);
+  await assert.rejects(documents.list({ cursor: 'not-a-cursor' }), ValidationError);
+
+  const { nextCursor } = await documents.list({ limit: 2, sort: 'title' });
+  await assert.rejects(documents.list({ cursor: nextCursor!, sort: 'created_at' }), ValidationError);
+
+  const clamped = await documents.list({ limit: 10_000, offset: -5 });
+  assert.equal(clamped.limit, 100);
+  assert.equal(clamped.offset, 0);
+}
+
+async function main() {
+  const tests = {
+    testOffsetPagination,
+    testCursorPagination,
+    testFiltersAndSorting,
+    testClientScoping,
+    testConversationsAndMessages,
+    testInvalidOptionsAreRejected,
+  };
+  let failed = 0;
+
+  for (const [name, test] of Object.entries(tests)) {
+    try {
+      await test();
+      logger.info(`✓ ${name}`);
+    } catch (error) {
+      failed++;
+      logger.error(`✗ ${name}`, { error: error instanceof Error ? error.message : error });
+    }
+  }
+
+  if (failed > 0) {
+    process.exit(1);
+  }
+  logger.info('All repository tests passed');
+}
+
+main();
@@ -0,0 +1,110 @@
+import assert from 'assert/strict';
+import crypto from 'crypto';
+import fs from 'fs';
+import path from 'path';
+import { isValidSlackRequest } from '@slack/bolt';
+import { buildDayDocument, buildThreadDocument } from '../services/slack/documents';
+import { planSlackEvent } from '../services/slack/events';
+import { SlackApiMessage } from '../services/slack/types';
+import { logger } from '../utils/logger';
+
+/**
+ * Replay recorded Slack Events API payloads through signature verification,
+ * event planning and document rendering. Needs no Slack workspace or database.
+ */
+
+const FIXTURES_DIR = path.join(__dirname, 'fixtures', 'slack');
+const SIGNING_SECRET = 'test-signing-secret';
+const CHANNEL = { id: 'C024BE91L', name: 'htt-project' };
+const USER_NAMES = new Map([
+  ['U061F7AUR', 'Dana'],
+  ['U0G9QF9C6', 'Sam'],
+]);
+
+function readFixture(name: string): string {
+  return fs.readFileSync(path.join(FIXTURES_DIR, `${name}.json`), 'utf8');
+}
+
+function sign(body: string, timestamp: number): string {
+  const digest = crypto.createHmac('sha256', SIGNING_SECRET).update(`v0:${timestamp}:${body}`).digest('hex');
+  return `v0=${digest}`;
+}
+
+function verify(body: string, signature: string, timestamp: number): boolean {
+  return isValidSlackRequest({
+    signingSecret: SIGNING_SECRET,
+    body,
+    headers: { 'x-slack-signature': signature, 'x-slack-request-timestamp': timestamp },
+  });
+}
+
+function testSignatureVerification() {
+  const body = readFixture('message');
+  const now = Math.floor(Date.now() / 1000);
+
+  assert.equal(verify(body, sign(body, now), now), true, 'valid signature is accepted');
+  assert.equal(verify(body.replace('Thursday', 'Friday'), sign(body, now), now), false, 'tampered body is rejected');
+  assert.equal(verify(body, sign(body, now - 600), now - 600), false, 'stale timestamp is rejected');
+}
+
+function testEventPlanning() {
+  const plan = (name: string) => planSlackEvent(JSON.parse(readFixture(name)));
+
+  assert.deepEqual(plan('url_verification'), []);
+  assert.deepEqual(plan('channel_join'), []);
+  assert.deepEqual(plan('message'), [{ kind: 'day', channel: CHANNEL.id, day: '2024-05-01' }]);
+  assert.deepEqual(plan('thread_reply'), [{ kind: 'thread', channel: CHANNEL.id, threadTs: '1714575000.001500' }]);
+  assert.deepEqual(plan('thread_broadcast'), [{ kind: 'thread', channel: CHANNEL.id, threadTs: '1714575000.001500' }]);
+  assert.deepEqual(plan('message_changed'), [{ kind: 'thread', channel: CHANNEL.id, threadTs: '1714575000.001500' }]);
+  assert.deepEqual(plan('message_deleted'), [{ kind: 'day', channel: CHANNEL.id, day: '2024-05-01' }]);
+}
+
+function testThreadDocument() {
+  const { messages } = JSON.parse(readFixture('conversations_replies')) as { messages: SlackApiMessage[] };
+  const document = buildThreadDocument(CHANNEL, messages, USER_NAMES);
+
+  assert.ok(document);
+  assert.equal(document.sourceId, 'C024BE91L:thread:1714575000.001500');
+  assert.equal(document.title, '#htt-project thread: Where are we on the Q3 scope for HTT? (need it for the bo...');
+  assert.match(document.content, /Started by Dana on 2024-05-01 14:50 UTC/);
+  assert.match(document.content, /\[2024-05-01 15:00 UTC\] Sam: Client signed off on the Q3 scope/);
+  assert.match(document.content, /Attached: HTT Q3 SOW/);
+  assert.deepEqual(document.metadata.participants, ['Dana', 'Sam']);
+  assert.equal(document.metadata.messageCount, 3);
+}
+
+function testDayDocument() {
+  const { messages } = JSON.parse(readFixture('conversations_history')) as { messages: SlackApiMessage[] };
+  const document = buildDayDocument(CHANNEL, '2024-05-01', messages, USER_NAMES);
+
+  assert.ok(document);
+  assert.equal(document.sourceId, 'C024BE91L:day:2024-05-01');
+  // Only the standalone message: the thread parent and broadcast belong to the thread, the join is noise
+  assert.equal(document.metadata.messageCount, 1);
+  assert.match(
+    document.content,
+    /Dana: Kickoff with @Sam moved to Thursday, agenda is in the kickoff doc \(https:\/\/www\.notion\.so\/asera\/Kickoff-8f1c\) & the budget is still TBD/
+  );
+}
+
+function main() {
+  const tests = { testSignatureVerification, testEventPlanning, testThreadDocument, testDayDocument };
+  let failed = 0;
+
+  for (const [name, test] of Object.entries(tests)) {
+    try {
+      test();
+      logger.info(`✓ ${name}`);
+    } catch (error) {
+      failed++;
+      logger.error(`✗ ${name}`, { error: error instanceof Error ? error.message : error });
+    }
+  }
+
+  if (failed > 0) {
+    process.exit(1);
+  }
+  logger.info('All Slack event tests passed');
+}
+
+main();
@@ -0,0 +1,268 @@
+import 'dotenv/config';
+import assert from 'assert/strict';
+import { v4 as uuidv4 } from 'uuid';
+import { PostgresVectorIndex } from '../services/vectorIndex';
+import { ClientDatabase } from '../utils/database';
+import { closePool, getPool, isTenantDbConfigured, withTenant } from '../utils/tenantDb';
+import { logger } from '../utils/logger';
+
+/**
+ * Check that tenant-scoped queries can't read, change or write another
+ * client's rows. Needs DATABASE_URL pointing at a local Postgres with
+ * database/schema.sql applied, and skips without it; creates two throwaway
+ * clients and removes them.
+ */
+
+const index = new PostgresVectorIndex();
+
+interface Tenant {
+  clientId: string;
+  userId: string;
+  documentId: string;
+  chunkId: string;
+  conversationId: string;
+  messageId: string;
+  feedbackId: string;
+  logId: string;
+}
+
+const embedding = (seed: number) => Array.from({ length: 1536 }, (_, i) => (i === seed ? 1 : 0));
+
+async function createTenant(name: string, seed: number): Promise<Tenant> {
+  const tenant: Tenant = {
+    clientId: uuidv4(),
+    userId: uuidv4(),
+    documentId: uuidv4(),
+    chunkId: uuidv4(),
+    conversationId: uuidv4(),
+    messageId: uuidv4(),
+    feedbackId: uuidv4(),
+    logId: uuidv4(),
+  };
+
+  // Clients and users aren't tenant-scoped; create them as the connecting login
+  await getPool().query('INSERT INTO public.clients (id, name, slug) VALUES ($1, $2, $3)',
+    [tenant.clientId, name, `isolation-${tenant.clientId}`]);
+  await getPool().query(
+    "INSERT INTO public.users (id, email, password_hash, name, client_id, role) VALUES ($1, $2, 'x', $3, $4, 'user')",
+    [tenant.userId, `${tenant.userId}@isolation.test`, name, tenant.clientId]
+  );
+
+  const clientDb = new ClientDatabase(tenant.clientId);
+  await index.upsertDocument({
+    id: tenant.documentId,
+    clientId: tenant.clientId,
+    title: `${name} roadmap`,
+    content: `${name} confidential launch plan`,
+    source: 'upload',
+    sourceId: `isolation-${name}`,
+    metadata: {},
+  });
+  await index.upsertChunks(tenant.clientId, [{
+    id: tenant.chunkId,
+    documentId: tenant.documentId,
+    content: `${name} confidential launch plan`,
+    embedding: embedding(seed),
+    embeddingProvider: 'isolation-test',
+    embeddingDimension: 1536,
+    chunkIndex: 0,
+    tokenCount: 4,
+    metadata: {},
+  }]);
+  await clientDb.conversations.create({ id: tenant.conversationId, owner: { userId: tenant.userId }, title: `${name} chat` });
+  await clientDb.messages.insert({
+    id: tenant.messageId,
+    conversationId: tenant.conversationId,
+    role: 'user',
+    content: `${name} question`,
+    metadata: {},
+  });
+  await withTenant(tenant.clientId, db => Promise.all([
+    db.query("INSERT INTO public.feedback (id, message_id, user_id, rating) VALUES ($1, $2, $3, 'positive')",
+      [tenant.feedbackId, tenant.messageId, tenant.userId]),
+    db.query("INSERT INTO public.integration_logs (id, client_id, integration_type, action, status) VALUES ($1, $2, 'test', 'seed', 'success')",
+      [tenant.logId, tenant.clientId]),
+  ]));
+
+  return tenant;
+}
+
+async function countVisible(clientId: string, table: string, id: string): Promise<number> {
+  const { rows } = await withTenant(clientId, db => db.query(`SELECT COUNT(*)::int AS count FROM public.${table} WHERE id = $1`, [id]));
+  return rows[0].count;
+}
+
+async function assertRejected(run: () => Promise<unknown>, message: string) {
+  await assert.rejects(run, (error: any) => /row-level security/.test(error.message), message);
+}
+
+async function testOwnRowsAreVisible(a: Tenant) {
+  for (const [table, id] of Object.entries({
+    documents: a.documentId,
+    document_chunks: a.chunkId,
+    conversations: a.conversationId,
+    messages: a.messageId,
+    feedback: a.feedbackId,
+    integration_logs: a.logId,
+  })) {
+    assert.equal(await countVisible(a.clientId, table, id), 1, `${table} row is visible to its client`);
+  }
+}
+
+async function testOtherTenantsRowsAreHidden(a: Tenant, b: Tenant) {
+  for (const [table, id] of Object.entries({
+    documents: a.documentId,
+    document_chunks: a.chunkId,
+    conversations: a.conversationId,
+    messages: a.messageId,
+    feedback: a.feedbackId,
+    integration_logs: a.logId,
+  })) {
+    assert.equal(await countVisible(b.clientId, table, id), 0, `${table} row is hidden from another client`);
+  }
+
+  // Even a query that forgets its client filter only sees its own client
+  const { rows } = await withTenant(b.clientId, db => db.query('SELECT DISTINCT client_id FROM public.documents'));
+  assert.deepEqual(rows.map(row => row.client_id), [b.clientId]);
+
+  const clientDb = new ClientDatabase(b.clientId);
+  assert.equal(await index.findDocumentBySourceId(b.clientId, 'upload', 'isolation-Alpha'), null);
+  assert.deepEqual(await clientDb.messages.recent(a.conversationId), []);
+  assert.equal(await clientDb.documents.get(a.documentId), null);
+  assert.ok((await clientDb.documents.listAll()).every(document => document.client_id === b.clientId));
+}
+
+async function testSearchIsScoped(a: Tenant, b: Tenant) {
+  const fullText = await index.searchFullText(b.clientId, 'Alpha confidential launch', { limit: 10 });
+  assert.ok(fullText.every(result => result.document_id !== a.documentId), 'full-text search stays in the client');
+
+  // Even if a caller passes another client's ID, RLS still filters by the transaction's client
+  const { rows } = await withTenant(b.clientId, db => db.query(
+    'SELECT * FROM search_chunks_fulltext($1, $2, 10)', ['Alpha confidential launch', a.clientId]
+  ));
+  assert.equal(rows.length, 0);
+
+  const similar = await index.search(b.clientId, embedding(1), { limit: 10, threshold: 0 });
+  assert.ok(similar.every(result => result.document_id !== a.documentId), 'vector search stays in the client');
+}
+
+async function testWritesIntoAnotherTenantAreRejected(a: Tenant, b: Tenant) {
+  await assertRejected(() => withTenant(b.clientId, db => db.query(
+    "INSERT INTO public.documents (id, client_id, title, content, source, source_id) VALUES ($1, $2, 't', 'c', 'upload', 'x')",
+    [uuidv4(), a.clientId]
+  )), 'document for another client');
+
+  await assertRejected(() => index.upsertChunks(b.clientId, [{
+    id: uuidv4(),
+    documentId: a.documentId,
+    content: 'injected',
+    embedding: null,
+    embeddingProvider: null,
+    embeddingDimension: null,
+    chunkIndex: 1,
+    tokenCount: 1,
+    metadata: {},
+  }]), "chunk on another client's document");
+
+  await assertRejected(() => new ClientDatabase(b.clientId).messages.insert({
+    id: uuidv4(),
+    conversationId: a.conversationId,
+    role: 'user',
+    content: 'injected',
+    metadata: {},
+  }), "message in another client's conversation");
+
+  // Upserting onto another client's document ID must not take it over
+  await assert.rejects(() => index.upsertDocument({
+    id: a.documentId,
+    clientId: b.clientId,
+    title: 'hijacked',
+    content: 'hijacked',
+    source: 'upload',
+    sourceId: 'hijacked',
+    metadata: {},
+  }));
+  assert.equal((await index.findDocumentBySourceId(a.clientId, 'upload', 'isolation-Alpha'))?.title, 'Alpha roadmap');
+}
+
+async function testUpdatesAndDeletesAreScoped(a: Tenant, b: Tenant) {
+  const clientDb = new ClientDatabase(b.clientId);
+
+  await index.deleteChunks(b.clientId, a.documentId);
+  await clientDb.deleteDocument(a.documentId);
+  assert.equal(await countVisible(a.clientId, 'document_chunks', a.chunkId), 1, "chunks survive another client's delete");
+  assert.equal(await countVisible(a.clientId, 'documents', a.documentId), 1, "document survives another client's delete");
+
+  assert.equal(await clientDb.conversations.delete(a.conversationId, { userId: a.userId }), false);
+  assert.equal(await clientDb.conversations.rename(a.conversationId, { userId: a.userId }, 'renamed'), null);
+
+  const { rowCount } = await withTenant(b.clientId, db => db.query(
+    "UPDATE public.messages SET content = 'tampered' WHERE id = $1", [a.messageId]
+  ));
+  assert.equal(rowCount, 0);
+}
+
+async function testUnsetTenantSeesNothing(a: Tenant) {
+  const db = await getPool().connect();
+  try {
+    await db.query('BEGIN');
+    await db.query(`SET LOCAL ROLE ${process.env.TENANT_DB_ROLE || 'asera_tenant'}`);
+    const { rows } = await db.query('SELECT COUNT(*)::int AS count FROM public.documents WHERE id = $1', [a.documentId]);
+    assert.equal(rows[0].count, 0, 'no client setting, no rows');
+  } finally {
+    await db.query('ROLLBACK');
+    db.release();
+  }
+}
+
+async function main() {
+  if (!isTenantDbConfigured()) {
+    logger.warn('Skipping tenant isolation tests: set DATABASE_URL to a local Postgres with database/schema.sql applied to run them');
+    return;
+  }
+
+  let failed = 0;
+  const tenants: Tenant[] = [];
+
+  try {
+    const a = await createTenant('Alpha', 1);
+    tenants.push(a);
+    const b = await createTenant('Beta', 2);
+    tenants.push(b);
+
+    const tests: Record<string, () => Promise<void>> = {
+      testOwnRowsAreVisible: () => testOwnRowsAreVisible(a),
+      testOtherTenantsRowsAreHidden: () => testOtherTenantsRowsAreHidden(a, b),
+      testSearchIsScoped: () => testSearchIsScoped(a, b),
+      testWritesIntoAnotherTenantAreRejected: () => testWritesIntoAnotherTenantAreRejected(a, b),
+      testUpdatesAndDeletesAreScoped: () => testUpdatesAndDeletesAreScoped(a, b),
+      testUnsetTenantSeesNothing: () => testUnsetTenantSeesNothing(a),
+    };
+
+    for (const [name, test] of Object.entries(tests)) {
+      try {
+        await test();
+        logger.info(`✓ ${name}`);
+      } catch (error) {
+        failed++;
+        logger.error(`✗ ${name}`, { error: error instanceof Error ? error.message : error });
+      }
+    }
+  } finally {
+    // Everything else cascades with the clients
+    for (const tenant of tenants) {
+      await getPool().query('DELETE FROM public.clients WHERE id = $1', [tenant.clientId]);
+    }
+    await closePool();
+  }
+
+  if (failed > 0) {
+    process.exit(1);
+  }
+  logger.info('All tenant isolation tests passed');
+}
+
+main().catch(error => {
+  logger.error('Tenant isolation tests could not run:', { error: error instanceof Error ? error.message : error });
+  process.exit(1);
+});
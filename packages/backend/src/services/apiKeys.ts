@@ -0,0 +1,269 @@
+import crypto from 'crypto';
+import { v4 as uuidv4 } from 'uuid';
+import { supabase } from '../utils/database';
+import { logger } from '../utils/logger';
+import { isIpAllowed, isValidIpEntry } from '../utils/ipAllowlist';
+import { AuthenticationError, AuthorizationError, NotFoundError, ValidationError } from '../types/errors';
+
+export const API_KEY_SCOPES = ['chat:write', 'documents:read', 'documents:write'] as const;
+export type ApiKeyScope = typeof API_KEY_SCOPES[number];
+
+// Keys are told apart from JWTs by this prefix
+export const API_KEY_PREFIX = 'ak_';
+// Characters of the key kept in the clear, so admins can recognise a key in listings
+const DISPLAY_PREFIX_LENGTH = 11;
+const MAX_NAME_LENGTH = 100;
+// last_used_at is written at most this often per key, not on every request
+const LAST_USED_INTERVAL_MS = 60 * 1000;
+
+const API_KEY_COLUMNS = 'id, client_id, name, key_prefix, scopes, allowed_ips, created_by, created_at, expires_at, last_used_at, last_used_ip, revoked_at, revoked_by';
+
+export interface ApiKey {
+  id: string;
+  client_id: string;
+  name: string;
+  key_prefix: string;
+  scopes: ApiKeyScope[];
+  /** Addresses or CIDR ranges the key may be used from; null allows any */
+  allowed_ips: string[] | null;
+  created_by: string | null;
+  created_at: string;
+  expires_at: string | null;
+  last_used_at: string | null;
+  last_used_ip: string | null;
+  revoked_at: string | null;
+  revoked_by: string | null;
+}
+
+export interface ApiKeyClient {
+  id: string;
+  name: string;
+  slug: string;
+  settings: Record<string, any>;
+  status?: string;
+}
+
+/**
+ * Per-client API keys for server-to-server access. Only a SHA-256 hash of each
+ * key is stored; the key itself is returned once, when it's created.
+ */
+export class ApiKeyService {
+  private static instance: ApiKeyService;
+  private lastUsedWrites = new Map<string, number>();
+
+  public static getInstance(): ApiKeyService {
+    if (!ApiKeyService.instance) {
+      ApiKeyService.instance = new ApiKeyService();
+    }
+    return ApiKeyService.instance;
+  }
+
+  private constructor() {}
+
+  isApiKey(token: string): boolean {
+    return token.startsWith(API_KEY_PREFIX);
+  }
+
+  async createKey(params: {
+    clientId: string;
+    name: unknown;
+    scopes: unknown;
+    expiresAt?: unknown;
+    allowedIps?: unknown;
+    createdBy: string;
+  }): Promise<{ apiKey: ApiKey; key: string }> {
+    const name = typeof params.name === 'string' ? params.name.trim() : '';
+    if (!name || name.length > MAX_NAME_LENGTH) {
+      throw new ValidationError(`name is required (at most ${MAX_NAME_LENGTH} characters)`);
+    }
+
+    const scopes = this.validateScopes(params.scopes);
+    const expiresAt = this.validateExpiry(params.expiresAt);
+    const allowedIps = this.validateAllowedIps(params.allowedIps);
+
+    const key = `${API_KEY_PREFIX}${crypto.randomBytes(32).toString('base64url')}`;
+
+    const { data: apiKey, error } = await this.db()
+      .from('api_keys')
+      .insert({
+        id: uuidv4(),
+        client_id: params.clientId,
+        name,
+        key_prefix: key.substring(0, DISPLAY_PREFIX_LENGTH),
+        key_hash: this.hash(key),
+        scopes,
+        allowed_ips: allowedIps,
+        created_by: params.createdBy,
+        expires_at: expiresAt,
+      })
+      .select(API_KEY_COLUMNS)
+      .single();
+
+    if (error || !apiKey) {
+      logger.error('Error creating API key:', { error, clientId: params.clientId });
+      throw error || new Error('Failed to create API key');
+    }
+
+    logger.info('API key created:', { apiKeyId: apiKey.id, clientId: params.clientId, scopes, createdBy: params.createdBy });
+
+    return { apiKey: apiKey as ApiKey, key };
+  }
+
+  /**
+   * A client's keys, newest first, revoked and expired ones included
+   */
+  async listKeys(clientId: string): Promise<ApiKey[]> {
+    const { data, error } = await this.db()
+      .from('api_keys')
+      .select(API_KEY_COLUMNS)
+      .eq('client_id', clientId)
+      .order('created_at', { ascending: false });
+
+    if (error) {
+      logger.error('Error listing API keys:', { error, clientId });
+      throw error;
+    }
+
+    return (data || []) as ApiKey[];
+  }
+
+  /**
+   * Revoke a key; requests using it fail from then on. Revoking a revoked key is a no-op.
+   */
+  async revokeKey(clientId: string, apiKeyId: string, revokedBy: string): Promise<ApiKey> {
+    const db = this.db();
+
+    const { data: revoked, error } = await db
+      .from('api_keys')
+      .update({ revoked_at: new Date().toISOString(), revoked_by: revokedBy })
+      .eq('id', apiKeyId)
+      .eq('client_id', clientId)
+      .is('revoked_at', null)
+      .select(API_KEY_COLUMNS)
+      .maybeSingle();
+
+    if (error) {
+      logger.error('Error revoking API key:', { error, apiKeyId, clientId });
+      throw error;
+    }
+
+    if (revoked) {
+      logger.info('API key revoked:', { apiKeyId, clientId, revokedBy });
+      return revoked as ApiKey;
+    }
+
+    const { data: existing } = await db
+      .from('api_keys')
+      .select(API_KEY_COLUMNS)
+      .eq('id', apiKeyId)
+      .eq('client_id', clientId)
+      .maybeSingle();
+
+    if (!existing) {
+      throw new NotFoundError('API key not found');
+    }
+    return existing as ApiKey;
+  }
+
+  /**
+   * Look up a presented key and check it can be used from `ip`. Records the use.
+   */
+  async authenticate(key: string, ip: string | undefined): Promise<{ apiKey: ApiKey; client: ApiKeyClient }> {
+    const { data, error } = await this.db()
+      .from('api_keys')
+      .select(`${API_KEY_COLUMNS}, clients!inner(id, name, slug, settings, status)`)
+      .eq('key_hash', this.hash(key))
+      .maybeSingle();
+
+    if (error) {
+      logger.error('Error looking up API key:', { error });
+      throw error;
+    }
+
+    if (!data) {
+      throw new AuthenticationError('Invalid API key');
+    }
+
+    const { clients: client, ...apiKey } = data as unknown as ApiKey & { clients: ApiKeyClient };
+
+    if (apiKey.revoked_at) {
+      throw new AuthenticationError('API key has been revoked');
+    }
+
+    if (apiKey.expires_at && new Date(apiKey.expires_at) <= new Date()) {
+      throw new AuthenticationError('API key has expired');
+    }
+
+    if (apiKey.allowed_ips && !isIpAllowed(ip, apiKey.allowed_ips)) {
+      logger.warn('API key used from an address not on its allowlist:', { apiKeyId: apiKey.id, ip });
+      throw new AuthorizationError('API key is not allowed from this address');
+    }
+
+    this.recordUse(apiKey.id, ip);
+
+    return { apiKey, client };
+  }
+
+  private recordUse(apiKeyId: string, ip: string | undefined): void {
+    const lastWrite = this.lastUsedWrites.get(apiKeyId);
+    if (lastWrite && Date.now() - lastWrite < LAST_USED_INTERVAL_MS) {
+      return;
+    }
+    this.lastUsedWrites.set(apiKeyId, Date.now());
+
+    // Not awaited: a failed bookkeeping write shouldn't fail the request
+    Promise.resolve(
+      this.db()
+        .from('api_keys')
+        .update({ last_used_at: new Date().toISOString(), last_used_ip: ip || null })
+        .eq('id', apiKeyId)
+    ).then(({ error }) => {
+      if (error) {
+        logger.warn('Failed to record API key use:', { error, apiKeyId });
+      }
+    });
+  }
+
+  private validateScopes(scopes: unknown): ApiKeyScope[] {
+    if (!Array.isArray(scopes) || scopes.length === 0 || !scopes.every(scope => API_KEY_SCOPES.includes(scope))) {
+      throw new ValidationError(`scopes must be a non-empty list of: ${API_KEY_SCOPES.join(', ')}`);
+    }
+    return [...new Set(scopes as ApiKeyScope[])];
+  }
+
+  private validateExpiry(expiresAt: unknown): string | null {
+    if (expiresAt === undefined || expiresAt === null) return null;
+
+    const date = typeof expiresAt === 'string' ? new Date(expiresAt) : null;
+    if (!date || isNaN(date.getTime()) || date <= new Date()) {
+      throw new ValidationError('expires_at must be a future ISO 8601 timestamp');
+    }
+    return date.toISOString();
+  }
+
+  private validateAllowedIps(allowedIps: unknown): string[] | null {
+    if (allowedIps === undefined || allowedIps === null) return null;
+
+    if (!Array.isArray(allowedIps) || allowedIps.length === 0) {
+      throw new ValidationError('allowed_ips must be a non-empty list of addresses or CIDR ranges');
+    }
+    const invalid = allowedIps.filter(entry => typeof entry !== 'string' || !isValidIpEntry(entry));
+    if (invalid.length > 0) {
+      throw new ValidationError(`Invalid allowed_ips entries: ${invalid.join(', ')}`);
+    }
+    return allowedIps;
+  }
+
+  private hash(key: string): string {
+    return crypto.createHash('sha256').update(key).digest('hex');
+  }
+
+  private db() {
+    if (!supabase) {
+      throw new Error('Database not configured');
+    }
+    return supabase;
+  }
+}
+
+export const apiKeyService = ApiKeyService.getInstance();
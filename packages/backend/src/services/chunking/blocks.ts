@@ -0,0 +1,76 @@
+export type BlockKind = 'heading' | 'paragraph' | 'list_item' | 'code' | 'table';
+
+/**
+ * A structural piece of a section's text. Code and table blocks are atomic:
+ * the splitter keeps them in one chunk whenever it can.
+ */
+export interface TextBlock {
+  kind: BlockKind;
+  text: string;
+}
+
+const HEADING_PATTERN = /^#{1,6}\s+\S/;
+const FENCE_PATTERN = /^\s*(```|~~~)/;
+const TABLE_ROW_PATTERN = /^\s*\|/;
+export const LIST_ITEM_PATTERN = /^([-*+]|\d+[.)])\s+/;
+
+export function isAtomic(block: TextBlock): boolean {
+  return block.kind === 'code' || block.kind === 'table';
+}
+
+/**
+ * Split Markdown-ish text into headings, paragraphs, top-level list items
+ * (with their nested lines), fenced code blocks and tables
+ */
+export function splitBlocks(text: string): TextBlock[] {
+  const lines = text.split(/\r?\n/);
+  const blocks: TextBlock[] = [];
+  let i = 0;
+
+  const take = (kind: BlockKind, end: number) => {
+    const blockText = lines.slice(i, end).join('\n').trim();
+    if (blockText) blocks.push({ kind, text: blockText });
+    i = end;
+  };
+
+  while (i < lines.length) {
+    const line = lines[i];
+    let end = i + 1;
+
+    if (!line.trim()) {
+      i++;
+    } else if (FENCE_PATTERN.test(line)) {
+      const fence = line.trim().slice(0, 3);
+      while (end < lines.length && !lines[end].trim().startsWith(fence)) end++;
+      take('code', Math.min(end + 1, lines.length));
+    } else if (HEADING_PATTERN.test(line)) {
+      take('heading', end);
+    } else if (TABLE_ROW_PATTERN.test(line)) {
+      while (end < lines.length && TABLE_ROW_PATTERN.test(lines[end])) end++;
+      take('table', end);
+    } else if (LIST_ITEM_PATTERN.test(line)) {
+      // Nested items and paragraphs are indented, possibly after a blank line
+      while (end < lines.length) {
+        if (/^\s+\S/.test(lines[end])) {
+          end++;
+        } else if (!lines[end].trim() && /^\s+\S/.test(lines[end + 1] || '')) {
+          end += 2;
+        } else {
+          break;
+        }
+      }
+      take('list_item', end);
+    } else {
+      while (
+        end < lines.length
+        && lines[end].trim()
+        && ![FENCE_PATTERN, HEADING_PATTERN, TABLE_ROW_PATTERN, LIST_ITEM_PATTERN].some(pattern => pattern.test(lines[end]))
+      ) {
+        end++;
+      }
+      take('paragraph', end);
+    }
+  }
+
+  return blocks;
+}
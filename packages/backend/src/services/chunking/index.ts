@@ -0,0 +1,47 @@
+import type { DocumentSourceType } from '../vectorIndex';
+import { ExtractedSection } from '../documentParsing';
+import { markdownToSections } from '../documentParsing/markdownExtractor';
+import { meetingNotesStrategy, recursiveStrategy, slackStrategy } from './strategies';
+import { ChunkingStrategy, ChunkOptions, ResolvedChunkOptions, TextChunk } from './types';
+
+export type { ChunkOptions, TextChunk } from './types';
+export { countTokens } from './tokenizer';
+
+const DEFAULT_CHUNK_OPTIONS: ResolvedChunkOptions = {
+  maxTokens: 500,
+  overlapTokens: 50,
+};
+
+const STRATEGIES: Partial<Record<DocumentSourceType, ChunkingStrategy>> = {
+  notion_meeting_notes: meetingNotesStrategy,
+  slack: slackStrategy,
+};
+
+/**
+ * Split a document into chunks for embedding. Chunks never cross a section;
+ * without a parser-provided layout, the Markdown headings in the content
+ * define the sections. Each chunk carries its section's location.
+ */
+export function chunkDocument(
+  document: { content: string; source?: DocumentSourceType; sections?: ExtractedSection[] },
+  options: ChunkOptions = {}
+): TextChunk[] {
+  const resolved: ResolvedChunkOptions = {
+    maxTokens: options.maxTokens ?? DEFAULT_CHUNK_OPTIONS.maxTokens,
+    overlapTokens: options.overlapTokens ?? DEFAULT_CHUNK_OPTIONS.overlapTokens,
+  };
+  if (resolved.overlapTokens < 0 || resolved.overlapTokens >= resolved.maxTokens) {
+    throw new Error('overlapTokens must be at least 0 and smaller than maxTokens');
+  }
+
+  const sections = document.sections?.length ? document.sections : markdownToSections(document.content);
+  const strategy = (document.source && STRATEGIES[document.source]) || recursiveStrategy;
+
+  return sections
+    .flatMap(section => strategy(section, resolved))
+    .map((chunk, index) => ({
+      ...chunk,
+      index,
+      section: chunk.section && Object.keys(chunk.section).length > 0 ? chunk.section : undefined,
+    }));
+}
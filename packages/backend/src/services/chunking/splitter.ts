@@ -0,0 +1,146 @@
+import { isAtomic, TextBlock } from './blocks';
+import { countTokens, splitByTokens, tailTokens } from './tokenizer';
+import { ResolvedChunkOptions } from './types';
+
+/**
+ * A piece of text small enough to pack into a chunk, with the separator that
+ * joins it to the piece before it
+ */
+export interface TextUnit {
+  text: string;
+  tokens: number;
+  separator: string;
+  atomic?: boolean;
+}
+
+// Code blocks and tables up to this multiple of maxTokens stay whole; past
+// that they'd blow the embedding model's input limit and are cut between lines
+const MAX_ATOMIC_FACTOR = 2;
+
+const TABLE_SEPARATOR_PATTERN = /^\s*\|?\s*:?-{3,}/;
+
+// Finer and finer places to cut text that doesn't fit: lines, sentences, words
+const SPLITTERS = [
+  { pattern: /\n+/, separator: '\n' },
+  { pattern: /(?<=[.!?])\s+/, separator: ' ' },
+  { pattern: /\s+/, separator: ' ' },
+];
+
+/**
+ * Turn blocks into units that each fit a chunk alongside the overlap
+ */
+export function blocksToUnits(blocks: TextBlock[], options: ResolvedChunkOptions): TextUnit[] {
+  const budget = options.maxTokens - options.overlapTokens;
+
+  return blocks.flatMap((block, i) => {
+    // Items of one list stay on consecutive lines
+    const separator = block.kind === 'list_item' && blocks[i - 1]?.kind === 'list_item' ? '\n' : '\n\n';
+    const units = isAtomic(block) ? splitAtomic(block, options.maxTokens) : splitText(block.text, budget);
+    return units.map((unit, j) => (j === 0 ? { ...unit, separator } : unit));
+  });
+}
+
+/**
+ * Split text recursively until every piece fits `budget`: on lines, then
+ * sentences, then words, and finally on token boundaries
+ */
+export function splitText(text: string, budget: number, level = 0): TextUnit[] {
+  const tokens = countTokens(text);
+  if (tokens <= budget) {
+    return [{ text, tokens, separator: '' }];
+  }
+
+  if (level >= SPLITTERS.length) {
+    return splitByTokens(text, budget).map(piece => ({ text: piece, tokens: countTokens(piece), separator: '' }));
+  }
+
+  const { pattern, separator } = SPLITTERS[level];
+  return text
+    .split(pattern)
+    .filter(part => part.trim())
+    .flatMap((part, i) => splitText(part, budget, level + 1)
+      .map((unit, j) => (i > 0 && j === 0 ? { ...unit, separator } : unit)));
+}
+
+/**
+ * Greedily pack units into chunks of at most `maxTokens`. Each chunk after the
+ * first starts with the last `overlapTokens` of the one before, except next to
+ * a code block or table, where a partial copy would only add noise.
+ */
+export function packUnits(
+  units: TextUnit[],
+  maxTokens: number,
+  overlapTokens: number
+): Array<{ content: string; tokenCount: number }> {
+  const chunks: string[] = [];
+  let current: TextUnit[] = [];
+  let tokens = 0;
+
+  const join = (parts: TextUnit[]) => parts.map((unit, i) => (i === 0 ? unit.text : unit.separator + unit.text)).join('');
+
+  for (const unit of units) {
+    // Separators are counted as one token each
+    if (current.length > 0 && tokens + 1 + unit.tokens > maxTokens) {
+      const content = join(current);
+      chunks.push(content);
+
+      const overlap = overlapTokens > 0 && !unit.atomic && !current[current.length - 1].atomic
+        ? tailTokens(content, overlapTokens)
+        : '';
+      const overlapCount = countTokens(overlap);
+
+      if (overlap && overlapCount + 1 + unit.tokens <= maxTokens) {
+        current = [{ text: overlap, tokens: overlapCount, separator: '' }];
+        tokens = overlapCount;
+      } else {
+        current = [];
+        tokens = 0;
+      }
+    }
+
+    tokens += (current.length > 0 ? 1 : 0) + unit.tokens;
+    current.push(unit);
+  }
+
+  if (current.length > 0) {
+    chunks.push(join(current));
+  }
+
+  return chunks
+    .map(content => content.trim())
+    .filter(content => content)
+    .map(content => ({ content, tokenCount: countTokens(content) }));
+}
+
+/**
+ * Keep a code block or table whole, unless it's far past the chunk size. Then
+ * cut it between lines, repeating the fence or header row on every piece.
+ */
+function splitAtomic(block: TextBlock, maxTokens: number): TextUnit[] {
+  const tokens = countTokens(block.text);
+  if (tokens <= maxTokens * MAX_ATOMIC_FACTOR) {
+    return [{ text: block.text, tokens, separator: '', atomic: true }];
+  }
+
+  const lines = block.text.split('\n');
+  let prefix: string[] = [];
+  let suffix: string[] = [];
+
+  if (block.kind === 'table' && lines.length > 2 && TABLE_SEPARATOR_PATTERN.test(lines[1])) {
+    prefix = lines.splice(0, 2);
+  } else if (block.kind === 'code') {
+    prefix = lines.splice(0, 1);
+    if (lines.length > 0 && /^\s*(```|~~~)\s*$/.test(lines[lines.length - 1])) {
+      suffix = lines.splice(-1);
+    }
+  }
+
+  const frame = countTokens([...prefix, ...suffix].join('\n')) + 2;
+  const lineUnits = lines.flatMap((line, i) => splitText(line, maxTokens - frame)
+    .map((unit, j) => (i > 0 && j === 0 ? { ...unit, separator: '\n' } : unit)));
+
+  return packUnits(lineUnits, maxTokens - frame, 0).map(piece => {
+    const text = [...prefix, piece.content, ...suffix].join('\n');
+    return { text, tokens: countTokens(text), separator: '', atomic: true };
+  });
+}
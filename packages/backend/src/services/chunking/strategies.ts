@@ -0,0 +1,97 @@
+import { SectionLocation } from '../documentParsing';
+import { LIST_ITEM_PATTERN, splitBlocks, TextBlock } from './blocks';
+import { blocksToUnits, packUnits, splitText } from './splitter';
+import { countTokens } from './tokenizer';
+import { ChunkingStrategy, ResolvedChunkOptions } from './types';
+
+// Message lines as rendered by services/slack/documents.ts
+const SLACK_MESSAGE_PATTERN = /^\[\d{4}-\d{2}-\d{2} \d{2}:\d{2} UTC\] /;
+
+const MAX_AGENDA_ITEM_LENGTH = 80;
+
+function chunkBlocks(blocks: TextBlock[], location: SectionLocation, options: ResolvedChunkOptions) {
+  return packUnits(blocksToUnits(blocks, options), options.maxTokens, options.overlapTokens)
+    .map(chunk => ({ ...chunk, section: location }));
+}
+
+/**
+ * The default: pack paragraphs, list items, code blocks and tables into
+ * chunks, splitting recursively only what doesn't fit on its own
+ */
+export const recursiveStrategy: ChunkingStrategy = (section, options) =>
+  chunkBlocks(splitBlocks(section.text), section.location, options);
+
+/**
+ * Meeting notes are chunked by agenda item. Items written as headings are
+ * already sections; a top-level list item with notes nested under it is an
+ * item too, chunked on its own with its title added to the heading path.
+ * Flat bullets without nested notes are packed like any other text.
+ */
+export const meetingNotesStrategy: ChunkingStrategy = (section, options) => {
+  const groups: Array<{ blocks: TextBlock[]; item?: string }> = [];
+
+  for (const block of splitBlocks(section.text)) {
+    const isAgendaItem = block.kind === 'list_item' && block.text.includes('\n');
+    const last = groups[groups.length - 1];
+
+    if (isAgendaItem) {
+      groups.push({ blocks: [block], item: agendaItemTitle(block.text) });
+    } else if (last && !last.item) {
+      last.blocks.push(block);
+    } else {
+      groups.push({ blocks: [block] });
+    }
+  }
+
+  return groups.flatMap(group => {
+    const location = group.item
+      ? { ...section.location, headingPath: [...(section.location.headingPath || []), group.item] }
+      : section.location;
+    return chunkBlocks(group.blocks, location, options);
+  });
+};
+
+/**
+ * Slack documents (a thread, or a day of top-level messages) are only split
+ * between messages, and every chunk repeats the document's header so a chunk
+ * from deep in a thread still says which channel and thread it's from.
+ */
+export const slackStrategy: ChunkingStrategy = (section, options) => {
+  const lines = section.text.split('\n');
+  const firstMessage = lines.findIndex(line => SLACK_MESSAGE_PATTERN.test(line));
+  if (firstMessage === -1) {
+    return recursiveStrategy(section, options);
+  }
+
+  const header = lines.slice(0, firstMessage).join('\n').trim();
+  const messages: string[] = [];
+  for (const line of lines.slice(firstMessage)) {
+    if (SLACK_MESSAGE_PATTERN.test(line) || messages.length === 0) {
+      messages.push(line);
+    } else {
+      // Attachments and wrapped text belong to the message above
+      messages[messages.length - 1] += `\n${line}`;
+    }
+  }
+
+  const budget = options.maxTokens - (header ? countTokens(header) + 2 : 0);
+  const units = messages.flatMap(message => splitText(message.trim(), budget)
+    .map((unit, i) => (i === 0 ? { ...unit, separator: '\n' } : unit)));
+
+  return packUnits(units, budget, 0).map(chunk => {
+    const content = header ? `${header}\n\n${chunk.content}` : chunk.content;
+    return { content, tokenCount: countTokens(content), section: section.location };
+  });
+};
+
+function agendaItemTitle(itemText: string): string {
+  const title = itemText
+    .split('\n')[0]
+    .replace(LIST_ITEM_PATTERN, '')
+    .replace(/^\[[ xX]\]\s+/, '')
+    .replace(/\[([^\]]*)\]\([^)]*\)/g, '$1')
+    .replace(/[*_~`]/g, '')
+    .trim();
+
+  return title.length > MAX_AGENDA_ITEM_LENGTH ? `${title.slice(0, MAX_AGENDA_ITEM_LENGTH - 3)}...` : title;
+}
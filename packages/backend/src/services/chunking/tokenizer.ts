@@ -0,0 +1,49 @@
+import { getEncoding, Tiktoken } from 'js-tiktoken';
+
+// cl100k_base is what OpenAI's embedding models count in; the other
+// providers' limits are close enough that it keeps chunks inside them too
+let encoder: Tiktoken | null = null;
+
+function getEncoder(): Tiktoken {
+  if (!encoder) {
+    encoder = getEncoding('cl100k_base');
+  }
+  return encoder;
+}
+
+// Special-token strings in documents ("<|endoftext|>") are encoded as plain text
+function encode(text: string): number[] {
+  return getEncoder().encode(text, [], []);
+}
+
+export function countTokens(text: string): number {
+  return text ? encode(text).length : 0;
+}
+
+/**
+ * The last `maxTokens` tokens of `text`, moved forward to a word boundary so
+ * the overlap never starts mid-word
+ */
+export function tailTokens(text: string, maxTokens: number): string {
+  const tokens = encode(text);
+  if (tokens.length <= maxTokens) return text;
+
+  const tail = getEncoder().decode(tokens.slice(-maxTokens));
+  const boundary = tail.search(/\s/);
+  return boundary === -1 ? '' : tail.slice(boundary).trim();
+}
+
+/**
+ * Cut text into pieces of at most `maxTokens` tokens, for runs with no
+ * whitespace to split on (long URLs, base64)
+ */
+export function splitByTokens(text: string, maxTokens: number): string[] {
+  const tokens = encode(text);
+  const pieces: string[] = [];
+
+  for (let start = 0; start < tokens.length; start += maxTokens) {
+    pieces.push(getEncoder().decode(tokens.slice(start, start + maxTokens)));
+  }
+
+  return pieces;
+}
@@ -0,0 +1,26 @@
+import { ExtractedSection, SectionLocation } from '../documentParsing';
+
+export interface ChunkOptions {
+  /** Upper bound on a chunk's size. Code blocks and tables may exceed it to stay whole. */
+  maxTokens?: number;
+  /** Tokens repeated from the end of the previous chunk in the same section */
+  overlapTokens?: number;
+}
+
+export type ResolvedChunkOptions = Required<ChunkOptions>;
+
+export interface TextChunk {
+  content: string;
+  index: number;
+  tokenCount: number;
+  section?: SectionLocation;
+}
+
+/**
+ * Chunks one section of a document. Chunks never span sections; a strategy
+ * can narrow the location further, e.g. to a meeting's agenda item.
+ */
+export type ChunkingStrategy = (
+  section: ExtractedSection,
+  options: ResolvedChunkOptions
+) => Array<Omit<TextChunk, 'index'>>;
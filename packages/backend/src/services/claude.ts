@@ -20,6 +20,10 @@ export interface ChatResponse {
   model: string;
 }
 
+export type ChatStreamEvent =
+  | { type: 'text'; text: string }
+  | { type: 'done'; response: ChatResponse };
+
 export interface EmbeddingResponse {
   embedding: number[];
   tokenCount: number;
@@ -98,6 +102,102 @@ export class ClaudeService {
     }
   }
 
+  /**
+   * Stream a chat completion from Claude, yielding text deltas as they arrive
+   * and a final event with the complete response and token usage.
+   * Breaking out of the loop aborts the underlying request.
+   */
+  async *streamChatCompletion(
+    messages: ChatMessage[],
+    options: {
+      model?: string;
+      maxTokens?: number;
+      temperature?: number;
+      /**
+       * Called once with the tokens used: the final count, or what was used so
+       * far when the stream fails or the consumer stops early
+       */
+      onUsage?: (tokenCount: number) => void;
+    } = {}
+  ): AsyncGenerator<ChatStreamEvent> {
+    const {
+      model = 'claude-3-haiku-20240307',
+      maxTokens = 1000,
+      temperature = 0.7,
+    } = options;
+
+    logger.info('Streaming request to Claude', {
+      model,
+      messageCount: messages.length,
+      maxTokens
+    });
+
+    const stream = anthropic.messages.stream({
+      model,
+      max_tokens: maxTokens,
+      temperature,
+      messages: messages.map(msg => ({
+        role: msg.role,
+        content: msg.content,
+      })),
+    });
+
+    let completed = false;
+    let outputChars = 0;
+
+    try {
+      for await (const event of stream) {
+        if (event.type === 'content_block_delta' && event.delta.type === 'text_delta') {
+          outputChars += event.delta.text.length;
+          yield { type: 'text', text: event.delta.text };
+        }
+      }
+
+      const response = await stream.finalMessage();
+      const content = response.content
+        .map(block => (block.type === 'text' ? block.text : ''))
+        .join('');
+      completed = true;
+      options.onUsage?.(response.usage.input_tokens + response.usage.output_tokens);
+
+      logger.info('Claude stream completed', {
+        model,
+        inputTokens: response.usage.input_tokens,
+        outputTokens: response.usage.output_tokens,
+        finishReason: response.stop_reason,
+      });
+
+      yield {
+        type: 'done',
+        response: {
+          content,
+          tokenCount: response.usage.input_tokens + response.usage.output_tokens,
+          model,
+        },
+      };
+    } catch (error) {
+      logger.error('Error streaming chat completion:', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+        messageCount: messages.length,
+        model
+      });
+      throw error;
+    } finally {
+      if (!completed) {
+        // Output usage is only final at the end, so estimate it from the text so far
+        const usage = stream.currentMessage?.usage;
+        options.onUsage?.(
+          (usage?.input_tokens ?? 0) + Math.max(usage?.output_tokens ?? 0, Math.ceil(outputChars / 4))
+        );
+      }
+
+      // Consumer stopped early (e.g. client disconnected) - stop paying for tokens
+      if (!completed && !stream.ended) {
+        stream.abort();
+      }
+    }
+  }
+
   /**
    * Generate embeddings using Claude (via text analysis)
    * Since Claude doesn't have direct embeddings API, we'll use a hybrid approach
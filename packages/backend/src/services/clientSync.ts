@@ -1,6 +1,11 @@
 import { Client } from '@notionhq/client';
 import { createClient, SupabaseClient } from '@supabase/supabase-js';
 import { logger } from '../utils/logger';
+import { renderPageMarkdown } from './notionMarkdown';
+import { lockService } from './locks';
+import { SyncMode, SyncTrigger, emptySyncRunCounts, syncLockName, syncRunService } from './syncRuns';
+import { normalizeNotionId } from './notion';
+import { syncSourceService } from './syncSources';
 import { v4 as uuidv4 } from 'uuid';
 
 // Initialize Notion client
@@ -23,6 +28,17 @@ interface NotionClient {
   lastEditedTime: string;
 }
 
+interface ClientSyncResult {
+  success: boolean;
+  stats: {
+    total: number;
+    created: number;
+    updated: number;
+    skipped: number;
+    errors: string[];
+  };
+}
+
 interface ClientToUpload {
   id: string;
   name: string;
@@ -35,8 +51,6 @@ interface ClientToUpload {
 
 export class ClientSyncService {
   private static instance: ClientSyncService;
-  private readonly databaseId = '20f9a8ee-e622-805e-a2ec-d18f3d424818';
-  private syncInProgress = false;
 
   public static getInstance(): ClientSyncService {
     if (!ClientSyncService.instance) {
@@ -122,65 +136,17 @@ export class ClientSyncService {
   }
 
   /**
-   * Extract content from a Notion page
+   * Extract content from a Notion page as Markdown
    */
   private async extractPageContent(pageId: string): Promise<string> {
     try {
-      const blocks = await notion.blocks.children.list({
-        block_id: pageId,
-        page_size: 100,
-      });
-
-      let content = '';
-      for (const block of blocks.results) {
-        content += this.blockToText(block as any) + '\n';
-      }
-
-      return content.trim();
+      return await renderPageMarkdown(notion, pageId);
     } catch (error) {
       logger.error('Error extracting page content:', { error, pageId });
       return '';
     }
   }
 
-  /**
-   * Convert a Notion block to text
-   */
-  private blockToText(block: any): string {
-    if (!block.type) return '';
-
-    const type = block.type;
-    const blockData = block[type];
-
-    if (!blockData) return '';
-
-    switch (type) {
-      case 'paragraph':
-      case 'heading_1':
-      case 'heading_2':
-      case 'heading_3':
-      case 'bulleted_list_item':
-      case 'numbered_list_item':
-        return this.richTextToPlainText(blockData.rich_text || []);
-      
-      case 'code':
-        return blockData.rich_text ? this.richTextToPlainText(blockData.rich_text) : '';
-      
-      case 'quote':
-        return `"${this.richTextToPlainText(blockData.rich_text || [])}"`;
-      
-      default:
-        return '';
-    }
-  }
-
-  /**
-   * Convert Notion rich text to plain text
-   */
-  private richTextToPlainText(richText: any[]): string {
-    return richText.map(text => text.plain_text || '').join('');
-  }
-
   /**
    * Generate a slug from client name
    */
@@ -582,30 +548,71 @@ export class ClientSyncService {
   }
 
   /**
-   * Sync all clients from Notion database
+   * Sync all clients from a Notion clients database
    */
-  async syncAllClients(): Promise<{
-    success: boolean;
-    stats: {
-      total: number;
-      created: number;
-      updated: number;
-      skipped: number;
-      errors: string[];
-    };
-  }> {
-    if (this.syncInProgress) {
-      return { success: false, stats: { total: 0, created: 0, updated: 0, skipped: 0, errors: ['Sync already in progress'] } };
+  async syncAllClients(databaseId: string, trigger: SyncTrigger = 'manual'): Promise<ClientSyncResult> {
+    return this.recordClientSync(databaseId, trigger, 'full', () => this.fullClientSync(databaseId));
+  }
+
+  /**
+   * Sync only clients updated since a specific date
+   */
+  async syncUpdatedClients(databaseId: string, sinceDate: Date, trigger: SyncTrigger = 'manual'): Promise<ClientSyncResult> {
+    return this.recordClientSync(databaseId, trigger, 'incremental', () => this.incrementalClientSync(databaseId, sinceDate));
+  }
+
+  /**
+   * Run a client sync as a recorded sync run. A sync that failed outright is
+   * recorded as failed; individual client errors make it partial.
+   */
+  private async recordClientSync(
+    databaseId: string,
+    trigger: SyncTrigger,
+    mode: SyncMode,
+    sync: () => Promise<ClientSyncResult>
+  ): Promise<ClientSyncResult> {
+    let result: ClientSyncResult | undefined;
+    try {
+      // One sync of a clients database at a time, across all backend instances
+      const locked = await lockService.withLock(syncLockName('notion_clients', databaseId), () => syncRunService.record(
+        { source: 'notion_clients', resourceId: databaseId, resourceName: 'Clients', trigger, mode },
+        async () => {
+          result = await sync();
+          if (!result.success) {
+            throw new Error(result.stats.errors[result.stats.errors.length - 1] || 'Client sync failed');
+          }
+          return {
+            ...emptySyncRunCounts(),
+            seen: result.stats.total,
+            created: result.stats.created,
+            updated: result.stats.updated,
+            skipped: result.stats.skipped,
+            failed: result.stats.errors.length,
+            errors: result.stats.errors,
+          };
+        }
+      ));
+
+      if (!locked.acquired) {
+        const message = `Sync already in progress${locked.holder ? ` on ${locked.holder}` : ''}`;
+        return { success: false, stats: { total: 0, created: 0, updated: 0, skipped: 0, errors: [message] } };
+      }
+    } catch (error) {
+      // Already logged and recorded; the result carries the errors
+      if (!result) throw error;
     }
 
-    this.syncInProgress = true;
+    return result!;
+  }
+
+  private async fullClientSync(databaseId: string): Promise<ClientSyncResult> {
     const stats = { total: 0, created: 0, updated: 0, skipped: 0, errors: [] as string[] };
 
     try {
       logger.info('Starting full client sync from Notion...');
 
       const response = await notion.databases.query({
-        database_id: this.databaseId,
+        database_id: databaseId,
         page_size: 100,
       });
 
@@ -637,29 +644,10 @@ export class ClientSyncService {
       stats.errors.push(errorMsg);
       logger.error('Client sync failed:', { error });
       return { success: false, stats };
-    } finally {
-      this.syncInProgress = false;
     }
   }
 
-  /**
-   * Sync only updated clients since a specific date
-   */
-  async syncUpdatedClients(sinceDate: Date): Promise<{
-    success: boolean;
-    stats: {
-      total: number;
-      created: number;
-      updated: number;
-      skipped: number;
-      errors: string[];
-    };
-  }> {
-    if (this.syncInProgress) {
-      return { success: false, stats: { total: 0, created: 0, updated: 0, skipped: 0, errors: ['Sync already in progress'] } };
-    }
-
-    this.syncInProgress = true;
+  private async incrementalClientSync(databaseId: string, sinceDate: Date): Promise<ClientSyncResult> {
     const stats = { total: 0, created: 0, updated: 0, skipped: 0, errors: [] as string[] };
 
     try {
@@ -674,7 +662,7 @@ export class ClientSyncService {
       };
 
       const response = await notion.databases.query({
-        database_id: this.databaseId,
+        database_id: databaseId,
         filter,
         page_size: 100,
       });
@@ -714,8 +702,6 @@ export class ClientSyncService {
       logger.error('Error in incremental client sync:', { error });
       stats.errors.push(error instanceof Error ? error.message : 'Unknown error');
       return { success: false, stats };
-    } finally {
-      this.syncInProgress = false;
     }
   }
 
@@ -943,20 +929,6 @@ export class ClientSyncService {
         return { success: false, message: `Invalid webhook: no page ID found for type ${type}` };
       }
 
-      // Validate that this webhook is from the clients database
-      if (databaseId && databaseId !== this.databaseId) {
-        logger.info('Webhook ignored: not from clients database', { 
-          receivedDatabaseId: databaseId, 
-          expectedDatabaseId: this.databaseId,
-          pageId,
-          type 
-        });
-        return { 
-          success: true, 
-          message: `Webhook ignored: page not from clients database (${databaseId})` 
-        };
-      }
-
       // If we don't have the database ID in the webhook, we need to verify it by fetching the page
       if (!databaseId) {
         try {
@@ -972,47 +944,60 @@ export class ClientSyncService {
         }
       }
 
-      // Handle different webhook types
-      switch (type) {
-        case 'page.updated':
-        case 'page.content_updated':
-        case 'page.properties_updated':
-          const result = await this.syncClient(pageId);
-          if (result.success) {
-            const action = result.action === 'created' ? 'created' : 'updated';
-            return {
-              success: true,
-              message: `Client ${action}: ${result.client?.name || 'Unknown'}`
-            };
-          } else {
-            return { success: false, message: result.error || 'Failed to sync client' };
-          }
+      // Validate that this webhook is from a registered clients database
+      const clientsDatabases = await syncSourceService.list({ sourceType: 'notion_clients', enabled: true });
+      const clientsDatabase = databaseId
+        ? clientsDatabases.find(source => source.resourceId === normalizeNotionId(databaseId!))
+        : clientsDatabases[0];
 
-        case 'page.created':
-          const createResult = await this.syncClient(pageId);
-          if (createResult.success) {
-            return {
-              success: true,
-              message: `Client created: ${createResult.client?.name || 'Unknown'}`
-            };
+      if (!clientsDatabase) {
+        logger.info('Webhook ignored: not from a clients database', { 
+          receivedDatabaseId: databaseId, 
+          clientsDatabaseIds: clientsDatabases.map(source => source.resourceId),
+          pageId,
+          type 
+        });
+        return { 
+          success: true, 
+          message: `Webhook ignored: page not from a clients database (${databaseId || 'unknown'})` 
+        };
+      }
+
+      // Handle different webhook types
+      if (!['page.created', 'page.updated', 'page.content_updated', 'page.properties_updated', 'page.deleted'].includes(type)) {
+        return { success: true, message: 'Webhook processed (no action needed)' };
+      }
+
+      let outcome = { success: false, message: 'Webhook not processed' };
+      const counts = { ...emptySyncRunCounts(), seen: 1 };
+
+      await syncRunService.record(
+        { source: 'notion_clients', resourceId: clientsDatabase.resourceId, resourceName: clientsDatabase.name, trigger: 'webhook', mode: 'incremental' },
+        async () => {
+          if (type === 'page.deleted') {
+            const deleteResult = await this.deleteClient(pageId!);
+            outcome = deleteResult.success
+              ? { success: true, message: `Client deleted: ${deleteResult.clientName || 'Unknown'}` }
+              : { success: false, message: deleteResult.error || 'Failed to delete client' };
+            if (deleteResult.success) counts.deleted++;
           } else {
-            return { success: false, message: createResult.error || 'Failed to create client' };
+            const result = await this.syncClient(pageId!);
+            const action = result.action === 'created' ? 'created' : 'updated';
+            outcome = result.success
+              ? { success: true, message: `Client ${action}: ${result.client?.name || 'Unknown'}` }
+              : { success: false, message: result.error || (type === 'page.created' ? 'Failed to create client' : 'Failed to sync client') };
+            if (result.success) counts[action]++;
           }
 
-        case 'page.deleted':
-          const deleteResult = await this.deleteClient(pageId);
-          if (deleteResult.success) {
-            return {
-              success: true,
-              message: `Client deleted: ${deleteResult.clientName || 'Unknown'}`
-            };
-          } else {
-            return { success: false, message: deleteResult.error || 'Failed to delete client' };
+          if (!outcome.success) {
+            counts.failed++;
+            counts.errors.push(outcome.message);
           }
+          return counts;
+        }
+      );
 
-        default:
-          return { success: true, message: 'Webhook processed (no action needed)' };
-      }
+      return outcome;
     } catch (error) {
       logger.error('Error processing webhook:', { error, webhookData });
       return { success: false, message: error instanceof Error ? error.message : 'Unknown error' };
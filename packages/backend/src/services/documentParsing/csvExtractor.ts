@@ -0,0 +1,86 @@
+import { DocumentParsingError } from '../../types/errors';
+import { DocumentExtractor, ExtractedDocument, ExtractedSection } from './types';
+
+// Data rows per section
+const ROWS_PER_SECTION = 25;
+
+export class CsvExtractor implements DocumentExtractor {
+  readonly format = 'csv';
+  readonly mimeTypes = ['text/csv', 'application/csv'];
+  readonly extensions = ['.csv'];
+
+  async extract(buffer: Buffer, filename: string): Promise<ExtractedDocument> {
+    const rows = parseCsv(buffer.toString('utf-8'), filename);
+    if (rows.length === 0) {
+      return { sections: [], metadata: { rowCount: 0 } };
+    }
+
+    const [header, ...dataRows] = rows;
+    const sections: ExtractedSection[] = [];
+
+    // Render each row as "column: value" pairs so a chunk is readable without the header
+    for (let start = 0; start < dataRows.length; start += ROWS_PER_SECTION) {
+      const batch = dataRows.slice(start, start + ROWS_PER_SECTION);
+      const text = batch
+        .map(row => row
+          .map((value, idx) => value.trim() ? `${header[idx] || `column ${idx + 1}`}: ${value.trim()}` : '')
+          .filter(Boolean)
+          .join('; '))
+        .filter(Boolean)
+        .join('\n');
+
+      sections.push({ text, location: { rows: [start + 1, start + batch.length] } });
+    }
+
+    return { sections, metadata: { columns: header, rowCount: dataRows.length } };
+  }
+}
+
+/**
+ * RFC 4180 parsing: quoted fields may contain commas, newlines and "" escapes
+ */
+function parseCsv(text: string, filename: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let inQuotes = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+
+    if (inQuotes) {
+      if (char === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"' && field === '') {
+      inQuotes = true;
+    } else if (char === ',') {
+      row.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+
+  if (inQuotes) {
+    throw new DocumentParsingError(`Could not read CSV "${filename}": unterminated quoted field`);
+  }
+
+  if (field !== '' || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+
+  return rows.filter(r => r.some(value => value.trim() !== ''));
+}
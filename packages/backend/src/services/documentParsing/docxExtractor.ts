@@ -0,0 +1,24 @@
+import mammoth from 'mammoth';
+import { DocumentParsingError } from '../../types/errors';
+import { htmlToSections } from './htmlExtractor';
+import { DocumentExtractor, ExtractedDocument } from './types';
+
+export class DocxExtractor implements DocumentExtractor {
+  readonly format = 'docx';
+  readonly mimeTypes = ['application/vnd.openxmlformats-officedocument.wordprocessingml.document'];
+  readonly extensions = ['.docx'];
+
+  async extract(buffer: Buffer, filename: string): Promise<ExtractedDocument> {
+    let html: string;
+    try {
+      // Word heading styles become h1-h6, which keeps the section structure
+      ({ value: html } = await mammoth.convertToHtml({ buffer }));
+    } catch (error) {
+      const reason = error instanceof Error ? error.message : 'Unknown error';
+      throw new DocumentParsingError(`Could not read Word document "${filename}": ${reason}`);
+    }
+
+    const { title, sections } = htmlToSections(html);
+    return { title, sections, metadata: {} };
+  }
+}
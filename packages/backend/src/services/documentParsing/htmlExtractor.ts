@@ -0,0 +1,95 @@
+import { parse, HTMLElement, Node, NodeType } from 'node-html-parser';
+import { DocumentExtractor, ExtractedDocument, ExtractedSection } from './types';
+
+const SKIPPED_TAGS = new Set(['script', 'style', 'noscript', 'template', 'svg', 'head', 'nav', 'footer']);
+const BLOCK_TAGS = new Set([
+  'p', 'div', 'section', 'article', 'main', 'header', 'aside', 'blockquote', 'pre',
+  'ul', 'ol', 'li', 'table', 'tr', 'br', 'hr', 'dl', 'dt', 'dd', 'figure', 'figcaption',
+]);
+const HEADING_PATTERN = /^h([1-6])$/;
+
+/**
+ * Split HTML into sections at each heading, tracking the heading hierarchy.
+ * Also used for DOCX, which mammoth converts to HTML with real h1-h6 tags.
+ */
+export function htmlToSections(html: string): { title?: string; sections: ExtractedSection[] } {
+  const root = parse(html);
+  const body = root.querySelector('body') || root;
+
+  const sections: ExtractedSection[] = [];
+  const headingPath: string[] = [];
+  const headingLevels: number[] = [];
+  let buffer: string[] = [];
+
+  const flush = () => {
+    const text = buffer.join('').replace(/[ \t]+/g, ' ').replace(/\s*\n\s*/g, '\n').trim();
+    if (text) {
+      sections.push({ text, location: headingPath.length > 0 ? { headingPath: [...headingPath] } : {} });
+    }
+    buffer = [];
+  };
+
+  const walk = (node: Node) => {
+    if (node.nodeType === NodeType.TEXT_NODE) {
+      buffer.push(decodeEntities(node.rawText));
+      return;
+    }
+    if (node.nodeType !== NodeType.ELEMENT_NODE) return;
+
+    const element = node as HTMLElement;
+    const tag = element.tagName?.toLowerCase() || '';
+    if (SKIPPED_TAGS.has(tag)) return;
+
+    const heading = tag.match(HEADING_PATTERN);
+    if (heading) {
+      flush();
+      const level = parseInt(heading[1], 10);
+      while (headingLevels.length > 0 && headingLevels[headingLevels.length - 1] >= level) {
+        headingLevels.pop();
+        headingPath.pop();
+      }
+      const title = decodeEntities(element.text).replace(/\s+/g, ' ').trim();
+      if (title) {
+        headingLevels.push(level);
+        headingPath.push(title);
+        buffer.push(`${title}\n`);
+      }
+      return;
+    }
+
+    const isBlock = BLOCK_TAGS.has(tag);
+    if (isBlock) buffer.push('\n');
+    if (tag === 'li') buffer.push('- ');
+    element.childNodes.forEach(walk);
+    if (isBlock) buffer.push('\n');
+    if (tag === 'td' || tag === 'th') buffer.push(' | ');
+  };
+
+  body.childNodes.forEach(walk);
+  flush();
+
+  const title = root.querySelector('title')?.text.trim() || sections.find(s => s.location.headingPath)?.location.headingPath?.[0];
+  return { title: title || undefined, sections };
+}
+
+function decodeEntities(text: string): string {
+  return text
+    .replace(/&nbsp;/g, ' ')
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&quot;/g, '"')
+    .replace(/&#39;|&apos;/g, "'")
+    .replace(/&#(\d+);/g, (_, code) => String.fromCharCode(parseInt(code, 10)))
+    .replace(/&amp;/g, '&');
+}
+
+export class HtmlExtractor implements DocumentExtractor {
+  readonly format = 'html';
+  readonly mimeTypes = ['text/html', 'application/xhtml+xml'];
+  readonly extensions = ['.html', '.htm'];
+
+  async extract(buffer: Buffer): Promise<ExtractedDocument> {
+    const { title, sections } = htmlToSections(buffer.toString('utf-8'));
+    return { title, sections, metadata: {} };
+  }
+}
@@ -0,0 +1,82 @@
+import path from 'path';
+import { DocumentParsingError, UnsupportedFileTypeError } from '../../types/errors';
+import { logger } from '../../utils/logger';
+import { CsvExtractor } from './csvExtractor';
+import { DocxExtractor } from './docxExtractor';
+import { HtmlExtractor } from './htmlExtractor';
+import { JsonExtractor } from './jsonExtractor';
+import { MarkdownExtractor } from './markdownExtractor';
+import { PdfExtractor } from './pdfExtractor';
+import { TextExtractor } from './textExtractor';
+import { DocumentExtractor, ExtractedDocument } from './types';
+
+export type { ExtractedDocument, ExtractedSection, SectionLocation } from './types';
+
+const extractors: DocumentExtractor[] = [
+  new PdfExtractor(),
+  new DocxExtractor(),
+  new MarkdownExtractor(),
+  new HtmlExtractor(),
+  new CsvExtractor(),
+  new JsonExtractor(),
+  new TextExtractor(),
+];
+
+// Formats read as UTF-8 text; NUL bytes mean the upload isn't what it claims to be
+const TEXT_FORMATS = new Set(['markdown', 'html', 'csv', 'json', 'text']);
+
+/**
+ * Pick an extractor by file extension, falling back to the mimetype. Browsers
+ * often send .md or .csv as text/plain or application/octet-stream, so the
+ * extension is the more reliable signal.
+ */
+export function findExtractor(filename: string, mimetype: string): DocumentExtractor | null {
+  const extension = path.extname(filename).toLowerCase();
+
+  return extractors.find(extractor => extractor.extensions.includes(extension))
+    || extractors.find(extractor => extractor.mimeTypes.includes(mimetype))
+    || null;
+}
+
+/**
+ * Extract text and section structure from an uploaded file
+ */
+export async function extractDocument(file: {
+  buffer: Buffer;
+  originalname: string;
+  mimetype: string;
+}): Promise<ExtractedDocument & { format: string }> {
+  const extractor = findExtractor(file.originalname, file.mimetype);
+
+  if (!extractor) {
+    const hint = file.mimetype === 'application/msword' ? ' Legacy .doc files must be saved as .docx.' : '';
+    throw new UnsupportedFileTypeError(`Unsupported file type "${file.mimetype}" for "${file.originalname}".${hint}`, {
+      supportedExtensions: extractors.flatMap(e => e.extensions),
+    });
+  }
+
+  if (TEXT_FORMATS.has(extractor.format) && file.buffer.includes(0)) {
+    throw new DocumentParsingError(`"${file.originalname}" looks like a binary file, not ${extractor.format}`);
+  }
+
+  const startTime = Date.now();
+  const extracted = await extractor.extract(file.buffer, file.originalname);
+  const sections = extracted.sections
+    .map(section => ({ ...section, text: section.text.trim() }))
+    .filter(section => section.text.length > 0);
+
+  if (sections.length === 0) {
+    // e.g. a scanned PDF with no text layer
+    throw new DocumentParsingError(`No text could be extracted from "${file.originalname}"`);
+  }
+
+  logger.info('Document text extracted:', {
+    filename: file.originalname,
+    format: extractor.format,
+    sections: sections.length,
+    characters: sections.reduce((sum, section) => sum + section.text.length, 0),
+    extractionTime: Date.now() - startTime,
+  });
+
+  return { ...extracted, sections, format: extractor.format };
+}
@@ -0,0 +1,48 @@
+import { DocumentParsingError } from '../../types/errors';
+import { DocumentExtractor, ExtractedDocument, ExtractedSection } from './types';
+
+export class JsonExtractor implements DocumentExtractor {
+  readonly format = 'json';
+  readonly mimeTypes = ['application/json'];
+  readonly extensions = ['.json'];
+
+  async extract(buffer: Buffer, filename: string): Promise<ExtractedDocument> {
+    let data: unknown;
+    try {
+      data = JSON.parse(buffer.toString('utf-8'));
+    } catch (error) {
+      const reason = error instanceof Error ? error.message : 'Unknown error';
+      throw new DocumentParsingError(`Could not read JSON "${filename}": ${reason}`);
+    }
+
+    // One section per top-level entry, rendered as "path: value" lines
+    const entries: Array<[string, unknown]> = Array.isArray(data)
+      ? data.map((value, idx) => [`$[${idx}]`, value])
+      : data !== null && typeof data === 'object'
+        ? Object.entries(data).map(([key, value]) => [`$.${key}`, value])
+        : [['$', data]];
+
+    const sections: ExtractedSection[] = entries
+      .map(([path, value]) => ({
+        text: flatten(value, path).join('\n'),
+        location: { path },
+      }))
+      .filter(section => section.text.length > 0);
+
+    return { sections, metadata: {} };
+  }
+}
+
+function flatten(value: unknown, path: string): string[] {
+  if (value === null || value === undefined) return [];
+
+  if (Array.isArray(value)) {
+    return value.flatMap((item, idx) => flatten(item, `${path}[${idx}]`));
+  }
+
+  if (typeof value === 'object') {
+    return Object.entries(value as Record<string, unknown>).flatMap(([key, item]) => flatten(item, `${path}.${key}`));
+  }
+
+  return [`${path}: ${String(value)}`];
+}
@@ -0,0 +1,62 @@
+import { DocumentExtractor, ExtractedDocument, ExtractedSection } from './types';
+
+const HEADING_PATTERN = /^(#{1,6})\s+(.+?)\s*#*\s*$/;
+const FENCE_PATTERN = /^(```|~~~)/;
+
+/**
+ * Split Markdown into sections at each heading, recording the enclosing heading path.
+ * Also used for content rendered to Markdown from other sources (e.g. Notion pages).
+ */
+export function markdownToSections(text: string): ExtractedSection[] {
+  const sections: ExtractedSection[] = [];
+  const headingPath: string[] = [];
+  const headingLevels: number[] = [];
+  let lines: string[] = [];
+  let inFence = false;
+
+  const flush = () => {
+    const sectionText = lines.join('\n').trim();
+    if (sectionText) {
+      sections.push({ text: sectionText, location: headingPath.length > 0 ? { headingPath: [...headingPath] } : {} });
+    }
+    lines = [];
+  };
+
+  for (const line of text.split(/\r?\n/)) {
+    if (FENCE_PATTERN.test(line.trim())) {
+      inFence = !inFence;
+    }
+
+    // `#` inside code blocks is a comment, not a heading
+    const heading = inFence ? null : line.match(HEADING_PATTERN);
+    if (heading) {
+      flush();
+      const level = heading[1].length;
+      while (headingLevels.length > 0 && headingLevels[headingLevels.length - 1] >= level) {
+        headingLevels.pop();
+        headingPath.pop();
+      }
+      headingLevels.push(level);
+      headingPath.push(heading[2]);
+    }
+
+    lines.push(line);
+  }
+  flush();
+
+  return sections;
+}
+
+export class MarkdownExtractor implements DocumentExtractor {
+  readonly format = 'markdown';
+  readonly mimeTypes = ['text/markdown', 'text/x-markdown'];
+  readonly extensions = ['.md', '.markdown'];
+
+  async extract(buffer: Buffer): Promise<ExtractedDocument> {
+    // Drop YAML front matter
+    const text = buffer.toString('utf-8').replace(/^---\r?\n[\s\S]*?\r?\n---\r?\n/, '');
+
+    const firstHeading = text.match(/^#\s+(.+)$/m);
+    return { title: firstHeading?.[1].trim(), sections: markdownToSections(text), metadata: {} };
+  }
+}
@@ -0,0 +1,36 @@
+import { PDFParse } from 'pdf-parse';
+import { DocumentParsingError } from '../../types/errors';
+import { DocumentExtractor, ExtractedDocument } from './types';
+
+export class PdfExtractor implements DocumentExtractor {
+  readonly format = 'pdf';
+  readonly mimeTypes = ['application/pdf'];
+  readonly extensions = ['.pdf'];
+
+  async extract(buffer: Buffer, filename: string): Promise<ExtractedDocument> {
+    const parser = new PDFParse({ data: buffer });
+
+    try {
+      // Sequential: the parser doesn't support concurrent calls
+      const text = await parser.getText();
+      const info = await parser.getInfo();
+
+      return {
+        title: info.info?.Title || undefined,
+        // One section per page so chunks never straddle a page boundary
+        sections: text.pages.map(page => ({
+          text: page.text,
+          location: { page: page.num },
+        })),
+        metadata: { pageCount: text.total },
+      };
+    } catch (error) {
+      const reason = error instanceof Error ? error.message : 'Unknown error';
+      throw new DocumentParsingError(`Could not read PDF "${filename}": ${reason}`, {
+        reason: error instanceof Error ? error.name : undefined,
+      });
+    } finally {
+      await parser.destroy();
+    }
+  }
+}
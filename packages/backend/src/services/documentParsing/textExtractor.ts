@@ -0,0 +1,14 @@
+import { DocumentExtractor, ExtractedDocument } from './types';
+
+export class TextExtractor implements DocumentExtractor {
+  readonly format = 'text';
+  readonly mimeTypes = ['text/plain'];
+  readonly extensions = ['.txt'];
+
+  async extract(buffer: Buffer): Promise<ExtractedDocument> {
+    return {
+      sections: [{ text: buffer.toString('utf-8'), location: {} }],
+      metadata: {},
+    };
+  }
+}
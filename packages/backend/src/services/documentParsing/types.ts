@@ -0,0 +1,35 @@
+/**
+ * Where a section came from in the source file. Stored on each chunk so
+ * answers can cite "page 4" or "Pricing > Enterprise".
+ */
+export interface SectionLocation {
+  page?: number;
+  /** Enclosing headings, outermost first */
+  headingPath?: string[];
+  /** 1-based data rows (CSV) */
+  rows?: [number, number];
+  /** JSON path of the value, e.g. `$.plans[2]` */
+  path?: string;
+}
+
+export interface ExtractedSection {
+  text: string;
+  location: SectionLocation;
+}
+
+export interface ExtractedDocument {
+  /** Title found in the file itself (PDF info, <title>, first heading) */
+  title?: string;
+  sections: ExtractedSection[];
+  metadata: Record<string, any>;
+}
+
+export interface DocumentExtractor {
+  readonly format: string;
+  readonly mimeTypes: string[];
+  /** Lowercase, with the dot */
+  readonly extensions: string[];
+
+  /** Throws DocumentParsingError when the file is corrupt or has no text */
+  extract(buffer: Buffer, filename: string): Promise<ExtractedDocument>;
+}
@@ -0,0 +1,32 @@
+import { claudeService } from '../claude';
+import { EmbeddingProvider, EmbeddingResult } from './types';
+
+/**
+ * Legacy provider: asks Claude for a prose analysis of the text and hashes it
+ * into a 1536-dim vector. Not a semantic embedding and costs an LLM call per
+ * chunk; kept so existing clients' vectors stay searchable until re-embedded.
+ */
+export class ClaudeAnalysisEmbeddingProvider implements EmbeddingProvider {
+  readonly id: string;
+  readonly dimension = 1536;
+
+  constructor(model: string) {
+    this.id = `claude-analysis:${model}`;
+  }
+
+  async embed(text: string): Promise<EmbeddingResult> {
+    return claudeService.generateEmbedding(text);
+  }
+
+  async embedBatch(texts: string[]): Promise<EmbeddingResult[]> {
+    const results: EmbeddingResult[] = [];
+
+    for (const text of texts) {
+      results.push(await this.embed(text));
+      // Small delay to avoid rate limiting
+      await new Promise(resolve => setTimeout(resolve, 100));
+    }
+
+    return results;
+  }
+}
@@ -0,0 +1,79 @@
+import { logger } from '../../utils/logger';
+import { ClaudeAnalysisEmbeddingProvider } from './claudeProvider';
+import { LocalEmbeddingProvider, DEFAULT_LOCAL_MODEL } from './localProvider';
+import { OpenAIEmbeddingProvider } from './openAIProvider';
+import { EmbeddingProvider } from './types';
+
+export type { EmbeddingProvider, EmbeddingResult } from './types';
+
+/**
+ * Width of the `document_chunks.embedding` column. Smaller vectors are
+ * zero-padded to fit, which leaves cosine similarity unchanged.
+ */
+export const STORAGE_DIMENSION = 1536;
+
+const DEFAULT_EMBEDDING_MODEL = process.env.EMBEDDING_MODEL || `local:${DEFAULT_LOCAL_MODEL}`;
+
+const providers = new Map<string, EmbeddingProvider>();
+
+/**
+ * Resolve the provider for a client's `settings.embedding_model`.
+ *
+ * Accepted forms (an optional `@<dimension>` suffix overrides the native size):
+ * - `local` / `local:<model>`       in-process ONNX model, e.g. `local:Xenova/bge-small-en-v1.5`
+ * - `openai:<model>`                OpenAI-compatible HTTP endpoint, e.g. `openai:text-embedding-3-small`
+ * - `claude-*`                      legacy Claude-analysis hashing (the default before local models)
+ */
+export function getEmbeddingProvider(embeddingModel?: string | null): EmbeddingProvider {
+  const spec = (embeddingModel || DEFAULT_EMBEDDING_MODEL).trim();
+
+  const cached = providers.get(spec);
+  if (cached) return cached;
+
+  const provider = createProvider(spec);
+  if (provider.dimension > STORAGE_DIMENSION) {
+    throw new Error(
+      `Embedding provider ${provider.id} produces ${provider.dimension}-dim vectors; the maximum is ${STORAGE_DIMENSION}`
+    );
+  }
+
+  providers.set(spec, provider);
+  logger.info('Embedding provider initialized', { spec, providerId: provider.id, dimension: provider.dimension });
+
+  return provider;
+}
+
+function createProvider(spec: string): EmbeddingProvider {
+  const [name, dimensionSuffix] = spec.split('@');
+  const dimension = dimensionSuffix ? parseInt(dimensionSuffix, 10) : undefined;
+
+  if (dimensionSuffix && (!dimension || dimension <= 0)) {
+    throw new Error(`Invalid embedding dimension in "${spec}"`);
+  }
+
+  if (name === 'local' || name.startsWith('local:')) {
+    return new LocalEmbeddingProvider(name.slice('local:'.length) || DEFAULT_LOCAL_MODEL, dimension);
+  }
+
+  if (name.startsWith('openai:')) {
+    return new OpenAIEmbeddingProvider(name.slice('openai:'.length), dimension);
+  }
+
+  if (name.startsWith('claude')) {
+    return new ClaudeAnalysisEmbeddingProvider(name);
+  }
+
+  throw new Error(`Unknown embedding model "${spec}"`);
+}
+
+/**
+ * Zero-pad a provider's vector to the storage column width
+ */
+export function toStorageVector(embedding: number[]): number[] {
+  if (embedding.length === STORAGE_DIMENSION) return embedding;
+  if (embedding.length > STORAGE_DIMENSION) {
+    throw new Error(`Embedding dimension ${embedding.length} exceeds storage dimension ${STORAGE_DIMENSION}`);
+  }
+
+  return [...embedding, ...new Array(STORAGE_DIMENSION - embedding.length).fill(0)];
+}
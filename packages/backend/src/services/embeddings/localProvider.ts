@@ -0,0 +1,91 @@
+import path from 'path';
+import type { FeatureExtractionPipeline } from '@huggingface/transformers';
+import { logger } from '../../utils/logger';
+import { EmbeddingProvider, EmbeddingResult } from './types';
+
+// Native output sizes of the sentence-transformer models we support out of the box
+const KNOWN_DIMENSIONS: Record<string, number> = {
+  'Xenova/all-MiniLM-L6-v2': 384,
+  'Xenova/all-MiniLM-L12-v2': 384,
+  'Xenova/bge-small-en-v1.5': 384,
+  'Xenova/bge-base-en-v1.5': 768,
+  'Xenova/all-mpnet-base-v2': 768,
+};
+
+export const DEFAULT_LOCAL_MODEL = 'Xenova/all-MiniLM-L6-v2';
+
+/**
+ * In-process embeddings with an ONNX sentence-transformer via transformers.js.
+ *
+ * Models are loaded from EMBEDDING_MODEL_PATH (default `./models`). Downloading
+ * from the Hugging Face hub is off unless EMBEDDING_ALLOW_REMOTE_MODELS=true,
+ * so production never fetches weights at request time.
+ */
+export class LocalEmbeddingProvider implements EmbeddingProvider {
+  readonly id: string;
+  readonly dimension: number;
+  private extractor: Promise<FeatureExtractionPipeline> | null = null;
+
+  constructor(private readonly model: string = DEFAULT_LOCAL_MODEL, dimension?: number) {
+    this.id = `local:${model}`;
+    this.dimension = dimension || KNOWN_DIMENSIONS[model] || 384;
+  }
+
+  async embed(text: string): Promise<EmbeddingResult> {
+    const [result] = await this.embedBatch([text]);
+    return result;
+  }
+
+  async embedBatch(texts: string[]): Promise<EmbeddingResult[]> {
+    if (texts.length === 0) return [];
+
+    const extractor = await this.getExtractor();
+    const output = await extractor(texts, { pooling: 'mean', normalize: true });
+    const vectors = output.tolist() as number[][];
+
+    if (vectors[0]?.length !== this.dimension) {
+      throw new Error(
+        `Local model ${this.model} produced ${vectors[0]?.length}-dim vectors, expected ${this.dimension}`
+      );
+    }
+
+    return vectors.map((embedding, index) => ({
+      embedding,
+      tokenCount: Math.ceil(texts[index].length / 4),
+    }));
+  }
+
+  /**
+   * Load the model once and share it between calls
+   */
+  private getExtractor(): Promise<FeatureExtractionPipeline> {
+    if (!this.extractor) {
+      this.extractor = this.loadExtractor().catch(error => {
+        // Allow a later call to retry (e.g. after the model files are added)
+        this.extractor = null;
+        throw error;
+      });
+    }
+    return this.extractor;
+  }
+
+  private async loadExtractor(): Promise<FeatureExtractionPipeline> {
+    const startTime = Date.now();
+    // Loaded lazily: onnxruntime is heavy and only needed when a client uses a local model
+    const { pipeline, env } = await import('@huggingface/transformers');
+
+    env.localModelPath = path.resolve(process.env.EMBEDDING_MODEL_PATH || './models');
+    env.allowLocalModels = true;
+    env.allowRemoteModels = process.env.EMBEDDING_ALLOW_REMOTE_MODELS === 'true';
+
+    const extractor = await pipeline('feature-extraction', this.model, { dtype: 'fp32' });
+
+    logger.info('Local embedding model loaded', {
+      model: this.model,
+      modelPath: env.localModelPath,
+      loadTime: Date.now() - startTime,
+    });
+
+    return extractor as FeatureExtractionPipeline;
+  }
+}
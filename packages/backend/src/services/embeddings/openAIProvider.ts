@@ -0,0 +1,97 @@
+import { logger } from '../../utils/logger';
+import { EmbeddingProvider, EmbeddingResult } from './types';
+
+const KNOWN_DIMENSIONS: Record<string, number> = {
+  'text-embedding-3-small': 1536,
+  'text-embedding-3-large': 3072,
+  'text-embedding-ada-002': 1536,
+};
+
+// Inputs per request; OpenAI accepts up to 2048 but self-hosted servers often less
+const MAX_BATCH_SIZE = 64;
+
+/**
+ * Embeddings from any server implementing the OpenAI `/v1/embeddings` API
+ * (OpenAI itself, Azure, vLLM, Ollama, text-embeddings-inference, ...).
+ *
+ * Configured with OPENAI_EMBEDDING_BASE_URL and OPENAI_EMBEDDING_API_KEY
+ * (falling back to OPENAI_API_KEY).
+ */
+export class OpenAIEmbeddingProvider implements EmbeddingProvider {
+  readonly id: string;
+  readonly dimension: number;
+  private readonly baseUrl: string;
+  private readonly apiKey: string | undefined;
+
+  constructor(private readonly model: string, dimension?: number) {
+    this.id = `openai:${model}`;
+    this.dimension = dimension || KNOWN_DIMENSIONS[model] || 1536;
+    this.baseUrl = (process.env.OPENAI_EMBEDDING_BASE_URL || 'https://api.openai.com/v1').replace(/\/$/, '');
+    this.apiKey = process.env.OPENAI_EMBEDDING_API_KEY || process.env.OPENAI_API_KEY;
+  }
+
+  async embed(text: string): Promise<EmbeddingResult> {
+    const [result] = await this.embedBatch([text]);
+    return result;
+  }
+
+  async embedBatch(texts: string[]): Promise<EmbeddingResult[]> {
+    const results: EmbeddingResult[] = [];
+
+    for (let start = 0; start < texts.length; start += MAX_BATCH_SIZE) {
+      results.push(...await this.requestEmbeddings(texts.slice(start, start + MAX_BATCH_SIZE)));
+    }
+
+    return results;
+  }
+
+  private async requestEmbeddings(texts: string[]): Promise<EmbeddingResult[]> {
+    const response = await fetch(`${this.baseUrl}/embeddings`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        ...(this.apiKey && { Authorization: `Bearer ${this.apiKey}` }),
+      },
+      body: JSON.stringify({
+        model: this.model,
+        input: texts,
+        // Only the text-embedding-3 family accepts a target dimension
+        ...(this.model.startsWith('text-embedding-3') && { dimensions: this.dimension }),
+      }),
+    });
+
+    if (!response.ok) {
+      const body = await response.text();
+      logger.error('Embedding endpoint returned an error', {
+        model: this.model,
+        status: response.status,
+        body: body.substring(0, 500),
+      });
+      throw new Error(`Embedding request failed with status ${response.status}`);
+    }
+
+    const payload = await response.json() as {
+      data: Array<{ index: number; embedding: number[] }>;
+      usage?: { prompt_tokens?: number; total_tokens?: number };
+    };
+
+    const totalTokens = payload.usage?.total_tokens ?? payload.usage?.prompt_tokens ?? 0;
+    const totalChars = texts.reduce((sum, text) => sum + text.length, 0) || 1;
+
+    return [...payload.data]
+      .sort((a, b) => a.index - b.index)
+      .map((item, index) => {
+        if (item.embedding.length !== this.dimension) {
+          throw new Error(
+            `Embedding model ${this.model} returned ${item.embedding.length}-dim vectors, expected ${this.dimension}`
+          );
+        }
+
+        return {
+          embedding: item.embedding,
+          // Usage is reported per request; attribute it proportionally to input length
+          tokenCount: Math.round(totalTokens * texts[index].length / totalChars),
+        };
+      });
+  }
+}
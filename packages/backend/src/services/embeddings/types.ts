@@ -0,0 +1,19 @@
+export interface EmbeddingResult {
+  embedding: number[];
+  tokenCount: number;
+}
+
+/**
+ * A source of vector embeddings. Vectors from different providers live in
+ * different spaces, so chunks record the `id` of the provider that embedded
+ * them and queries are only compared against chunks from the same provider.
+ */
+export interface EmbeddingProvider {
+  /** Stable identifier stored on each chunk, e.g. `local:Xenova/all-MiniLM-L6-v2` */
+  readonly id: string;
+  /** Native dimension of the vectors this provider produces */
+  readonly dimension: number;
+
+  embed(text: string): Promise<EmbeddingResult>;
+  embedBatch(texts: string[]): Promise<EmbeddingResult[]>;
+}
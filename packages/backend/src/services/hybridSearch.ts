@@ -0,0 +1,201 @@
+import { getEmbeddingProvider, toStorageVector } from './embeddings';
+import { DocumentSourceType } from './vectorIndex';
+import { ClientDatabase } from '../utils/database';
+import { logger } from '../utils/logger';
+
+export interface HybridWeights {
+  vector: number;
+  fullText: number;
+  /** RRF smoothing constant; larger values flatten the gap between top ranks */
+  rrfK: number;
+}
+
+export interface HybridSearchOptions {
+  limit?: number;
+  /** Results requested from each ranker before fusion (defaults to 4x limit) */
+  candidateLimit?: number;
+  weights?: Partial<HybridWeights>;
+  similarityThreshold?: number;
+  sources?: DocumentSourceType[];
+  createdAfter?: Date;
+  createdBefore?: Date;
+}
+
+export interface RankerContribution {
+  /** 1-based position in that ranker's list */
+  rank: number;
+  /** The ranker's own score: cosine similarity or text rank */
+  score: number;
+  /** weight / (rrfK + rank) */
+  contribution: number;
+}
+
+export interface HybridSearchResult {
+  id: string;
+  document_id: string;
+  content: string;
+  chunk_index: number;
+  metadata: Record<string, any>;
+  documents: {
+    title: string;
+    source: string;
+    created_at: string;
+  };
+  /** Fused reciprocal rank score */
+  score: number;
+  similarity?: number;
+  text_rank?: number;
+  rankers: {
+    vector?: RankerContribution;
+    fullText?: RankerContribution;
+  };
+}
+
+export interface HybridSearchResponse {
+  results: HybridSearchResult[];
+  weights: HybridWeights;
+  embeddingUsed: boolean;
+  embeddingProvider: string | null;
+  vectorResults: number;
+  fullTextResults: number;
+}
+
+const DEFAULT_WEIGHTS: HybridWeights = {
+  vector: parseFloat(process.env.HYBRID_VECTOR_WEIGHT || '1'),
+  fullText: parseFloat(process.env.HYBRID_FULLTEXT_WEIGHT || '1'),
+  rrfK: parseInt(process.env.HYBRID_RRF_K || '60', 10),
+};
+
+export class HybridSearchService {
+  private static instance: HybridSearchService;
+
+  public static getInstance(): HybridSearchService {
+    if (!HybridSearchService.instance) {
+      HybridSearchService.instance = new HybridSearchService();
+    }
+    return HybridSearchService.instance;
+  }
+
+  private constructor() {}
+
+  /**
+   * Run vector and full-text search side by side and merge them with
+   * weighted reciprocal rank fusion. A ranker with weight 0 is skipped.
+   */
+  async search(
+    clientDb: ClientDatabase,
+    query: string,
+    options: HybridSearchOptions = {}
+  ): Promise<HybridSearchResponse> {
+    const limit = options.limit ?? 5;
+    const candidateLimit = options.candidateLimit ?? limit * 4;
+    const settings = await clientDb.getClientSettings();
+    const weights = this.resolveWeights(settings.retrieval, options.weights);
+    const filters = {
+      sources: options.sources,
+      createdAfter: options.createdAfter,
+      createdBefore: options.createdBefore,
+    };
+
+    let embeddingProvider: string | null = null;
+
+    const vectorSearch = async () => {
+      if (weights.vector <= 0) return [];
+
+      try {
+        // Embed the query with the same provider that embedded the client's chunks
+        const provider = getEmbeddingProvider(settings.embedding_model);
+        const queryEmbedding = await provider.embed(query);
+        embeddingProvider = provider.id;
+
+        return clientDb.searchSimilarChunksVector(toStorageVector(queryEmbedding.embedding), candidateLimit, {
+          ...filters,
+          embeddingProvider: provider.id,
+          threshold: options.similarityThreshold,
+        });
+      } catch (error) {
+        logger.warn('Query embedding failed, continuing with full-text search only:', {
+          error,
+          query: query.substring(0, 50),
+        });
+        return [];
+      }
+    };
+
+    const fullTextSearch = async () => {
+      if (weights.fullText <= 0) return [];
+      return clientDb.searchChunksFullText(query, candidateLimit, filters);
+    };
+
+    const [vectorResults, fullTextResults] = await Promise.all([vectorSearch(), fullTextSearch()]);
+
+    const fused = new Map<string, HybridSearchResult>();
+
+    vectorResults.forEach((chunk, idx) => {
+      const { similarity, ...row } = chunk;
+      const contribution = weights.vector / (weights.rrfK + idx + 1);
+      fused.set(chunk.id, {
+        ...row,
+        score: contribution,
+        similarity,
+        rankers: { vector: { rank: idx + 1, score: similarity, contribution } },
+      });
+    });
+
+    fullTextResults.forEach((chunk, idx) => {
+      const { text_rank, ...row } = chunk;
+      const contribution = weights.fullText / (weights.rrfK + idx + 1);
+      const ranker = { rank: idx + 1, score: text_rank, contribution };
+      const existing = fused.get(chunk.id);
+
+      if (existing) {
+        existing.score += contribution;
+        existing.text_rank = text_rank;
+        existing.rankers.fullText = ranker;
+      } else {
+        fused.set(chunk.id, { ...row, score: contribution, text_rank, rankers: { fullText: ranker } });
+      }
+    });
+
+    const results = Array.from(fused.values())
+      .sort((a, b) => b.score - a.score)
+      .slice(0, limit);
+
+    logger.info('Hybrid search completed:', {
+      query: query.substring(0, 50),
+      vectorResults: vectorResults.length,
+      fullTextResults: fullTextResults.length,
+      fusedResults: results.length,
+      weights,
+    });
+
+    return {
+      results,
+      weights,
+      embeddingUsed: embeddingProvider !== null,
+      embeddingProvider,
+      vectorResults: vectorResults.length,
+      fullTextResults: fullTextResults.length,
+    };
+  }
+
+  /**
+   * Defaults from env, overridden by the client's `settings.retrieval`, then by the request
+   */
+  private resolveWeights(clientSettings: any, overrides: Partial<HybridWeights> = {}): HybridWeights {
+    const weights = { ...DEFAULT_WEIGHTS };
+
+    if (typeof clientSettings?.vector_weight === 'number') weights.vector = clientSettings.vector_weight;
+    if (typeof clientSettings?.full_text_weight === 'number') weights.fullText = clientSettings.full_text_weight;
+    if (typeof clientSettings?.rrf_k === 'number') weights.rrfK = clientSettings.rrf_k;
+
+    for (const key of ['vector', 'fullText', 'rrfK'] as const) {
+      const value = overrides[key];
+      if (typeof value === 'number' && !isNaN(value)) weights[key] = value;
+    }
+
+    return weights;
+  }
+}
+
+export const hybridSearchService = HybridSearchService.getInstance();
@@ -0,0 +1,249 @@
+import * as jwt from 'jsonwebtoken';
+import { supabase } from '../utils/database';
+import { logger } from '../utils/logger';
+import { sendMail } from './mailer';
+import { ConflictError, NotFoundError, ValidationError } from '../types/errors';
+
+const INVITATION_TTL_HOURS = parseInt(process.env.INVITATION_TTL_HOURS || '72', 10);
+
+interface InvitationTokenPayload {
+  typ: 'invitation';
+  inv: string;
+  clientId: string;
+  email: string;
+}
+
+export interface Invitation {
+  id: string;
+  client_id: string;
+  email: string;
+  role: 'admin' | 'user';
+  invited_by: string | null;
+  created_at: string;
+  expires_at: string;
+  accepted_at: string | null;
+  accepted_by: string | null;
+  revoked_at: string | null;
+}
+
+export class InvitationService {
+  private static instance: InvitationService;
+
+  public static getInstance(): InvitationService {
+    if (!InvitationService.instance) {
+      InvitationService.instance = new InvitationService();
+    }
+    return InvitationService.instance;
+  }
+
+  private constructor() {}
+
+  /**
+   * Invite an email address to a client and send the invitation link.
+   * Any earlier pending invitation for the same address is revoked.
+   */
+  async createInvitation(params: {
+    clientId: string;
+    clientName: string;
+    email: string;
+    role: 'admin' | 'user';
+    invitedBy: { id: string; name: string };
+  }): Promise<Invitation> {
+    const db = this.db();
+    const email = params.email.toLowerCase();
+
+    const { data: existingUser } = await db
+      .from('users')
+      .select('id')
+      .eq('email', email)
+      .maybeSingle();
+
+    if (existingUser) {
+      throw new ConflictError('A user with this email already exists');
+    }
+
+    await db
+      .from('invitations')
+      .update({ revoked_at: new Date().toISOString() })
+      .eq('client_id', params.clientId)
+      .eq('email', email)
+      .is('accepted_at', null)
+      .is('revoked_at', null);
+
+    const expiresAt = new Date(Date.now() + INVITATION_TTL_HOURS * 60 * 60 * 1000);
+
+    const { data: invitation, error } = await db
+      .from('invitations')
+      .insert({
+        client_id: params.clientId,
+        email,
+        role: params.role,
+        invited_by: params.invitedBy.id,
+        expires_at: expiresAt.toISOString(),
+      })
+      .select()
+      .single();
+
+    if (error || !invitation) {
+      logger.error('Error creating invitation:', { error, clientId: params.clientId });
+      throw error || new Error('Failed to create invitation');
+    }
+
+    const token = this.sign(invitation, expiresAt);
+    const link = `${process.env.FRONTEND_URL || 'http://localhost:5173'}/register?invitation=${encodeURIComponent(token)}`;
+
+    await sendMail({
+      to: email,
+      subject: `You've been invited to ${params.clientName} on Corra`,
+      text: [
+        `${params.invitedBy.name} has invited you to join ${params.clientName} on Corra.`,
+        '',
+        `Accept the invitation: ${link}`,
+        '',
+        `This link expires on ${expiresAt.toUTCString()} and can only be used once.`,
+      ].join('\n'),
+    });
+
+    logger.info('Invitation sent:', {
+      invitationId: invitation.id,
+      clientId: params.clientId,
+      role: params.role,
+      invitedBy: params.invitedBy.id,
+    });
+
+    return invitation;
+  }
+
+  /**
+   * Check an invitation token's signature and that it can still be accepted
+   */
+  async verify(token: string): Promise<Invitation> {
+    let payload: InvitationTokenPayload;
+    try {
+      payload = jwt.verify(token, this.secret()) as InvitationTokenPayload;
+    } catch (error) {
+      throw new ValidationError('Invalid or expired invitation');
+    }
+
+    if (payload.typ !== 'invitation') {
+      throw new ValidationError('Invalid or expired invitation');
+    }
+
+    const { data: invitation } = await this.db()
+      .from('invitations')
+      .select('*')
+      .eq('id', payload.inv)
+      .maybeSingle();
+
+    if (!invitation || invitation.accepted_at || invitation.revoked_at || new Date(invitation.expires_at) <= new Date()) {
+      throw new ValidationError('Invalid or expired invitation');
+    }
+
+    return invitation;
+  }
+
+  /**
+   * Mark an invitation used. Only one caller can claim it; the rest get a ValidationError.
+   */
+  async claim(invitationId: string): Promise<void> {
+    const { data, error } = await this.db()
+      .from('invitations')
+      .update({ accepted_at: new Date().toISOString() })
+      .eq('id', invitationId)
+      .is('accepted_at', null)
+      .is('revoked_at', null)
+      .select('id');
+
+    if (error) {
+      logger.error('Error claiming invitation:', { error, invitationId });
+      throw error;
+    }
+
+    if (!data || data.length === 0) {
+      throw new ValidationError('Invalid or expired invitation');
+    }
+  }
+
+  /**
+   * Record who accepted a claimed invitation
+   */
+  async markAccepted(invitationId: string, userId: string): Promise<void> {
+    await this.db()
+      .from('invitations')
+      .update({ accepted_by: userId })
+      .eq('id', invitationId);
+  }
+
+  /**
+   * Make a claimed invitation usable again, e.g. when account creation failed
+   */
+  async release(invitationId: string): Promise<void> {
+    await this.db()
+      .from('invitations')
+      .update({ accepted_at: null })
+      .eq('id', invitationId)
+      .is('accepted_by', null);
+  }
+
+  async listInvitations(clientId: string): Promise<Invitation[]> {
+    const { data, error } = await this.db()
+      .from('invitations')
+      .select('*')
+      .eq('client_id', clientId)
+      .order('created_at', { ascending: false });
+
+    if (error) {
+      logger.error('Error listing invitations:', { error, clientId });
+      throw error;
+    }
+
+    return data || [];
+  }
+
+  async revokeInvitation(clientId: string, invitationId: string): Promise<void> {
+    const { data, error } = await this.db()
+      .from('invitations')
+      .update({ revoked_at: new Date().toISOString() })
+      .eq('id', invitationId)
+      .eq('client_id', clientId)
+      .is('accepted_at', null)
+      .is('revoked_at', null)
+      .select('id');
+
+    if (error) {
+      logger.error('Error revoking invitation:', { error, invitationId });
+      throw error;
+    }
+
+    if (!data || data.length === 0) {
+      throw new NotFoundError('Pending invitation not found');
+    }
+  }
+
+  private sign(invitation: Invitation, expiresAt: Date): string {
+    const payload: InvitationTokenPayload = {
+      typ: 'invitation',
+      inv: invitation.id,
+      clientId: invitation.client_id,
+      email: invitation.email,
+    };
+
+    return jwt.sign({ ...payload, exp: Math.floor(expiresAt.getTime() / 1000) }, this.secret());
+  }
+
+  private secret(): string {
+    if (!process.env.JWT_SECRET) {
+      throw new Error('JWT_SECRET environment variable not configured');
+    }
+    return process.env.JWT_SECRET;
+  }
+
+  private db() {
+    if (!supabase) {
+      throw new Error('Database not configured');
+    }
+    return supabase;
+  }
+}
+
+export const invitationService = InvitationService.getInstance();
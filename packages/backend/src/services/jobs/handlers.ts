@@ -0,0 +1,118 @@
+import { ConflictError, NotFoundError } from '../../types/errors';
+import { ClientDatabase } from '../../utils/database';
+import { ExtractedSection } from '../documentParsing';
+import { NotionSourceType, normalizeNotionId, notionService } from '../notion';
+import { ragService } from '../rag';
+import { slackIngestionService } from '../slack';
+import { lockService } from '../locks';
+import { syncLockName, syncRunService } from '../syncRuns';
+import { syncScheduler } from '../syncScheduler';
+import { jobQueue } from './queue';
+
+export interface DocumentIngestPayload {
+  documentId: string;
+  title: string;
+  sections: ExtractedSection[];
+  metadata: Record<string, any>;
+}
+
+export interface DocumentReprocessPayload {
+  documentId: string;
+}
+
+export interface NotionDatabaseSyncPayload {
+  databaseId: string;
+  sourceType: NotionSourceType;
+}
+
+export interface NotionSyncAllPayload {
+  type: 'incremental' | 'full';
+}
+
+export interface SlackBackfillPayload {
+  channelId: string;
+  /** Slack ts; only newer messages are imported */
+  oldest?: string;
+}
+
+export const JOB_TYPES = {
+  documentIngest: 'document.ingest',
+  documentReprocess: 'document.reprocess',
+  notionDatabaseSync: 'notion.sync_database',
+  notionSyncAll: 'notion.sync_all',
+  slackBackfill: 'slack.backfill',
+} as const;
+
+/**
+ * Register the built-in job handlers. Called once at startup, before the queue starts.
+ */
+export function registerJobHandlers(): void {
+  jobQueue.register<DocumentIngestPayload>(JOB_TYPES.documentIngest, async (job, context) => {
+    const { documentId, title, sections, metadata } = job.payload;
+    const clientDb = new ClientDatabase(job.clientId);
+
+    // A retry starts over; drop whatever the failed attempt stored
+    await clientDb.deleteDocumentChunks(documentId);
+
+    await ragService.processDocument(
+      clientDb,
+      {
+        id: documentId,
+        title,
+        content: sections.map(section => section.text).join('\n\n'),
+        sections,
+        source: 'upload',
+        sourceId: documentId,
+        metadata,
+      },
+      {
+        onProgress: ({ current, total }) => context.reportProgress({ current, total, message: 'Embedding chunks' }),
+      }
+    );
+
+    return { documentId };
+  });
+
+  jobQueue.register<DocumentReprocessPayload>(JOB_TYPES.documentReprocess, async (job, context) => {
+    const { documentId } = job.payload;
+    const clientDb = new ClientDatabase(job.clientId);
+
+    // Re-read it: the document may have changed or been deleted since the job was queued
+    const document = await clientDb.documents.get(documentId);
+    if (!document) {
+      throw new NotFoundError('Document not found');
+    }
+
+    await ragService.updateDocumentEmbeddings(clientDb, documentId, document.content, document.metadata || {}, document.source, {
+      onProgress: ({ current, total }) => context.reportProgress({ current, total, message: 'Embedding chunks' }),
+    });
+
+    return { documentId };
+  });
+
+  jobQueue.register<NotionDatabaseSyncPayload>(JOB_TYPES.notionDatabaseSync, async job => {
+    const { databaseId, sourceType } = job.payload;
+    const resourceId = normalizeNotionId(databaseId);
+    const locked = await lockService.withLock(syncLockName('notion', resourceId), () => syncRunService.record(
+      { source: 'notion', resourceId, resourceName: sourceType, clientId: job.clientId, trigger: 'manual', mode: 'full' },
+      () => notionService.syncNotionDatabase(databaseId, sourceType, job.clientId)
+    ));
+
+    if (!locked.acquired) {
+      throw new ConflictError(`Database is already syncing${locked.holder ? ` on ${locked.holder}` : ''}`);
+    }
+    return locked.result;
+  });
+
+  jobQueue.register<NotionSyncAllPayload>(JOB_TYPES.notionSyncAll, async job => {
+    const result = await syncScheduler.triggerManualSync(job.payload.type);
+    if (!result.success) {
+      throw new Error(result.message);
+    }
+    return result.stats;
+  });
+
+  jobQueue.register<SlackBackfillPayload>(JOB_TYPES.slackBackfill, async job => {
+    return slackIngestionService.backfillChannel(job.clientId, job.payload.channelId, { oldest: job.payload.oldest });
+  });
+}
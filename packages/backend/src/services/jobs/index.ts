@@ -0,0 +1,14 @@
+export { jobQueue, JobQueue } from './queue';
+export type { JobContext, JobHandler } from './queue';
+export type { Job, JobProgress, JobStatus } from './types';
+export {
+  JOB_TYPES,
+  registerJobHandlers,
+} from './handlers';
+export type {
+  DocumentIngestPayload,
+  DocumentReprocessPayload,
+  NotionDatabaseSyncPayload,
+  NotionSyncAllPayload,
+  SlackBackfillPayload,
+} from './handlers';
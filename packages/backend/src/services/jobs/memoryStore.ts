@@ -0,0 +1,107 @@
+import { Job, JobProgress, JobStatus, JobStore } from './types';
+
+/**
+ * Jobs held in process memory, for development without Redis or Supabase.
+ * Nothing survives a restart.
+ */
+export class MemoryJobStore implements JobStore {
+  readonly name = 'memory';
+  private jobs = new Map<string, Job>();
+
+  async insert(job: Job): Promise<void> {
+    this.jobs.set(job.id, { ...job });
+  }
+
+  async claimNext(workerId: string, maxPerClient: number): Promise<Job | null> {
+    const now = Date.now();
+    const running = new Map<string, number>();
+    for (const job of this.jobs.values()) {
+      if (job.status === 'running') {
+        running.set(job.clientId, (running.get(job.clientId) || 0) + 1);
+      }
+    }
+
+    const next = [...this.jobs.values()]
+      .filter(job => job.status === 'queued'
+        && Date.parse(job.runAt) <= now
+        && (running.get(job.clientId) || 0) < maxPerClient)
+      .sort((a, b) => (running.get(a.clientId) || 0) - (running.get(b.clientId) || 0)
+        || Date.parse(a.createdAt) - Date.parse(b.createdAt))[0];
+    if (!next) return null;
+
+    const timestamp = new Date().toISOString();
+    Object.assign(next, {
+      status: 'running',
+      attempts: next.attempts + 1,
+      lockedBy: workerId,
+      heartbeatAt: timestamp,
+      startedAt: timestamp,
+    });
+    return { ...next };
+  }
+
+  async heartbeat(id: string, workerId: string): Promise<void> {
+    const job = this.jobs.get(id);
+    if (job?.status === 'running' && job.lockedBy === workerId) {
+      job.heartbeatAt = new Date().toISOString();
+    }
+  }
+
+  async setProgress(id: string, progress: JobProgress): Promise<void> {
+    const job = this.jobs.get(id);
+    if (job) job.progress = progress;
+  }
+
+  async complete(id: string, workerId: string, result: any): Promise<boolean> {
+    return this.finish(id, workerId, { status: 'completed', result, error: null });
+  }
+
+  async retry(id: string, workerId: string, runAt: Date, error: string): Promise<boolean> {
+    const job = this.runningJob(id, workerId);
+    if (!job) return false;
+
+    Object.assign(job, { status: 'queued', runAt: runAt.toISOString(), error, lockedBy: null });
+    return true;
+  }
+
+  async fail(id: string, workerId: string, error: string): Promise<boolean> {
+    return this.finish(id, workerId, { status: 'failed', error });
+  }
+
+  async requeueStale(cutoff: Date): Promise<number> {
+    let requeued = 0;
+    for (const job of this.jobs.values()) {
+      if (job.status === 'running' && job.heartbeatAt && Date.parse(job.heartbeatAt) < cutoff.getTime()) {
+        Object.assign(job, { status: 'queued', lockedBy: null, runAt: new Date().toISOString() });
+        requeued++;
+      }
+    }
+    return requeued;
+  }
+
+  async get(id: string): Promise<Job | null> {
+    const job = this.jobs.get(id);
+    return job ? { ...job } : null;
+  }
+
+  async list(clientId: string, options: { status?: JobStatus; limit: number }): Promise<Job[]> {
+    return [...this.jobs.values()]
+      .filter(job => job.clientId === clientId && (!options.status || job.status === options.status))
+      .sort((a, b) => Date.parse(b.createdAt) - Date.parse(a.createdAt))
+      .slice(0, options.limit)
+      .map(job => ({ ...job }));
+  }
+
+  private finish(id: string, workerId: string, changes: Partial<Job>): boolean {
+    const job = this.runningJob(id, workerId);
+    if (!job) return false;
+
+    Object.assign(job, changes, { lockedBy: null, finishedAt: new Date().toISOString() });
+    return true;
+  }
+
+  private runningJob(id: string, workerId: string): Job | undefined {
+    const job = this.jobs.get(id);
+    return job?.status === 'running' && job.lockedBy === workerId ? job : undefined;
+  }
+}
@@ -0,0 +1,158 @@
+import { SupabaseClient } from '@supabase/supabase-js';
+import { logger } from '../../utils/logger';
+import { Job, JobProgress, JobStatus, JobStore } from './types';
+
+/**
+ * Jobs in the `jobs` table. Claiming goes through the `claim_next_job`
+ * function, which locks the row with FOR UPDATE SKIP LOCKED so concurrent
+ * workers never take the same job.
+ */
+export class PostgresJobStore implements JobStore {
+  readonly name = 'postgres';
+
+  constructor(private db: SupabaseClient) {}
+
+  async insert(job: Job): Promise<void> {
+    const { error } = await this.db.from('jobs').insert(toRow(job));
+    this.check(error, 'inserting job', job.id);
+  }
+
+  async claimNext(workerId: string, maxPerClient: number): Promise<Job | null> {
+    const { data, error } = await this.db.rpc('claim_next_job', {
+      p_worker_id: workerId,
+      p_max_per_client: maxPerClient,
+    });
+    this.check(error, 'claiming job');
+
+    const row = Array.isArray(data) ? data[0] : data;
+    return row ? fromRow(row) : null;
+  }
+
+  async heartbeat(id: string, workerId: string): Promise<void> {
+    const { error } = await this.db
+      .from('jobs')
+      .update({ heartbeat_at: new Date().toISOString() })
+      .eq('id', id)
+      .eq('locked_by', workerId)
+      .eq('status', 'running');
+    this.check(error, 'recording heartbeat', id);
+  }
+
+  async setProgress(id: string, progress: JobProgress): Promise<void> {
+    const { error } = await this.db.from('jobs').update({ progress }).eq('id', id);
+    this.check(error, 'recording progress', id);
+  }
+
+  async complete(id: string, workerId: string, result: any): Promise<boolean> {
+    return this.updateRunning(id, workerId, { status: 'completed', result: result ?? null, error: null, locked_by: null, finished_at: new Date().toISOString() });
+  }
+
+  async retry(id: string, workerId: string, runAt: Date, error: string): Promise<boolean> {
+    return this.updateRunning(id, workerId, { status: 'queued', run_at: runAt.toISOString(), error, locked_by: null });
+  }
+
+  async fail(id: string, workerId: string, error: string): Promise<boolean> {
+    return this.updateRunning(id, workerId, { status: 'failed', error, locked_by: null, finished_at: new Date().toISOString() });
+  }
+
+  async requeueStale(cutoff: Date): Promise<number> {
+    const { data, error } = await this.db
+      .from('jobs')
+      .update({ status: 'queued', locked_by: null, run_at: new Date().toISOString() })
+      .eq('status', 'running')
+      .lt('heartbeat_at', cutoff.toISOString())
+      .select('id');
+    this.check(error, 'requeueing stale jobs');
+
+    return data?.length || 0;
+  }
+
+  async get(id: string): Promise<Job | null> {
+    const { data, error } = await this.db.from('jobs').select('*').eq('id', id).maybeSingle();
+    this.check(error, 'fetching job', id);
+
+    return data ? fromRow(data) : null;
+  }
+
+  async list(clientId: string, options: { status?: JobStatus; limit: number }): Promise<Job[]> {
+    let query = this.db
+      .from('jobs')
+      .select('*')
+      .eq('client_id', clientId)
+      .order('created_at', { ascending: false })
+      .limit(options.limit);
+
+    if (options.status) {
+      query = query.eq('status', options.status);
+    }
+
+    const { data, error } = await query;
+    this.check(error, 'listing jobs');
+
+    return (data || []).map(fromRow);
+  }
+
+  private async updateRunning(id: string, workerId: string, changes: Record<string, any>): Promise<boolean> {
+    const { data, error } = await this.db
+      .from('jobs')
+      .update(changes)
+      .eq('id', id)
+      .eq('locked_by', workerId)
+      .eq('status', 'running')
+      .select('id');
+    this.check(error, 'updating job', id);
+
+    return (data?.length || 0) > 0;
+  }
+
+  private check(error: any, action: string, jobId?: string): void {
+    if (error) {
+      logger.error(`Error ${action}:`, { error, jobId });
+      throw error;
+    }
+  }
+}
+
+function toRow(job: Job): Record<string, any> {
+  return {
+    id: job.id,
+    type: job.type,
+    client_id: job.clientId,
+    payload: job.payload,
+    status: job.status,
+    attempts: job.attempts,
+    max_attempts: job.maxAttempts,
+    run_at: job.runAt,
+    progress: job.progress,
+    result: job.result,
+    error: job.error,
+    created_by: job.createdBy,
+    locked_by: job.lockedBy,
+    heartbeat_at: job.heartbeatAt,
+    created_at: job.createdAt,
+    started_at: job.startedAt,
+    finished_at: job.finishedAt,
+  };
+}
+
+function fromRow(row: any): Job {
+  return {
+    id: row.id,
+    type: row.type,
+    clientId: row.client_id,
+    payload: row.payload,
+    status: row.status,
+    attempts: row.attempts,
+    maxAttempts: row.max_attempts,
+    runAt: row.run_at,
+    progress: row.progress,
+    result: row.result,
+    error: row.error,
+    createdBy: row.created_by,
+    lockedBy: row.locked_by,
+    heartbeatAt: row.heartbeat_at,
+    createdAt: row.created_at,
+    startedAt: row.started_at,
+    finishedAt: row.finished_at,
+  };
+}
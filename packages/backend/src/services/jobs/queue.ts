@@ -0,0 +1,274 @@
+import os from 'os';
+import { v4 as uuidv4 } from 'uuid';
+import { supabase } from '../../utils/database';
+import { logger } from '../../utils/logger';
+import { getRedisClient, isRedisConfigured } from '../../utils/redis';
+import { MemoryJobStore } from './memoryStore';
+import { PostgresJobStore } from './postgresStore';
+import { RedisJobStore } from './redisStore';
+import { Job, JobProgress, JobStatus, JobStore } from './types';
+
+export interface JobContext {
+  reportProgress(progress: JobProgress): Promise<void>;
+}
+
+/** Runs one job; the resolved value is stored as the job's result */
+export type JobHandler<P = any> = (job: Job<P>, context: JobContext) => Promise<any>;
+
+const JOB_CONCURRENCY = parseInt(process.env.JOB_CONCURRENCY || '2', 10);
+const JOB_MAX_PER_CLIENT = parseInt(process.env.JOB_MAX_PER_CLIENT || '1', 10);
+const DEFAULT_MAX_ATTEMPTS = 3;
+
+const POLL_INTERVAL_MS = 1000;
+const HEARTBEAT_INTERVAL_MS = 15_000;
+// A running job whose worker hasn't heartbeated for this long is assumed lost
+const STALE_AFTER_MS = 4 * HEARTBEAT_INTERVAL_MS;
+
+// Retries wait 10s, 20s, 40s, ... up to 10 minutes, plus jitter
+const RETRY_BASE_DELAY_MS = 10_000;
+const RETRY_MAX_DELAY_MS = 10 * 60_000;
+
+// How long stop() waits for running jobs before giving up on them
+const SHUTDOWN_GRACE_MS = 30_000;
+
+/**
+ * Persistent background jobs. Work is stored before it's acknowledged, so a
+ * crash only delays it: jobs from a dead worker are requeued once its
+ * heartbeat goes stale. Failed runs are retried with exponential backoff.
+ * Each process runs up to JOB_CONCURRENCY jobs, and a client never has more
+ * than JOB_MAX_PER_CLIENT running, so one client's backfill can't starve the rest.
+ */
+export class JobQueue {
+  private static instance: JobQueue;
+  private store: JobStore | null = null;
+  private handlers = new Map<string, JobHandler>();
+  private active = new Set<Promise<void>>();
+  private pollTimer: NodeJS.Timeout | null = null;
+  private reapTimer: NodeJS.Timeout | null = null;
+  private polling = false;
+  private started = false;
+  private readonly workerId = `${os.hostname()}:${process.pid}:${uuidv4().slice(0, 8)}`;
+
+  public static getInstance(): JobQueue {
+    if (!JobQueue.instance) {
+      JobQueue.instance = new JobQueue();
+    }
+    return JobQueue.instance;
+  }
+
+  private constructor() {}
+
+  register<P>(type: string, handler: JobHandler<P>): void {
+    this.handlers.set(type, handler);
+  }
+
+  async enqueue<P>(
+    type: string,
+    clientId: string,
+    payload: P,
+    options: { createdBy?: string; maxAttempts?: number } = {}
+  ): Promise<Job<P>> {
+    if (!this.handlers.has(type)) {
+      throw new Error(`No handler registered for job type "${type}"`);
+    }
+
+    const now = new Date().toISOString();
+    const job: Job<P> = {
+      id: uuidv4(),
+      type,
+      clientId,
+      payload,
+      status: 'queued',
+      attempts: 0,
+      maxAttempts: options.maxAttempts ?? DEFAULT_MAX_ATTEMPTS,
+      runAt: now,
+      progress: null,
+      result: null,
+      error: null,
+      createdBy: options.createdBy || null,
+      lockedBy: null,
+      heartbeatAt: null,
+      createdAt: now,
+      startedAt: null,
+      finishedAt: null,
+    };
+
+    await this.getStore().insert(job);
+    logger.info('Job enqueued:', { jobId: job.id, type, clientId });
+
+    if (this.started) {
+      setImmediate(() => this.poll());
+    }
+
+    return job;
+  }
+
+  async getJob(id: string): Promise<Job | null> {
+    return this.getStore().get(id);
+  }
+
+  async listJobs(clientId: string, options: { status?: JobStatus; limit?: number } = {}): Promise<Job[]> {
+    return this.getStore().list(clientId, { status: options.status, limit: options.limit ?? 20 });
+  }
+
+  start(): void {
+    if (this.started) return;
+    this.started = true;
+
+    this.pollTimer = setInterval(() => this.poll(), POLL_INTERVAL_MS);
+    this.reapTimer = setInterval(() => this.requeueStale(), STALE_AFTER_MS);
+    this.requeueStale();
+
+    logger.info('Job queue started:', {
+      store: this.getStore().name,
+      workerId: this.workerId,
+      concurrency: JOB_CONCURRENCY,
+      maxPerClient: JOB_MAX_PER_CLIENT,
+      jobTypes: [...this.handlers.keys()],
+    });
+  }
+
+  /**
+   * Stop taking jobs and wait briefly for running ones. Jobs still running
+   * afterwards are picked up by another worker once their heartbeat goes stale.
+   */
+  async stop(): Promise<void> {
+    if (!this.started) return;
+    this.started = false;
+
+    if (this.pollTimer) clearInterval(this.pollTimer);
+    if (this.reapTimer) clearInterval(this.reapTimer);
+    this.pollTimer = null;
+    this.reapTimer = null;
+
+    if (this.active.size > 0) {
+      logger.info('Waiting for running jobs to finish:', { running: this.active.size });
+      await Promise.race([
+        Promise.allSettled([...this.active]),
+        new Promise(resolve => setTimeout(resolve, SHUTDOWN_GRACE_MS)),
+      ]);
+    }
+
+    logger.info('Job queue stopped');
+  }
+
+  private async poll(): Promise<void> {
+    if (this.polling || !this.started) return;
+    this.polling = true;
+
+    try {
+      while (this.started && this.active.size < JOB_CONCURRENCY) {
+        const job = await this.getStore().claimNext(this.workerId, JOB_MAX_PER_CLIENT);
+        if (!job) break;
+
+        const run = this.run(job).finally(() => {
+          this.active.delete(run);
+          setImmediate(() => this.poll());
+        });
+        this.active.add(run);
+      }
+    } catch (error) {
+      logger.error('Error polling job queue:', { error });
+    } finally {
+      this.polling = false;
+    }
+  }
+
+  private async run(job: Job): Promise<void> {
+    const store = this.getStore();
+    const handler = this.handlers.get(job.type);
+
+    if (!handler) {
+      await store.fail(job.id, this.workerId, `No handler registered for job type "${job.type}"`);
+      return;
+    }
+
+    // Requeued after a lost worker more often than it may be retried
+    if (job.attempts > job.maxAttempts) {
+      await store.fail(job.id, this.workerId, job.error || 'Job was interrupted too many times');
+      return;
+    }
+
+    const heartbeat = setInterval(() => {
+      store.heartbeat(job.id, this.workerId).catch(error => {
+        logger.warn('Job heartbeat failed:', { error, jobId: job.id });
+      });
+    }, HEARTBEAT_INTERVAL_MS);
+
+    const startTime = Date.now();
+    logger.info('Job started:', { jobId: job.id, type: job.type, clientId: job.clientId, attempt: job.attempts });
+
+    try {
+      const result = await handler(job, {
+        reportProgress: progress => store.setProgress(job.id, progress),
+      });
+
+      if (!await store.complete(job.id, this.workerId, result)) {
+        logger.warn('Job finished after it was requeued; result discarded:', { jobId: job.id, type: job.type });
+        return;
+      }
+      logger.info('Job completed:', { jobId: job.id, type: job.type, duration: Date.now() - startTime });
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+
+      if (job.attempts < job.maxAttempts && isRetryable(error)) {
+        const delay = Math.min(RETRY_BASE_DELAY_MS * 2 ** (job.attempts - 1), RETRY_MAX_DELAY_MS);
+        const runAt = new Date(Date.now() + delay + Math.random() * delay * 0.2);
+        if (await store.retry(job.id, this.workerId, runAt, message)) {
+          logger.warn('Job failed, retrying:', { jobId: job.id, type: job.type, attempt: job.attempts, runAt, error });
+          return;
+        }
+      } else if (await store.fail(job.id, this.workerId, message)) {
+        logger.error('Job failed:', { jobId: job.id, type: job.type, attempt: job.attempts, error });
+        return;
+      }
+
+      logger.warn('Job failed after it was requeued; left to its new run:', { jobId: job.id, type: job.type, error });
+    } finally {
+      clearInterval(heartbeat);
+    }
+  }
+
+  private async requeueStale(): Promise<void> {
+    try {
+      const requeued = await this.getStore().requeueStale(new Date(Date.now() - STALE_AFTER_MS));
+      if (requeued > 0) {
+        logger.warn('Requeued jobs from unresponsive workers:', { requeued });
+      }
+    } catch (error) {
+      logger.error('Error requeueing stale jobs:', { error });
+    }
+  }
+
+  private getStore(): JobStore {
+    if (!this.store) {
+      const configured = process.env.JOB_QUEUE_STORE || (isRedisConfigured() ? 'redis' : supabase ? 'postgres' : 'memory');
+
+      if (configured === 'redis') {
+        this.store = new RedisJobStore(getRedisClient);
+      } else if (configured === 'postgres') {
+        if (!supabase) {
+          throw new Error('JOB_QUEUE_STORE=postgres requires SUPABASE_URL and SUPABASE_SERVICE_KEY');
+        }
+        this.store = new PostgresJobStore(supabase);
+      } else if (configured === 'memory') {
+        logger.warn('Job queue is in memory - queued jobs will be lost on restart');
+        this.store = new MemoryJobStore();
+      } else {
+        throw new Error(`Unknown JOB_QUEUE_STORE "${configured}"`);
+      }
+    }
+
+    return this.store;
+  }
+}
+
+/**
+ * Client errors (bad input, missing records) fail the same way every time
+ */
+function isRetryable(error: unknown): boolean {
+  const statusCode = (error as any)?.statusCode;
+  return !(typeof statusCode === 'number' && statusCode >= 400 && statusCode < 500);
+}
+
+export const jobQueue = JobQueue.getInstance();
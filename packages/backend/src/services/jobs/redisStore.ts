@@ -0,0 +1,195 @@
+import { RedisClientType } from 'redis';
+import { Job, JobProgress, JobStatus, JobStore } from './types';
+
+const QUEUED_KEY = 'jobs:queued'; // zset: job id -> run_at (ms)
+const RUNNING_KEY = 'jobs:running'; // zset: job id -> last heartbeat (ms)
+const RUNNING_BY_CLIENT_KEY = 'jobs:running_by_client'; // hash: client id -> running jobs
+
+const jobKey = (id: string) => `jobs:job:${id}`;
+const clientKey = (clientId: string) => `jobs:client:${clientId}`; // zset: job id -> created_at (ms)
+
+// Due jobs looked at per claim; fairness is decided among these
+const CLAIM_SCAN_SIZE = 50;
+
+// Finished jobs stay visible to the status endpoints for a week
+const FINISHED_JOB_TTL_SECONDS = 7 * 24 * 60 * 60;
+
+/**
+ * Jobs in Redis. A job is claimed by removing it from the queued set: ZREM
+ * succeeds for exactly one worker. The per-client limit is checked just before,
+ * so two workers racing can briefly exceed it by one.
+ */
+export class RedisJobStore implements JobStore {
+  readonly name = 'redis';
+
+  constructor(private getClient: () => Promise<RedisClientType>) {}
+
+  async insert(job: Job): Promise<void> {
+    const redis = await this.getClient();
+    await redis.multi()
+      .set(jobKey(job.id), JSON.stringify(job))
+      .zAdd(QUEUED_KEY, { score: Date.parse(job.runAt), value: job.id })
+      .zAdd(clientKey(job.clientId), { score: Date.parse(job.createdAt), value: job.id })
+      .exec();
+  }
+
+  async claimNext(workerId: string, maxPerClient: number): Promise<Job | null> {
+    const redis = await this.getClient();
+    const dueIds = await redis.zRangeByScore(QUEUED_KEY, 0, Date.now(), {
+      LIMIT: { offset: 0, count: CLAIM_SCAN_SIZE },
+    });
+    if (dueIds.length === 0) return null;
+
+    const [jobs, runningCounts] = await Promise.all([this.load(dueIds), redis.hGetAll(RUNNING_BY_CLIENT_KEY)]);
+    const running = (clientId: string) => parseInt(runningCounts[clientId] || '0', 10);
+
+    // Queue entries whose job data expired can never run
+    const orphaned = dueIds.filter((_, i) => !jobs[i]);
+    if (orphaned.length > 0) {
+      await redis.zRem(QUEUED_KEY, orphaned);
+    }
+
+    const candidates = jobs
+      .filter((job): job is Job => !!job && running(job.clientId) < maxPerClient)
+      .sort((a, b) => running(a.clientId) - running(b.clientId) || Date.parse(a.createdAt) - Date.parse(b.createdAt));
+
+    for (const job of candidates) {
+      if (await redis.zRem(QUEUED_KEY, job.id) === 0) continue; // another worker got it
+
+      const now = new Date();
+      const claimed: Job = {
+        ...job,
+        status: 'running',
+        attempts: job.attempts + 1,
+        lockedBy: workerId,
+        heartbeatAt: now.toISOString(),
+        startedAt: now.toISOString(),
+      };
+
+      await redis.multi()
+        .set(jobKey(job.id), JSON.stringify(claimed))
+        .zAdd(RUNNING_KEY, { score: now.getTime(), value: job.id })
+        .hIncrBy(RUNNING_BY_CLIENT_KEY, job.clientId, 1)
+        .exec();
+
+      return claimed;
+    }
+
+    return null;
+  }
+
+  async heartbeat(id: string, workerId: string): Promise<void> {
+    const job = await this.get(id);
+    if (job?.status !== 'running' || job.lockedBy !== workerId) return;
+
+    const redis = await this.getClient();
+    const now = new Date();
+    await redis.multi()
+      .set(jobKey(id), JSON.stringify({ ...job, heartbeatAt: now.toISOString() }))
+      .zAdd(RUNNING_KEY, { score: now.getTime(), value: id }, { condition: 'XX' })
+      .exec();
+  }
+
+  async setProgress(id: string, progress: JobProgress): Promise<void> {
+    const job = await this.get(id);
+    if (!job) return;
+
+    const redis = await this.getClient();
+    await redis.set(jobKey(id), JSON.stringify({ ...job, progress }), { expiration: 'KEEPTTL' });
+  }
+
+  async complete(id: string, workerId: string, result: any): Promise<boolean> {
+    return this.finish(id, workerId, { status: 'completed', result: result ?? null, error: null });
+  }
+
+  async retry(id: string, workerId: string, runAt: Date, error: string): Promise<boolean> {
+    const job = await this.get(id);
+    if (job?.status !== 'running' || job.lockedBy !== workerId) return false;
+
+    const redis = await this.getClient();
+    const multi = redis.multi();
+    multi.set(jobKey(id), JSON.stringify({ ...job, status: 'queued', runAt: runAt.toISOString(), error, lockedBy: null }));
+    multi.zAdd(QUEUED_KEY, { score: runAt.getTime(), value: id });
+    this.releaseRunning(multi, job);
+    await multi.exec();
+    return true;
+  }
+
+  async fail(id: string, workerId: string, error: string): Promise<boolean> {
+    return this.finish(id, workerId, { status: 'failed', error });
+  }
+
+  async requeueStale(cutoff: Date): Promise<number> {
+    const redis = await this.getClient();
+    const staleIds = await redis.zRangeByScore(RUNNING_KEY, 0, cutoff.getTime());
+
+    let requeued = 0;
+    for (const id of staleIds) {
+      const job = await this.get(id);
+      if (!job || job.status !== 'running') {
+        await redis.zRem(RUNNING_KEY, id);
+        continue;
+      }
+
+      const now = new Date();
+      const multi = redis.multi();
+      multi.set(jobKey(id), JSON.stringify({ ...job, status: 'queued', lockedBy: null, runAt: now.toISOString() }));
+      multi.zAdd(QUEUED_KEY, { score: now.getTime(), value: id });
+      this.releaseRunning(multi, job);
+      await multi.exec();
+      requeued++;
+    }
+
+    return requeued;
+  }
+
+  async get(id: string): Promise<Job | null> {
+    const redis = await this.getClient();
+    const data = await redis.get(jobKey(id));
+    return data ? JSON.parse(data) : null;
+  }
+
+  async list(clientId: string, options: { status?: JobStatus; limit: number }): Promise<Job[]> {
+    const redis = await this.getClient();
+    // Over-fetch when filtering by status; older jobs beyond that aren't listed
+    const ids = await redis.zRange(clientKey(clientId), 0, options.status ? options.limit * 5 - 1 : options.limit - 1, { REV: true });
+    const jobs = await this.load(ids);
+
+    const expired = ids.filter((_, i) => !jobs[i]);
+    if (expired.length > 0) {
+      await redis.zRem(clientKey(clientId), expired);
+    }
+
+    return jobs
+      .filter((job): job is Job => !!job && (!options.status || job.status === options.status))
+      .slice(0, options.limit);
+  }
+
+  private async finish(id: string, workerId: string, changes: Partial<Job>): Promise<boolean> {
+    const job = await this.get(id);
+    if (job?.status !== 'running' || job.lockedBy !== workerId) return false;
+
+    const redis = await this.getClient();
+    const finished: Job = { ...job, ...changes, lockedBy: null, finishedAt: new Date().toISOString() };
+    const multi = redis.multi();
+    multi.set(jobKey(id), JSON.stringify(finished), { expiration: { type: 'EX', value: FINISHED_JOB_TTL_SECONDS } });
+    this.releaseRunning(multi, job);
+    await multi.exec();
+    return true;
+  }
+
+  private releaseRunning(multi: ReturnType<RedisClientType['multi']>, job: Job): void {
+    multi.zRem(RUNNING_KEY, job.id);
+    if (job.status === 'running') {
+      multi.hIncrBy(RUNNING_BY_CLIENT_KEY, job.clientId, -1);
+    }
+  }
+
+  private async load(ids: string[]): Promise<Array<Job | null>> {
+    if (ids.length === 0) return [];
+
+    const redis = await this.getClient();
+    const values = await redis.mGet(ids.map(jobKey));
+    return values.map(value => (value ? JSON.parse(value) : null));
+  }
+}
@@ -0,0 +1,59 @@
+export type JobStatus = 'queued' | 'running' | 'completed' | 'failed';
+
+export interface JobProgress {
+  current: number;
+  total: number;
+  message?: string;
+}
+
+export interface Job<P = any> {
+  id: string;
+  type: string;
+  clientId: string;
+  payload: P;
+  status: JobStatus;
+  /** Runs started so far, including the current one */
+  attempts: number;
+  maxAttempts: number;
+  /** Earliest time the job may (re)start; pushed back by retry backoff */
+  runAt: string;
+  progress: JobProgress | null;
+  result: any;
+  error: string | null;
+  createdBy: string | null;
+  /** Worker holding the job while it runs */
+  lockedBy: string | null;
+  heartbeatAt: string | null;
+  createdAt: string;
+  startedAt: string | null;
+  finishedAt: string | null;
+}
+
+/**
+ * Persistence for the job queue. Implementations must make `claimNext` safe
+ * to call from several processes at once: a job is handed to one worker only.
+ */
+export interface JobStore {
+  readonly name: string;
+
+  insert(job: Job): Promise<void>;
+  /**
+   * Claim the next due job for `workerId`, preferring clients with the fewest
+   * running jobs and skipping clients already at `maxPerClient`
+   */
+  claimNext(workerId: string, maxPerClient: number): Promise<Job | null>;
+  heartbeat(id: string, workerId: string): Promise<void>;
+  setProgress(id: string, progress: JobProgress): Promise<void>;
+  /**
+   * complete, retry and fail only apply while `workerId` still holds the running
+   * job; they return false when it was requeued and possibly claimed by another worker
+   */
+  complete(id: string, workerId: string, result: any): Promise<boolean>;
+  /** Put a failed run back in the queue to start again at `runAt` */
+  retry(id: string, workerId: string, runAt: Date, error: string): Promise<boolean>;
+  fail(id: string, workerId: string, error: string): Promise<boolean>;
+  /** Requeue running jobs whose worker stopped heartbeating before `cutoff` */
+  requeueStale(cutoff: Date): Promise<number>;
+  get(id: string): Promise<Job | null>;
+  list(clientId: string, options: { status?: JobStatus; limit: number }): Promise<Job[]>;
+}
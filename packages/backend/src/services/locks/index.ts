@@ -0,0 +1,3 @@
+export { lockService, LockService } from './lockService';
+export type { LockResult } from './lockService';
+export type { LockInfo } from './types';
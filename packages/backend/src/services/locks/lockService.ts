@@ -0,0 +1,114 @@
+import os from 'os';
+import { v4 as uuidv4 } from 'uuid';
+import { supabase } from '../../utils/database';
+import { logger } from '../../utils/logger';
+import { getRedisClient, isRedisConfigured } from '../../utils/redis';
+import { MemoryLockStore } from './memoryStore';
+import { PostgresLockStore } from './postgresStore';
+import { RedisLockStore } from './redisStore';
+import { LockInfo, LockStore } from './types';
+
+const DEFAULT_TTL_MS = 60_000;
+
+export type LockResult<T> =
+  | { acquired: true; result: T }
+  | { acquired: false; holder: string | null };
+
+/**
+ * Leases shared by every backend instance, so work that must run once (a sync,
+ * the scheduler's cron jobs) runs on one replica at a time. Leases expire
+ * unless renewed, so a crashed holder's locks free themselves after their TTL.
+ */
+export class LockService {
+  private static instance: LockService;
+  private store: LockStore | null = null;
+  readonly instanceId = `${os.hostname()}:${process.pid}:${uuidv4().slice(0, 8)}`;
+
+  public static getInstance(): LockService {
+    if (!LockService.instance) {
+      LockService.instance = new LockService();
+    }
+    return LockService.instance;
+  }
+
+  private constructor() {}
+
+  /**
+   * Take a free lock for this instance. Not re-entrant: false if this instance
+   * already holds it.
+   */
+  async acquire(name: string, ttlMs: number = DEFAULT_TTL_MS): Promise<boolean> {
+    return this.getStore().acquire(name, this.instanceId, ttlMs);
+  }
+
+  /**
+   * Extend a lock this instance holds. False once it has been lost.
+   */
+  async renew(name: string, ttlMs: number = DEFAULT_TTL_MS): Promise<boolean> {
+    return this.getStore().renew(name, this.instanceId, ttlMs);
+  }
+
+  async release(name: string): Promise<void> {
+    await this.getStore().release(name, this.instanceId);
+  }
+
+  async getLock(name: string): Promise<LockInfo | null> {
+    return this.getStore().get(name);
+  }
+
+  /**
+   * Run `fn` while holding the lock, renewing it every third of its TTL. If
+   * another instance holds it, `fn` doesn't run and the holder is returned.
+   */
+  async withLock<T>(name: string, fn: () => Promise<T>, ttlMs: number = DEFAULT_TTL_MS): Promise<LockResult<T>> {
+    if (!(await this.acquire(name, ttlMs))) {
+      const current = await this.getLock(name);
+      return { acquired: false, holder: current?.holder || null };
+    }
+
+    const renewal = setInterval(() => {
+      this.renew(name, ttlMs)
+        .then(renewed => {
+          if (!renewed) {
+            logger.warn('Lost lock while holding it:', { lock: name, instanceId: this.instanceId });
+          }
+        })
+        .catch(error => {
+          logger.warn('Failed to renew lock:', { error, lock: name });
+        });
+    }, Math.floor(ttlMs / 3));
+
+    try {
+      return { acquired: true, result: await fn() };
+    } finally {
+      clearInterval(renewal);
+      await this.release(name).catch(error => {
+        logger.warn('Failed to release lock:', { error, lock: name });
+      });
+    }
+  }
+
+  private getStore(): LockStore {
+    if (!this.store) {
+      const configured = process.env.LOCK_STORE || (isRedisConfigured() ? 'redis' : supabase ? 'postgres' : 'memory');
+
+      if (configured === 'redis') {
+        this.store = new RedisLockStore(getRedisClient);
+      } else if (configured === 'postgres') {
+        if (!supabase) {
+          throw new Error('LOCK_STORE=postgres requires SUPABASE_URL and SUPABASE_SERVICE_KEY');
+        }
+        this.store = new PostgresLockStore(supabase);
+      } else if (configured === 'memory') {
+        logger.warn('Locks are in memory - run a single backend instance');
+        this.store = new MemoryLockStore();
+      } else {
+        throw new Error(`Unknown LOCK_STORE "${configured}"`);
+      }
+    }
+
+    return this.store;
+  }
+}
+
+export const lockService = LockService.getInstance();
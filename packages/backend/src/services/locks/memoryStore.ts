@@ -0,0 +1,42 @@
+import { LockInfo, LockStore } from './types';
+
+/**
+ * Locks for a single process, when neither Redis nor Supabase is configured
+ */
+export class MemoryLockStore implements LockStore {
+  readonly name = 'memory';
+  private locks = new Map<string, { holder: string; expiresAt: number }>();
+
+  async acquire(name: string, holder: string, ttlMs: number): Promise<boolean> {
+    const current = this.locks.get(name);
+    if (current && current.expiresAt > Date.now()) {
+      return false;
+    }
+
+    this.locks.set(name, { holder, expiresAt: Date.now() + ttlMs });
+    return true;
+  }
+
+  async renew(name: string, holder: string, ttlMs: number): Promise<boolean> {
+    const current = this.locks.get(name);
+    if (!current || current.holder !== holder || current.expiresAt <= Date.now()) {
+      return false;
+    }
+
+    current.expiresAt = Date.now() + ttlMs;
+    return true;
+  }
+
+  async release(name: string, holder: string): Promise<void> {
+    if (this.locks.get(name)?.holder === holder) {
+      this.locks.delete(name);
+    }
+  }
+
+  async get(name: string): Promise<LockInfo | null> {
+    const current = this.locks.get(name);
+    if (!current || current.expiresAt <= Date.now()) return null;
+
+    return { name, holder: current.holder, expiresAt: new Date(current.expiresAt).toISOString() };
+  }
+}
@@ -0,0 +1,64 @@
+import { SupabaseClient } from '@supabase/supabase-js';
+import { logger } from '../../utils/logger';
+import { LockInfo, LockStore } from './types';
+
+/**
+ * Leases in the `distributed_locks` table. Session-level advisory locks don't
+ * survive PostgREST's pooled connections, so `acquire_lock` claims a missing
+ * or expired row in a single upsert. Expiry is computed from the database clock.
+ */
+export class PostgresLockStore implements LockStore {
+  readonly name = 'postgres';
+
+  constructor(private db: SupabaseClient) {}
+
+  async acquire(name: string, holder: string, ttlMs: number): Promise<boolean> {
+    const { data, error } = await this.db.rpc('acquire_lock', {
+      p_name: name,
+      p_holder: holder,
+      p_ttl_ms: ttlMs,
+    });
+    this.check(error, 'acquiring lock', name);
+
+    return data === true;
+  }
+
+  async renew(name: string, holder: string, ttlMs: number): Promise<boolean> {
+    const { data, error } = await this.db.rpc('renew_lock', {
+      p_name: name,
+      p_holder: holder,
+      p_ttl_ms: ttlMs,
+    });
+    this.check(error, 'renewing lock', name);
+
+    return data === true;
+  }
+
+  async release(name: string, holder: string): Promise<void> {
+    const { error } = await this.db
+      .from('distributed_locks')
+      .delete()
+      .eq('name', name)
+      .eq('holder', holder);
+    this.check(error, 'releasing lock', name);
+  }
+
+  async get(name: string): Promise<LockInfo | null> {
+    const { data, error } = await this.db
+      .from('distributed_locks')
+      .select('name, holder, expires_at')
+      .eq('name', name)
+      .gt('expires_at', new Date().toISOString())
+      .maybeSingle();
+    this.check(error, 'reading lock', name);
+
+    return data ? { name: data.name, holder: data.holder, expiresAt: data.expires_at } : null;
+  }
+
+  private check(error: any, action: string, lockName: string): void {
+    if (error) {
+      logger.error(`Error ${action}:`, { error, lockName });
+      throw error;
+    }
+  }
+}
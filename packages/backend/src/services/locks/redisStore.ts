@@ -0,0 +1,53 @@
+import { RedisClientType } from 'redis';
+import { LockInfo, LockStore } from './types';
+
+const lockKey = (name: string) => `locks:${name}`;
+
+// Extend or delete only while the caller still holds the lock
+const RENEW_SCRIPT = `
+if redis.call('GET', KEYS[1]) == ARGV[1] then
+  return redis.call('PEXPIRE', KEYS[1], ARGV[2])
+end
+return 0`;
+
+const RELEASE_SCRIPT = `
+if redis.call('GET', KEYS[1]) == ARGV[1] then
+  return redis.call('DEL', KEYS[1])
+end
+return 0`;
+
+/**
+ * Leases as Redis keys: SET NX PX takes a free lock, and the key expiring
+ * frees it when the holder dies without releasing.
+ */
+export class RedisLockStore implements LockStore {
+  readonly name = 'redis';
+
+  constructor(private getClient: () => Promise<RedisClientType>) {}
+
+  async acquire(name: string, holder: string, ttlMs: number): Promise<boolean> {
+    const redis = await this.getClient();
+
+    const taken = await redis.set(lockKey(name), holder, { condition: 'NX', expiration: { type: 'PX', value: ttlMs } });
+    return taken === 'OK';
+  }
+
+  async renew(name: string, holder: string, ttlMs: number): Promise<boolean> {
+    const redis = await this.getClient();
+    const renewed = await redis.eval(RENEW_SCRIPT, { keys: [lockKey(name)], arguments: [holder, String(ttlMs)] });
+    return renewed === 1;
+  }
+
+  async release(name: string, holder: string): Promise<void> {
+    const redis = await this.getClient();
+    await redis.eval(RELEASE_SCRIPT, { keys: [lockKey(name)], arguments: [holder] });
+  }
+
+  async get(name: string): Promise<LockInfo | null> {
+    const redis = await this.getClient();
+    const [holder, ttl] = await Promise.all([redis.get(lockKey(name)), redis.pTTL(lockKey(name))]);
+    if (!holder || ttl < 0) return null;
+
+    return { name, holder, expiresAt: new Date(Date.now() + ttl).toISOString() };
+  }
+}
@@ -0,0 +1,22 @@
+export interface LockInfo {
+  name: string;
+  /** Instance holding the lock (hostname:pid:suffix) */
+  holder: string;
+  expiresAt: string;
+}
+
+/**
+ * Where leases live. Every operation is atomic per lock, so instances sharing
+ * a store never both hold the same name.
+ */
+export interface LockStore {
+  readonly name: string;
+  /** Take the lock if it's free or expired. False if it's held, including by `holder` itself. */
+  acquire(name: string, holder: string, ttlMs: number): Promise<boolean>;
+  /** Extend the lock if `holder` still has it. False if it expired or was taken over. */
+  renew(name: string, holder: string, ttlMs: number): Promise<boolean>;
+  /** Release the lock if `holder` still has it */
+  release(name: string, holder: string): Promise<void>;
+  /** The current, unexpired holder, if any */
+  get(name: string): Promise<LockInfo | null>;
+}
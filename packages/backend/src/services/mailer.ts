@@ -0,0 +1,112 @@
+import fs from 'fs/promises';
+import path from 'path';
+import { v4 as uuidv4 } from 'uuid';
+import { logger } from '../utils/logger';
+
+export interface MailMessage {
+  to: string;
+  subject: string;
+  text: string;
+  html?: string;
+}
+
+/**
+ * Delivers outgoing email. Production deployments register their provider
+ * with `setMailTransport`; the built-in transports are for development.
+ */
+export interface MailTransport {
+  readonly name: string;
+  send(message: MailMessage & { from: string }): Promise<void>;
+}
+
+/**
+ * Writes messages to the log instead of sending them
+ */
+export class ConsoleMailTransport implements MailTransport {
+  readonly name = 'console';
+
+  async send(message: MailMessage & { from: string }): Promise<void> {
+    logger.info('Email (console transport):', {
+      from: message.from,
+      to: message.to,
+      subject: message.subject,
+      text: message.text,
+    });
+  }
+}
+
+/**
+ * Writes each message as an .eml file so it can be opened in a mail client
+ */
+export class FileMailTransport implements MailTransport {
+  readonly name = 'file';
+
+  constructor(private directory: string) {}
+
+  async send(message: MailMessage & { from: string }): Promise<void> {
+    await fs.mkdir(this.directory, { recursive: true });
+
+    const boundary = `----=${uuidv4()}`;
+    const headers = [
+      `From: ${message.from}`,
+      `To: ${message.to}`,
+      `Subject: ${message.subject}`,
+      `Date: ${new Date().toUTCString()}`,
+      'MIME-Version: 1.0',
+    ];
+    const body = message.html
+      ? [
+          `Content-Type: multipart/alternative; boundary="${boundary}"`,
+          '',
+          `--${boundary}`,
+          'Content-Type: text/plain; charset=utf-8',
+          '',
+          message.text,
+          `--${boundary}`,
+          'Content-Type: text/html; charset=utf-8',
+          '',
+          message.html,
+          `--${boundary}--`,
+        ]
+      : ['Content-Type: text/plain; charset=utf-8', '', message.text];
+
+    const filename = `${new Date().toISOString().replace(/[:.]/g, '-')}-${uuidv4().slice(0, 8)}.eml`;
+    const filePath = path.join(this.directory, filename);
+    await fs.writeFile(filePath, [...headers, ...body].join('\r\n'));
+
+    logger.info('Email written to outbox:', { to: message.to, subject: message.subject, file: filePath });
+  }
+}
+
+let transport: MailTransport | null = null;
+
+/**
+ * The configured transport. MAIL_TRANSPORT selects a built-in one:
+ * "console" (default) or "file" (writes to MAIL_OUTBOX_DIR).
+ */
+export function getMailTransport(): MailTransport {
+  if (!transport) {
+    const configured = process.env.MAIL_TRANSPORT || 'console';
+
+    if (configured === 'console') {
+      transport = new ConsoleMailTransport();
+    } else if (configured === 'file') {
+      transport = new FileMailTransport(process.env.MAIL_OUTBOX_DIR || './mail-outbox');
+    } else {
+      throw new Error(`Unknown MAIL_TRANSPORT "${configured}"`);
+    }
+
+    logger.info('Mail transport initialized', { transport: transport.name });
+  }
+
+  return transport;
+}
+
+export function setMailTransport(custom: MailTransport): void {
+  transport = custom;
+}
+
+export async function sendMail(message: MailMessage): Promise<void> {
+  const from = process.env.MAIL_FROM || 'Corra <no-reply@localhost>';
+  await getMailTransport().send({ ...message, from });
+}
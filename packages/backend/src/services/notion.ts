@@ -1,8 +1,14 @@
 import { Client } from '@notionhq/client';
 import { logger } from '../utils/logger';
+import { ValidationError } from '../types/errors';
 import { ClientDatabase } from '../utils/database';
+import { markdownToSections } from './documentParsing/markdownExtractor';
+import { renderPageMarkdown } from './notionMarkdown';
 import { ragService } from './rag';
-import { v4 as uuidv4 } from 'uuid';
+import { RoutingDecision, routingService } from './routing';
+import { syncCursorService } from './syncCursors';
+import { SyncRunCounts, emptySyncRunCounts } from './syncRuns';
+import { IndexedDocument } from './vectorIndex';
 
 if (!process.env.NOTION_API_KEY) {
   logger.warn('NOTION_API_KEY not found - Notion sync will be disabled');
@@ -12,6 +18,9 @@ const notion = process.env.NOTION_API_KEY
   ? new Client({ auth: process.env.NOTION_API_KEY })
   : null;
 
+// Sync cursors are kept per database under this source
+const CURSOR_SOURCE = 'notion';
+
 export interface NotionPage {
   id: string;
   title: string;
@@ -21,15 +30,19 @@ export interface NotionPage {
   databaseId: string;
 }
 
-export interface ClientMapping {
-  clientId: string;
-  clientName: string;
-  notionKeywords: string[]; // Keywords to identify this client in Notion
+export type NotionSourceType = 'notion_meeting_notes' | 'notion_client_page' | 'notion_website_outline';
+
+export type NotionSyncStats = SyncRunCounts;
+
+// Notion accepts IDs with or without dashes; compare and store them one way
+export function normalizeNotionId(id: string): string {
+  return id.replace(/-/g, '').toLowerCase();
 }
 
+type PageSyncStatus = 'created' | 'updated' | 'unchanged' | 'deleted' | 'skipped';
+
 export class NotionService {
   private static instance: NotionService;
-  private clientMappings: ClientMapping[] = [];
 
   public static getInstance(): NotionService {
     if (!NotionService.instance) {
@@ -38,100 +51,22 @@ export class NotionService {
     return NotionService.instance;
   }
 
-  private constructor() {
-    // Initialize client mappings (you can configure these)
-    this.clientMappings = [
-      {
-        clientId: 'htt-client-id',
-        clientName: 'HTT',
-        notionKeywords: ['HTT', 'Health Tech', 'HealthTech']
-      },
-      // Add more clients here
-    ];
-  }
-
-  /**
-   * Determine which client this content belongs to based on keywords
-   */
-  private determineClient(title: string, content: string, properties: any): string {
-    const searchText = `${title} ${content} ${JSON.stringify(properties)}`.toLowerCase();
-    
-    for (const mapping of this.clientMappings) {
-      for (const keyword of mapping.notionKeywords) {
-        if (searchText.includes(keyword.toLowerCase())) {
-          logger.info('Content assigned to client:', { 
-            keyword, 
-            clientName: mapping.clientName,
-            title: title.substring(0, 50) 
-          });
-          return mapping.clientId;
-        }
-      }
-    }
-    
-    // Default to Asera master bucket
-    logger.info('Content assigned to Asera master bucket:', { 
-      title: title.substring(0, 50) 
-    });
-    return 'asera-master';
-  }
+  private constructor() {}
 
   /**
-   * Convert Notion blocks to plain text
+   * Render a page's blocks as Markdown
    */
   private async extractTextFromBlocks(pageId: string): Promise<string> {
     if (!notion) return '';
 
     try {
-      const blocks = await notion.blocks.children.list({
-        block_id: pageId,
-        page_size: 100,
-      });
-
-      let content = '';
-      for (const block of blocks.results) {
-        content += this.blockToText(block as any) + '\n';
-      }
-
-      return content.trim();
+      return await renderPageMarkdown(notion, pageId);
     } catch (error) {
       logger.error('Error extracting text from blocks:', { error, pageId });
       return '';
     }
   }
 
-  /**
-   * Convert a Notion block to text
-   */
-  private blockToText(block: any): string {
-    if (!block.type) return '';
-
-    const type = block.type;
-    const blockData = block[type];
-
-    if (!blockData) return '';
-
-    // Handle different block types
-    switch (type) {
-      case 'paragraph':
-      case 'heading_1':
-      case 'heading_2':
-      case 'heading_3':
-      case 'bulleted_list_item':
-      case 'numbered_list_item':
-        return this.richTextToPlainText(blockData.rich_text || []);
-      
-      case 'code':
-        return blockData.rich_text ? this.richTextToPlainText(blockData.rich_text) : '';
-      
-      case 'quote':
-        return `"${this.richTextToPlainText(blockData.rich_text || [])}"`;
-      
-      default:
-        return '';
-    }
-  }
-
   /**
    * Convert Notion rich text to plain text
    */
@@ -153,45 +88,47 @@ export class NotionService {
   }
 
   /**
-   * Sync pages from a specific Notion database
+   * Sync pages from a specific Notion database, removing documents for pages
+   * that are no longer in it. Pages no routing rule matches go to `clientId`
+   * (the sync source's client), else the master client.
    */
   async syncNotionDatabase(
     databaseId: string,
-    sourceType: 'notion_meeting_notes' | 'notion_client_page' | 'notion_website_outline'
-  ): Promise<void> {
+    sourceType: NotionSourceType,
+    clientId?: string
+  ): Promise<NotionSyncStats> {
+    const stats = this.emptyStats();
+
     if (!notion) {
       logger.warn('Notion sync attempted but API key not configured');
-      return;
+      return stats;
     }
 
     try {
-      logger.info('Starting Notion database sync:', { databaseId, sourceType });
+      logger.info('Starting Notion database sync:', { databaseId, sourceType, clientId });
 
-      const response = await notion.databases.query({
-        database_id: databaseId,
-        page_size: 100,
-      });
+      const pages = await this.queryDatabasePages(databaseId);
+      const highWaterMark = await this.syncPages(pages, sourceType, stats, clientId);
 
-      for (const page of response.results) {
-        if (page.object !== 'page') continue;
+      stats.deleted += await this.removeMissingPages(
+        databaseId,
+        sourceType,
+        new Set(pages.map(page => page.id)),
+        clientId
+      );
 
-        try {
-          await this.syncNotionPage(page as any, sourceType);
-        } catch (error) {
-          logger.error('Error syncing individual page:', { 
-            error, 
-            pageId: page.id,
-            sourceType 
-          });
-        }
+      if (highWaterMark) {
+        await syncCursorService.advanceHighWaterMark(CURSOR_SOURCE, databaseId, highWaterMark);
       }
 
       logger.info('Notion database sync completed:', { 
         databaseId, 
         sourceType,
-        pagesProcessed: response.results.length 
+        pagesProcessed: pages.length,
+        ...stats,
       });
 
+      return stats;
     } catch (error) {
       logger.error('Error syncing Notion database:', { 
         error, 
@@ -203,99 +140,271 @@ export class NotionService {
   }
 
   /**
-   * Sync a single Notion page
+   * Sync a single Notion page into every client the routing rules send it to,
+   * or `defaultClientId` when none match. The stored documents are keyed on the
+   * page ID, so re-syncing updates them in place; pages unedited since they were
+   * routed under the current rules are skipped without fetching their blocks.
    */
   private async syncNotionPage(
     page: any,
-    sourceType: 'notion_meeting_notes' | 'notion_client_page' | 'notion_website_outline'
-  ): Promise<void> {
+    sourceType: NotionSourceType,
+    defaultClientId?: string
+  ): Promise<PageSyncStatus> {
+    const existing = await this.findSyncedPages(page.id, sourceType, defaultClientId);
+
+    if (page.archived || page.in_trash) {
+      if (existing.length === 0) return 'skipped';
+
+      for (const { clientDb, document } of existing) {
+        await clientDb.deleteDocument(document.id);
+        logger.info('Archived Notion page removed:', { pageId: page.id, documentId: document.id });
+      }
+      return 'deleted';
+    }
+
+    const routingVersion = await routingService.getVersion(defaultClientId);
+    if (existing.length > 0 && existing.every(({ document }) =>
+      document.metadata.lastEditedTime === page.last_edited_time
+      && document.metadata.routingVersion === routingVersion)) {
+      return 'unchanged';
+    }
+
     const title = this.getPageTitle(page.properties);
     const content = await this.extractTextFromBlocks(page.id);
     
+    // Block fetch errors also come back empty, so an existing document is kept
     if (!content.trim()) {
       logger.debug('Skipping empty page:', { pageId: page.id, title });
-      return;
+      return 'skipped';
     }
 
-    // Determine which client this belongs to
-    const clientId = this.determineClient(title, content, page.properties);
-    
-    // Store in appropriate client database
-    const clientDb = new ClientDatabase(clientId);
-    
-    // Generate proper UUID for document ID
-    const documentId = uuidv4();
-    
-    // Use RAG service to process and chunk the document
-    await ragService.processDocument(clientDb, {
-      id: documentId,
+    const decision = await routingService.route({
       title,
       content,
-      source: sourceType,
-      sourceId: page.id,
-      metadata: {
-        notionUrl: page.url,
-        lastEditedTime: page.last_edited_time,
-        properties: page.properties,
-        databaseId: page.parent.database_id,
-        syncedAt: new Date().toISOString(),
-        originalNotionId: page.id, // Keep original Notion ID for reference
-      },
-    });
+      properties: page.properties,
+      databaseId: page.parent.database_id,
+    }, defaultClientId);
+
+    const statuses: Array<'created' | 'updated' | 'unchanged'> = [];
+    for (const clientId of decision.clientIds) {
+      const { documentId, status } = await ragService.syncDocument(new ClientDatabase(clientId), {
+        title,
+        content,
+        source: sourceType,
+        sourceId: page.id,
+        // Split at the page's headings so chunks stay within a section
+        sections: markdownToSections(content),
+        metadata: {
+          notionUrl: page.url,
+          lastEditedTime: page.last_edited_time,
+          properties: page.properties,
+          databaseId: page.parent.database_id,
+          syncedAt: new Date().toISOString(),
+          originalNotionId: page.id, // Keep original Notion ID for reference
+          routingVersion: decision.version,
+          routedBy: decision.evaluations.filter(evaluation => evaluation.matched && evaluation.clientId === clientId)
+            .map(evaluation => evaluation.ruleName),
+        },
+      });
+      statuses.push(status);
+
+      logger.info('Notion page synced:', {
+        pageId: page.id,
+        documentId,
+        status,
+        title: title.substring(0, 50),
+        clientId,
+        sourceType,
+        contentLength: content.length,
+      });
+    }
 
-    logger.info('Notion page synced:', {
-      pageId: page.id,
-      title: title.substring(0, 50),
-      clientId,
-      sourceType,
-      contentLength: content.length,
-    });
+    // An edit or a rule change can take the page away from a client
+    let removed = 0;
+    for (const { clientDb, document } of existing) {
+      if (!decision.clientIds.includes(clientDb.getResolvedClientId())) {
+        await clientDb.deleteDocument(document.id);
+        removed++;
+        logger.info('Notion page no longer routed to client:', { pageId: page.id, clientId: clientDb.getResolvedClientId() });
+      }
+    }
+
+    if (existing.length === 0) return 'created';
+    return removed > 0 || statuses.some(status => status !== 'unchanged') ? 'updated' : 'unchanged';
   }
 
   /**
-   * Check for pages that have been updated since last sync
+   * Sync pages in last-edited order. Returns the last_edited_time up to which
+   * every page synced, i.e. how far the database's cursor may advance.
    */
-  async syncUpdatedPages(
-    databaseId: string,
-    sourceType: 'notion_meeting_notes' | 'notion_client_page' | 'notion_website_outline',
-    sinceDate?: Date
-  ): Promise<void> {
-    if (!notion) return;
+  private async syncPages(
+    pages: any[],
+    sourceType: NotionSourceType,
+    stats: NotionSyncStats,
+    defaultClientId?: string
+  ): Promise<string | undefined> {
+    let highWaterMark: string | undefined;
+    let failed = false;
+
+    for (const page of pages) {
+      stats.seen++;
+      try {
+        const status = await this.syncNotionPage(page, sourceType, defaultClientId);
+        stats[status]++;
+        if (!failed) {
+          highWaterMark = page.last_edited_time;
+        }
+      } catch (error) {
+        // Later pages still sync, but the cursor stops here so this one is retried
+        failed = true;
+        stats.failed++;
+        stats.errors.push(`Page ${page.id}: ${error instanceof Error ? error.message : 'Unknown error'}`);
+        logger.error('Error syncing individual page:', { 
+          error, 
+          pageId: page.id,
+          sourceType 
+        });
+      }
+    }
 
-    try {
-      const filter = sinceDate ? {
-        timestamp: 'last_edited_time' as const,
-        last_edited_time: {
-          after: sinceDate.toISOString(),
-        },
-      } : undefined;
+    return highWaterMark;
+  }
+
+  /**
+   * Every page in a database, following `next_cursor` until the listing is
+   * complete. Pages come oldest edit first so the sync cursor can advance as
+   * they're processed.
+   */
+  private async queryDatabasePages(databaseId: string, editedSince?: string): Promise<any[]> {
+    if (!notion) return [];
+
+    const pages: any[] = [];
+    let cursor: string | undefined;
 
+    do {
       const response = await notion.databases.query({
         database_id: databaseId,
-        filter,
+        // last_edited_time is truncated to the minute, so re-read the mark's own
+        // minute; pages already synced come back 'unchanged' without a block fetch
+        filter: editedSince ? {
+          timestamp: 'last_edited_time',
+          last_edited_time: { on_or_after: editedSince },
+        } : undefined,
+        sorts: [{ timestamp: 'last_edited_time', direction: 'ascending' }],
         page_size: 100,
+        start_cursor: cursor,
       });
 
+      pages.push(...response.results.filter(page => page.object === 'page'));
+      cursor = response.has_more ? response.next_cursor || undefined : undefined;
+    } while (cursor);
+
+    return pages;
+  }
+
+  /**
+   * Find the documents a page was previously synced to, one per client it was routed to
+   */
+  private async findSyncedPages(
+    pageId: string,
+    sourceType: NotionSourceType,
+    defaultClientId?: string
+  ): Promise<Array<{ clientDb: ClientDatabase; document: IndexedDocument }>> {
+    const found: Array<{ clientDb: ClientDatabase; document: IndexedDocument }> = [];
+
+    for (const clientDb of await this.candidateClients(defaultClientId)) {
+      const document = await clientDb.findDocumentBySourceId(sourceType, pageId);
+      if (document) {
+        found.push({ clientDb, document });
+      }
+    }
+    return found;
+  }
+
+  /**
+   * Delete documents synced from this database whose pages no longer appear in it
+   */
+  private async removeMissingPages(
+    databaseId: string,
+    sourceType: NotionSourceType,
+    currentPageIds: Set<string>,
+    defaultClientId?: string
+  ): Promise<number> {
+    let deleted = 0;
+
+    for (const clientDb of await this.candidateClients(defaultClientId)) {
+      const documents = await clientDb.documents.listAll({ source: sourceType });
+
+      for (const document of documents) {
+        const documentDatabaseId = document.metadata?.databaseId;
+        if (!documentDatabaseId || normalizeNotionId(documentDatabaseId) !== normalizeNotionId(databaseId)
+          || currentPageIds.has(document.source_id)) {
+          continue;
+        }
+
+        await clientDb.deleteDocument(document.id);
+        deleted++;
+        logger.info('Deleted Notion page removed:', { pageId: document.source_id, documentId: document.id });
+      }
+    }
+
+    return deleted;
+  }
+
+  /**
+   * Every client the routing rules can assign content to, `defaultClientId` included
+   */
+  private async candidateClients(defaultClientId?: string): Promise<ClientDatabase[]> {
+    return (await routingService.getCandidateClientIds(defaultClientId)).map(clientId => new ClientDatabase(clientId));
+  }
+
+  private emptyStats(): NotionSyncStats {
+    return emptySyncRunCounts();
+  }
+
+  /**
+   * Sync pages edited since the database's stored high-water mark. A database
+   * without one (never synced) gets a full sync, which records it. Unrouted
+   * pages go to `clientId` as in syncNotionDatabase.
+   */
+  async syncUpdatedPages(
+    databaseId: string,
+    sourceType: NotionSourceType,
+    clientId?: string
+  ): Promise<NotionSyncStats> {
+    const stats = this.emptyStats();
+    if (!notion) return stats;
+
+    try {
+      const since = await syncCursorService.getHighWaterMark(CURSOR_SOURCE, databaseId);
+      if (!since) {
+        logger.info('No sync cursor for Notion database, running full sync:', { databaseId, sourceType });
+        return await this.syncNotionDatabase(databaseId, sourceType, clientId);
+      }
+
+      const pages = await this.queryDatabasePages(databaseId, since);
+
       logger.info('Checking for updated pages:', {
         databaseId,
         sourceType,
-        sinceDate: sinceDate?.toISOString(),
-        foundPages: response.results.length,
+        since,
+        foundPages: pages.length,
       });
 
-      for (const page of response.results) {
-        if (page.object === 'page') {
-          await this.syncNotionPage(page as any, sourceType);
-        }
+      const highWaterMark = await this.syncPages(pages, sourceType, stats, clientId);
+      if (highWaterMark) {
+        await syncCursorService.advanceHighWaterMark(CURSOR_SOURCE, databaseId, highWaterMark);
       }
-
     } catch (error) {
       logger.error('Error checking for updated pages:', {
         error,
         databaseId,
         sourceType,
       });
+      throw error;
     }
+
+    return stats;
   }
 
   /**
@@ -336,11 +445,31 @@ export class NotionService {
   }
 
   /**
-   * Add a new client mapping
+   * Route a page as the next sync would, without storing anything
    */
-  addClientMapping(mapping: ClientMapping): void {
-    this.clientMappings.push(mapping);
-    logger.info('Client mapping added:', { clientName: mapping.clientName });
+  async previewRouting(pageId: string): Promise<{ page: NotionPage; decision: RoutingDecision }> {
+    if (!notion) {
+      throw new ValidationError('Notion is not configured');
+    }
+
+    const page: any = await notion.pages.retrieve({ page_id: pageId });
+    const notionPage: NotionPage = {
+      id: page.id,
+      title: this.getPageTitle(page.properties),
+      content: await this.extractTextFromBlocks(page.id),
+      lastEditedTime: page.last_edited_time,
+      properties: page.properties,
+      databaseId: page.parent?.database_id,
+    };
+
+    const decision = await routingService.route({
+      title: notionPage.title,
+      content: notionPage.content,
+      properties: notionPage.properties,
+      databaseId: notionPage.databaseId,
+    });
+
+    return { page: notionPage, decision };
   }
 }
 
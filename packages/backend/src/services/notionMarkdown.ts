@@ -0,0 +1,260 @@
+import { APIErrorCode, Client, isNotionClientError } from '@notionhq/client';
+import { logger } from '../utils/logger';
+
+/**
+ * Render Notion pages as Markdown. Shared by the knowledge-base sync and the
+ * client directory sync so both see the whole page: every page of blocks,
+ * nested children, tables, to-dos and links. Headings stay Markdown headings
+ * so the page can be split into sections for chunking.
+ */
+
+type NotionBlock = Record<string, any>;
+
+const PAGE_SIZE = 100;
+
+// Notion allows arbitrarily deep nesting; stop well past anything written by hand
+const MAX_DEPTH = 12;
+
+const LIST_TYPES = new Set(['bulleted_list_item', 'numbered_list_item', 'to_do', 'toggle']);
+
+/**
+ * All children of a block (or page), following `next_cursor` until the listing is complete
+ */
+export async function listBlockChildren(notion: Client, blockId: string): Promise<NotionBlock[]> {
+  const blocks: NotionBlock[] = [];
+  let cursor: string | undefined;
+
+  do {
+    const response = await notion.blocks.children.list({
+      block_id: blockId,
+      page_size: PAGE_SIZE,
+      start_cursor: cursor,
+    });
+    blocks.push(...response.results as NotionBlock[]);
+    cursor = response.has_more ? response.next_cursor || undefined : undefined;
+  } while (cursor);
+
+  return blocks;
+}
+
+/**
+ * A page's full content as Markdown. API errors propagate so callers never
+ * mistake a partial fetch for the page's content.
+ */
+export async function renderPageMarkdown(notion: Client, pageId: string): Promise<string> {
+  const blocks = await listBlockChildren(notion, pageId);
+  return (await renderBlocks(notion, blocks, 0)).trim();
+}
+
+/**
+ * Notion rich text as inline Markdown: bold, italic, strikethrough, code and links
+ */
+export function richTextToMarkdown(richText: any[]): string {
+  return richText.map(item => {
+    let text: string = item.type === 'equation' ? `$${item.equation.expression}$` : item.plain_text || '';
+    if (!text.trim()) return text;
+
+    // Markers must hug the text, so keep surrounding whitespace outside them
+    const [, leading, core, trailing] = text.match(/^(\s*)([\s\S]*?)(\s*)$/)!;
+    const annotations = item.annotations || {};
+    text = core;
+
+    if (annotations.code) text = `\`${text}\``;
+    if (annotations.bold) text = `**${text}**`;
+    if (annotations.italic) text = `_${text}_`;
+    if (annotations.strikethrough) text = `~~${text}~~`;
+    if (item.href) text = `[${text}](${item.href})`;
+
+    return `${leading}${text}${trailing}`;
+  }).join('');
+}
+
+async function renderBlocks(notion: Client, blocks: NotionBlock[], depth: number): Promise<string> {
+  let output = '';
+  let previousType: string | undefined;
+  let listNumber = 0;
+
+  for (const block of blocks) {
+    listNumber = block.type === 'numbered_list_item'
+      ? (previousType === 'numbered_list_item' ? listNumber + 1 : 1)
+      : 0;
+
+    const rendered = await renderBlock(notion, block, depth, listNumber);
+    if (rendered) {
+      // Consecutive list items form one list; everything else is its own paragraph
+      const separator = LIST_TYPES.has(block.type) && previousType && LIST_TYPES.has(previousType) ? '\n' : '\n\n';
+      output += output ? separator + rendered : rendered;
+    }
+    previousType = block.type;
+  }
+
+  return output;
+}
+
+async function renderBlock(notion: Client, block: NotionBlock, depth: number, listNumber: number): Promise<string> {
+  const data = block[block.type] || {};
+  const text = richTextToMarkdown(data.rich_text || []);
+  const children = () => block.has_children ? renderChildren(notion, block.id, depth) : Promise.resolve('');
+
+  switch (block.type) {
+    case 'paragraph':
+      return joinParagraphs(text, await children());
+
+    case 'heading_1':
+    case 'heading_2':
+    case 'heading_3': {
+      const level = Number(block.type.slice(-1));
+      // Toggleable headings keep their content as children
+      return joinParagraphs(text.trim() ? `${'#'.repeat(level)} ${text}` : '', await children());
+    }
+
+    case 'bulleted_list_item':
+    case 'toggle':
+      return listItem('- ', text, await children());
+
+    case 'numbered_list_item':
+      return listItem(`${listNumber}. `, text, await children());
+
+    case 'to_do':
+      return listItem(`- [${data.checked ? 'x' : ' '}] `, text, await children());
+
+    case 'quote':
+      return prefixLines(joinParagraphs(text, await children()), '> ');
+
+    case 'callout': {
+      const icon = data.icon?.type === 'emoji' ? `${data.icon.emoji} ` : '';
+      return prefixLines(joinParagraphs(`${icon}${text}`, await children()), '> ');
+    }
+
+    case 'code': {
+      const language = data.language && data.language !== 'plain text' ? data.language : '';
+      const code = (data.rich_text || []).map((item: any) => item.plain_text || '').join('');
+      const caption = richTextToMarkdown(data.caption || []);
+      return joinParagraphs(`\`\`\`${language}\n${code}\n\`\`\``, caption);
+    }
+
+    case 'equation':
+      return `$$\n${data.expression}\n$$`;
+
+    case 'divider':
+      return '---';
+
+    case 'table':
+      return renderTable(notion, block);
+
+    case 'column_list':
+    case 'column':
+      return children();
+
+    case 'synced_block':
+      return renderSyncedBlock(notion, block, depth);
+
+    case 'child_page':
+      // Subpages are pages of their own; link rather than inline them
+      return `Subpage: ${data.title || 'Untitled'}`;
+
+    case 'child_database':
+      return `Database: ${data.title || 'Untitled'}`;
+
+    case 'link_to_page': {
+      const targetId = data.page_id || data.database_id;
+      return targetId ? `[Linked page](https://www.notion.so/${targetId.replace(/-/g, '')})` : '';
+    }
+
+    case 'bookmark':
+    case 'embed':
+    case 'link_preview': {
+      const caption = richTextToMarkdown(data.caption || []);
+      return data.url ? `[${caption || data.url}](${data.url})` : '';
+    }
+
+    case 'image':
+    case 'video':
+    case 'audio':
+    case 'file':
+    case 'pdf':
+      return renderMedia(block.type, data);
+
+    default:
+      // table_of_contents, breadcrumb and unsupported blocks carry no text
+      return '';
+  }
+}
+
+async function renderChildren(notion: Client, blockId: string, depth: number): Promise<string> {
+  if (depth + 1 > MAX_DEPTH) {
+    logger.warn('Notion block nesting too deep, skipping children:', { blockId, depth });
+    return '';
+  }
+
+  const children = await listBlockChildren(notion, blockId);
+  return renderBlocks(notion, children, depth + 1);
+}
+
+/**
+ * A synced block copy has no content of its own; render the original's. The
+ * original may live on a page the integration can't see.
+ */
+async function renderSyncedBlock(notion: Client, block: NotionBlock, depth: number): Promise<string> {
+  const originalId = block.synced_block.synced_from?.block_id || block.id;
+
+  try {
+    return await renderChildren(notion, originalId, depth);
+  } catch (error) {
+    if (isNotionClientError(error) && error.code === APIErrorCode.ObjectNotFound) {
+      logger.warn('Synced block source not shared with the integration:', { blockId: block.id, originalId });
+      return '';
+    }
+    throw error;
+  }
+}
+
+async function renderTable(notion: Client, block: NotionBlock): Promise<string> {
+  const rows = (await listBlockChildren(notion, block.id))
+    .filter(row => row.type === 'table_row')
+    .map(row => (row.table_row.cells as any[][]).map(cell =>
+      richTextToMarkdown(cell).replace(/\|/g, '\\|').replace(/\n/g, ' ').trim()
+    ));
+  if (rows.length === 0) return '';
+
+  const width = block.table.table_width || Math.max(...rows.map(row => row.length));
+  const formatRow = (cells: string[]) =>
+    `| ${Array.from({ length: width }, (_, i) => cells[i] || '').join(' | ')} |`;
+
+  // Markdown tables need a header row; leave it blank when the Notion table has none
+  const header = block.table.has_column_header ? rows.shift()! : [];
+
+  return [
+    formatRow(header),
+    `| ${Array.from({ length: width }, () => '---').join(' | ')} |`,
+    ...rows.map(formatRow),
+  ].join('\n');
+}
+
+function renderMedia(type: string, data: any): string {
+  const caption = richTextToMarkdown(data.caption || []);
+  const label = caption || data.name || type;
+
+  // Notion-hosted file URLs are signed and expire within the hour; only keep external links
+  if (data.type !== 'external') {
+    return `[${type}: ${label}]`;
+  }
+
+  return type === 'image' ? `![${label}](${data.external.url})` : `[${label}](${data.external.url})`;
+}
+
+function listItem(marker: string, text: string, children: string): string {
+  const item = `${marker}${text}`;
+  if (!children) return item;
+
+  const indent = ' '.repeat(marker.startsWith('-') ? 2 : marker.length);
+  return `${item}\n${prefixLines(children, indent)}`;
+}
+
+function prefixLines(text: string, prefix: string): string {
+  return text.split('\n').map(line => line ? `${prefix}${line}` : prefix.trimEnd()).join('\n');
+}
+
+function joinParagraphs(...parts: string[]): string {
+  return parts.filter(part => part.trim()).join('\n\n');
+}
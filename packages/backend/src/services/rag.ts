@@ -1,6 +1,14 @@
+import crypto from 'crypto';
 import { v4 as uuidv4 } from 'uuid';
-import { claudeService } from './claude';
+import { claudeService, ChatMessage } from './claude';
 import { analyticsService } from './analytics';
+import { getEmbeddingProvider, toStorageVector, EmbeddingProvider, EmbeddingResult } from './embeddings';
+import { DocumentSourceType } from './vectorIndex';
+import { hybridSearchService, HybridSearchResult } from './hybridSearch';
+import { rerank, resolveRerankOptions, RequestRerankOptions } from './reranking';
+import { ExtractedSection, SectionLocation } from './documentParsing';
+import { chunkDocument, TextChunk } from './chunking';
+import { tokenBudgetService } from './tokenBudgets';
 import { ClientDatabase } from '../utils/database';
 import { logger } from '../utils/logger';
 
@@ -12,22 +20,51 @@ export interface DocumentChunk {
   metadata: Record<string, any>;
 }
 
+export interface RAGSource {
+  documentId: string;
+  chunkId: string;
+  title: string;
+  content: string;
+  source: string;
+  relevanceScore: number;
+}
+
 export interface RAGResponse {
   answer: string;
-  sources: Array<{
-    documentId: string;
-    title: string;
-    content: string;
-    source: string;
-    relevanceScore: number;
-  }>;
+  sources: RAGSource[];
   tokenCount: number;
 }
 
+export interface RAGOptions {
+  maxSources?: number;
+  model?: string;
+  history?: ChatMessage[];
+  /** Minimum vector similarity for a chunk to be used as context */
+  similarityThreshold?: number;
+  sources?: DocumentSourceType[];
+  createdAfter?: Date;
+  createdBefore?: Date;
+  /** Rerank over-fetched candidates before building the prompt (overrides the client setting) */
+  rerank?: boolean | RequestRerankOptions;
+}
+
+export type RAGStreamEvent =
+  | { type: 'sources'; sources: RAGSource[] }
+  | { type: 'token'; text: string }
+  | { type: 'done'; answer: string; sources: RAGSource[]; tokenCount: number; model: string };
+
+type RetrievedChunk = HybridSearchResult & { rerank_score?: number };
+
+/** Entry of `documents.metadata.sections`: a section's character range in the content */
+type StoredSection = SectionLocation & { start: number; end: number };
+
 export interface DocumentChunkWithEmbedding extends DocumentChunk {
   embedding: number[];
 }
 
+// Chunks embedded per provider call
+const EMBEDDING_BATCH_SIZE = 16;
+
 export class RAGService {
   private static instance: RAGService;
 
@@ -41,71 +78,7 @@ export class RAGService {
   private constructor() {}
 
   /**
-   * Chunk text into smaller pieces for better embedding and retrieval
-   */
-  chunkText(
-    text: string,
-    options: {
-      maxTokens?: number;
-      overlapTokens?: number;
-    } = {}
-  ): Array<{ content: string; index: number; tokenCount: number }> {
-    const { maxTokens = 500, overlapTokens = 50 } = options;
-    
-    // Rough token estimation (1 token ≈ 4 characters for English)
-    const avgCharsPerToken = 4;
-    const maxChars = maxTokens * avgCharsPerToken;
-    const overlapChars = overlapTokens * avgCharsPerToken;
-    
-    const chunks: Array<{ content: string; index: number; tokenCount: number }> = [];
-    let startPos = 0;
-    let chunkIndex = 0;
-    
-    while (startPos < text.length) {
-      let endPos = Math.min(startPos + maxChars, text.length);
-      
-      // Try to break at sentence boundaries
-      if (endPos < text.length) {
-        const sentenceEnd = text.lastIndexOf('.', endPos);
-        const paragraphEnd = text.lastIndexOf('\n', endPos);
-        const breakPoint = Math.max(sentenceEnd, paragraphEnd);
-        
-        if (breakPoint > startPos + maxChars * 0.5) {
-          endPos = breakPoint + 1;
-        }
-      }
-      
-      const chunkContent = text.slice(startPos, endPos).trim();
-      
-      if (chunkContent.length > 0) {
-        chunks.push({
-          content: chunkContent,
-          index: chunkIndex,
-          tokenCount: this.estimateTokenCount(chunkContent),
-        });
-        chunkIndex++;
-      }
-      
-      // Calculate next start position with overlap
-      startPos = Math.max(endPos - overlapChars, endPos);
-      
-      // Avoid infinite loop
-      if (startPos >= endPos) {
-        startPos = endPos;
-      }
-    }
-
-    logger.info('Document chunked with real embeddings:', {
-      originalLength: text.length,
-      chunksCreated: chunks.length,
-      avgChunkSize: chunks.reduce((sum, chunk) => sum + chunk.content.length, 0) / chunks.length,
-    });
-
-    return chunks;
-  }
-
-  /**
-   * Process and store a document with REAL Claude embeddings
+   * Process and store a document, embedding its chunks with the client's provider
    */
   async processDocument(
     clientDb: ClientDatabase,
@@ -116,89 +89,58 @@ export class RAGService {
       source: 'notion_meeting_notes' | 'notion_client_page' | 'notion_website_outline' | 'slack' | 'upload';
       sourceId: string;
       metadata: Record<string, any>;
-    }
+      /** Page/heading structure from the document parser; chunks never cross a section */
+      sections?: ExtractedSection[];
+      contentHash?: string;
+    },
+    options: {
+      /** Called after each embedding batch is stored */
+      onProgress?: (progress: { current: number; total: number }) => Promise<void>;
+    } = {}
   ): Promise<void> {
     try {
-      logger.info('Processing document for RAG with REAL Claude embeddings:', {
+      logger.info('Processing document for RAG:', {
         documentId: document.id,
         title: document.title,
         source: document.source,
         contentLength: document.content.length,
       });
 
+      // Remember where each section sits in the content so reprocessing keeps the structure
+      let content = document.content;
+      let metadata = document.metadata;
+      if (document.sections) {
+        const layout = this.layoutSections(document.sections);
+        content = layout.content;
+        metadata = { ...metadata, sections: layout.sections };
+      }
+
       // Store the document
       await clientDb.insertDocument({
         id: document.id,
         title: document.title,
-        content: document.content,
+        content,
         source: document.source,
         sourceId: document.sourceId,
-        metadata: document.metadata,
+        metadata,
+        contentHash: document.contentHash,
       });
 
       // Chunk the document
-      const chunks = this.chunkText(document.content);
-
-      // Generate REAL embeddings for each chunk using Claude
-      let totalTokens = 0;
-      for (const chunk of chunks) {
-        try {
-          const embeddingResponse = await claudeService.generateEmbedding(chunk.content);
-          totalTokens += embeddingResponse.tokenCount;
-          
-          await clientDb.insertDocumentChunk({
-            id: uuidv4(),
-            documentId: document.id,
-            content: chunk.content,
-            embedding: embeddingResponse.embedding, // REAL Claude-powered embeddings!
-            chunkIndex: chunk.index,
-            tokenCount: embeddingResponse.tokenCount,
-            metadata: {
-              ...document.metadata,
-              chunkMetadata: {
-                originalIndex: chunk.index,
-                totalChunks: chunks.length,
-                embeddingModel: 'claude-3-haiku-20240307',
-                embeddingTokens: embeddingResponse.tokenCount,
-              },
-            },
-          });
+      const chunks = this.chunkStoredDocument(content, metadata, document.source);
 
-          // Small delay to avoid rate limiting
-          await this.delay(100);
-
-        } catch (embeddingError) {
-          logger.error('Error generating embedding for chunk:', {
-            error: embeddingError,
-            documentId: document.id,
-            chunkIndex: chunk.index,
-          });
-          
-          // Use fallback embedding if Claude fails
-          const fallbackEmbedding = this.generateFallbackEmbedding(chunk.content);
-          await clientDb.insertDocumentChunk({
-            id: uuidv4(),
-            documentId: document.id,
-            content: chunk.content,
-            embedding: fallbackEmbedding,
-            chunkIndex: chunk.index,
-            tokenCount: chunk.tokenCount,
-            metadata: {
-              ...document.metadata,
-              chunkMetadata: {
-                originalIndex: chunk.index,
-                totalChunks: chunks.length,
-                embeddingModel: 'fallback',
-                embeddingTokens: 0,
-              },
-            },
-          });
-        }
-      }
+      const { provider, totalTokens } = await this.embedAndStoreChunks(
+        clientDb,
+        document.id,
+        chunks,
+        document.metadata,
+        options.onProgress
+      );
 
       logger.info('Document processing completed with real embeddings:', {
         documentId: document.id,
         chunksCreated: chunks.length,
+        embeddingProvider: provider.id,
         totalEmbeddingTokens: totalTokens,
       });
     } catch (error) {
@@ -212,72 +154,189 @@ export class RAGService {
   }
 
   /**
-   * Generate RAG response with REAL semantic search and analytics
+   * Store an item from a source system, keyed on (client, source, sourceId).
+   * The existing document is updated in place; chunks are only rebuilt and
+   * re-embedded when the title or content actually changed.
+   */
+  async syncDocument(
+    clientDb: ClientDatabase,
+    document: {
+      title: string;
+      content: string;
+      source: DocumentSourceType;
+      sourceId: string;
+      metadata: Record<string, any>;
+      sections?: ExtractedSection[];
+    }
+  ): Promise<{ documentId: string; status: 'created' | 'updated' | 'unchanged' }> {
+    const contentHash = crypto
+      .createHash('sha256')
+      .update(`${document.title}\n${document.content}`)
+      .digest('hex');
+
+    const existing = await clientDb.findDocumentBySourceId(document.source, document.sourceId);
+
+    if (existing?.contentHash === contentHash) {
+      // Keep source metadata (edit times, URLs) current without touching the chunks
+      await clientDb.insertDocument({
+        ...existing,
+        metadata: { ...document.metadata, sections: existing.metadata.sections },
+        contentHash,
+      });
+
+      logger.debug('Document unchanged, skipping re-embedding:', {
+        documentId: existing.id,
+        source: document.source,
+        sourceId: document.sourceId,
+      });
+      return { documentId: existing.id, status: 'unchanged' };
+    }
+
+    const documentId = existing?.id || uuidv4();
+    if (existing) {
+      await clientDb.deleteDocumentChunks(documentId);
+    }
+
+    await this.processDocument(clientDb, {
+      ...document,
+      id: documentId,
+      contentHash,
+    });
+
+    return { documentId, status: existing ? 'updated' : 'created' };
+  }
+
+  /**
+   * Generate RAG response with REAL semantic search and analytics.
+   * Throws RateLimitError when the client's token budget is used up.
    */
   async generateRAGResponse(
     clientDb: ClientDatabase,
     query: string,
-    options: {
-      maxSources?: number;
-      model?: string;
-    } = {}
+    options: RAGOptions = {}
   ): Promise<RAGResponse> {
+    const startTime = Date.now();
+    await tokenBudgetService.assertAvailable(clientDb);
+    const prepared = await this.prepareRAGPrompt(clientDb, query, options);
+
+    // Generate response with context
+    const response = await claudeService.generateChatCompletion(prepared.messages, {
+      model: options.model,
+    });
+    await tokenBudgetService.record(clientDb, response.tokenCount);
+
+    logger.info('Enhanced RAG response generated:', {
+      query: query.substring(0, 100),
+      sourcesUsed: prepared.sources.length,
+      responseTime: Date.now() - startTime,
+      responseLength: response.content.length,
+      tokenCount: response.tokenCount,
+    });
+
+    return {
+      answer: response.content,
+      sources: prepared.sources,
+      tokenCount: response.tokenCount,
+    };
+  }
+
+  /**
+   * Stream a RAG response: retrieved sources first, then token deltas as Claude
+   * produces them, then a final event with the full answer and usage.
+   * Throws RateLimitError when the client's token budget is used up.
+   */
+  async *streamRAGResponse(
+    clientDb: ClientDatabase,
+    query: string,
+    options: RAGOptions = {}
+  ): AsyncGenerator<RAGStreamEvent> {
+    const startTime = Date.now();
+    await tokenBudgetService.assertAvailable(clientDb);
+    const prepared = await this.prepareRAGPrompt(clientDb, query, options);
+
+    yield { type: 'sources', sources: prepared.sources };
+
+    let tokensUsed = 0;
+    try {
+      for await (const event of claudeService.streamChatCompletion(prepared.messages, {
+        model: options.model,
+        onUsage: tokenCount => { tokensUsed = tokenCount; },
+      })) {
+        if (event.type === 'text') {
+          yield { type: 'token', text: event.text };
+          continue;
+        }
+
+        logger.info('Streamed RAG response completed:', {
+          query: query.substring(0, 100),
+          sourcesUsed: prepared.sources.length,
+          responseTime: Date.now() - startTime,
+          responseLength: event.response.content.length,
+          tokenCount: event.response.tokenCount,
+        });
+
+        yield {
+          type: 'done',
+          answer: event.response.content,
+          sources: prepared.sources,
+          tokenCount: event.response.tokenCount,
+          model: event.response.model,
+        };
+      }
+    } finally {
+      // Streams the consumer abandons (e.g. the client disconnected) are charged too
+      await tokenBudgetService.record(clientDb, tokensUsed);
+    }
+  }
+
+  /**
+   * Retrieve context for a query and build the messages to send to Claude
+   */
+  private async prepareRAGPrompt(
+    clientDb: ClientDatabase,
+    query: string,
+    options: RAGOptions
+  ): Promise<{ messages: ChatMessage[]; sources: RAGSource[] }> {
     const startTime = Date.now();
     let embeddingUsed = false;
     let avgRelevanceScore = 0;
     
     try {
       const { maxSources = 5, model } = options;
+      const history = this.normalizeHistory(options.history || []);
+      const retrievalQuery = this.buildRetrievalQuery(query, history);
 
       logger.info('Starting enhanced RAG response generation:', {
         query: query.substring(0, 100),
         maxSources,
         model,
+        historyMessages: history.length,
       });
 
-      let similarChunks: any[] = [];
+      const settings = await clientDb.getClientSettings();
+      const rerankOptions = resolveRerankOptions(settings.reranking, options.rerank);
 
-      try {
-        // Try vector similarity search with real Claude embeddings
-        const queryEmbedding = await claudeService.generateEmbedding(query);
-        embeddingUsed = true;
-        
-        similarChunks = await clientDb.searchSimilarChunksVector(
-          queryEmbedding.embedding, 
-          maxSources
-        );
+      const retrieval = await hybridSearchService.search(clientDb, retrievalQuery, {
+        // Over-fetch so the reranker has something to choose from
+        limit: rerankOptions ? Math.max(rerankOptions.candidates, maxSources) : maxSources,
+        similarityThreshold: options.similarityThreshold,
+        sources: options.sources,
+        createdAfter: options.createdAfter,
+        createdBefore: options.createdBefore,
+      });
+      embeddingUsed = retrieval.embeddingUsed;
 
-        if (similarChunks.length > 0) {
-          avgRelevanceScore = similarChunks.reduce((sum, chunk) => sum + (chunk.similarity || 0), 0) / similarChunks.length;
-          
-          logger.info('Vector similarity search successful:', {
-            query: query.substring(0, 50),
-            results: similarChunks.length,
-            avgSimilarity: avgRelevanceScore,
-          });
-        }
-      } catch (embeddingError) {
-        logger.warn('Vector search failed, falling back to keyword search:', {
-          error: embeddingError,
-          query: query.substring(0, 50),
+      let similarChunks: RetrievedChunk[] = retrieval.results;
+      if (rerankOptions) {
+        let rerankTokens = 0;
+        similarChunks = await rerank(retrievalQuery, similarChunks, maxSources, rerankOptions, tokenCount => {
+          rerankTokens += tokenCount;
         });
-        embeddingUsed = false;
+        await tokenBudgetService.record(clientDb, rerankTokens);
       }
 
-      // Fallback to enhanced keyword search if vector search fails or returns no results
-      if (similarChunks.length === 0) {
-        similarChunks = await clientDb.searchSimilarChunks(query, maxSources);
-        
-        if (similarChunks.length > 0) {
-          // Calculate relevance scores for keyword matches
-          avgRelevanceScore = similarChunks.reduce((sum, chunk) => sum + (chunk.score || 0.5), 0) / similarChunks.length;
-          
-          logger.info('Keyword search results:', {
-            query: query.substring(0, 50),
-            results: similarChunks.length,
-            avgScore: avgRelevanceScore,
-          });
-        }
+      if (similarChunks.length > 0) {
+        avgRelevanceScore = similarChunks.reduce((sum, chunk) => sum + this.relevanceScore(chunk), 0) / similarChunks.length;
       }
 
       const responseTime = Date.now() - startTime;
@@ -288,7 +347,7 @@ export class RAGService {
         resultsFound: similarChunks.length,
         responseTime,
         timestamp: new Date(),
-        clientId: (clientDb as any).clientId || 'asera-master',
+        clientId: clientDb.getResolvedClientId(),
         embeddingUsed,
         avgRelevanceScore,
       });
@@ -312,26 +371,24 @@ export class RAGService {
 I don't have specific information about this topic in my current knowledge base, but I'd love to help! I can provide general assistance or suggest what kind of information might be helpful. Please respond in a warm, helpful way as Corra.`;
         }
 
-        // Generate response without context
-        const response = await claudeService.generateChatCompletion([
-          {
-            role: 'user',
-            content: promptContent,
-          },
-        ], { model });
-
+        // Respond without context
         return {
-          answer: response.content,
+          messages: [
+            ...history,
+            {
+              role: 'user',
+              content: promptContent,
+            },
+          ],
           sources: [],
-          tokenCount: response.tokenCount,
         };
       }
 
       // Create enhanced RAG prompt with context
       const contextText = similarChunks
         .map((chunk, idx) => {
-          const relevanceIndicator = embeddingUsed 
-            ? `(${((chunk.similarity || 0) * 100).toFixed(1)}% similarity)`
+          const relevanceIndicator = chunk.similarity !== undefined
+            ? `(${(chunk.similarity * 100).toFixed(1)}% similarity)`
             : `(keyword match)`;
           
           return `[${idx + 1}] ${chunk.documents?.title || 'Document'} ${relevanceIndicator}: ${chunk.content}`;
@@ -356,42 +413,39 @@ User: ${query}
 Instructions:
 - For general conversation (greetings, casual chat), respond naturally and warmly as Corra
 - For Asera-related questions, use the provided context to give detailed, accurate information in a friendly way
-- Reference sources when making claims about Asera (e.g., "According to the team meeting notes [1]...")
+- Reference sources when making claims about Asera (e.g., "According to the team meeting notes [1]..." or "In the #project Slack thread [2]...")
 - If the context doesn't fully answer an Asera question, share what you do know and suggest related information
 - Be helpful, friendly, and personable - like a knowledgeable colleague who's excited to help
 - Use natural language, avoid overly formal responses
 - Feel free to use occasional emojis to make responses more engaging and human
+- Earlier messages in this conversation are included above; use them to resolve follow-up questions (e.g. "what about their budget?")
 
 Answer:`;
 
-      // Generate response with context
-      const response = await claudeService.generateChatCompletion([
-        {
-          role: 'user',
-          content: ragPrompt,
-        },
-      ], { model });
-
-      logger.info('Enhanced RAG response generated:', {
+      logger.info('RAG context prepared:', {
         query: query.substring(0, 100),
         sourcesUsed: similarChunks.length,
-        responseTime: Date.now() - startTime,
+        retrievalTime: Date.now() - startTime,
         embeddingUsed,
         avgRelevanceScore,
-        responseLength: response.content.length,
-        tokenCount: response.tokenCount,
       });
 
       return {
-        answer: response.content,
-        sources: similarChunks.map((chunk, idx) => ({
+        messages: [
+          ...history,
+          {
+            role: 'user',
+            content: ragPrompt,
+          },
+        ],
+        sources: similarChunks.map(chunk => ({
           documentId: chunk.document_id,
+          chunkId: chunk.id,
           title: chunk.documents?.title || 'Unknown Document',
           content: chunk.content.substring(0, 500), // Truncate for response
           source: chunk.documents?.source || 'unknown',
-          relevanceScore: chunk.similarity || chunk.score || 0.8 - (idx * 0.1),
+          relevanceScore: this.relevanceScore(chunk),
         })),
-        tokenCount: response.tokenCount,
       };
     } catch (error) {
       const responseTime = Date.now() - startTime;
@@ -402,7 +456,7 @@ Answer:`;
         resultsFound: 0,
         responseTime,
         timestamp: new Date(),
-        clientId: (clientDb as any).clientId || 'asera-master',
+        clientId: clientDb.getResolvedClientId(),
         embeddingUsed: false,
         avgRelevanceScore: 0,
       });
@@ -417,43 +471,168 @@ Answer:`;
   }
 
   /**
-   * Estimate token count (simple approximation)
+   * Make prior turns safe to send to Claude: the message list must start with a
+   * user turn and alternate roles, so drop leading assistant turns and merge
+   * consecutive turns from the same role.
    */
-  private estimateTokenCount(text: string): number {
-    // Rough estimation: ~4 characters per token for English text
-    return Math.ceil(text.length / 4);
+  private normalizeHistory(history: ChatMessage[]): ChatMessage[] {
+    const normalized: ChatMessage[] = [];
+
+    for (const message of history) {
+      if (!message.content?.trim()) continue;
+      if (normalized.length === 0 && message.role !== 'user') continue;
+
+      const previous = normalized[normalized.length - 1];
+      if (previous && previous.role === message.role) {
+        previous.content += `\n\n${message.content}`;
+      } else {
+        normalized.push({ role: message.role, content: message.content });
+      }
+    }
+
+    // The new user turn is appended after the history, so it must end on an assistant turn
+    if (normalized.length > 0 && normalized[normalized.length - 1].role === 'user') {
+      normalized.pop();
+    }
+
+    return normalized;
   }
 
   /**
-   * Small delay helper
+   * Build the search query for a follow-up question. Short follow-ups like
+   * "what about their budget?" don't retrieve anything on their own, so the
+   * previous user turn is prepended to carry the subject forward.
    */
-  private delay(ms: number): Promise<void> {
-    return new Promise(resolve => setTimeout(resolve, ms));
+  private buildRetrievalQuery(query: string, history: ChatMessage[]): string {
+    const previousUserTurn = [...history].reverse().find(message => message.role === 'user');
+    if (!previousUserTurn) {
+      return query;
+    }
+
+    return `${previousUserTurn.content.substring(0, 500)}\n${query}`;
   }
 
   /**
-   * Generate fallback embedding when Claude fails
+   * Join sections into the stored content, recording each section's range and location
    */
-  private generateFallbackEmbedding(text: string): number[] {
-    const dimension = 1536;
-    const embedding: number[] = new Array(dimension).fill(0);
-    
-    // Simple hash-based approach as fallback
-    for (let i = 0; i < text.length; i++) {
-      const char = text.charCodeAt(i);
-      const index = char % dimension;
-      embedding[index] += Math.sin(char * 0.1) * 0.1;
+  private layoutSections(sections: ExtractedSection[]): { content: string; sections: StoredSection[] } {
+    const layout: StoredSection[] = [];
+    let content = '';
+
+    for (const section of sections) {
+      if (content) content += '\n\n';
+      layout.push({ start: content.length, end: content.length + section.text.length, ...section.location });
+      content += section.text;
     }
-    
-    // Normalize the embedding
-    const magnitude = Math.sqrt(embedding.reduce((sum, val) => sum + val * val, 0));
-    if (magnitude > 0) {
-      for (let i = 0; i < embedding.length; i++) {
-        embedding[i] /= magnitude;
+
+    return { content, sections: layout };
+  }
+
+  /**
+   * Chunk a stored document, section by section when its metadata records a layout
+   */
+  private chunkStoredDocument(
+    content: string,
+    documentMetadata: Record<string, any>,
+    source?: DocumentSourceType
+  ): TextChunk[] {
+    const layout: StoredSection[] | undefined = documentMetadata.sections;
+    const sections = Array.isArray(layout)
+      ? layout.map(({ start, end, ...location }) => ({ text: content.slice(start, end), location }))
+      : undefined;
+
+    const chunks = chunkDocument({ content, source, sections });
+
+    logger.debug('Document chunked:', {
+      contentLength: content.length,
+      source,
+      chunksCreated: chunks.length,
+      totalTokens: chunks.reduce((sum, chunk) => sum + chunk.tokenCount, 0),
+    });
+
+    return chunks;
+  }
+
+  /**
+   * The reranker's score when reranking ran, else cosine similarity when the
+   * vector ranker found the chunk. Text ranks aren't on a 0-1 scale, so
+   * keyword-only hits get 0.5 decaying with their rank.
+   */
+  private relevanceScore(chunk: RetrievedChunk): number {
+    if (chunk.rerank_score !== undefined) return chunk.rerank_score;
+    if (chunk.similarity !== undefined) return chunk.similarity;
+    return 0.5 / (chunk.rankers.fullText?.rank || 1);
+  }
+
+  /**
+   * Resolve the embedding provider configured for a client
+   */
+  private async getEmbeddingProvider(clientDb: ClientDatabase): Promise<EmbeddingProvider> {
+    const settings = await clientDb.getClientSettings();
+    return getEmbeddingProvider(settings.embedding_model);
+  }
+
+  /**
+   * Embed chunks in batches and store them, recording which provider and
+   * dimension produced each vector. Batches that fail to embed are stored
+   * without a vector so they stay reachable through keyword search.
+   */
+  private async embedAndStoreChunks(
+    clientDb: ClientDatabase,
+    documentId: string,
+    chunks: TextChunk[],
+    baseMetadata: Record<string, any>,
+    onProgress?: (progress: { current: number; total: number }) => Promise<void>
+  ): Promise<{ provider: EmbeddingProvider; totalTokens: number }> {
+    const provider = await this.getEmbeddingProvider(clientDb);
+    let totalTokens = 0;
+
+    for (let start = 0; start < chunks.length; start += EMBEDDING_BATCH_SIZE) {
+      const batch = chunks.slice(start, start + EMBEDDING_BATCH_SIZE);
+
+      let embeddings: EmbeddingResult[] | null = null;
+      try {
+        embeddings = await provider.embedBatch(batch.map(chunk => chunk.content));
+      } catch (embeddingError) {
+        logger.error('Error generating embeddings for chunk batch:', {
+          error: embeddingError,
+          documentId,
+          embeddingProvider: provider.id,
+          chunkIndexes: batch.map(chunk => chunk.index),
+        });
+      }
+
+      for (let i = 0; i < batch.length; i++) {
+        const chunk = batch[i];
+        const embedding = embeddings?.[i];
+        totalTokens += embedding?.tokenCount || 0;
+
+        await clientDb.insertDocumentChunk({
+          id: uuidv4(),
+          documentId,
+          content: chunk.content,
+          embedding: embedding ? toStorageVector(embedding.embedding) : null,
+          embeddingProvider: embedding ? provider.id : null,
+          embeddingDimension: embedding ? provider.dimension : null,
+          chunkIndex: chunk.index,
+          tokenCount: chunk.tokenCount,
+          metadata: {
+            ...baseMetadata,
+            ...(chunk.section && { section: chunk.section }),
+            chunkMetadata: {
+              originalIndex: chunk.index,
+              totalChunks: chunks.length,
+              embeddingModel: embedding ? provider.id : 'none',
+              embeddingTokens: embedding?.tokenCount || 0,
+            },
+          },
+        });
       }
+
+      await onProgress?.({ current: Math.min(start + EMBEDDING_BATCH_SIZE, chunks.length), total: chunks.length });
     }
-    
-    return embedding;
+
+    return { provider, totalTokens };
   }
 
   /**
@@ -517,34 +696,28 @@ Answer:`;
   /**
    * Update document embeddings for a specific document.
    */
-  async updateDocumentEmbeddings(clientDb: ClientDatabase, documentId: string, content: string): Promise<void> {
+  async updateDocumentEmbeddings(
+    clientDb: ClientDatabase,
+    documentId: string,
+    content: string,
+    documentMetadata: Record<string, any> = {},
+    source?: DocumentSourceType,
+    options: {
+      /** Called after each embedding batch is stored */
+      onProgress?: (progress: { current: number; total: number }) => Promise<void>;
+    } = {}
+  ): Promise<void> {
     try {
       logger.info('Updating document embeddings:', { documentId });
 
       // Chunk the content
-      const chunks = this.chunkText(content);
+      const chunks = this.chunkStoredDocument(content, documentMetadata, source);
 
       // Delete existing chunks
-      await clientDb.queryInClientSchema('DELETE FROM document_chunks WHERE document_id = $1', [documentId]);
+      await clientDb.deleteDocumentChunks(documentId);
 
       // Generate new embeddings
-      for (const chunk of chunks) {
-        try {
-          const embeddingResult = await claudeService.generateEmbedding(chunk.content);
-          
-          await clientDb.insertDocumentChunk({
-            id: `${documentId}-chunk-${chunk.index}`,
-            documentId: documentId,
-            content: chunk.content,
-            embedding: embeddingResult.embedding,
-            chunkIndex: chunk.index,
-            tokenCount: chunk.tokenCount,
-            metadata: {},
-          });
-        } catch (chunkError) {
-          logger.error('Error updating chunk embedding:', { error: chunkError, documentId, chunkIndex: chunk.index });
-        }
-      }
+      await this.embedAndStoreChunks(clientDb, documentId, chunks, {}, options.onProgress);
 
       logger.info('Document embeddings updated successfully:', { documentId, chunksProcessed: chunks.length });
     } catch (error) {
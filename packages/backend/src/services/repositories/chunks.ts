@@ -0,0 +1,43 @@
+import { DocumentRepository } from './documents';
+import { emptyPage, findPage } from './pagination';
+import { ChunkRecord, Page, PageOptions, RecordStore } from './types';
+
+export const CHUNK_SORTS = ['chunk_index', 'created_at'] as const;
+export type ChunkSort = typeof CHUNK_SORTS[number];
+
+// Embeddings and search vectors stay out of listings
+const CHUNK_COLUMNS = [
+  'id', 'document_id', 'content', 'embedding_provider', 'embedding_dimension',
+  'chunk_index', 'token_count', 'metadata', 'created_at',
+];
+
+/**
+ * Reads the chunks of a client's documents. Chunks carry no client_id, so the
+ * document is checked first; writes go through the vector index.
+ */
+export class ChunkRepository {
+  constructor(private store: RecordStore, private clientId: string, private documents: DocumentRepository) {}
+
+  /**
+   * One page of a document's chunks, in document order. Empty if the document isn't this client's.
+   */
+  async listByDocument(documentId: string, options: PageOptions<ChunkSort> = {}): Promise<Page<ChunkRecord>> {
+    if (!(await this.documents.exists(documentId))) {
+      return emptyPage(options);
+    }
+
+    return findPage<ChunkRecord, ChunkSort>(this.store, this.clientId, 'document_chunks', {
+      filters: [{ column: 'document_id', op: 'eq', value: documentId }],
+      columns: CHUNK_COLUMNS,
+    }, options, {
+      allowed: CHUNK_SORTS,
+      default: 'chunk_index',
+      defaultOrder: 'asc',
+    });
+  }
+
+  async countByDocument(documentId: string): Promise<number> {
+    if (!(await this.documents.exists(documentId))) return 0;
+    return this.store.count(this.clientId, 'document_chunks', [{ column: 'document_id', op: 'eq', value: documentId }]);
+  }
+}
@@ -0,0 +1,39 @@
+import { findPage } from './pagination';
+import { ClientRecord, Filter, Page, PageOptions, RecordStore } from './types';
+
+export const CLIENT_SORTS = ['name', 'created_at', 'updated_at'] as const;
+export type ClientSort = typeof CLIENT_SORTS[number];
+
+export interface ClientListOptions extends PageOptions<ClientSort> {
+  status?: ClientRecord['status'];
+  /** Case-insensitive match on the name */
+  search?: string;
+}
+
+/**
+ * Reads from `clients`. Creating and changing clients goes through
+ * tenantService, which validates and caches them.
+ */
+export class ClientRepository {
+  constructor(private store: RecordStore) {}
+
+  async get(id: string): Promise<ClientRecord | null> {
+    const { rows } = await this.store.find<ClientRecord>(null, 'clients', {
+      filters: [{ column: 'id', op: 'eq', value: id }],
+      limit: 1,
+    });
+    return rows[0] || null;
+  }
+
+  async list(options: ClientListOptions = {}): Promise<Page<ClientRecord>> {
+    const filters: Filter[] = [];
+    if (options.status) filters.push({ column: 'status', op: 'eq', value: options.status });
+    if (options.search) filters.push({ column: 'name', op: 'contains', value: options.search });
+
+    return findPage<ClientRecord, ClientSort>(this.store, null, 'clients', { filters }, options, {
+      allowed: CLIENT_SORTS,
+      default: 'name',
+      defaultOrder: 'asc',
+    });
+  }
+}
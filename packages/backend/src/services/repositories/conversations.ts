@@ -0,0 +1,110 @@
+import { findPage } from './pagination';
+import { ConversationRecord, Filter, Page, PageOptions, RecordStore } from './types';
+
+export const CONVERSATION_SORTS = ['updated_at', 'created_at', 'title'] as const;
+export type ConversationSort = typeof CONVERSATION_SORTS[number];
+
+/** Who a conversation belongs to: a signed-in user, or the API key it was started with */
+export type ConversationOwner = { userId: string } | { apiKeyId: string };
+
+export interface ConversationListOptions extends PageOptions<ConversationSort> {
+  /** Case-insensitive match on the title */
+  search?: string;
+}
+
+/**
+ * A client's conversations. Everything but exists() is limited to the conversation's owner.
+ */
+export class ConversationRepository {
+  constructor(private store: RecordStore, private clientId: string) {}
+
+  async create(conversation: { id: string; owner: ConversationOwner; title: string }): Promise<ConversationRecord> {
+    const now = new Date().toISOString();
+    return this.store.insert<ConversationRecord>(this.clientId, 'conversations', {
+      id: conversation.id,
+      client_id: this.clientId,
+      user_id: 'userId' in conversation.owner ? conversation.owner.userId : null,
+      api_key_id: 'apiKeyId' in conversation.owner ? conversation.owner.apiKeyId : null,
+      title: conversation.title,
+      created_at: now,
+      updated_at: now,
+    });
+  }
+
+  async get(id: string, owner: ConversationOwner): Promise<ConversationRecord | null> {
+    const { rows } = await this.store.find<ConversationRecord>(this.clientId, 'conversations', {
+      filters: this.owned(id, owner),
+      limit: 1,
+    });
+    return rows[0] || null;
+  }
+
+  /**
+   * Whether the conversation belongs to this client, whoever owns it
+   */
+  async exists(id: string): Promise<boolean> {
+    return (await this.store.count(this.clientId, 'conversations', [
+      { column: 'client_id', op: 'eq', value: this.clientId },
+      { column: 'id', op: 'eq', value: id },
+    ])) > 0;
+  }
+
+  /**
+   * One page of an owner's conversations, most recently active first unless sorted otherwise
+   */
+  async list(owner: ConversationOwner, options: ConversationListOptions = {}): Promise<Page<ConversationRecord>> {
+    const filters: Filter[] = [
+      { column: 'client_id', op: 'eq', value: this.clientId },
+      ownerFilter(owner),
+    ];
+    if (options.search) filters.push({ column: 'title', op: 'contains', value: options.search });
+
+    return findPage<ConversationRecord, ConversationSort>(this.store, this.clientId, 'conversations', { filters }, options, {
+      allowed: CONVERSATION_SORTS,
+      default: 'updated_at',
+      defaultOrder: 'desc',
+    });
+  }
+
+  /**
+   * Returns null if the owner doesn't own the conversation
+   */
+  async rename(id: string, owner: ConversationOwner, title: string): Promise<ConversationRecord | null> {
+    const [updated] = await this.store.update<ConversationRecord>(this.clientId, 'conversations', this.owned(id, owner), {
+      title,
+      updated_at: new Date().toISOString(),
+    });
+    return updated || null;
+  }
+
+  /**
+   * Bump updated_at so the conversation sorts as recently active
+   */
+  async touch(id: string): Promise<void> {
+    await this.store.update(this.clientId, 'conversations', [
+      { column: 'client_id', op: 'eq', value: this.clientId },
+      { column: 'id', op: 'eq', value: id },
+    ], { updated_at: new Date().toISOString() });
+  }
+
+  /**
+   * Delete a conversation and (via cascade) its messages. Returns false if the owner doesn't own it.
+   */
+  async delete(id: string, owner: ConversationOwner): Promise<boolean> {
+    return (await this.store.delete(this.clientId, 'conversations', this.owned(id, owner))) > 0;
+  }
+
+  private owned(id: string, owner: ConversationOwner): Filter[] {
+    return [
+      { column: 'client_id', op: 'eq', value: this.clientId },
+      { column: 'id', op: 'eq', value: id },
+      ownerFilter(owner),
+    ];
+  }
+}
+
+function ownerFilter(owner: ConversationOwner): Filter {
+  return 'userId' in owner
+    ? { column: 'user_id', op: 'eq', value: owner.userId }
+    : { column: 'api_key_id', op: 'eq', value: owner.apiKeyId };
+}
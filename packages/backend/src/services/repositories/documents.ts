@@ -0,0 +1,76 @@
+import { DocumentSourceType } from '../vectorIndex';
+import { findPage } from './pagination';
+import { DocumentRecord, Filter, Page, PageOptions, RecordStore } from './types';
+
+export const DOCUMENT_SORTS = ['created_at', 'updated_at', 'title'] as const;
+export type DocumentSort = typeof DOCUMENT_SORTS[number];
+
+export interface DocumentFilters {
+  source?: DocumentSourceType;
+  /** Case-insensitive match on the title */
+  search?: string;
+  /** ISO timestamps bounding updated_at, inclusive */
+  updatedAfter?: string;
+  updatedBefore?: string;
+}
+
+export interface DocumentListOptions extends PageOptions<DocumentSort>, DocumentFilters {}
+
+/**
+ * Reads a client's documents. Writes go through the vector index, which keeps
+ * documents and their chunks in step.
+ */
+export class DocumentRepository {
+  constructor(private store: RecordStore, private clientId: string) {}
+
+  async get(id: string): Promise<DocumentRecord | null> {
+    const { rows } = await this.store.find<DocumentRecord>(this.clientId, 'documents', {
+      filters: [...this.scoped(), { column: 'id', op: 'eq', value: id }],
+      limit: 1,
+    });
+    return rows[0] || null;
+  }
+
+  async exists(id: string): Promise<boolean> {
+    return (await this.store.count(this.clientId, 'documents', [...this.scoped(), { column: 'id', op: 'eq', value: id }])) > 0;
+  }
+
+  /**
+   * One page of documents, newest first unless sorted otherwise
+   */
+  async list(options: DocumentListOptions = {}): Promise<Page<DocumentRecord>> {
+    return findPage<DocumentRecord, DocumentSort>(this.store, this.clientId, 'documents', { filters: this.filters(options) }, options, {
+      allowed: DOCUMENT_SORTS,
+      default: 'created_at',
+      defaultOrder: 'desc',
+    });
+  }
+
+  /**
+   * Every matching document, newest first. For sync bookkeeping; use list() for anything user-facing.
+   */
+  async listAll(filters: DocumentFilters = {}): Promise<DocumentRecord[]> {
+    const { rows } = await this.store.find<DocumentRecord>(this.clientId, 'documents', {
+      filters: this.filters(filters),
+      sort: { column: 'created_at', direction: 'desc' },
+    });
+    return rows;
+  }
+
+  async count(filters: DocumentFilters = {}): Promise<number> {
+    return this.store.count(this.clientId, 'documents', this.filters(filters));
+  }
+
+  private filters(options: DocumentFilters): Filter[] {
+    const filters = this.scoped();
+    if (options.source) filters.push({ column: 'source', op: 'eq', value: options.source });
+    if (options.search) filters.push({ column: 'title', op: 'contains', value: options.search });
+    if (options.updatedAfter) filters.push({ column: 'updated_at', op: 'gte', value: options.updatedAfter });
+    if (options.updatedBefore) filters.push({ column: 'updated_at', op: 'lte', value: options.updatedBefore });
+    return filters;
+  }
+
+  private scoped(): Filter[] {
+    return [{ column: 'client_id', op: 'eq', value: this.clientId }];
+  }
+}
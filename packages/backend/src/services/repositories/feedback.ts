@@ -0,0 +1,77 @@
+import { NotFoundError, ValidationError } from '../../types/errors';
+import { ConversationRepository } from './conversations';
+import { MessageRepository } from './messages';
+import { emptyPage, findPage } from './pagination';
+import { FeedbackRating, FeedbackRecord, Filter, Page, PageOptions, RecordStore } from './types';
+
+export const FEEDBACK_RATINGS: FeedbackRating[] = ['positive', 'negative'];
+
+export const FEEDBACK_SORTS = ['created_at'] as const;
+export type FeedbackSort = typeof FEEDBACK_SORTS[number];
+
+export interface FeedbackListOptions extends PageOptions<FeedbackSort> {
+  rating?: FeedbackRating;
+}
+
+/**
+ * Ratings on messages in a client's conversations
+ */
+export class FeedbackRepository {
+  constructor(
+    private store: RecordStore,
+    private clientId: string,
+    private conversations: ConversationRepository,
+    private messages: MessageRepository
+  ) {}
+
+  async create(feedback: {
+    id: string;
+    messageId: string;
+    userId: string;
+    rating: FeedbackRating;
+    comment?: string | null;
+  }): Promise<FeedbackRecord> {
+    if (!FEEDBACK_RATINGS.includes(feedback.rating)) {
+      throw new ValidationError(`rating must be one of: ${FEEDBACK_RATINGS.join(', ')}`);
+    }
+    if (!(await this.messages.get(feedback.messageId))) {
+      throw new NotFoundError('Message not found');
+    }
+
+    return this.store.insert<FeedbackRecord>(this.clientId, 'feedback', {
+      id: feedback.id,
+      message_id: feedback.messageId,
+      user_id: feedback.userId,
+      rating: feedback.rating,
+      comment: feedback.comment ?? null,
+      created_at: new Date().toISOString(),
+    });
+  }
+
+  /**
+   * One page of the feedback on a conversation's messages, newest first unless
+   * sorted otherwise. Empty if the conversation isn't this client's.
+   */
+  async listByConversation(conversationId: string, options: FeedbackListOptions = {}): Promise<Page<FeedbackRecord>> {
+    if (!(await this.conversations.exists(conversationId))) {
+      return emptyPage(options);
+    }
+
+    const { rows: messages } = await this.store.find<{ id: string }>(this.clientId, 'messages', {
+      filters: [{ column: 'conversation_id', op: 'eq', value: conversationId }],
+      columns: ['id'],
+    });
+    if (messages.length === 0) {
+      return emptyPage(options);
+    }
+
+    const filters: Filter[] = [{ column: 'message_id', op: 'in', value: messages.map(message => message.id) }];
+    if (options.rating) filters.push({ column: 'rating', op: 'eq', value: options.rating });
+
+    return findPage<FeedbackRecord, FeedbackSort>(this.store, this.clientId, 'feedback', { filters }, options, {
+      allowed: FEEDBACK_SORTS,
+      default: 'created_at',
+      defaultOrder: 'desc',
+    });
+  }
+}
@@ -0,0 +1,64 @@
+import { supabase } from '../../utils/database';
+import { logger } from '../../utils/logger';
+import { isTenantDbConfigured } from '../../utils/tenantDb';
+import { MemoryRecordStore } from './memoryStore';
+import { PostgresRecordStore } from './postgresStore';
+import { SupabaseRecordStore } from './supabaseStore';
+import { RecordStore } from './types';
+
+export { ClientRepository, CLIENT_SORTS } from './clients';
+export type { ClientListOptions, ClientSort } from './clients';
+export { DocumentRepository, DOCUMENT_SORTS } from './documents';
+export type { DocumentFilters, DocumentListOptions, DocumentSort } from './documents';
+export { ChunkRepository, CHUNK_SORTS } from './chunks';
+export type { ChunkSort } from './chunks';
+export { ConversationRepository, CONVERSATION_SORTS } from './conversations';
+export type { ConversationListOptions, ConversationOwner, ConversationSort } from './conversations';
+export { MessageRepository, MESSAGE_SORTS } from './messages';
+export type { MessageSort } from './messages';
+export { FeedbackRepository, FEEDBACK_RATINGS, FEEDBACK_SORTS } from './feedback';
+export type { FeedbackListOptions, FeedbackSort } from './feedback';
+export { MemoryRecordStore, PostgresRecordStore, SupabaseRecordStore };
+export type {
+  ChunkRecord,
+  ClientRecord,
+  ConversationRecord,
+  DocumentRecord,
+  FeedbackRating,
+  FeedbackRecord,
+  MessageRecord,
+  MessageRole,
+  Page,
+  PageOptions,
+  RecordStore,
+  SortDirection,
+} from './types';
+
+let store: RecordStore | null = null;
+
+/**
+ * The store repositories read and write through. REPOSITORY_STORE overrides
+ * the default: postgres when DATABASE_URL is set (queries run under RLS),
+ * then supabase, then memory.
+ */
+export function getRecordStore(): RecordStore {
+  if (!store) {
+    const configured = process.env.REPOSITORY_STORE || (isTenantDbConfigured() ? 'postgres' : supabase ? 'supabase' : 'memory');
+
+    if (configured === 'postgres') {
+      store = new PostgresRecordStore();
+    } else if (configured === 'supabase') {
+      if (!supabase) {
+        throw new Error('REPOSITORY_STORE=supabase requires SUPABASE_URL and SUPABASE_SERVICE_KEY');
+      }
+      store = new SupabaseRecordStore(supabase);
+    } else if (configured === 'memory') {
+      logger.warn('Conversations and other records are in memory - they are lost on restart');
+      store = new MemoryRecordStore();
+    } else {
+      throw new Error(`Unknown REPOSITORY_STORE "${configured}"`);
+    }
+  }
+
+  return store;
+}
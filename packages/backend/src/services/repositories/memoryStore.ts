@@ -0,0 +1,105 @@
+import { Filter, FindQuery, FindResult, RecordStore, StoreScope } from './types';
+
+/**
+ * Tables held in process memory, for tests and development without a
+ * database. Nothing survives a restart, and documents written through the
+ * vector index live in the index rather than here.
+ */
+export class MemoryRecordStore implements RecordStore {
+  readonly name = 'memory';
+  private tables = new Map<string, Map<string, Record<string, any>>>();
+
+  async find<R>(_scope: StoreScope, table: string, query: FindQuery): Promise<FindResult<R>> {
+    const matching = [...this.table(table).values()].filter(row => matches(row, query.filters || []));
+
+    if (query.sort) {
+      const { column, direction } = query.sort;
+      const sign = direction === 'asc' ? 1 : -1;
+      matching.sort((a, b) => sign * (compare(a[column], b[column]) || compare(a.id, b.id)));
+    }
+
+    let rows = matching;
+    if (query.sort && query.after) {
+      const { column, direction } = query.sort;
+      const { value, id } = query.after;
+      const sign = direction === 'asc' ? 1 : -1;
+      rows = rows.filter(row => sign * (compare(row[column], value) || compare(row.id, id)) > 0);
+    }
+
+    const start = query.offset || 0;
+    rows = rows.slice(start, query.limit !== undefined ? start + query.limit : undefined);
+
+    return {
+      rows: rows.map(row => pick(row, query.columns) as R),
+      total: query.count ? matching.length : null,
+    };
+  }
+
+  async count(_scope: StoreScope, table: string, filters: Filter[]): Promise<number> {
+    return [...this.table(table).values()].filter(row => matches(row, filters)).length;
+  }
+
+  async insert<R>(_scope: StoreScope, table: string, row: Record<string, any>): Promise<R> {
+    const rows = this.table(table);
+    if (rows.has(row.id)) {
+      throw new Error(`Duplicate id in ${table}: ${row.id}`);
+    }
+
+    rows.set(row.id, structuredClone(row));
+    return structuredClone(row) as R;
+  }
+
+  async update<R>(_scope: StoreScope, table: string, filters: Filter[], changes: Record<string, any>): Promise<R[]> {
+    const updated: R[] = [];
+    for (const row of this.table(table).values()) {
+      if (matches(row, filters)) {
+        Object.assign(row, structuredClone(changes));
+        updated.push(structuredClone(row) as R);
+      }
+    }
+    return updated;
+  }
+
+  async delete(_scope: StoreScope, table: string, filters: Filter[]): Promise<number> {
+    const rows = this.table(table);
+    let deleted = 0;
+    for (const [id, row] of rows) {
+      if (matches(row, filters)) {
+        rows.delete(id);
+        deleted++;
+      }
+    }
+    return deleted;
+  }
+
+  private table(name: string): Map<string, Record<string, any>> {
+    let rows = this.tables.get(name);
+    if (!rows) {
+      rows = new Map();
+      this.tables.set(name, rows);
+    }
+    return rows;
+  }
+}
+
+function matches(row: Record<string, any>, filters: Filter[]): boolean {
+  return filters.every(({ column, op, value }) => {
+    const actual = row[column];
+    switch (op) {
+      case 'eq': return actual === value;
+      case 'in': return (value as any[]).includes(actual);
+      case 'gte': return actual != null && compare(actual, value) >= 0;
+      case 'lte': return actual != null && compare(actual, value) <= 0;
+      case 'contains': return typeof actual === 'string' && actual.toLowerCase().includes(String(value).toLowerCase());
+    }
+  });
+}
+
+function compare(a: any, b: any): number {
+  return a < b ? -1 : a > b ? 1 : 0;
+}
+
+function pick(row: Record<string, any>, columns?: string[]): Record<string, any> {
+  if (!columns) return structuredClone(row);
+  return Object.fromEntries(columns.map(column => [column, structuredClone(row[column] ?? null)]));
+}
@@ -0,0 +1,79 @@
+import { ConversationRepository } from './conversations';
+import { emptyPage, findPage } from './pagination';
+import { MessageRecord, MessageRole, Page, PageOptions, RecordStore } from './types';
+
+export const MESSAGE_SORTS = ['created_at'] as const;
+export type MessageSort = typeof MESSAGE_SORTS[number];
+
+/**
+ * Messages in a client's conversations. Messages carry no client_id, so reads
+ * check the conversation first.
+ */
+export class MessageRepository {
+  constructor(private store: RecordStore, private clientId: string, private conversations: ConversationRepository) {}
+
+  /**
+   * Callers check the conversation is this client's; under DATABASE_URL,
+   * row-level security rejects one that isn't.
+   */
+  async insert(message: {
+    id: string;
+    conversationId: string;
+    role: MessageRole;
+    content: string;
+    metadata: Record<string, any>;
+  }): Promise<MessageRecord> {
+    return this.store.insert<MessageRecord>(this.clientId, 'messages', {
+      id: message.id,
+      conversation_id: message.conversationId,
+      role: message.role,
+      content: message.content,
+      metadata: message.metadata,
+      created_at: new Date().toISOString(),
+    });
+  }
+
+  async get(id: string): Promise<MessageRecord | null> {
+    const { rows } = await this.store.find<MessageRecord>(this.clientId, 'messages', {
+      filters: [{ column: 'id', op: 'eq', value: id }],
+      limit: 1,
+    });
+    const message = rows[0];
+    return message && (await this.conversations.exists(message.conversation_id)) ? message : null;
+  }
+
+  /**
+   * One page of a conversation's messages, oldest first unless sorted otherwise.
+   * Empty if the conversation isn't this client's.
+   */
+  async listByConversation(conversationId: string, options: PageOptions<MessageSort> = {}): Promise<Page<MessageRecord>> {
+    if (!(await this.conversations.exists(conversationId))) {
+      return emptyPage(options);
+    }
+
+    return findPage<MessageRecord, MessageSort>(this.store, this.clientId, 'messages', {
+      filters: [{ column: 'conversation_id', op: 'eq', value: conversationId }],
+    }, options, {
+      allowed: MESSAGE_SORTS,
+      default: 'created_at',
+      defaultOrder: 'asc',
+    });
+  }
+
+  /**
+   * A conversation's messages in chronological order; only the most recent
+   * `limit` when given. Empty if the conversation isn't this client's.
+   */
+  async recent(conversationId: string, limit?: number): Promise<MessageRecord[]> {
+    if (!(await this.conversations.exists(conversationId))) {
+      return [];
+    }
+
+    const { rows } = await this.store.find<MessageRecord>(this.clientId, 'messages', {
+      filters: [{ column: 'conversation_id', op: 'eq', value: conversationId }],
+      sort: { column: 'created_at', direction: 'desc' },
+      limit,
+    });
+    return rows.reverse();
+  }
+}
@@ -0,0 +1,105 @@
+import { ValidationError } from '../../types/errors';
+import { Filter, Page, PageOptions, RecordStore, SortDirection, StoreScope } from './types';
+
+const DEFAULT_PAGE_SIZE = 50;
+const MAX_PAGE_SIZE = 100;
+
+export interface SortSpec<S extends string> {
+  allowed: readonly S[];
+  default: S;
+  defaultOrder: SortDirection;
+}
+
+interface Cursor {
+  sort: string;
+  order: SortDirection;
+  value: any;
+  id: string;
+}
+
+/**
+ * Fetch one page of a table. Offset pages skip rows; cursor pages continue
+ * after the last row of the previous page, so rows inserted meanwhile don't
+ * shift them. Either way the page carries the total and the next cursor.
+ */
+export async function findPage<R extends { id: string }, S extends string>(
+  store: RecordStore,
+  scope: StoreScope,
+  table: string,
+  query: { filters: Filter[]; columns?: string[] },
+  options: PageOptions<S>,
+  sorts: SortSpec<S>
+): Promise<Page<R>> {
+  const sort = options.sort ?? sorts.default;
+  if (!sorts.allowed.includes(sort)) {
+    throw new ValidationError(`sort must be one of: ${sorts.allowed.join(', ')}`);
+  }
+  const order = options.order ?? sorts.defaultOrder;
+  if (order !== 'asc' && order !== 'desc') {
+    throw new ValidationError('order must be asc or desc');
+  }
+
+  const limit = pageSize(options);
+  const cursor = options.cursor ? decodeCursor(options.cursor) : null;
+  if (cursor && (cursor.sort !== sort || cursor.order !== order)) {
+    throw new ValidationError('cursor was issued for a different sort order');
+  }
+  const offset = cursor ? 0 : pageOffset(options);
+
+  // One extra row tells us whether there's a next page
+  const { rows, total } = await store.find<R>(scope, table, {
+    ...query,
+    sort: { column: sort, direction: order },
+    after: cursor ? { value: cursor.value, id: cursor.id } : undefined,
+    limit: limit + 1,
+    offset,
+    count: true,
+  });
+
+  const items = rows.slice(0, limit);
+  const last = items[items.length - 1];
+
+  return {
+    items,
+    total: total ?? items.length,
+    limit,
+    offset: cursor ? null : offset,
+    nextCursor: rows.length > limit && last
+      ? encodeCursor({ sort, order, value: (last as any)[sort], id: last.id })
+      : null,
+  };
+}
+
+export function emptyPage<T>(options: PageOptions<string>): Page<T> {
+  return {
+    items: [],
+    total: 0,
+    limit: pageSize(options),
+    offset: options.cursor ? null : pageOffset(options),
+    nextCursor: null,
+  };
+}
+
+function pageSize(options: PageOptions<string>): number {
+  return Math.min(Math.max(Math.floor(options.limit || DEFAULT_PAGE_SIZE), 1), MAX_PAGE_SIZE);
+}
+
+function pageOffset(options: PageOptions<string>): number {
+  return Math.max(Math.floor(options.offset || 0), 0);
+}
+
+function encodeCursor(cursor: Cursor): string {
+  return Buffer.from(JSON.stringify([cursor.sort, cursor.order, cursor.value, cursor.id])).toString('base64url');
+}
+
+function decodeCursor(encoded: string): Cursor {
+  try {
+    const [sort, order, value, id] = JSON.parse(Buffer.from(encoded, 'base64url').toString('utf8'));
+    if (typeof sort === 'string' && typeof id === 'string' && (order === 'asc' || order === 'desc')) {
+      return { sort, order, value, id };
+    }
+  } catch {
+    // Falls through to the error below
+  }
+  throw new ValidationError('Invalid cursor');
+}
@@ -0,0 +1,122 @@
+import { getPool, withTenant } from '../../utils/tenantDb';
+import { Filter, FindQuery, FindResult, RecordStore, StoreScope } from './types';
+
+const IDENTIFIER_PATTERN = /^[a-z_][a-z0-9_]*$/;
+
+/**
+ * Tables over DATABASE_URL. Scoped queries run through withTenant, so
+ * row-level security applies on top of the repositories' own filters;
+ * unscoped ones (clients) run as the connecting login.
+ */
+export class PostgresRecordStore implements RecordStore {
+  readonly name = 'postgres';
+
+  async find<R>(scope: StoreScope, table: string, query: FindQuery): Promise<FindResult<R>> {
+    const params: any[] = [];
+    const where = whereClause(query.filters || [], params);
+    const conditions = where ? [where] : [];
+
+    let orderBy = '';
+    if (query.sort) {
+      const column = identifier(query.sort.column);
+      const direction = query.sort.direction === 'asc' ? 'ASC' : 'DESC';
+
+      if (query.after) {
+        params.push(query.after.value, query.after.id);
+        const op = query.sort.direction === 'asc' ? '>' : '<';
+        conditions.push(`(${column}, id) ${op} ($${params.length - 1}, $${params.length})`);
+      }
+      orderBy = ` ORDER BY ${column} ${direction}, id ${direction}`;
+    }
+
+    const columns = query.columns?.map(identifier).join(', ') || '*';
+    let sql = `SELECT ${columns} FROM public.${identifier(table)}`
+      + (conditions.length ? ` WHERE ${conditions.join(' AND ')}` : '')
+      + orderBy;
+    if (query.limit !== undefined) {
+      params.push(query.limit, query.offset || 0);
+      sql += ` LIMIT $${params.length - 1} OFFSET $${params.length}`;
+    }
+
+    return this.run(scope, async db => {
+      const { rows } = await db.query(sql, params);
+      const total = query.count ? await this.countWith(db, table, query.filters || []) : null;
+      return { rows: rows as R[], total };
+    });
+  }
+
+  async count(scope: StoreScope, table: string, filters: Filter[]): Promise<number> {
+    return this.run(scope, db => this.countWith(db, table, filters));
+  }
+
+  async insert<R>(scope: StoreScope, table: string, row: Record<string, any>): Promise<R> {
+    const columns = Object.keys(row);
+    const placeholders = columns.map((_, i) => `$${i + 1}`);
+    const sql = `INSERT INTO public.${identifier(table)} (${columns.map(identifier).join(', ')})
+      VALUES (${placeholders.join(', ')}) RETURNING *`;
+
+    return this.run(scope, async db => (await db.query(sql, columns.map(column => row[column]))).rows[0] as R);
+  }
+
+  async update<R>(scope: StoreScope, table: string, filters: Filter[], changes: Record<string, any>): Promise<R[]> {
+    const params: any[] = [];
+    const assignments = Object.entries(changes).map(([column, value]) => {
+      params.push(value);
+      return `${identifier(column)} = $${params.length}`;
+    });
+    const where = whereClause(filters, params);
+    const sql = `UPDATE public.${identifier(table)} SET ${assignments.join(', ')}`
+      + (where ? ` WHERE ${where}` : '') + ' RETURNING *';
+
+    return this.run(scope, async db => (await db.query(sql, params)).rows as R[]);
+  }
+
+  async delete(scope: StoreScope, table: string, filters: Filter[]): Promise<number> {
+    const params: any[] = [];
+    const where = whereClause(filters, params);
+    const sql = `DELETE FROM public.${identifier(table)}` + (where ? ` WHERE ${where}` : '');
+
+    return this.run(scope, async db => (await db.query(sql, params)).rowCount || 0);
+  }
+
+  private async countWith(db: Queryable, table: string, filters: Filter[]): Promise<number> {
+    const params: any[] = [];
+    const where = whereClause(filters, params);
+    const { rows } = await db.query(
+      `SELECT COUNT(*)::int AS count FROM public.${identifier(table)}` + (where ? ` WHERE ${where}` : ''),
+      params
+    );
+    return rows[0].count;
+  }
+
+  private async run<T>(scope: StoreScope, fn: (db: Queryable) => Promise<T>): Promise<T> {
+    return scope ? withTenant(scope, fn) : fn(getPool());
+  }
+}
+
+type Queryable = { query: (sql: string, params?: any[]) => Promise<{ rows: any[]; rowCount: number | null }> };
+
+function whereClause(filters: Filter[], params: any[]): string {
+  return filters.map(({ column, op, value }) => {
+    params.push(op === 'contains' ? String(value).replace(/[\\%_]/g, match => `\\${match}`) : value);
+    const placeholder = `$${params.length}`;
+    const name = identifier(column);
+
+    switch (op) {
+      case 'eq': return `${name} = ${placeholder}`;
+      case 'in': return `${name} = ANY(${placeholder})`;
+      case 'gte': return `${name} >= ${placeholder}`;
+      case 'lte': return `${name} <= ${placeholder}`;
+      case 'contains': return `${name} ILIKE '%' || ${placeholder} || '%'`;
+    }
+  }).join(' AND ');
+}
+
+// Table and column names come from the repositories, never from requests;
+// checked anyway since they're interpolated
+function identifier(name: string): string {
+  if (!IDENTIFIER_PATTERN.test(name)) {
+    throw new Error(`Invalid identifier: ${name}`);
+  }
+  return `"${name}"`;
+}
@@ -0,0 +1,104 @@
+import { SupabaseClient } from '@supabase/supabase-js';
+import { logger } from '../../utils/logger';
+import { Filter, FindQuery, FindResult, RecordStore, StoreScope } from './types';
+
+/**
+ * Tables through the Supabase client. It connects with the service key, which
+ * bypasses row-level security, so the repositories' client filters are what
+ * keeps tenants apart here.
+ */
+export class SupabaseRecordStore implements RecordStore {
+  readonly name = 'supabase';
+
+  constructor(private db: SupabaseClient) {}
+
+  async find<R>(_scope: StoreScope, table: string, query: FindQuery): Promise<FindResult<R>> {
+    let builder = applyFilters(
+      this.db.from(table).select(query.columns?.join(', ') || '*', query.count ? { count: 'exact' } : undefined),
+      query.filters || []
+    );
+
+    if (query.sort) {
+      const { column, direction } = query.sort;
+      const ascending = direction === 'asc';
+
+      if (query.after) {
+        const op = ascending ? 'gt' : 'lt';
+        const value = quote(query.after.value);
+        const id = quote(query.after.id);
+        builder = builder.or(`${column}.${op}.${value},and(${column}.eq.${value},id.${op}.${id})`);
+      }
+      builder = builder.order(column, { ascending }).order('id', { ascending });
+    }
+
+    if (query.limit !== undefined) {
+      const offset = query.offset || 0;
+      builder = builder.range(offset, offset + query.limit - 1);
+    }
+
+    const { data, error, count } = await builder;
+    this.check(error, 'reading', table);
+
+    return { rows: (data || []) as R[], total: query.count ? count ?? 0 : null };
+  }
+
+  async count(_scope: StoreScope, table: string, filters: Filter[]): Promise<number> {
+    const { error, count } = await applyFilters(
+      this.db.from(table).select('id', { count: 'exact', head: true }),
+      filters
+    );
+    this.check(error, 'counting', table);
+
+    return count ?? 0;
+  }
+
+  async insert<R>(_scope: StoreScope, table: string, row: Record<string, any>): Promise<R> {
+    const { data, error } = await this.db.from(table).insert(row).select().single();
+    this.check(error, 'inserting into', table);
+
+    return data as R;
+  }
+
+  async update<R>(_scope: StoreScope, table: string, filters: Filter[], changes: Record<string, any>): Promise<R[]> {
+    const { data, error } = await applyFilters(this.db.from(table).update(changes), filters).select();
+    this.check(error, 'updating', table);
+
+    return (data || []) as R[];
+  }
+
+  async delete(_scope: StoreScope, table: string, filters: Filter[]): Promise<number> {
+    const { data, error } = await applyFilters(this.db.from(table).delete(), filters).select('id');
+    this.check(error, 'deleting from', table);
+
+    return data?.length || 0;
+  }
+
+  private check(error: any, action: string, table: string): void {
+    if (error) {
+      logger.error(`Error ${action} ${table}:`, { error });
+      throw error;
+    }
+  }
+}
+
+function applyFilters<B extends { eq: any; in: any; gte: any; lte: any; ilike: any }>(builder: B, filters: Filter[]): B {
+  return filters.reduce((query: any, { column, op, value }) => {
+    switch (op) {
+      case 'eq': return query.eq(column, value);
+      case 'in': return query.in(column, value);
+      case 'gte': return query.gte(column, value);
+      case 'lte': return query.lte(column, value);
+      case 'contains': return query.ilike(column, `%${escapeLike(String(value))}%`);
+    }
+  }, builder);
+}
+
+function escapeLike(value: string): string {
+  return value.replace(/[\\%_]/g, match => `\\${match}`);
+}
+
+// Values inside PostgREST's or=(...) are double-quoted so commas, dots and
+// parentheses in them aren't read as syntax
+function quote(value: any): string {
+  return `"${String(value).replace(/["\\]/g, match => `\\${match}`)}"`;
+}
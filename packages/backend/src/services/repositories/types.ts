@@ -0,0 +1,152 @@
+import { DocumentSourceType } from '../vectorIndex';
+
+export type SortDirection = 'asc' | 'desc';
+
+/**
+ * A condition on one column. `contains` is a case-insensitive substring match.
+ */
+export interface Filter {
+  column: string;
+  op: 'eq' | 'in' | 'gte' | 'lte' | 'contains';
+  value: any;
+}
+
+export interface FindQuery {
+  filters?: Filter[];
+  /** Columns to return; all of them when omitted */
+  columns?: string[];
+  /** Rows are ordered by this column, then by id in the same direction */
+  sort?: { column: string; direction: SortDirection };
+  /** Keyset position: only rows after this (sort value, id) pair in the sort order */
+  after?: { value: any; id: string };
+  limit?: number;
+  offset?: number;
+  /** Also count every row matching the filters, ignoring after/limit/offset */
+  count?: boolean;
+}
+
+export interface FindResult<R> {
+  rows: R[];
+  total: number | null;
+}
+
+/**
+ * The client whose row-level security a query runs under, or null for tables
+ * that aren't tenant-scoped (clients). Repositories still filter by client
+ * themselves; stores that can enforce RLS do so as well.
+ */
+export type StoreScope = string | null;
+
+/**
+ * Table access for the repositories. Rows are plain objects keyed by column.
+ */
+export interface RecordStore {
+  readonly name: string;
+  find<R>(scope: StoreScope, table: string, query: FindQuery): Promise<FindResult<R>>;
+  count(scope: StoreScope, table: string, filters: Filter[]): Promise<number>;
+  insert<R>(scope: StoreScope, table: string, row: Record<string, any>): Promise<R>;
+  /** Returns the updated rows */
+  update<R>(scope: StoreScope, table: string, filters: Filter[], changes: Record<string, any>): Promise<R[]>;
+  /** Returns how many rows were deleted */
+  delete(scope: StoreScope, table: string, filters: Filter[]): Promise<number>;
+}
+
+export interface PageOptions<S extends string> {
+  /** Page size; defaults to 50, at most 100 */
+  limit?: number;
+  /** Rows to skip. Ignored when a cursor is given. */
+  offset?: number;
+  /** `nextCursor` from the previous page; must be used with the same sort and order */
+  cursor?: string;
+  sort?: S;
+  order?: SortDirection;
+}
+
+export interface Page<T> {
+  items: T[];
+  /** Rows matching the filters across all pages */
+  total: number;
+  limit: number;
+  /** Null for cursor pages */
+  offset: number | null;
+  /** Cursor for the page after this one; null on the last page */
+  nextCursor: string | null;
+}
+
+// Rows as stored, in the tables' snake_case
+
+export interface ClientRecord {
+  id: string;
+  name: string;
+  slug: string;
+  contact_email: string | null;
+  products_services: string | null;
+  client_page_info: string | null;
+  settings: Record<string, any>;
+  status: 'active' | 'suspended' | 'archived';
+  suspended_at: string | null;
+  archived_at: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface DocumentRecord {
+  id: string;
+  client_id: string;
+  title: string;
+  content: string;
+  source: DocumentSourceType;
+  source_id: string;
+  metadata: Record<string, any>;
+  content_hash: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+/**
+ * A chunk without its embedding and search vector
+ */
+export interface ChunkRecord {
+  id: string;
+  document_id: string;
+  content: string;
+  embedding_provider: string | null;
+  embedding_dimension: number | null;
+  chunk_index: number;
+  token_count: number;
+  metadata: Record<string, any>;
+  created_at: string;
+}
+
+export interface ConversationRecord {
+  id: string;
+  client_id: string;
+  /** Exactly one of user_id and api_key_id is set */
+  user_id: string | null;
+  api_key_id: string | null;
+  title: string;
+  created_at: string;
+  updated_at: string;
+}
+
+export type MessageRole = 'user' | 'assistant' | 'system';
+
+export interface MessageRecord {
+  id: string;
+  conversation_id: string;
+  role: MessageRole;
+  content: string;
+  metadata: Record<string, any>;
+  created_at: string;
+}
+
+export type FeedbackRating = 'positive' | 'negative';
+
+export interface FeedbackRecord {
+  id: string;
+  message_id: string;
+  user_id: string;
+  rating: FeedbackRating;
+  comment: string | null;
+  created_at: string;
+}
@@ -0,0 +1,62 @@
+import { claudeService } from '../claude';
+import { Reranker } from './types';
+
+// Passages scored per Claude call
+const BATCH_SIZE = 20;
+const MAX_PASSAGE_CHARS = 1000;
+
+/**
+ * Asks Claude to grade a batch of passages 0-10 for relevance in one call,
+ * rather than one request per passage.
+ */
+export class ClaudeReranker implements Reranker {
+  readonly id: string;
+
+  constructor(private readonly model: string = 'claude-3-haiku-20240307') {
+    this.id = `claude:${model}`;
+  }
+
+  async score(query: string, passages: string[], onUsage?: (tokenCount: number) => void): Promise<number[]> {
+    const scores: number[] = [];
+
+    for (let start = 0; start < passages.length; start += BATCH_SIZE) {
+      scores.push(...await this.scoreBatch(query, passages.slice(start, start + BATCH_SIZE), onUsage));
+    }
+
+    return scores;
+  }
+
+  private async scoreBatch(query: string, passages: string[], onUsage?: (tokenCount: number) => void): Promise<number[]> {
+    const numbered = passages
+      .map((passage, idx) => `[${idx + 1}] ${passage.substring(0, MAX_PASSAGE_CHARS)}`)
+      .join('\n\n');
+
+    const response = await claudeService.generateChatCompletion([
+      {
+        role: 'user',
+        content: `Rate how relevant each passage is to answering the question, from 0 (irrelevant) to 10 (directly answers it).
+
+Question: ${query}
+
+Passages:
+${numbered}
+
+Respond with only a JSON array of ${passages.length} numbers, one per passage in order, e.g. [7, 0, 3].`,
+      },
+    ], {
+      model: this.model,
+      maxTokens: 200,
+      temperature: 0,
+    });
+    onUsage?.(response.tokenCount);
+
+    const match = response.content.match(/\[[\d\s.,]*\]/);
+    const scores = match ? JSON.parse(match[0]) : null;
+
+    if (!Array.isArray(scores) || scores.length !== passages.length) {
+      throw new Error(`Claude reranker returned ${scores?.length ?? 'no'} scores for ${passages.length} passages`);
+    }
+
+    return scores.map(score => Number(score) || 0);
+  }
+}
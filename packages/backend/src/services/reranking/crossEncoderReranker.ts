@@ -0,0 +1,72 @@
+import path from 'path';
+import type { PreTrainedModel, PreTrainedTokenizer } from '@huggingface/transformers';
+import { logger } from '../../utils/logger';
+import { Reranker } from './types';
+
+export const DEFAULT_CROSS_ENCODER_MODEL = 'Xenova/ms-marco-MiniLM-L-6-v2';
+
+// Passages scored per forward pass
+const BATCH_SIZE = 16;
+
+/**
+ * In-process cross-encoder via transformers.js. Reads (query, passage) pairs
+ * jointly, which ranks far better than comparing independent embeddings.
+ * Models load from EMBEDDING_MODEL_PATH like the local embedding provider.
+ */
+export class CrossEncoderReranker implements Reranker {
+  readonly id: string;
+  private loaded: Promise<{ tokenizer: PreTrainedTokenizer; model: PreTrainedModel }> | null = null;
+
+  constructor(private readonly model: string = DEFAULT_CROSS_ENCODER_MODEL) {
+    this.id = `cross-encoder:${model}`;
+  }
+
+  async score(query: string, passages: string[]): Promise<number[]> {
+    if (passages.length === 0) return [];
+
+    const { tokenizer, model } = await this.load();
+    const scores: number[] = [];
+
+    for (let start = 0; start < passages.length; start += BATCH_SIZE) {
+      const batch = passages.slice(start, start + BATCH_SIZE);
+      const inputs = tokenizer(new Array(batch.length).fill(query), {
+        text_pair: batch,
+        padding: true,
+        truncation: true,
+      });
+      const { logits } = await model(inputs);
+
+      // One relevance logit per pair
+      scores.push(...(logits.tolist() as number[][]).map(row => row[0]));
+    }
+
+    return scores;
+  }
+
+  private load() {
+    if (!this.loaded) {
+      this.loaded = this.loadModel().catch(error => {
+        // Allow a later call to retry (e.g. after the model files are added)
+        this.loaded = null;
+        throw error;
+      });
+    }
+    return this.loaded;
+  }
+
+  private async loadModel() {
+    const startTime = Date.now();
+    const { AutoTokenizer, AutoModelForSequenceClassification, env } = await import('@huggingface/transformers');
+
+    env.localModelPath = path.resolve(process.env.EMBEDDING_MODEL_PATH || './models');
+    env.allowLocalModels = true;
+    env.allowRemoteModels = process.env.EMBEDDING_ALLOW_REMOTE_MODELS === 'true';
+
+    const tokenizer = await AutoTokenizer.from_pretrained(this.model);
+    const model = await AutoModelForSequenceClassification.from_pretrained(this.model, { dtype: 'fp32' });
+
+    logger.info('Cross-encoder model loaded', { model: this.model, loadTime: Date.now() - startTime });
+
+    return { tokenizer, model };
+  }
+}
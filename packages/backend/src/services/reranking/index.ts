@@ -0,0 +1,181 @@
+import { logger } from '../../utils/logger';
+import { ValidationError } from '../../types/errors';
+import { ClaudeReranker } from './claudeReranker';
+import { CrossEncoderReranker, DEFAULT_CROSS_ENCODER_MODEL } from './crossEncoderReranker';
+import { DiversityCandidate, selectDiverse } from './mmr';
+import { Reranker } from './types';
+
+export type { Reranker } from './types';
+
+export interface RerankOptions {
+  enabled?: boolean;
+  /** `cross-encoder[:<model>]` or `claude[:<model>]` */
+  model?: string;
+  /** Candidates fetched from retrieval before reranking */
+  candidates?: number;
+  /** MMR trade-off: 1 = pure relevance, 0 = pure diversity */
+  lambda?: number;
+  maxPerDocument?: number;
+}
+
+export type ResolvedRerankOptions = Required<Omit<RerankOptions, 'enabled'>>;
+
+/** What a request may set; the model always comes from client settings */
+export type RequestRerankOptions = Pick<RerankOptions, 'candidates' | 'lambda' | 'maxPerDocument'>;
+
+// Upper bound on candidates a request can ask to have reranked
+export const MAX_REQUEST_RERANK_CANDIDATES = 50;
+
+const DEFAULT_RERANK_OPTIONS: ResolvedRerankOptions = {
+  model: process.env.RERANK_MODEL || 'cross-encoder',
+  candidates: 20,
+  lambda: 0.7,
+  maxPerDocument: 2,
+};
+
+const rerankers = new Map<string, Reranker>();
+
+/**
+ * Resolve a reranker spec, e.g. `cross-encoder:Xenova/ms-marco-MiniLM-L-6-v2` or `claude:claude-3-haiku-20240307`
+ */
+export function getReranker(spec: string): Reranker {
+  const cached = rerankers.get(spec);
+  if (cached) return cached;
+
+  const [name, ...rest] = spec.split(':');
+  const model = rest.join(':');
+
+  let reranker: Reranker;
+  if (name === 'cross-encoder') {
+    reranker = new CrossEncoderReranker(model || DEFAULT_CROSS_ENCODER_MODEL);
+  } else if (name === 'claude') {
+    reranker = new ClaudeReranker(model || undefined);
+  } else {
+    throw new Error(`Unknown rerank model "${spec}"`);
+  }
+
+  rerankers.set(spec, reranker);
+  return reranker;
+}
+
+/**
+ * Combine the client's `settings.reranking` with the per-request option.
+ * The request wins: `true`/`false` toggles the client's configuration, an
+ * object overrides individual fields. Returns null when reranking is off.
+ */
+export function resolveRerankOptions(
+  clientSettings: any,
+  requestOption?: boolean | RequestRerankOptions
+): ResolvedRerankOptions | null {
+  const client: RerankOptions = {
+    enabled: clientSettings?.enabled,
+    model: clientSettings?.model,
+    candidates: clientSettings?.candidates,
+    lambda: clientSettings?.lambda,
+    maxPerDocument: clientSettings?.max_per_document,
+  };
+  const request: RerankOptions = typeof requestOption === 'boolean'
+    ? { enabled: requestOption }
+    : { enabled: requestOption ? true : undefined, ...requestOption };
+
+  const enabled = request.enabled ?? client.enabled ?? false;
+  if (!enabled) return null;
+
+  const resolved = { ...DEFAULT_RERANK_OPTIONS };
+  for (const options of [client, request]) {
+    if (typeof options.model === 'string') resolved.model = options.model;
+    if (typeof options.candidates === 'number') resolved.candidates = options.candidates;
+    if (typeof options.lambda === 'number') resolved.lambda = options.lambda;
+    if (typeof options.maxPerDocument === 'number') resolved.maxPerDocument = options.maxPerDocument;
+  }
+
+  return resolved;
+}
+
+/**
+ * Validate a request's `rerank` option: a boolean, or an object with
+ * `candidates` (1-MAX_REQUEST_RERANK_CANDIDATES), `lambda` (0-1) and `maxPerDocument`
+ */
+export function parseRequestRerankOption(value: unknown): boolean | RequestRerankOptions | undefined {
+  if (value === undefined || value === null || typeof value === 'boolean') {
+    return value ?? undefined;
+  }
+
+  if (typeof value !== 'object' || Array.isArray(value)) {
+    throw new ValidationError('rerank must be a boolean or an object');
+  }
+
+  const { candidates, lambda, maxPerDocument, ...rest } = value as Record<string, unknown>;
+  const unknownFields = Object.keys(rest);
+  if (unknownFields.length > 0) {
+    throw new ValidationError(`Unsupported rerank options: ${unknownFields.join(', ')}`);
+  }
+
+  if (candidates !== undefined && !(Number.isInteger(candidates) && (candidates as number) >= 1 && (candidates as number) <= MAX_REQUEST_RERANK_CANDIDATES)) {
+    throw new ValidationError(`rerank.candidates must be an integer from 1 to ${MAX_REQUEST_RERANK_CANDIDATES}`);
+  }
+  if (lambda !== undefined && !(typeof lambda === 'number' && lambda >= 0 && lambda <= 1)) {
+    throw new ValidationError('rerank.lambda must be a number from 0 to 1');
+  }
+  if (maxPerDocument !== undefined && !(Number.isInteger(maxPerDocument) && (maxPerDocument as number) >= 1)) {
+    throw new ValidationError('rerank.maxPerDocument must be a positive integer');
+  }
+
+  return {
+    candidates: candidates as number | undefined,
+    lambda: lambda as number | undefined,
+    maxPerDocument: maxPerDocument as number | undefined,
+  };
+}
+
+/**
+ * Score candidates with the reranker, then pick `limit` of them with MMR.
+ * Candidates should arrive in retrieval order; if the reranker fails that
+ * order is used as the relevance signal so diversity still applies.
+ * `onUsage` is told about Claude tokens the reranker spends, for budgeting.
+ */
+export async function rerank<T extends DiversityCandidate>(
+  query: string,
+  candidates: T[],
+  limit: number,
+  options: ResolvedRerankOptions,
+  onUsage?: (tokenCount: number) => void
+): Promise<Array<T & { rerank_score: number }>> {
+  if (candidates.length === 0) return [];
+
+  const startTime = Date.now();
+  let relevance: number[];
+
+  try {
+    const reranker = getReranker(options.model);
+    relevance = normalize(await reranker.score(query, candidates.map(candidate => candidate.content), onUsage));
+
+    logger.info('Candidates reranked', {
+      reranker: reranker.id,
+      candidates: candidates.length,
+      rerankTime: Date.now() - startTime,
+    });
+  } catch (error) {
+    logger.warn('Reranking failed, keeping retrieval order:', { error, model: options.model });
+    relevance = candidates.map((_, idx) => 1 - idx / candidates.length);
+  }
+
+  const scored = candidates.map((candidate, idx) => ({ ...candidate, rerank_score: relevance[idx] }));
+
+  return selectDiverse(scored, relevance, {
+    limit,
+    lambda: options.lambda,
+    maxPerDocument: options.maxPerDocument,
+  });
+}
+
+/**
+ * Min-max scale to 0-1 so MMR can weigh relevance against similarity
+ */
+function normalize(scores: number[]): number[] {
+  const min = Math.min(...scores);
+  const max = Math.max(...scores);
+  if (max === min) return scores.map(() => 1);
+
+  return scores.map(score => (score - min) / (max - min));
+}
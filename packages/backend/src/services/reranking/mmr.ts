@@ -0,0 +1,81 @@
+export interface DiversityCandidate {
+  document_id: string;
+  content: string;
+}
+
+export interface DiversityOptions {
+  limit: number;
+  /** 1 = pure relevance, 0 = pure diversity */
+  lambda: number;
+  /** Hard cap on chunks taken from one document */
+  maxPerDocument: number;
+}
+
+// Penalty floor for two chunks of the same document, even with little text overlap
+const SAME_DOCUMENT_SIMILARITY = 0.5;
+
+/**
+ * Maximal marginal relevance: repeatedly take the candidate with the best
+ * `lambda * relevance - (1 - lambda) * similarity to anything already chosen`.
+ * Similarity is word-set overlap, which catches the overlapping windows the
+ * chunker produces without needing the chunk vectors.
+ *
+ * `relevance` must be normalized to 0-1 and aligned with `candidates`.
+ */
+export function selectDiverse<T extends DiversityCandidate>(
+  candidates: T[],
+  relevance: number[],
+  options: DiversityOptions
+): T[] {
+  const words = candidates.map(candidate => new Set(candidate.content.toLowerCase().split(/\W+/).filter(Boolean)));
+  const remaining = candidates.map((_, idx) => idx);
+  const selected: number[] = [];
+  const perDocument = new Map<string, number>();
+
+  while (selected.length < options.limit && remaining.length > 0) {
+    let bestPosition = -1;
+    let bestScore = -Infinity;
+
+    remaining.forEach((candidateIdx, position) => {
+      const candidate = candidates[candidateIdx];
+      if ((perDocument.get(candidate.document_id) || 0) >= options.maxPerDocument) return;
+
+      let maxSimilarity = 0;
+      for (const selectedIdx of selected) {
+        const sameDocument = candidates[selectedIdx].document_id === candidate.document_id;
+        const similarity = Math.max(
+          jaccard(words[candidateIdx], words[selectedIdx]),
+          sameDocument ? SAME_DOCUMENT_SIMILARITY : 0
+        );
+        maxSimilarity = Math.max(maxSimilarity, similarity);
+      }
+
+      const score = options.lambda * relevance[candidateIdx] - (1 - options.lambda) * maxSimilarity;
+      if (score > bestScore) {
+        bestScore = score;
+        bestPosition = position;
+      }
+    });
+
+    // Every remaining candidate belongs to a document that is already full
+    if (bestPosition === -1) break;
+
+    const [chosen] = remaining.splice(bestPosition, 1);
+    selected.push(chosen);
+    const documentId = candidates[chosen].document_id;
+    perDocument.set(documentId, (perDocument.get(documentId) || 0) + 1);
+  }
+
+  return selected.map(idx => candidates[idx]);
+}
+
+function jaccard(a: Set<string>, b: Set<string>): number {
+  if (a.size === 0 || b.size === 0) return 0;
+
+  let intersection = 0;
+  for (const word of a) {
+    if (b.has(word)) intersection++;
+  }
+
+  return intersection / (a.size + b.size - intersection);
+}
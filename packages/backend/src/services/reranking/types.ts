@@ -0,0 +1,11 @@
+/**
+ * Scores how well each passage answers a query. Scores are only comparable
+ * within one call; callers normalize them before mixing with other signals.
+ */
+export interface Reranker {
+  /** Stable identifier for logs, e.g. `cross-encoder:Xenova/ms-marco-MiniLM-L-6-v2` */
+  readonly id: string;
+
+  /** `onUsage` is told about any Claude tokens spent scoring */
+  score(query: string, passages: string[], onUsage?: (tokenCount: number) => void): Promise<number[]>;
+}
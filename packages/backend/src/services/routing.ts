@@ -0,0 +1,489 @@
+import crypto from 'crypto';
+import { v4 as uuidv4 } from 'uuid';
+import { supabase } from '../utils/database';
+import { logger } from '../utils/logger';
+import { NotFoundError, ValidationError } from '../types/errors';
+import { normalizeNotionId } from './notion';
+import { tenantService } from './tenants';
+
+/**
+ * - property: a Notion property (select, multi-select, status, relation,
+ *   people, text, ...) has one of `values`; relations match on page ID
+ * - database: the page's parent database is one of `databaseIds`
+ * - title_regex: the title matches `pattern`
+ * - keyword: one of `keywords` appears as a whole word in `fields`
+ */
+export type RoutingRuleType = 'property' | 'database' | 'title_regex' | 'keyword';
+
+export const ROUTING_RULE_TYPES: RoutingRuleType[] = ['property', 'database', 'title_regex', 'keyword'];
+
+export type KeywordField = 'title' | 'content' | 'properties';
+
+export interface RoutingConditions {
+  property?: string;
+  values?: string[];
+  databaseIds?: string[];
+  pattern?: string;
+  flags?: string;
+  keywords?: string[];
+  fields?: KeywordField[];
+}
+
+/**
+ * Rules run highest priority first. Every matching rule shares the page with
+ * its client; a matching rule with `stopProcessing` ends evaluation.
+ */
+export interface RoutingRule {
+  id: string;
+  clientId: string;
+  name: string;
+  type: RoutingRuleType;
+  conditions: RoutingConditions;
+  priority: number;
+  stopProcessing: boolean;
+  enabled: boolean;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export type RoutingRuleInput = Pick<RoutingRule, 'clientId' | 'name' | 'type' | 'conditions'>
+  & Partial<Pick<RoutingRule, 'priority' | 'stopProcessing' | 'enabled'>>;
+
+export type RoutingRuleUpdate = Partial<RoutingRuleInput>;
+
+export interface RoutableContent {
+  title: string;
+  content: string;
+  /** Notion page properties, as returned by the API */
+  properties: Record<string, any>;
+  databaseId?: string;
+}
+
+export interface RuleEvaluation {
+  ruleId: string;
+  ruleName: string;
+  clientId: string;
+  priority: number;
+  matched: boolean;
+  reason: string;
+}
+
+export interface RoutingDecision {
+  /** Clients the content is shared with, in rule order */
+  clientIds: string[];
+  /** True when no rule matched and the content went to the default client */
+  usedDefault: boolean;
+  /** Every enabled rule considered, in evaluation order */
+  evaluations: RuleEvaluation[];
+  /** Identifies the rule set; content routed under another version is re-routed */
+  version: string;
+}
+
+const DEFAULT_KEYWORD_FIELDS: KeywordField[] = ['title', 'content'];
+// Rules are read on every synced page, so they're cached briefly
+const RULE_CACHE_TTL_MS = 30_000;
+
+/**
+ * Routes synced content (Notion pages) to clients with persisted rules in
+ * `routing_rules`. Content no rule claims goes to the master tenant.
+ */
+export class RoutingService {
+  private static instance: RoutingService;
+  // Used when Supabase isn't configured; rules then only last for the process
+  private memory = new Map<string, RoutingRule>();
+  private cache: { rules: RoutingRule[]; loadedAt: number } | null = null;
+
+  public static getInstance(): RoutingService {
+    if (!RoutingService.instance) {
+      RoutingService.instance = new RoutingService();
+    }
+    return RoutingService.instance;
+  }
+
+  private constructor() {}
+
+  /**
+   * Decide which clients content belongs to, with the reason for each rule.
+   * Content no rule matches goes to `defaultClientId`, else the master client.
+   */
+  async route(content: RoutableContent, defaultClientId?: string): Promise<RoutingDecision> {
+    const rules = (await this.loadRules()).filter(rule => rule.enabled);
+    const evaluations: RuleEvaluation[] = [];
+    const clientIds: string[] = [];
+
+    for (const rule of rules) {
+      const reason = matchRule(rule, content);
+      evaluations.push({
+        ruleId: rule.id,
+        ruleName: rule.name,
+        clientId: rule.clientId,
+        priority: rule.priority,
+        matched: reason !== null,
+        reason: reason ?? 'no match',
+      });
+
+      if (reason === null) continue;
+
+      if (!clientIds.includes(rule.clientId)) {
+        clientIds.push(rule.clientId);
+      }
+      if (rule.stopProcessing) break;
+    }
+
+    const usedDefault = clientIds.length === 0;
+    return {
+      clientIds: usedDefault ? [await this.defaultTarget(defaultClientId)] : clientIds,
+      usedDefault,
+      evaluations,
+      version: await this.versionFor(rules, defaultClientId),
+    };
+  }
+
+  /**
+   * The version route() currently stamps on its decisions for `defaultClientId`
+   */
+  async getVersion(defaultClientId?: string): Promise<string> {
+    return this.versionFor((await this.loadRules()).filter(rule => rule.enabled), defaultClientId);
+  }
+
+  /**
+   * Every client content can be routed to: rule targets (enabled or not) and the default
+   */
+  async getCandidateClientIds(defaultClientId?: string): Promise<string[]> {
+    const rules = await this.loadRules();
+    return [...new Set([...rules.map(rule => rule.clientId), await this.defaultTarget(defaultClientId)])];
+  }
+
+  async list(filters: { clientId?: string } = {}): Promise<RoutingRule[]> {
+    const rules = await this.loadRules(true);
+    return filters.clientId ? rules.filter(rule => rule.clientId === filters.clientId) : rules;
+  }
+
+  async get(id: string): Promise<RoutingRule> {
+    const rule = (await this.loadRules(true)).find(candidate => candidate.id === id);
+    if (!rule) {
+      throw new NotFoundError('Routing rule not found');
+    }
+    return rule;
+  }
+
+  async create(input: RoutingRuleInput): Promise<RoutingRule> {
+    const now = new Date().toISOString();
+    const rule: RoutingRule = {
+      id: uuidv4(),
+      clientId: await tenantService.resolveId(input.clientId),
+      name: input.name,
+      type: input.type,
+      conditions: input.conditions,
+      priority: input.priority ?? 0,
+      stopProcessing: input.stopProcessing ?? false,
+      enabled: input.enabled ?? true,
+      createdAt: now,
+      updatedAt: now,
+    };
+
+    this.validate(rule);
+    rule.conditions = normalizeConditions(rule);
+    await this.save(rule, 'insert');
+
+    logger.info('Routing rule created:', { id: rule.id, name: rule.name, type: rule.type, clientId: rule.clientId });
+    return rule;
+  }
+
+  async update(id: string, changes: RoutingRuleUpdate): Promise<RoutingRule> {
+    const existing = await this.get(id);
+    const updated: RoutingRule = {
+      ...existing,
+      ...Object.fromEntries(Object.entries(changes).filter(([, value]) => value !== undefined)),
+      updatedAt: new Date().toISOString(),
+    };
+    if (changes.clientId) {
+      updated.clientId = await tenantService.resolveId(changes.clientId);
+    }
+
+    this.validate(updated);
+    updated.conditions = normalizeConditions(updated);
+    await this.save(updated, 'update');
+
+    logger.info('Routing rule updated:', { id, changes: Object.keys(changes) });
+    return updated;
+  }
+
+  async delete(id: string): Promise<void> {
+    await this.get(id);
+
+    if (!supabase) {
+      this.memory.delete(id);
+    } else {
+      const { error } = await supabase.from('routing_rules').delete().eq('id', id);
+      if (error) {
+        logger.error('Error deleting routing rule:', { error, id });
+        throw error;
+      }
+    }
+
+    this.cache = null;
+    logger.info('Routing rule deleted:', { id });
+  }
+
+  private async save(rule: RoutingRule, operation: 'insert' | 'update'): Promise<void> {
+    if (!supabase) {
+      this.memory.set(rule.id, rule);
+    } else {
+      const { error } = operation === 'insert'
+        ? await supabase.from('routing_rules').insert(toRow(rule))
+        : await supabase.from('routing_rules').update(toRow(rule)).eq('id', rule.id);
+
+      if (error) {
+        logger.error(`Error saving routing rule (${operation}):`, { error, id: rule.id });
+        throw error;
+      }
+    }
+
+    this.cache = null;
+  }
+
+  private async defaultTarget(defaultClientId?: string): Promise<string> {
+    return defaultClientId || (await tenantService.getMaster()).id;
+  }
+
+  // Changing content's default client re-routes it. The master client is left out
+  // so content routed before per-source defaults existed keeps its version.
+  private async versionFor(rules: RoutingRule[], defaultClientId?: string): Promise<string> {
+    const target = await this.defaultTarget(defaultClientId);
+    return versionOf(rules, target === (await tenantService.getMaster()).id ? undefined : target);
+  }
+
+  /**
+   * All rules, highest priority first (ties: oldest first)
+   */
+  private async loadRules(fresh = false): Promise<RoutingRule[]> {
+    if (!fresh && this.cache && Date.now() - this.cache.loadedAt < RULE_CACHE_TTL_MS) {
+      return this.cache.rules;
+    }
+
+    let rules: RoutingRule[];
+    if (!supabase) {
+      rules = [...this.memory.values()];
+    } else {
+      const { data, error } = await supabase.from('routing_rules').select('*');
+      if (error) {
+        logger.error('Error loading routing rules:', { error });
+        throw error;
+      }
+      rules = (data || []).map(fromRow);
+    }
+
+    rules.sort((a, b) => b.priority - a.priority || a.createdAt.localeCompare(b.createdAt));
+    this.cache = { rules, loadedAt: Date.now() };
+    return rules;
+  }
+
+  private validate(rule: RoutingRule): void {
+    const { conditions } = rule;
+
+    if (!rule.name?.trim()) {
+      throw new ValidationError('name is required');
+    }
+    if (!ROUTING_RULE_TYPES.includes(rule.type)) {
+      throw new ValidationError(`type must be one of: ${ROUTING_RULE_TYPES.join(', ')}`);
+    }
+    if (!Number.isInteger(rule.priority)) {
+      throw new ValidationError('priority must be an integer');
+    }
+    if (!conditions || typeof conditions !== 'object') {
+      throw new ValidationError('conditions are required');
+    }
+
+    const nonEmptyStrings = (value: unknown) =>
+      Array.isArray(value) && value.length > 0 && value.every(item => typeof item === 'string' && item.trim());
+
+    switch (rule.type) {
+      case 'property':
+        if (!conditions.property?.trim() || !nonEmptyStrings(conditions.values)) {
+          throw new ValidationError('property rules need conditions.property and conditions.values');
+        }
+        break;
+      case 'database':
+        if (!nonEmptyStrings(conditions.databaseIds)) {
+          throw new ValidationError('database rules need conditions.databaseIds');
+        }
+        break;
+      case 'title_regex':
+        if (!conditions.pattern) {
+          throw new ValidationError('title_regex rules need conditions.pattern');
+        }
+        try {
+          new RegExp(conditions.pattern, conditions.flags ?? 'i');
+        } catch (error) {
+          throw new ValidationError(`Invalid pattern: ${error instanceof Error ? error.message : conditions.pattern}`);
+        }
+        break;
+      case 'keyword':
+        if (!nonEmptyStrings(conditions.keywords)) {
+          throw new ValidationError('keyword rules need conditions.keywords');
+        }
+        if (conditions.fields && !conditions.fields.every(field => ['title', 'content', 'properties'].includes(field))) {
+          throw new ValidationError('conditions.fields may contain: title, content, properties');
+        }
+        break;
+    }
+  }
+}
+
+/**
+ * Why a rule matches the content, or null if it doesn't
+ */
+function matchRule(rule: RoutingRule, content: RoutableContent): string | null {
+  const { conditions } = rule;
+
+  switch (rule.type) {
+    case 'property': {
+      const property = findProperty(content.properties, conditions.property!);
+      if (!property) return null;
+
+      const isRelation = property.type === 'relation';
+      const normalize = (value: string) => (isRelation ? normalizeNotionId(value) : value.trim().toLowerCase());
+      const wanted = new Set(conditions.values!.map(normalize));
+      const found = propertyValues(property).find(value => wanted.has(normalize(value)));
+      return found !== undefined ? `property "${conditions.property}" is "${found}"` : null;
+    }
+
+    case 'database': {
+      if (!content.databaseId) return null;
+      const databaseId = normalizeNotionId(content.databaseId);
+      return conditions.databaseIds!.includes(databaseId) ? `page is in database ${databaseId}` : null;
+    }
+
+    case 'title_regex': {
+      const match = new RegExp(conditions.pattern!, conditions.flags ?? 'i').exec(content.title);
+      return match ? `title matches /${conditions.pattern}/ ("${match[0]}")` : null;
+    }
+
+    case 'keyword': {
+      const fields = conditions.fields?.length ? conditions.fields : DEFAULT_KEYWORD_FIELDS;
+      for (const field of fields) {
+        const text = field === 'title'
+          ? content.title
+          : field === 'content'
+            ? content.content
+            : Object.values(content.properties || {}).flatMap(propertyValues).join('\n');
+
+        const keyword = conditions.keywords!.find(candidate => keywordPattern(candidate).test(text));
+        if (keyword) {
+          return `keyword "${keyword}" in ${field}`;
+        }
+      }
+      return null;
+    }
+  }
+}
+
+/**
+ * Match the keyword as a whole word: "HTT" matches "HTT's roadmap" but not "HTTP"
+ */
+function keywordPattern(keyword: string): RegExp {
+  const escaped = keyword.trim().replace(/[.*+?^${}()|[\]\\]/g, '\\$&').replace(/\s+/g, '\\s+');
+  return new RegExp(`(?<![\\p{L}\\p{N}_])${escaped}(?![\\p{L}\\p{N}_])`, 'iu');
+}
+
+function findProperty(properties: Record<string, any>, name: string): any {
+  if (!properties) return null;
+  if (properties[name]) return properties[name];
+
+  const lower = name.toLowerCase();
+  const key = Object.keys(properties).find(candidate => candidate.toLowerCase() === lower);
+  return key ? properties[key] : null;
+}
+
+/**
+ * The comparable values of a Notion property: option names, related page IDs,
+ * people's names and IDs, or its text
+ */
+function propertyValues(property: any): string[] {
+  if (!property) return [];
+
+  const plainText = (richText: any[]) => (richText || []).map(text => text.plain_text || '').join('');
+
+  switch (property.type) {
+    case 'select':
+    case 'status':
+      return property[property.type]?.name ? [property[property.type].name] : [];
+    case 'multi_select':
+      return (property.multi_select || []).map((option: any) => option.name);
+    case 'relation':
+      return (property.relation || []).map((relation: any) => relation.id);
+    case 'people':
+      return (property.people || []).flatMap((person: any) => [person.name, person.id].filter(Boolean));
+    case 'title':
+    case 'rich_text':
+      return [plainText(property[property.type])].filter(Boolean);
+    case 'checkbox':
+      return [String(property.checkbox)];
+    case 'number':
+      return property.number !== null && property.number !== undefined ? [String(property.number)] : [];
+    case 'url':
+    case 'email':
+    case 'phone_number':
+      return property[property.type] ? [property[property.type]] : [];
+    case 'formula': {
+      const formula = property.formula || {};
+      const value = formula[formula.type];
+      return value !== null && value !== undefined ? [String(value)] : [];
+    }
+    case 'rollup':
+      return property.rollup?.type === 'array' ? property.rollup.array.flatMap(propertyValues) : [];
+    default:
+      return [];
+  }
+}
+
+function normalizeConditions(rule: RoutingRule): RoutingConditions {
+  if (rule.type === 'database') {
+    return { ...rule.conditions, databaseIds: rule.conditions.databaseIds!.map(normalizeNotionId) };
+  }
+  return rule.conditions;
+}
+
+function versionOf(rules: RoutingRule[], defaultClientId?: string): string {
+  const key: unknown[] = rules.map(rule => [rule.id, rule.updatedAt]);
+  if (defaultClientId) key.push(defaultClientId);
+
+  return crypto
+    .createHash('sha256')
+    .update(JSON.stringify(key))
+    .digest('hex')
+    .slice(0, 16);
+}
+
+function toRow(rule: RoutingRule): Record<string, any> {
+  return {
+    id: rule.id,
+    client_id: rule.clientId,
+    name: rule.name,
+    type: rule.type,
+    conditions: rule.conditions,
+    priority: rule.priority,
+    stop_processing: rule.stopProcessing,
+    enabled: rule.enabled,
+    created_at: rule.createdAt,
+    updated_at: rule.updatedAt,
+  };
+}
+
+function fromRow(row: any): RoutingRule {
+  return {
+    id: row.id,
+    clientId: row.client_id,
+    name: row.name,
+    type: row.type,
+    conditions: row.conditions || {},
+    priority: row.priority,
+    stopProcessing: row.stop_processing,
+    enabled: row.enabled,
+    createdAt: row.created_at,
+    updatedAt: row.updated_at,
+  };
+}
+
+export const routingService = RoutingService.getInstance();
@@ -0,0 +1,314 @@
+import crypto from 'crypto';
+import { v4 as uuidv4 } from 'uuid';
+import { supabase } from '../utils/database';
+import { logger } from '../utils/logger';
+import { generateToken } from '../middleware/auth';
+import { AuthenticationError } from '../types/errors';
+
+const REFRESH_TOKEN_TTL_DAYS = parseInt(process.env.REFRESH_TOKEN_TTL_DAYS || '30', 10);
+
+// How long authMiddleware may trust a cached "session is active" answer.
+// Revocations made by this process take effect immediately.
+const SESSION_CACHE_TTL_MS = 30 * 1000;
+
+export type RevocationReason = 'logout' | 'user_revoked' | 'refresh_token_reuse' | 'user_removed' | 'user_deactivated';
+
+export interface IssuedTokens {
+  accessToken: string;
+  refreshToken: string;
+  /** Access token lifetime in seconds */
+  expiresIn: number;
+  sessionId: string;
+}
+
+interface SessionContext {
+  userAgent?: string;
+  ipAddress?: string;
+}
+
+export class SessionService {
+  private static instance: SessionService;
+  private activeSessions = new Map<string, { active: boolean; checkedAt: number }>();
+
+  public static getInstance(): SessionService {
+    if (!SessionService.instance) {
+      SessionService.instance = new SessionService();
+    }
+    return SessionService.instance;
+  }
+
+  private constructor() {}
+
+  /**
+   * Start a session at login and issue its first token pair
+   */
+  async createSession(
+    user: { id: string; clientId: string; role: 'admin' | 'user' },
+    context: SessionContext = {}
+  ): Promise<IssuedTokens> {
+    const db = this.db();
+    const sessionId = uuidv4();
+
+    const { error } = await db
+      .from('auth_sessions')
+      .insert({
+        id: sessionId,
+        user_id: user.id,
+        client_id: user.clientId,
+        user_agent: context.userAgent?.substring(0, 500) || null,
+        ip_address: context.ipAddress || null,
+        expires_at: this.refreshExpiry(),
+      });
+
+    if (error) {
+      logger.error('Error creating session:', { error, userId: user.id });
+      throw error;
+    }
+
+    const { token: refreshToken } = await this.issueRefreshToken(sessionId);
+    this.activeSessions.set(sessionId, { active: true, checkedAt: Date.now() });
+
+    logger.info('Session created:', { sessionId, userId: user.id, clientId: user.clientId });
+
+    return { ...this.issueAccessToken(user, sessionId), refreshToken, sessionId };
+  }
+
+  /**
+   * Exchange a refresh token for a new pair. Each refresh token works once;
+   * presenting a rotated one means it was copied, so the whole session is revoked.
+   */
+  async refresh(refreshToken: string): Promise<IssuedTokens & { userId: string; clientId: string }> {
+    const db = this.db();
+
+    const { data: stored, error } = await db
+      .from('refresh_tokens')
+      .select('id, session_id, expires_at, used_at, auth_sessions!inner(id, user_id, client_id, expires_at, revoked_at)')
+      .eq('token_hash', this.hash(refreshToken))
+      .maybeSingle();
+
+    if (error) {
+      logger.error('Error looking up refresh token:', { error });
+      throw error;
+    }
+
+    if (!stored) {
+      throw new AuthenticationError('Invalid refresh token');
+    }
+
+    const session: any = stored.auth_sessions;
+
+    if (stored.used_at) {
+      await this.handleReuse(session.id, session.user_id);
+    }
+
+    if (session.revoked_at || new Date(session.expires_at) <= new Date() || new Date(stored.expires_at) <= new Date()) {
+      throw new AuthenticationError('Session expired or revoked');
+    }
+
+    // Claim the token atomically so two concurrent refreshes can't both rotate it
+    const { data: claimed, error: claimError } = await db
+      .from('refresh_tokens')
+      .update({ used_at: new Date().toISOString() })
+      .eq('id', stored.id)
+      .is('used_at', null)
+      .select('id');
+
+    if (claimError) {
+      logger.error('Error rotating refresh token:', { error: claimError, sessionId: session.id });
+      throw claimError;
+    }
+
+    if (!claimed || claimed.length === 0) {
+      await this.handleReuse(session.id, session.user_id);
+    }
+
+    // Re-read the user so role changes and removals apply at refresh time
+    const { data: user } = await db
+      .from('users')
+      .select('id, client_id, role, deactivated_at')
+      .eq('id', session.user_id)
+      .maybeSingle();
+
+    if (!user || user.client_id !== session.client_id || user.deactivated_at) {
+      await this.revokeSession(session.id, 'user_removed');
+      throw new AuthenticationError('User no longer has access');
+    }
+
+    const newRefreshToken = await this.issueRefreshToken(session.id);
+    await db
+      .from('refresh_tokens')
+      .update({ replaced_by: newRefreshToken.id })
+      .eq('id', stored.id);
+    await db
+      .from('auth_sessions')
+      .update({ last_used_at: new Date().toISOString() })
+      .eq('id', session.id);
+
+    return {
+      ...this.issueAccessToken({ id: user.id, clientId: user.client_id, role: user.role }, session.id),
+      refreshToken: newRefreshToken.token,
+      sessionId: session.id,
+      userId: user.id,
+      clientId: user.client_id,
+    };
+  }
+
+  /**
+   * Whether an access token's session is still live. Called on every authenticated request.
+   */
+  async isSessionActive(sessionId: string): Promise<boolean> {
+    const cached = this.activeSessions.get(sessionId);
+    if (cached && Date.now() - cached.checkedAt < SESSION_CACHE_TTL_MS) {
+      return cached.active;
+    }
+
+    const { data, error } = await this.db()
+      .from('auth_sessions')
+      .select('revoked_at, expires_at')
+      .eq('id', sessionId)
+      .maybeSingle();
+
+    if (error) {
+      logger.error('Error checking session:', { error, sessionId });
+      throw error;
+    }
+
+    const active = !!data && !data.revoked_at && new Date(data.expires_at) > new Date();
+    this.activeSessions.set(sessionId, { active, checkedAt: Date.now() });
+    return active;
+  }
+
+  /**
+   * List a user's sessions that can still be refreshed
+   */
+  async listSessions(userId: string): Promise<any[]> {
+    const { data, error } = await this.db()
+      .from('auth_sessions')
+      .select('id, user_agent, ip_address, created_at, last_used_at, expires_at')
+      .eq('user_id', userId)
+      .is('revoked_at', null)
+      .gt('expires_at', new Date().toISOString())
+      .order('last_used_at', { ascending: false });
+
+    if (error) {
+      logger.error('Error listing sessions:', { error, userId });
+      throw error;
+    }
+
+    return data || [];
+  }
+
+  /**
+   * Revoke one session. Pass `userId` to only revoke it if it belongs to that user.
+   * Returns false if no matching active session was found.
+   */
+  async revokeSession(sessionId: string, reason: RevocationReason, userId?: string): Promise<boolean> {
+    let query = this.db()
+      .from('auth_sessions')
+      .update({ revoked_at: new Date().toISOString(), revoked_reason: reason })
+      .eq('id', sessionId)
+      .is('revoked_at', null);
+
+    if (userId) {
+      query = query.eq('user_id', userId);
+    }
+
+    const { data, error } = await query.select('id');
+
+    if (error) {
+      logger.error('Error revoking session:', { error, sessionId });
+      throw error;
+    }
+
+    this.activeSessions.set(sessionId, { active: false, checkedAt: Date.now() });
+
+    const revoked = !!data && data.length > 0;
+    if (revoked) {
+      logger.info('Session revoked:', { sessionId, reason });
+    }
+    return revoked;
+  }
+
+  /**
+   * Revoke all of a user's sessions, optionally keeping the current one
+   */
+  async revokeAllSessions(userId: string, reason: RevocationReason, exceptSessionId?: string): Promise<number> {
+    let query = this.db()
+      .from('auth_sessions')
+      .update({ revoked_at: new Date().toISOString(), revoked_reason: reason })
+      .eq('user_id', userId)
+      .is('revoked_at', null);
+
+    if (exceptSessionId) {
+      query = query.neq('id', exceptSessionId);
+    }
+
+    const { data, error } = await query.select('id');
+
+    if (error) {
+      logger.error('Error revoking sessions:', { error, userId });
+      throw error;
+    }
+
+    for (const { id } of data || []) {
+      this.activeSessions.set(id, { active: false, checkedAt: Date.now() });
+    }
+
+    logger.info('User sessions revoked:', { userId, reason, count: data?.length || 0 });
+    return data?.length || 0;
+  }
+
+  private async handleReuse(sessionId: string, userId: string): Promise<never> {
+    logger.warn('Refresh token reuse detected, revoking session:', { sessionId, userId });
+    await this.revokeSession(sessionId, 'refresh_token_reuse');
+    throw new AuthenticationError('Refresh token has already been used; the session has been revoked');
+  }
+
+  private async issueRefreshToken(sessionId: string): Promise<{ id: string; token: string }> {
+    const id = uuidv4();
+    const token = crypto.randomBytes(48).toString('base64url');
+
+    const { error } = await this.db()
+      .from('refresh_tokens')
+      .insert({
+        id,
+        session_id: sessionId,
+        token_hash: this.hash(token),
+        expires_at: this.refreshExpiry(),
+      });
+
+    if (error) {
+      logger.error('Error storing refresh token:', { error, sessionId });
+      throw error;
+    }
+
+    return { id, token };
+  }
+
+  private issueAccessToken(
+    user: { id: string; clientId: string; role: 'admin' | 'user' },
+    sessionId: string
+  ): { accessToken: string; expiresIn: number } {
+    const accessToken = generateToken({ ...user, sessionId });
+    const { iat, exp } = JSON.parse(Buffer.from(accessToken.split('.')[1], 'base64url').toString());
+
+    return { accessToken, expiresIn: exp - iat };
+  }
+
+  private refreshExpiry(): string {
+    return new Date(Date.now() + REFRESH_TOKEN_TTL_DAYS * 24 * 60 * 60 * 1000).toISOString();
+  }
+
+  private hash(token: string): string {
+    return crypto.createHash('sha256').update(token).digest('hex');
+  }
+
+  private db() {
+    if (!supabase) {
+      throw new Error('Database not configured');
+    }
+    return supabase;
+  }
+}
+
+export const sessionService = SessionService.getInstance();
@@ -0,0 +1,205 @@
+import { SlackApiMessage } from './types';
+
+export interface SlackChannelRef {
+  id: string;
+  name: string;
+}
+
+/**
+ * A Slack conversation rendered as a knowledge-base document
+ */
+export interface SlackDocument {
+  title: string;
+  content: string;
+  sourceId: string;
+  metadata: Record<string, any>;
+}
+
+// Channel housekeeping that carries no knowledge worth retrieving
+const SKIPPED_SUBTYPES = new Set([
+  'channel_join',
+  'channel_leave',
+  'channel_topic',
+  'channel_purpose',
+  'channel_name',
+  'channel_archive',
+  'channel_unarchive',
+  'group_join',
+  'group_leave',
+  'pinned_item',
+  'unpinned_item',
+  'bot_add',
+  'bot_remove',
+  'reminder_add',
+  'tombstone',
+]);
+
+export function isContentMessage(message: SlackApiMessage): boolean {
+  if (message.subtype && SKIPPED_SUBTYPES.has(message.subtype)) return false;
+  return !!message.text?.trim() || (message.files?.length || 0) > 0;
+}
+
+/**
+ * A top-level message that has replies; it's stored with its thread, not its day
+ */
+export function isThreadParent(message: SlackApiMessage): boolean {
+  return (message.reply_count || 0) > 0 && (!message.thread_ts || message.thread_ts === message.ts);
+}
+
+export function slackTsToDate(ts: string): Date {
+  return new Date(Math.floor(parseFloat(ts) * 1000));
+}
+
+/**
+ * UTC calendar day (YYYY-MM-DD) a message was posted on
+ */
+export function dayOf(ts: string): string {
+  return slackTsToDate(ts).toISOString().slice(0, 10);
+}
+
+/**
+ * conversations.history bounds covering one UTC day
+ */
+export function dayBounds(day: string): { oldest: string; latest: string } {
+  const start = Date.parse(`${day}T00:00:00Z`) / 1000;
+  return { oldest: start.toFixed(6), latest: (start + 86400).toFixed(6) };
+}
+
+export function threadSourceId(channelId: string, threadTs: string): string {
+  return `${channelId}:thread:${threadTs}`;
+}
+
+export function daySourceId(channelId: string, day: string): string {
+  return `${channelId}:day:${day}`;
+}
+
+/**
+ * User IDs whose display names are needed to render these messages: authors and mentions
+ */
+export function collectUserIds(messages: SlackApiMessage[]): string[] {
+  const ids = new Set<string>();
+
+  for (const message of messages) {
+    if (message.user) ids.add(message.user);
+    for (const match of (message.text || '').matchAll(/<@([UW][A-Z0-9]+)(?:\|[^>]*)?>/g)) {
+      ids.add(match[1]);
+    }
+  }
+
+  return [...ids];
+}
+
+/**
+ * Turn Slack's mrkdwn markup into readable text: resolve mentions and links, unescape entities
+ */
+export function formatSlackText(text: string, userNames: Map<string, string>): string {
+  return text
+    .replace(/<@([UW][A-Z0-9]+)(?:\|([^>]*))?>/g, (_, id, label) => `@${userNames.get(id) || label || id}`)
+    .replace(/<#[CG][A-Z0-9]+\|([^>]*)>/g, (_, name) => `#${name}`)
+    .replace(/<!subteam\^[A-Z0-9]+(?:\|([^>]*))?>/g, (_, label) => label || '@team')
+    .replace(/<!(here|channel|everyone)(?:\|[^>]*)?>/g, (_, name) => `@${name}`)
+    .replace(/<((?:https?|mailto):[^|>]+)\|([^>]+)>/g, (_, url, label) => `${label} (${url})`)
+    .replace(/<((?:https?|mailto):[^>]+)>/g, (_, url) => url)
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&amp;/g, '&');
+}
+
+function authorName(message: SlackApiMessage, userNames: Map<string, string>): string {
+  return (message.user && userNames.get(message.user)) || message.username || message.user || 'Unknown';
+}
+
+function formatTimestamp(ts: string): string {
+  return slackTsToDate(ts).toISOString().replace('T', ' ').slice(0, 16) + ' UTC';
+}
+
+function renderMessage(message: SlackApiMessage, userNames: Map<string, string>): string {
+  const lines = [`[${formatTimestamp(message.ts)}] ${authorName(message, userNames)}: ${formatSlackText(message.text || '', userNames).trim()}`];
+
+  for (const file of message.files || []) {
+    lines.push(`  Attached: ${file.title || file.name || file.id}`);
+  }
+
+  return lines.join('\n');
+}
+
+function summarize(messages: SlackApiMessage[], userNames: Map<string, string>) {
+  return {
+    participants: [...new Set(messages.map(message => authorName(message, userNames)))],
+    messageCount: messages.length,
+    firstMessageAt: slackTsToDate(messages[0].ts).toISOString(),
+    lastMessageAt: slackTsToDate(messages[messages.length - 1].ts).toISOString(),
+  };
+}
+
+/**
+ * Render a thread (parent plus replies, oldest first) as one document.
+ * Returns null when nothing in it is worth indexing.
+ */
+export function buildThreadDocument(
+  channel: SlackChannelRef,
+  messages: SlackApiMessage[],
+  userNames: Map<string, string>
+): SlackDocument | null {
+  const content = messages
+    .filter(isContentMessage)
+    .sort((a, b) => parseFloat(a.ts) - parseFloat(b.ts));
+  if (content.length === 0) return null;
+
+  const root = messages.find(message => !message.thread_ts || message.thread_ts === message.ts) || content[0];
+  const threadTs = root.thread_ts || root.ts;
+  const summary = summarize(content, userNames);
+  const topic = formatSlackText(root.text || '', userNames).replace(/\s+/g, ' ').trim();
+
+  return {
+    title: `#${channel.name} thread: ${topic.length > 60 ? `${topic.slice(0, 57)}...` : topic || 'attachment'}`,
+    content: [
+      `Slack thread in #${channel.name}`,
+      `Started by ${authorName(root, userNames)} on ${formatTimestamp(threadTs)}`,
+      '',
+      ...content.map(message => renderMessage(message, userNames)),
+    ].join('\n'),
+    sourceId: threadSourceId(channel.id, threadTs),
+    metadata: {
+      channelId: channel.id,
+      channelName: channel.name,
+      threadTs,
+      ...summary,
+    },
+  };
+}
+
+/**
+ * Render a channel's top-level messages for one day as one document. Messages
+ * that started a thread are left to their thread document.
+ */
+export function buildDayDocument(
+  channel: SlackChannelRef,
+  day: string,
+  messages: SlackApiMessage[],
+  userNames: Map<string, string>
+): SlackDocument | null {
+  const content = messages
+    .filter(message => isContentMessage(message)
+      && !isThreadParent(message)
+      && message.subtype !== 'thread_broadcast'
+      && (!message.thread_ts || message.thread_ts === message.ts))
+    .sort((a, b) => parseFloat(a.ts) - parseFloat(b.ts));
+  if (content.length === 0) return null;
+
+  return {
+    title: `#${channel.name} on ${day}`,
+    content: [
+      `Slack messages in #${channel.name} on ${day}`,
+      '',
+      ...content.map(message => renderMessage(message, userNames)),
+    ].join('\n'),
+    sourceId: daySourceId(channel.id, day),
+    metadata: {
+      channelId: channel.id,
+      channelName: channel.name,
+      day,
+      ...summarize(content, userNames),
+    },
+  };
+}
@@ -0,0 +1,39 @@
+import { dayOf, isContentMessage, isThreadParent } from './documents';
+import { SlackApiMessage, SlackEventEnvelope, SlackMessageEvent, SlackSyncTarget } from './types';
+
+/**
+ * Work out which documents a `message` event affects. Edits and deletions are
+ * handled the same way as new messages: the enclosing thread or day is rebuilt
+ * from the API, so the stored document always matches what Slack shows.
+ */
+export function planSlackEvent(envelope: SlackEventEnvelope): SlackSyncTarget[] {
+  if (envelope.type !== 'event_callback' || envelope.event.type !== 'message') {
+    return [];
+  }
+
+  const event = envelope.event as SlackMessageEvent;
+  if (!event.channel) return [];
+
+  let message: SlackApiMessage | undefined;
+  if (event.subtype === 'message_changed') {
+    message = event.message;
+  } else if (event.subtype === 'message_deleted') {
+    message = event.previous_message || (event.deleted_ts ? { ts: event.deleted_ts } : undefined);
+  } else {
+    if (!isContentMessage(event)) return [];
+    message = event;
+  }
+
+  if (!message?.ts) return [];
+
+  if (message.thread_ts && message.thread_ts !== message.ts) {
+    // A reply. Broadcast replies also show up in the channel, but are indexed with their thread.
+    return [{ kind: 'thread', channel: event.channel, threadTs: message.thread_ts }];
+  }
+
+  if (isThreadParent(message)) {
+    return [{ kind: 'thread', channel: event.channel, threadTs: message.ts }];
+  }
+
+  return [{ kind: 'day', channel: event.channel, day: dayOf(message.ts) }];
+}
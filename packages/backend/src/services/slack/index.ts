@@ -0,0 +1,5 @@
+export { slackIngestionService, SlackIngestionService } from './ingestion';
+export type { SlackBackfillResult } from './ingestion';
+export { planSlackEvent } from './events';
+export { buildDayDocument, buildThreadDocument, formatSlackText } from './documents';
+export type { SlackApiMessage, SlackEventEnvelope, SlackMessageEvent, SlackSyncTarget } from './types';
@@ -0,0 +1,306 @@
+import { App } from '@slack/bolt';
+import { ClientDatabase, supabase } from '../../utils/database';
+import { logger } from '../../utils/logger';
+import { ragService } from '../rag';
+import {
+  SlackChannelRef,
+  SlackDocument,
+  buildDayDocument,
+  buildThreadDocument,
+  collectUserIds,
+  dayBounds,
+  dayOf,
+  daySourceId,
+  isThreadParent,
+  threadSourceId,
+} from './documents';
+import { planSlackEvent } from './events';
+import { SlackApiMessage, SlackEventEnvelope, SlackSyncTarget } from './types';
+
+type SlackWebClient = App['client'];
+
+const PAGE_SIZE = 200;
+
+// Slack retries events it didn't see acknowledged in 3s; remember recent ids to skip duplicates
+const MAX_RECENT_EVENT_IDS = 1000;
+
+export interface SlackBackfillResult {
+  channelId: string;
+  messages: number;
+  threads: number;
+  days: number;
+}
+
+export class SlackIngestionService {
+  private static instance: SlackIngestionService;
+  private app: App | null = null;
+  private userNames = new Map<string, string>();
+  private channels = new Map<string, SlackChannelRef>();
+  private recentEventIds = new Set<string>();
+
+  public static getInstance(): SlackIngestionService {
+    if (!SlackIngestionService.instance) {
+      SlackIngestionService.instance = new SlackIngestionService();
+    }
+    return SlackIngestionService.instance;
+  }
+
+  private constructor() {}
+
+  isConfigured(): boolean {
+    return !!(process.env.SLACK_BOT_TOKEN && process.env.SLACK_SIGNING_SECRET);
+  }
+
+  /**
+   * Import a channel's history, optionally only messages newer than `oldest` (a Slack ts)
+   */
+  async backfillChannel(clientId: string, channelId: string, options: { oldest?: string } = {}): Promise<SlackBackfillResult> {
+    const client = this.client();
+    const clientDb = new ClientDatabase(clientId);
+    const channel = await this.channelRef(channelId);
+    const startTime = Date.now();
+
+    logger.info('Starting Slack channel backfill:', { clientId, channelId, oldest: options.oldest });
+
+    const messages: SlackApiMessage[] = [];
+    let cursor: string | undefined;
+    do {
+      const page = await client.conversations.history({
+        channel: channelId,
+        limit: PAGE_SIZE,
+        oldest: options.oldest,
+        cursor,
+      });
+      messages.push(...(page.messages || []) as SlackApiMessage[]);
+      cursor = page.response_metadata?.next_cursor || undefined;
+    } while (cursor);
+
+    const result: SlackBackfillResult = { channelId, messages: messages.length, threads: 0, days: 0 };
+
+    for (const parent of messages.filter(isThreadParent)) {
+      try {
+        await this.syncThread(clientDb, channel, parent.ts);
+        result.threads++;
+      } catch (error) {
+        logger.error('Error backfilling Slack thread:', { error, channelId, threadTs: parent.ts });
+      }
+    }
+
+    const byDay = new Map<string, SlackApiMessage[]>();
+    for (const message of messages) {
+      const day = dayOf(message.ts);
+      byDay.set(day, [...(byDay.get(day) || []), message]);
+    }
+
+    for (const [day, dayMessages] of byDay) {
+      try {
+        await this.resolveUserNames(collectUserIds(dayMessages));
+        const stored = await this.storeDocument(
+          clientDb,
+          daySourceId(channelId, day),
+          buildDayDocument(channel, day, dayMessages, this.userNames)
+        );
+        if (stored) result.days++;
+      } catch (error) {
+        logger.error('Error backfilling Slack day:', { error, channelId, day });
+      }
+    }
+
+    logger.info('Slack channel backfill completed:', { clientId, ...result, duration: Date.now() - startTime });
+
+    return result;
+  }
+
+  /**
+   * Apply an Events API callback. Unknown channels and duplicate deliveries are ignored.
+   */
+  async handleEvent(envelope: SlackEventEnvelope): Promise<void> {
+    if (envelope.type !== 'event_callback') return;
+
+    if (this.recentEventIds.has(envelope.event_id)) {
+      logger.debug('Skipping duplicate Slack event:', { eventId: envelope.event_id });
+      return;
+    }
+    this.recentEventIds.add(envelope.event_id);
+    if (this.recentEventIds.size > MAX_RECENT_EVENT_IDS) {
+      this.recentEventIds.delete(this.recentEventIds.values().next().value!);
+    }
+
+    const targets = planSlackEvent(envelope);
+    if (targets.length === 0) return;
+
+    const clientId = await this.findClientForChannel(targets[0].channel);
+    if (!clientId) {
+      logger.debug('Slack event for a channel no client has connected:', { channel: targets[0].channel });
+      return;
+    }
+
+    const clientDb = new ClientDatabase(clientId);
+    for (const target of targets) {
+      await this.syncTarget(clientDb, target);
+    }
+  }
+
+  /**
+   * The client whose settings.slack_channel_id is this channel
+   */
+  async findClientForChannel(channelId: string): Promise<string | null> {
+    if (!supabase) return null;
+
+    const { data, error } = await supabase
+      .from('clients')
+      .select('id')
+      .eq('settings->>slack_channel_id', channelId)
+      .limit(1)
+      .maybeSingle();
+
+    if (error) {
+      logger.error('Error finding client for Slack channel:', { error, channelId });
+      throw error;
+    }
+
+    return data?.id || null;
+  }
+
+  private async syncTarget(clientDb: ClientDatabase, target: SlackSyncTarget): Promise<void> {
+    const channel = await this.channelRef(target.channel);
+
+    if (target.kind === 'thread') {
+      await this.syncThread(clientDb, channel, target.threadTs);
+    } else {
+      await this.syncDay(clientDb, channel, target.day);
+    }
+  }
+
+  private async syncThread(clientDb: ClientDatabase, channel: SlackChannelRef, threadTs: string): Promise<void> {
+    const client = this.client();
+
+    const messages: SlackApiMessage[] = [];
+    let cursor: string | undefined;
+    do {
+      const page = await client.conversations.replies({
+        channel: channel.id,
+        ts: threadTs,
+        limit: PAGE_SIZE,
+        cursor,
+      });
+      messages.push(...(page.messages || []) as SlackApiMessage[]);
+      cursor = page.response_metadata?.next_cursor || undefined;
+    } while (cursor);
+
+    const replies = messages.filter(message => message.ts !== threadTs);
+    await this.resolveUserNames(collectUserIds(messages));
+    await this.storeDocument(
+      clientDb,
+      threadSourceId(channel.id, threadTs),
+      replies.length > 0 ? buildThreadDocument(channel, messages, this.userNames) : null
+    );
+
+    // The parent moves between its day document and its thread document when
+    // it gains its first reply or loses its last one
+    if (replies.length <= 1) {
+      await this.syncDay(clientDb, channel, dayOf(threadTs));
+    }
+  }
+
+  private async syncDay(clientDb: ClientDatabase, channel: SlackChannelRef, day: string): Promise<void> {
+    const client = this.client();
+    const { oldest, latest } = dayBounds(day);
+
+    const messages: SlackApiMessage[] = [];
+    let cursor: string | undefined;
+    do {
+      const page = await client.conversations.history({
+        channel: channel.id,
+        oldest,
+        latest,
+        inclusive: true,
+        limit: PAGE_SIZE,
+        cursor,
+      });
+      messages.push(...(page.messages || []) as SlackApiMessage[]);
+      cursor = page.response_metadata?.next_cursor || undefined;
+    } while (cursor);
+
+    await this.resolveUserNames(collectUserIds(messages));
+    await this.storeDocument(
+      clientDb,
+      daySourceId(channel.id, day),
+      buildDayDocument(channel, day, messages, this.userNames)
+    );
+  }
+
+  /**
+   * Replace the stored document for `sourceId`, or delete it when `document` is null.
+   * Returns whether a document is stored afterwards.
+   */
+  private async storeDocument(clientDb: ClientDatabase, sourceId: string, document: SlackDocument | null): Promise<boolean> {
+    const existing = await clientDb.findDocumentBySourceId('slack', sourceId);
+
+    if (!document) {
+      if (existing) {
+        await clientDb.deleteDocument(existing.id);
+        logger.info('Slack document removed:', { documentId: existing.id, sourceId });
+      }
+      return false;
+    }
+
+    await ragService.syncDocument(clientDb, {
+      title: document.title,
+      content: document.content,
+      source: 'slack',
+      sourceId,
+      metadata: {
+        ...document.metadata,
+        syncedAt: new Date().toISOString(),
+      },
+    });
+
+    return true;
+  }
+
+  private async resolveUserNames(userIds: string[]): Promise<void> {
+    const client = this.client();
+
+    for (const userId of userIds) {
+      if (this.userNames.has(userId)) continue;
+
+      try {
+        const { user } = await client.users.info({ user: userId });
+        this.userNames.set(userId, user?.profile?.display_name || user?.real_name || user?.name || userId);
+      } catch (error) {
+        logger.warn('Could not resolve Slack user:', { userId, error });
+        this.userNames.set(userId, userId);
+      }
+    }
+  }
+
+  private async channelRef(channelId: string): Promise<SlackChannelRef> {
+    const cached = this.channels.get(channelId);
+    if (cached) return cached;
+
+    const { channel } = await this.client().conversations.info({ channel: channelId });
+    const ref = { id: channelId, name: channel?.name || channelId };
+    this.channels.set(channelId, ref);
+    return ref;
+  }
+
+  private client(): SlackWebClient {
+    if (!this.app) {
+      if (!this.isConfigured()) {
+        throw new Error('SLACK_BOT_TOKEN and SLACK_SIGNING_SECRET must be set for Slack ingestion');
+      }
+
+      // Only Bolt's Web API client is used here; events arrive through /api/webhooks/slack/events
+      this.app = new App({
+        token: process.env.SLACK_BOT_TOKEN,
+        signingSecret: process.env.SLACK_SIGNING_SECRET,
+        tokenVerificationEnabled: false,
+      });
+    }
+
+    return this.app.client;
+  }
+}
+
+export const slackIngestionService = SlackIngestionService.getInstance();
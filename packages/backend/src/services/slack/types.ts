@@ -0,0 +1,50 @@
+/**
+ * A message as returned by conversations.history / conversations.replies and
+ * carried in `message` events (the fields ingestion relies on; see SlackMessageSchema
+ * in the shared package for the canonical shape).
+ */
+export interface SlackApiMessage {
+  ts: string;
+  type?: string;
+  subtype?: string;
+  user?: string;
+  bot_id?: string;
+  username?: string;
+  text?: string;
+  thread_ts?: string;
+  reply_count?: number;
+  files?: Array<{ id: string; name?: string; title?: string; mimetype?: string; url_private?: string }>;
+}
+
+export interface SlackMessageEvent extends SlackApiMessage {
+  type: 'message';
+  channel: string;
+  event_ts?: string;
+  /** Set on message_changed */
+  message?: SlackApiMessage;
+  /** Set on message_deleted */
+  previous_message?: SlackApiMessage;
+  deleted_ts?: string;
+}
+
+/**
+ * Body of an Events API request
+ */
+export type SlackEventEnvelope =
+  | { type: 'url_verification'; challenge: string; token?: string }
+  | {
+      type: 'event_callback';
+      team_id: string;
+      api_app_id?: string;
+      event_id: string;
+      event_time: number;
+      event: SlackMessageEvent | { type: string; [key: string]: any };
+    };
+
+/**
+ * What a Slack change means for the stored documents: either a thread or a
+ * channel's top-level messages for one UTC day need rebuilding.
+ */
+export type SlackSyncTarget =
+  | { kind: 'thread'; channel: string; threadTs: string }
+  | { kind: 'day'; channel: string; day: string };
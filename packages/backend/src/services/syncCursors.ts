@@ -0,0 +1,85 @@
+import { supabase } from '../utils/database';
+import { logger } from '../utils/logger';
+
+/**
+ * Persisted high-water marks for incremental syncs, one per source and
+ * resource (e.g. a Notion database). Incremental syncs resume from the mark,
+ * so edits made while the server was down are still picked up.
+ */
+export class SyncCursorService {
+  private static instance: SyncCursorService;
+  // Used when Supabase isn't configured; marks then only last for the process
+  private memory = new Map<string, string>();
+
+  public static getInstance(): SyncCursorService {
+    if (!SyncCursorService.instance) {
+      SyncCursorService.instance = new SyncCursorService();
+    }
+    return SyncCursorService.instance;
+  }
+
+  private constructor() {
+    if (!supabase) {
+      logger.warn('Supabase not configured - sync cursors will not survive restarts');
+    }
+  }
+
+  /**
+   * The last high-water mark recorded for a resource, or null if it has never synced
+   */
+  async getHighWaterMark(source: string, resourceId: string): Promise<string | null> {
+    if (!supabase) {
+      return this.memory.get(this.key(source, resourceId)) || null;
+    }
+
+    const { data, error } = await supabase
+      .from('sync_cursors')
+      .select('high_water_mark')
+      .eq('source', source)
+      .eq('resource_id', resourceId)
+      .maybeSingle();
+
+    if (error) {
+      logger.error('Error reading sync cursor:', { error, source, resourceId });
+      throw error;
+    }
+
+    return data?.high_water_mark || null;
+  }
+
+  /**
+   * Record a new high-water mark. Marks never move backwards, so a slow full
+   * sync finishing after a newer incremental one can't rewind the cursor.
+   */
+  async advanceHighWaterMark(source: string, resourceId: string, mark: string): Promise<void> {
+    const current = await this.getHighWaterMark(source, resourceId);
+    if (current && Date.parse(current) >= Date.parse(mark)) return;
+
+    if (!supabase) {
+      this.memory.set(this.key(source, resourceId), mark);
+      return;
+    }
+
+    const { error } = await supabase
+      .from('sync_cursors')
+      .upsert({
+        source,
+        resource_id: resourceId,
+        high_water_mark: mark,
+        updated_at: new Date().toISOString(),
+      }, { onConflict: 'source,resource_id' });
+
+    if (error) {
+      logger.error('Error saving sync cursor:', { error, source, resourceId, mark });
+      throw error;
+    }
+
+    logger.debug('Sync cursor advanced:', { source, resourceId, mark });
+  }
+
+  private key(source: string, resourceId: string): string {
+    return `${source}:${resourceId}`;
+  }
+}
+
+export const syncCursorService = SyncCursorService.getInstance();
@@ -0,0 +1,337 @@
+import { v4 as uuidv4 } from 'uuid';
+import { supabase } from '../utils/database';
+import { logger } from '../utils/logger';
+import { tenantService } from './tenants';
+
+export type SyncRunSource = 'notion' | 'notion_clients';
+export type SyncTrigger = 'cron' | 'manual' | 'webhook';
+export type SyncMode = 'incremental' | 'full';
+// 'partial' runs finished but some pages failed
+export type SyncRunStatus = 'running' | 'succeeded' | 'partial' | 'failed';
+
+/**
+ * Per-page outcome counts of one sync run
+ */
+export interface SyncRunCounts {
+  seen: number;
+  created: number;
+  updated: number;
+  unchanged: number;
+  deleted: number;
+  skipped: number;
+  failed: number;
+  errors: string[];
+}
+
+export interface SyncRunTarget {
+  source: SyncRunSource;
+  resourceId: string;
+  resourceName: string;
+  /** Client of the sync source, which receives unrouted content */
+  clientId?: string | null;
+  trigger: SyncTrigger;
+  mode: SyncMode;
+}
+
+export interface SyncRun extends SyncRunTarget, SyncRunCounts {
+  id: string;
+  status: SyncRunStatus;
+  startedAt: string;
+  finishedAt: string | null;
+  durationMs: number | null;
+}
+
+export interface SyncRunFilters {
+  source?: SyncRunSource;
+  resourceId?: string;
+  clientId?: string;
+  trigger?: SyncTrigger;
+  mode?: SyncMode;
+  status?: SyncRunStatus;
+  since?: string;
+  until?: string;
+  limit?: number;
+  offset?: number;
+}
+
+// Errors kept per run; a failing database can otherwise produce one per page
+const MAX_RUN_ERRORS = 20;
+// Runs kept in memory when Supabase isn't configured
+const MAX_MEMORY_RUNS = 500;
+
+/**
+ * Lock held while a resource syncs, so only one instance syncs it at a time
+ */
+export function syncLockName(source: SyncRunSource, resourceId: string): string {
+  return `sync:${source}:${resourceId}`;
+}
+
+export function emptySyncRunCounts(): SyncRunCounts {
+  return { seen: 0, created: 0, updated: 0, unchanged: 0, deleted: 0, skipped: 0, failed: 0, errors: [] };
+}
+
+/**
+ * History of sync runs, one row per synced resource per run, in `sync_runs`.
+ * Finished runs are also audited to `integration_logs` under the master client.
+ */
+export class SyncRunService {
+  private static instance: SyncRunService;
+  // Used when Supabase isn't configured; history then only lasts for the process
+  private memory: SyncRun[] = [];
+
+  public static getInstance(): SyncRunService {
+    if (!SyncRunService.instance) {
+      SyncRunService.instance = new SyncRunService();
+    }
+    return SyncRunService.instance;
+  }
+
+  private constructor() {
+    if (!supabase) {
+      logger.warn('Supabase not configured - sync run history will not survive restarts');
+    }
+  }
+
+  /**
+   * Run a sync and record it. A sync that throws is recorded as failed and the
+   * error is rethrown.
+   */
+  async record(target: SyncRunTarget, sync: () => Promise<SyncRunCounts>): Promise<SyncRunCounts> {
+    const run = await this.start(target);
+
+    try {
+      const counts = await sync();
+      await this.finish(run, counts, counts.failed > 0 || counts.errors.length > 0 ? 'partial' : 'succeeded');
+      return counts;
+    } catch (error) {
+      const counts = emptySyncRunCounts();
+      counts.errors.push(error instanceof Error ? error.message : 'Unknown error');
+      await this.finish(run, counts, 'failed');
+      throw error;
+    }
+  }
+
+  async list(filters: SyncRunFilters = {}): Promise<{ runs: SyncRun[]; total: number }> {
+    const limit = filters.limit ?? 50;
+    const offset = filters.offset ?? 0;
+
+    if (!supabase) {
+      const runs = this.memory.filter(run => matches(run, filters));
+      return { runs: runs.slice(offset, offset + limit), total: runs.length };
+    }
+
+    let query = supabase
+      .from('sync_runs')
+      .select('*', { count: 'exact' })
+      .order('started_at', { ascending: false })
+      .range(offset, offset + limit - 1);
+
+    if (filters.source) query = query.eq('source', filters.source);
+    if (filters.resourceId) query = query.eq('resource_id', filters.resourceId);
+    if (filters.clientId) query = query.eq('client_id', filters.clientId);
+    if (filters.trigger) query = query.eq('trigger', filters.trigger);
+    if (filters.mode) query = query.eq('mode', filters.mode);
+    if (filters.status) query = query.eq('status', filters.status);
+    if (filters.since) query = query.gte('started_at', filters.since);
+    if (filters.until) query = query.lte('started_at', filters.until);
+
+    const { data, error, count } = await query;
+    if (error) {
+      logger.error('Error listing sync runs:', { error, filters });
+      throw error;
+    }
+
+    return { runs: (data || []).map(fromRow), total: count || 0 };
+  }
+
+  async get(id: string): Promise<SyncRun | null> {
+    if (!supabase) {
+      return this.memory.find(run => run.id === id) || null;
+    }
+
+    const { data, error } = await supabase.from('sync_runs').select('*').eq('id', id).maybeSingle();
+    if (error) {
+      logger.error('Error fetching sync run:', { error, id });
+      throw error;
+    }
+
+    return data ? fromRow(data) : null;
+  }
+
+  /**
+   * Delete runs started before the cutoff. Returns how many were removed.
+   */
+  async prune(cutoff: Date): Promise<number> {
+    if (!supabase) {
+      const before = this.memory.length;
+      this.memory = this.memory.filter(run => Date.parse(run.startedAt) >= cutoff.getTime());
+      return before - this.memory.length;
+    }
+
+    const { data, error } = await supabase
+      .from('sync_runs')
+      .delete()
+      .lt('started_at', cutoff.toISOString())
+      .select('id');
+
+    if (error) {
+      logger.error('Error pruning sync runs:', { error });
+      throw error;
+    }
+
+    return data?.length || 0;
+  }
+
+  private async start(target: SyncRunTarget): Promise<SyncRun> {
+    const run: SyncRun = {
+      id: uuidv4(),
+      ...target,
+      clientId: target.clientId ?? null,
+      ...emptySyncRunCounts(),
+      status: 'running',
+      startedAt: new Date().toISOString(),
+      finishedAt: null,
+      durationMs: null,
+    };
+
+    if (!supabase) {
+      this.memory.unshift(run);
+      this.memory.length = Math.min(this.memory.length, MAX_MEMORY_RUNS);
+      return run;
+    }
+
+    // History must never break the sync itself
+    const { error } = await supabase.from('sync_runs').insert(toRow(run));
+    if (error) {
+      logger.error('Error recording sync run start:', { error, ...target });
+    }
+
+    return run;
+  }
+
+  private async finish(run: SyncRun, counts: SyncRunCounts, status: SyncRunStatus): Promise<void> {
+    const finishedAt = new Date();
+    const finished: SyncRun = {
+      ...run,
+      ...counts,
+      errors: counts.errors.slice(0, MAX_RUN_ERRORS),
+      status,
+      finishedAt: finishedAt.toISOString(),
+      durationMs: finishedAt.getTime() - Date.parse(run.startedAt),
+    };
+
+    logger.info('Sync run finished:', {
+      runId: run.id,
+      source: run.source,
+      resourceName: run.resourceName,
+      trigger: run.trigger,
+      mode: run.mode,
+      status,
+      durationMs: finished.durationMs,
+    });
+
+    if (!supabase) {
+      const index = this.memory.findIndex(existing => existing.id === run.id);
+      if (index >= 0) this.memory[index] = finished;
+      return;
+    }
+
+    const { error } = await supabase.from('sync_runs').update(toRow(finished)).eq('id', run.id);
+    if (error) {
+      logger.error('Error recording sync run result:', { error, runId: run.id });
+    }
+
+    await this.audit(finished);
+  }
+
+  /**
+   * Record a finished run in integration_logs, under the sync source's client,
+   * or the master client for runs without one
+   */
+  private async audit(run: SyncRun): Promise<void> {
+    const { error } = await supabase!.from('integration_logs').insert({
+      client_id: run.clientId || (await tenantService.getMaster()).id,
+      integration_type: 'notion',
+      action: run.source === 'notion_clients' ? `client_sync_${run.mode}` : `database_sync_${run.mode}`,
+      status: run.status === 'succeeded' ? 'success' : 'failed',
+      details: {
+        runId: run.id,
+        resourceId: run.resourceId,
+        resourceName: run.resourceName,
+        trigger: run.trigger,
+        runStatus: run.status,
+        seen: run.seen,
+        created: run.created,
+        updated: run.updated,
+        deleted: run.deleted,
+        failed: run.failed,
+        durationMs: run.durationMs,
+      },
+    });
+
+    if (error) {
+      logger.error('Error writing integration log:', { error, runId: run.id });
+    }
+  }
+}
+
+function matches(run: SyncRun, filters: SyncRunFilters): boolean {
+  return (!filters.source || run.source === filters.source)
+    && (!filters.resourceId || run.resourceId === filters.resourceId)
+    && (!filters.clientId || run.clientId === filters.clientId)
+    && (!filters.trigger || run.trigger === filters.trigger)
+    && (!filters.mode || run.mode === filters.mode)
+    && (!filters.status || run.status === filters.status)
+    && (!filters.since || Date.parse(run.startedAt) >= Date.parse(filters.since))
+    && (!filters.until || Date.parse(run.startedAt) <= Date.parse(filters.until));
+}
+
+function toRow(run: SyncRun): Record<string, any> {
+  return {
+    id: run.id,
+    source: run.source,
+    resource_id: run.resourceId,
+    resource_name: run.resourceName,
+    client_id: run.clientId,
+    trigger: run.trigger,
+    mode: run.mode,
+    status: run.status,
+    pages_seen: run.seen,
+    pages_created: run.created,
+    pages_updated: run.updated,
+    pages_unchanged: run.unchanged,
+    pages_deleted: run.deleted,
+    pages_skipped: run.skipped,
+    pages_failed: run.failed,
+    errors: run.errors,
+    started_at: run.startedAt,
+    finished_at: run.finishedAt,
+    duration_ms: run.durationMs,
+  };
+}
+
+function fromRow(row: any): SyncRun {
+  return {
+    id: row.id,
+    source: row.source,
+    resourceId: row.resource_id,
+    resourceName: row.resource_name,
+    clientId: row.client_id,
+    trigger: row.trigger,
+    mode: row.mode,
+    status: row.status,
+    seen: row.pages_seen,
+    created: row.pages_created,
+    updated: row.pages_updated,
+    unchanged: row.pages_unchanged,
+    deleted: row.pages_deleted,
+    skipped: row.pages_skipped,
+    failed: row.pages_failed,
+    errors: row.errors || [],
+    startedAt: row.started_at,
+    finishedAt: row.finished_at,
+    durationMs: row.duration_ms,
+  };
+}
+
+export const syncRunService = SyncRunService.getInstance();
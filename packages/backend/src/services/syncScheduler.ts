@@ -1,6 +1,9 @@
 import * as cron from 'node-cron';
 import { notionService } from './notion';
 import { clientSyncService } from './clientSync';
+import { LockInfo, lockService } from './locks';
+import { SyncMode, SyncRun, SyncTrigger, syncLockName, syncRunService } from './syncRuns';
+import { SyncSource, syncSourceService } from './syncSources';
 import { logger } from '../utils/logger';
 
 export interface SyncStats {
@@ -12,274 +15,280 @@ export interface SyncStats {
   errors: string[];
 }
 
+// Stats and health are computed from the sync runs recorded in this window
+const STATS_WINDOW_MS = 7 * 24 * 60 * 60 * 1000;
+const HEALTH_WINDOW_MS = 24 * 60 * 60 * 1000;
+// Sync runs older than this are deleted by the weekly maintenance
+const RUN_RETENTION_DAYS = 90;
+// How often sync sources are re-read, so edits made through another process apply
+const SOURCE_REFRESH_INTERVAL_MS = 60 * 1000;
+// Clients databases without a successful run look back this far
+const CLIENT_SYNC_DEFAULT_LOOKBACK_MS = 24 * 60 * 60 * 1000;
+
+// Only the instance holding this lease runs scheduled syncs
+const LEADER_LOCK = 'scheduler:leader';
+const LEADER_LEASE_MS = 30_000;
+const LEADER_RENEW_INTERVAL_MS = 10_000;
+
+export interface SyncLockStatus {
+  instanceId: string;
+  isLeader: boolean;
+  leader: LockInfo | null;
+  /** Sources currently being synced, and by which instance */
+  running: Array<LockInfo & { sourceId: string; sourceName: string }>;
+}
+
 export class SyncScheduler {
-  private tasks: cron.ScheduledTask[] = [];
-  private stats: SyncStats = {
-    lastFullSync: null,
-    lastIncrementalSync: null,
-    totalSyncs: 0,
-    failedSyncs: 0,
-    documentsProcessed: 0,
-    errors: [],
-  };
-
-  // Configuration for your Notion databases
-  private readonly notionDatabases = [
-    {
-      id: process.env.NOTION_MEETING_NOTES_DB_ID || '',
-      type: 'notion_meeting_notes' as const,
-      name: 'Meeting Notes',
-    },
-    {
-      id: process.env.NOTION_CLIENT_PAGES_DB_ID || '',
-      type: 'notion_client_page' as const,
-      name: 'Client Pages',
-    },
-    {
-      id: process.env.NOTION_WEBSITE_OUTLINE_DB_ID || '',
-      type: 'notion_website_outline' as const,
-      name: 'Website Outline',
-    },
-  ];
-
-  // Client database configuration
-  private readonly clientDatabaseId = '20f9a8eee622805ea2ecd18f3d424818';
+  // Cron jobs built from sync sources; replaced on every reload
+  private sourceTasks: cron.ScheduledTask[] = [];
+  private maintenanceTask: cron.ScheduledTask | null = null;
+  private refreshTimer: NodeJS.Timeout | null = null;
+  private leaderTimer: NodeJS.Timeout | null = null;
+  // Sources as last scheduled, to detect changes on refresh
+  private scheduledFingerprint = '';
+  // Every replica schedules the cron jobs, but only the leader acts on them
+  private isLeader = false;
 
   start(): void {
-    logger.info('Starting enhanced sync scheduler with smart scheduling...');
-
-    // Business hours incremental sync (every 30 minutes, Mon-Fri, 9 AM - 6 PM)
-    const businessHoursSync = cron.schedule('*/30 9-18 * * 1-5', async () => {
-      await this.performIncrementalSync();
-    }, {
-      scheduled: false,
-      timezone: 'America/New_York', // Adjust to your timezone
-    });
-
-    // Client sync (every 2 hours during business hours)
-    const clientSync = cron.schedule('0 */2 9-18 * * 1-5', async () => {
-      await this.performClientSync();
-    }, {
-      scheduled: false,
-      timezone: 'America/New_York',
-    });
-
-    // Evening sync (6 PM, Mon-Fri) - more thorough
-    const eveningSync = cron.schedule('0 18 * * 1-5', async () => {
-      await this.performIncrementalSync(2); // Last 2 hours
-    }, {
-      scheduled: false,
-      timezone: 'America/New_York',
-    });
-
-    // Daily full sync (2 AM every day)
-    const dailyFullSync = cron.schedule('0 2 * * *', async () => {
-      await this.performFullSync();
-    }, {
-      scheduled: false,
-      timezone: 'America/New_York',
-    });
+    logger.info('Starting sync scheduler...', { instanceId: lockService.instanceId });
 
     // Weekly cleanup (Sunday 3 AM)
-    const weeklyCleanup = cron.schedule('0 3 * * 0', async () => {
+    this.maintenanceTask = cron.schedule('0 3 * * 0', async () => {
+      if (!this.isLeader) return;
       await this.performWeeklyMaintenance();
     }, {
-      scheduled: false,
       timezone: 'America/New_York',
     });
 
-    // Start all tasks
-    businessHoursSync.start();
-    clientSync.start();
-    eveningSync.start();
-    dailyFullSync.start();
-    weeklyCleanup.start();
+    this.leaderTimer = setInterval(() => this.maintainLeadership(), LEADER_RENEW_INTERVAL_MS);
 
-    this.tasks.push(businessHoursSync, clientSync, eveningSync, dailyFullSync, weeklyCleanup);
-    
-          logger.info('Enhanced sync scheduler started with multiple sync strategies:', {
-        businessHoursSync: 'Every 30min, Mon-Fri 9AM-6PM',
-        clientSync: 'Every 2hrs, Mon-Fri 9AM-6PM',
-        eveningSync: 'Daily 6PM Mon-Fri',
-        dailyFullSync: 'Daily 2AM',
-        weeklyCleanup: 'Sunday 3AM',
-        timezone: 'America/New_York',
-        databasesConfigured: this.notionDatabases.filter(db => db.id).length,
+    this.refreshTimer = setInterval(() => {
+      this.refresh().catch(error => {
+        logger.error('Failed to refresh sync sources:', { error });
       });
+    }, SOURCE_REFRESH_INTERVAL_MS);
+
+    this.maintainLeadership()
+      .then(() => syncSourceService.seedFromEnvironment())
+      .then(() => this.reload())
+      .then(() => {
+        // Catch up on edits made while the scheduler was down
+        setTimeout(() => {
+          if (!this.isLeader) return;
+          this.performIncrementalSync('cron').catch(error => {
+            logger.error('Initial sync failed:', { error });
+          });
+        }, 5000); // Wait 5 seconds after startup
+      })
+      .catch(error => {
+        logger.error('Failed to load sync sources:', { error });
+      });
+  }
 
-    // Perform initial sync if no recent sync exists
-    if (!this.stats.lastFullSync) {
-      setTimeout(() => {
-        this.performIncrementalSync().catch(error => {
-          logger.error('Initial sync failed:', { error });
-        });
-      }, 5000); // Wait 5 seconds after startup
-    }
+  /**
+   * Rebuild the cron jobs from the enabled sync sources. Called after sources
+   * change; syncs already running finish undisturbed.
+   */
+  async reload(): Promise<void> {
+    const sources = await syncSourceService.list({ enabled: true });
+    this.schedule(sources);
   }
 
   /**
-   * Perform incremental sync (only recent changes)
+   * Reload only if the sources changed since they were last scheduled
    */
-  private async performIncrementalSync(hoursBack: number = 1): Promise<void> {
-    const syncStartTime = Date.now();
-    
-    try {
-      logger.info('Starting incremental sync...', { hoursBack });
-      
-      const sinceDate = new Date(Date.now() - hoursBack * 60 * 60 * 1000);
-      let totalDocuments = 0;
-      const errors: string[] = [];
-
-      for (const database of this.notionDatabases) {
-        if (!database.id) {
-          logger.warn(`Skipping ${database.name} - no database ID configured`);
-          continue;
-        }
+  private async refresh(): Promise<void> {
+    const sources = await syncSourceService.list({ enabled: true });
+    if (this.fingerprint(sources) !== this.scheduledFingerprint) {
+      logger.info('Sync sources changed, rescheduling');
+      this.schedule(sources);
+    }
+  }
 
-        try {
-          logger.info(`Syncing ${database.name} (${database.type})...`, {
-            databaseId: database.id,
-            since: sinceDate.toISOString(),
-          });
+  private schedule(sources: SyncSource[]): void {
+    this.sourceTasks.forEach(task => task.stop());
+    this.sourceTasks = [];
 
-          await notionService.syncUpdatedPages(database.id, database.type, sinceDate);
-          totalDocuments++; // This would be actual document count in a real implementation
-          
-          logger.info(`Successfully synced ${database.name}`);
-        } catch (dbError) {
-          const errorMsg = `Failed to sync ${database.name}: ${dbError instanceof Error ? dbError.message : 'Unknown error'}`;
-          errors.push(errorMsg);
-          logger.error(errorMsg, { 
-            databaseId: database.id, 
-            type: database.type,
-            error: dbError 
-          });
-        }
+    for (const source of sources) {
+      const schedules: Array<{ expression: string; mode: SyncMode }> = [{ expression: source.cron, mode: 'incremental' }];
+      if (source.fullSyncCron) {
+        schedules.push({ expression: source.fullSyncCron, mode: 'full' });
       }
 
-      // Update stats
-      this.stats.lastIncrementalSync = new Date();
-      this.stats.totalSyncs++;
-      this.stats.documentsProcessed += totalDocuments;
-      
-      if (errors.length > 0) {
-        this.stats.failedSyncs++;
-        this.stats.errors.push(...errors.slice(0, 5)); // Keep last 5 errors
-        this.stats.errors = this.stats.errors.slice(-10); // Keep only last 10 errors total
+      for (const { expression, mode } of schedules) {
+        try {
+          this.sourceTasks.push(cron.schedule(expression, async () => {
+            if (!this.isLeader) return;
+            await this.runSource(source, mode, 'cron').catch(() => undefined); // logged by runSource
+          }, {
+            timezone: source.timezone,
+          }));
+        } catch (error) {
+          logger.error('Failed to schedule sync source:', { error, sourceId: source.id, expression, timezone: source.timezone });
+        }
       }
+    }
 
-      const syncDuration = Date.now() - syncStartTime;
-      
-      logger.info('Incremental sync completed', {
-        duration: syncDuration,
-        documentsProcessed: totalDocuments,
-        errors: errors.length,
-        successRate: `${((this.stats.totalSyncs - this.stats.failedSyncs) / this.stats.totalSyncs * 100).toFixed(1)}%`,
-      });
+    this.scheduledFingerprint = this.fingerprint(sources);
+
+    logger.info('Sync sources scheduled:', {
+      sources: sources.map(source => ({
+        name: source.name,
+        sourceType: source.sourceType,
+        cron: source.cron,
+        fullSyncCron: source.fullSyncCron,
+        timezone: source.timezone,
+      })),
+    });
+  }
+
+  /**
+   * Renew the leader lease if held, otherwise try to take it. A leader that
+   * dies stops renewing, and another instance takes over once the lease expires.
+   */
+  private async maintainLeadership(): Promise<void> {
+    try {
+      const wasLeader = this.isLeader;
+      this.isLeader = (wasLeader && await lockService.renew(LEADER_LOCK, LEADER_LEASE_MS))
+        || await lockService.acquire(LEADER_LOCK, LEADER_LEASE_MS);
 
+      if (this.isLeader !== wasLeader) {
+        logger.info(this.isLeader ? 'Became sync scheduler leader' : 'Lost sync scheduler leadership', {
+          instanceId: lockService.instanceId,
+        });
+      }
     } catch (error) {
-      this.stats.failedSyncs++;
-      this.stats.errors.push(`Incremental sync failed: ${error instanceof Error ? error.message : 'Unknown error'}`);
-      
-      logger.error('Incremental sync failed:', { 
-        error, 
-        duration: Date.now() - syncStartTime 
-      });
+      // Can't confirm the lease, so don't assume it
+      this.isLeader = false;
+      logger.error('Failed to maintain scheduler leadership:', { error });
     }
   }
 
+  private fingerprint(sources: SyncSource[]): string {
+    return JSON.stringify(sources.map(source => [source.id, source.updatedAt]));
+  }
+
+  /**
+   * Perform incremental sync (pages edited since each database's sync cursor)
+   */
+  private async performIncrementalSync(trigger: SyncTrigger): Promise<void> {
+    await this.syncDatabases('incremental', trigger);
+  }
+
   /**
    * Perform full sync (all documents)
    */
-  private async performFullSync(): Promise<void> {
+  private async performFullSync(trigger: SyncTrigger): Promise<void> {
+    await this.syncDatabases('full', trigger);
+  }
+
+  /**
+   * Sync every enabled Notion database source, recording one sync run per
+   * database. A database that fails doesn't stop the others.
+   */
+  private async syncDatabases(mode: SyncMode, trigger: SyncTrigger): Promise<void> {
     const syncStartTime = Date.now();
-    
-    try {
-      logger.info('Starting full sync of all databases...');
-      
-      let totalDocuments = 0;
-      const errors: string[] = [];
+    const sources = (await syncSourceService.list({ enabled: true }))
+      .filter(source => source.sourceType !== 'notion_clients');
 
-      for (const database of this.notionDatabases) {
-        if (!database.id) {
-          logger.warn(`Skipping ${database.name} - no database ID configured`);
-          continue;
-        }
+    logger.info(`Starting ${mode} sync...`, { trigger, databases: sources.length });
 
-        try {
-          logger.info(`Full sync of ${database.name} (${database.type})...`, {
-            databaseId: database.id,
-          });
+    let documentsProcessed = 0;
+    let failedDatabases = 0;
 
-          await notionService.syncNotionDatabase(database.id, database.type);
-          totalDocuments++; // This would be actual document count in a real implementation
-          
-          logger.info(`Successfully completed full sync of ${database.name}`);
-          
-          // Small delay between databases to avoid rate limiting
-          await this.delay(2000);
-          
-        } catch (dbError) {
-          const errorMsg = `Failed to sync ${database.name}: ${dbError instanceof Error ? dbError.message : 'Unknown error'}`;
-          errors.push(errorMsg);
-          logger.error(errorMsg, { 
-            databaseId: database.id, 
-            type: database.type,
-            error: dbError 
-          });
-        }
+    for (const source of sources) {
+      try {
+        documentsProcessed += await this.runSource(source, mode, trigger);
+      } catch (dbError) {
+        failedDatabases++;
       }
 
-      // Update stats
-      this.stats.lastFullSync = new Date();
-      this.stats.totalSyncs++;
-      this.stats.documentsProcessed += totalDocuments;
-      
-      if (errors.length > 0) {
-        this.stats.failedSyncs++;
-        this.stats.errors.push(...errors.slice(0, 5));
-        this.stats.errors = this.stats.errors.slice(-10);
+      if (mode === 'full') {
+        // Small delay between databases to avoid rate limiting
+        await this.delay(2000);
       }
+    }
 
-      const syncDuration = Date.now() - syncStartTime;
-      
-      logger.info('Full sync completed', {
-        duration: syncDuration,
-        documentsProcessed: totalDocuments,
-        errors: errors.length,
-        totalSyncs: this.stats.totalSyncs,
-        successRate: `${((this.stats.totalSyncs - this.stats.failedSyncs) / this.stats.totalSyncs * 100).toFixed(1)}%`,
-      });
+    logger.info(`${mode === 'full' ? 'Full' : 'Incremental'} sync completed`, {
+      duration: Date.now() - syncStartTime,
+      documentsProcessed,
+      failedDatabases,
+    });
+  }
+
+  /**
+   * Sync one source. Returns how many documents were created, updated or
+   * deleted. Skipped if the source is already syncing on any instance.
+   */
+  private async runSource(source: SyncSource, mode: SyncMode, trigger: SyncTrigger): Promise<number> {
+    logger.info(`Syncing ${source.name} (${source.sourceType})...`, {
+      databaseId: source.resourceId,
+      mode,
+      trigger,
+    });
+
+    // The clients sync takes its own lock, as it's also started from the admin API
+    if (source.sourceType === 'notion_clients') {
+      await this.performClientSync(source, mode, trigger);
+      return 0;
+    }
+
+    try {
+      const sourceType = source.sourceType;
+      const locked = await lockService.withLock(syncLockName('notion', source.resourceId), () => syncRunService.record(
+        { source: 'notion', resourceId: source.resourceId, resourceName: source.name, clientId: source.clientId, trigger, mode },
+        () => mode === 'full'
+          ? notionService.syncNotionDatabase(source.resourceId, sourceType, source.clientId)
+          : notionService.syncUpdatedPages(source.resourceId, sourceType, source.clientId)
+      ));
+
+      if (!locked.acquired) {
+        logger.warn(`Skipping ${source.name} - already syncing`, { sourceId: source.id, mode, holder: locked.holder });
+        return 0;
+      }
 
+      logger.info(`Successfully synced ${source.name}`);
+      return locked.result.created + locked.result.updated + locked.result.deleted;
     } catch (error) {
-      this.stats.failedSyncs++;
-      this.stats.errors.push(`Full sync failed: ${error instanceof Error ? error.message : 'Unknown error'}`);
-      
-      logger.error('Full sync failed:', { 
-        error, 
-        duration: Date.now() - syncStartTime 
+      logger.error(`Failed to sync ${source.name}: ${error instanceof Error ? error.message : 'Unknown error'}`, {
+        databaseId: source.resourceId,
+        type: source.sourceType,
+        error,
       });
+      throw error;
     }
   }
 
   /**
-   * Perform client synchronization
+   * Perform client synchronization. Incremental runs pick up clients edited
+   * since the last successful run.
    */
-  private async performClientSync(): Promise<void> {
+  private async performClientSync(source: SyncSource, mode: SyncMode, trigger: SyncTrigger): Promise<void> {
     const syncStartTime = Date.now();
     
     try {
-      logger.info('Starting client sync...');
-      
-      // Sync updated clients (last 2 hours)
-      const sinceDate = new Date(Date.now() - 2 * 60 * 60 * 1000);
-      const result = await clientSyncService.syncUpdatedClients(sinceDate);
+      logger.info('Starting client sync...', { mode });
+
+      let result;
+      if (mode === 'full') {
+        result = await clientSyncService.syncAllClients(source.resourceId, trigger);
+      } else {
+        const { runs } = await syncRunService.list({
+          source: 'notion_clients',
+          resourceId: source.resourceId,
+          status: 'succeeded',
+          limit: 1,
+        });
+        const sinceDate = runs[0]
+          ? new Date(runs[0].startedAt)
+          : new Date(Date.now() - CLIENT_SYNC_DEFAULT_LOOKBACK_MS);
+        result = await clientSyncService.syncUpdatedClients(source.resourceId, sinceDate, trigger);
+      }
       
       if (result.success) {
         logger.info('Client sync completed successfully:', result.stats);
       } else {
         logger.error('Client sync failed:', result.stats);
-        this.stats.failedSyncs++;
       }
 
       const syncDuration = Date.now() - syncStartTime;
@@ -289,7 +298,6 @@ export class SyncScheduler {
       });
 
     } catch (error) {
-      this.stats.failedSyncs++;
       logger.error('Client sync failed:', { 
         error, 
         duration: Date.now() - syncStartTime 
@@ -304,23 +312,24 @@ export class SyncScheduler {
     try {
       logger.info('Starting weekly maintenance...');
 
-      // Clear old error logs
-      this.stats.errors = this.stats.errors.slice(-5);
+      const stats = await this.getStats();
 
       // Log weekly stats
       logger.info('Weekly sync statistics:', {
-        totalSyncs: this.stats.totalSyncs,
-        failedSyncs: this.stats.failedSyncs,
-        successRate: this.stats.totalSyncs > 0 
-          ? `${((this.stats.totalSyncs - this.stats.failedSyncs) / this.stats.totalSyncs * 100).toFixed(1)}%`
+        totalSyncs: stats.totalSyncs,
+        failedSyncs: stats.failedSyncs,
+        successRate: stats.totalSyncs > 0 
+          ? `${((stats.totalSyncs - stats.failedSyncs) / stats.totalSyncs * 100).toFixed(1)}%`
           : '0%',
-        documentsProcessed: this.stats.documentsProcessed,
-        lastFullSync: this.stats.lastFullSync?.toISOString(),
-        lastIncrementalSync: this.stats.lastIncrementalSync?.toISOString(),
+        documentsProcessed: stats.documentsProcessed,
+        lastFullSync: stats.lastFullSync?.toISOString(),
+        lastIncrementalSync: stats.lastIncrementalSync?.toISOString(),
       });
 
+      const pruned = await syncRunService.prune(new Date(Date.now() - RUN_RETENTION_DAYS * 24 * 60 * 60 * 1000));
+      logger.info('Old sync runs pruned:', { pruned, retentionDays: RUN_RETENTION_DAYS });
+
       // TODO: Add cleanup tasks like:
-      // - Remove old document versions
       // - Optimize embeddings storage
       // - Cleanup analytics data
       
@@ -334,64 +343,79 @@ export class SyncScheduler {
   /**
    * Manual sync trigger
    */
-  async triggerManualSync(type: 'incremental' | 'full' = 'incremental'): Promise<{
+  async triggerManualSync(type: SyncMode = 'incremental', trigger: SyncTrigger = 'manual'): Promise<{
     success: boolean;
     message: string;
     stats: SyncStats;
   }> {
     try {
-      logger.info('Manual sync triggered:', { type });
+      logger.info('Manual sync triggered:', { type, trigger });
       
       if (type === 'full') {
-        await this.performFullSync();
+        await this.performFullSync(trigger);
       } else {
-        await this.performIncrementalSync();
+        await this.performIncrementalSync(trigger);
       }
 
       return {
         success: true,
         message: `${type} sync completed successfully`,
-        stats: this.getStats(),
+        stats: await this.getStats(),
       };
     } catch (error) {
       logger.error('Manual sync failed:', { error, type });
       return {
         success: false,
         message: `${type} sync failed: ${error instanceof Error ? error.message : 'Unknown error'}`,
-        stats: this.getStats(),
+        stats: await this.getStats(),
       };
     }
   }
 
   /**
-   * Get current sync statistics
+   * Sync statistics over the last week of Notion database runs
    */
-  getStats(): SyncStats {
-    return { ...this.stats };
+  async getStats(): Promise<SyncStats> {
+    const runs = await this.recentDatabaseRuns(STATS_WINDOW_MS);
+    const lastFinished = (mode: SyncMode) => {
+      const run = runs.find(candidate => candidate.mode === mode && candidate.finishedAt);
+      return run ? new Date(run.finishedAt!) : null;
+    };
+
+    return {
+      lastFullSync: lastFinished('full'),
+      lastIncrementalSync: lastFinished('incremental'),
+      totalSyncs: runs.length,
+      failedSyncs: runs.filter(run => run.status === 'failed' || run.status === 'partial').length,
+      documentsProcessed: runs.reduce((sum, run) => sum + run.created + run.updated + run.deleted, 0),
+      errors: runs.flatMap(run => run.errors).slice(0, 10),
+    };
   }
 
   /**
-   * Check if sync is healthy
+   * Check if sync is healthy, judged by the last day of recorded runs
    */
-  isHealthy(): boolean {
+  async isHealthy(): Promise<boolean> {
     const now = new Date();
-    const lastSync = this.stats.lastIncrementalSync || this.stats.lastFullSync;
+    const runs = await this.recentDatabaseRuns(HEALTH_WINDOW_MS);
+    const lastRun = runs.find(run => run.finishedAt);
     
-    if (!lastSync) {
-      return false; // No sync has ever run
+    if (!lastRun) {
+      return false; // No sync has run recently
     }
 
     // Consider unhealthy if no sync in last 2 hours during business hours
-    const hoursSinceLastSync = (now.getTime() - lastSync.getTime()) / (1000 * 60 * 60);
+    const hoursSinceLastSync = (now.getTime() - Date.parse(lastRun.finishedAt!)) / (1000 * 60 * 60);
     const isBusinessHours = now.getHours() >= 9 && now.getHours() <= 18;
     
     if (isBusinessHours && hoursSinceLastSync > 2) {
       return false;
     }
 
-    // Consider unhealthy if more than 25% of syncs are failing
-    const failureRate = this.stats.totalSyncs > 0 
-      ? (this.stats.failedSyncs / this.stats.totalSyncs) 
+    // Consider unhealthy if more than 25% of runs are failing
+    const finished = runs.filter(run => run.status !== 'running');
+    const failureRate = finished.length > 0
+      ? finished.filter(run => run.status === 'failed' || run.status === 'partial').length / finished.length
       : 0;
     
     return failureRate < 0.25;
@@ -400,10 +424,60 @@ export class SyncScheduler {
   /**
    * Stop all scheduled tasks
    */
-  stop(): void {
-    this.tasks.forEach(task => task.stop());
-    this.tasks = [];
-    logger.info('Enhanced sync scheduler stopped');
+  async stop(): Promise<void> {
+    this.sourceTasks.forEach(task => task.stop());
+    this.sourceTasks = [];
+    this.maintenanceTask?.stop();
+    this.maintenanceTask = null;
+    if (this.refreshTimer) clearInterval(this.refreshTimer);
+    if (this.leaderTimer) clearInterval(this.leaderTimer);
+    this.refreshTimer = null;
+    this.leaderTimer = null;
+
+    // Hand leadership over now rather than after the lease expires
+    if (this.isLeader) {
+      this.isLeader = false;
+      await lockService.release(LEADER_LOCK).catch(error => {
+        logger.warn('Failed to release scheduler leadership:', { error });
+      });
+    }
+
+    logger.info('Sync scheduler stopped');
+  }
+
+  /**
+   * Which instance leads the scheduler, and which sources are syncing where
+   */
+  async getLockStatus(): Promise<SyncLockStatus> {
+    const sources = await syncSourceService.list({ enabled: true });
+    const [leader, ...sourceLocks] = await Promise.all([
+      lockService.getLock(LEADER_LOCK),
+      ...sources.map(source => lockService.getLock(
+        syncLockName(source.sourceType === 'notion_clients' ? 'notion_clients' : 'notion', source.resourceId)
+      )),
+    ]);
+
+    return {
+      instanceId: lockService.instanceId,
+      isLeader: this.isLeader,
+      leader,
+      running: sources.flatMap((source, i) => {
+        const lock = sourceLocks[i];
+        return lock ? [{ ...lock, sourceId: source.id, sourceName: source.name }] : [];
+      }),
+    };
+  }
+
+  /**
+   * Notion database runs started within the window, newest first
+   */
+  private async recentDatabaseRuns(windowMs: number): Promise<SyncRun[]> {
+    const { runs } = await syncRunService.list({
+      source: 'notion',
+      since: new Date(Date.now() - windowMs).toISOString(),
+      limit: 1000,
+    });
+    return runs;
   }
 
   /**
@@ -0,0 +1,287 @@
+import * as cron from 'node-cron';
+import { v4 as uuidv4 } from 'uuid';
+import { supabase } from '../utils/database';
+import { logger } from '../utils/logger';
+import { ConflictError, NotFoundError, ValidationError } from '../types/errors';
+import { NotionSourceType, normalizeNotionId } from './notion';
+import { tenantService } from './tenants';
+
+// Notion databases synced into documents, plus the client directory database
+export type SyncSourceType = NotionSourceType | 'notion_clients';
+
+export const SYNC_SOURCE_TYPES: SyncSourceType[] = [
+  'notion_meeting_notes',
+  'notion_client_page',
+  'notion_website_outline',
+  'notion_clients',
+];
+
+/**
+ * A resource synced on a schedule. `cron` runs incremental syncs; the optional
+ * `fullSyncCron` runs full syncs, which also remove documents for deleted pages.
+ */
+export interface SyncSource {
+  id: string;
+  clientId: string;
+  name: string;
+  sourceType: SyncSourceType;
+  resourceId: string;
+  cron: string;
+  fullSyncCron: string | null;
+  timezone: string;
+  enabled: boolean;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export type SyncSourceInput = Pick<SyncSource, 'clientId' | 'name' | 'sourceType' | 'resourceId'>
+  & Partial<Pick<SyncSource, 'cron' | 'fullSyncCron' | 'timezone' | 'enabled'>>;
+
+export type SyncSourceUpdate = Partial<Omit<SyncSourceInput, 'clientId'>>;
+
+const DEFAULT_TIMEZONE = 'America/New_York';
+// Every 30 minutes, Mon-Fri 9AM-6PM
+const DEFAULT_CRON = '*/30 9-18 * * 1-5';
+// Daily 2AM
+const DEFAULT_FULL_SYNC_CRON = '0 2 * * *';
+// Every 2 hours, Mon-Fri 9AM-6PM
+const DEFAULT_CLIENTS_CRON = '0 9-18/2 * * 1-5';
+
+/**
+ * Sync sources registered per client in `sync_sources`. The scheduler builds
+ * its cron jobs from the enabled ones.
+ */
+export class SyncSourceService {
+  private static instance: SyncSourceService;
+  // Used when Supabase isn't configured; sources then only last for the process
+  private memory = new Map<string, SyncSource>();
+
+  public static getInstance(): SyncSourceService {
+    if (!SyncSourceService.instance) {
+      SyncSourceService.instance = new SyncSourceService();
+    }
+    return SyncSourceService.instance;
+  }
+
+  private constructor() {}
+
+  async list(filters: { clientId?: string; sourceType?: SyncSourceType; enabled?: boolean } = {}): Promise<SyncSource[]> {
+    if (!supabase) {
+      return [...this.memory.values()]
+        .filter(source => (!filters.clientId || source.clientId === filters.clientId)
+          && (!filters.sourceType || source.sourceType === filters.sourceType)
+          && (filters.enabled === undefined || source.enabled === filters.enabled))
+        .sort((a, b) => a.createdAt.localeCompare(b.createdAt));
+    }
+
+    let query = supabase.from('sync_sources').select('*').order('created_at', { ascending: true });
+    if (filters.clientId) query = query.eq('client_id', filters.clientId);
+    if (filters.sourceType) query = query.eq('source_type', filters.sourceType);
+    if (filters.enabled !== undefined) query = query.eq('enabled', filters.enabled);
+
+    const { data, error } = await query;
+    if (error) {
+      logger.error('Error listing sync sources:', { error, filters });
+      throw error;
+    }
+
+    return (data || []).map(fromRow);
+  }
+
+  async get(id: string): Promise<SyncSource> {
+    if (!supabase) {
+      const source = this.memory.get(id);
+      if (!source) throw new NotFoundError('Sync source not found');
+      return source;
+    }
+
+    const { data, error } = await supabase.from('sync_sources').select('*').eq('id', id).maybeSingle();
+    if (error) {
+      logger.error('Error fetching sync source:', { error, id });
+      throw error;
+    }
+    if (!data) {
+      throw new NotFoundError('Sync source not found');
+    }
+
+    return fromRow(data);
+  }
+
+  async create(input: SyncSourceInput): Promise<SyncSource> {
+    const now = new Date().toISOString();
+    const source: SyncSource = {
+      id: uuidv4(),
+      clientId: await tenantService.resolveId(input.clientId),
+      name: input.name,
+      sourceType: input.sourceType,
+      resourceId: input.resourceId,
+      cron: input.cron || (input.sourceType === 'notion_clients' ? DEFAULT_CLIENTS_CRON : DEFAULT_CRON),
+      fullSyncCron: input.fullSyncCron !== undefined
+        ? input.fullSyncCron
+        : (input.sourceType === 'notion_clients' ? null : DEFAULT_FULL_SYNC_CRON),
+      timezone: input.timezone || DEFAULT_TIMEZONE,
+      enabled: input.enabled ?? true,
+      createdAt: now,
+      updatedAt: now,
+    };
+
+    this.validate(source);
+    source.resourceId = normalizeNotionId(source.resourceId);
+    await this.assertUnique(source);
+
+    if (!supabase) {
+      this.memory.set(source.id, source);
+    } else {
+      const { error } = await supabase.from('sync_sources').insert(toRow(source));
+      if (error) {
+        logger.error('Error creating sync source:', { error, source });
+        throw error;
+      }
+    }
+
+    logger.info('Sync source created:', { id: source.id, name: source.name, sourceType: source.sourceType });
+    return source;
+  }
+
+  async update(id: string, changes: SyncSourceUpdate): Promise<SyncSource> {
+    const existing = await this.get(id);
+    const updated: SyncSource = {
+      ...existing,
+      ...Object.fromEntries(Object.entries(changes).filter(([, value]) => value !== undefined)),
+      updatedAt: new Date().toISOString(),
+    };
+
+    this.validate(updated);
+    updated.resourceId = normalizeNotionId(updated.resourceId);
+    if (updated.resourceId !== existing.resourceId || updated.sourceType !== existing.sourceType) {
+      await this.assertUnique(updated);
+    }
+
+    if (!supabase) {
+      this.memory.set(id, updated);
+    } else {
+      const { error } = await supabase.from('sync_sources').update(toRow(updated)).eq('id', id);
+      if (error) {
+        logger.error('Error updating sync source:', { error, id });
+        throw error;
+      }
+    }
+
+    logger.info('Sync source updated:', { id, changes: Object.keys(changes) });
+    return updated;
+  }
+
+  async delete(id: string): Promise<void> {
+    await this.get(id);
+
+    if (!supabase) {
+      this.memory.delete(id);
+    } else {
+      const { error } = await supabase.from('sync_sources').delete().eq('id', id);
+      if (error) {
+        logger.error('Error deleting sync source:', { error, id });
+        throw error;
+      }
+    }
+
+    logger.info('Sync source deleted:', { id });
+  }
+
+  /**
+   * Register the Notion databases from the NOTION_*_DB_ID variables under the
+   * master client, for source types nothing is registered for yet. Lets
+   * deployments configured through the environment keep syncing after upgrading.
+   */
+  async seedFromEnvironment(): Promise<number> {
+    const registered = new Set((await this.list()).map(source => source.sourceType));
+
+    const legacy: Array<{ env: string; name: string; sourceType: SyncSourceType }> = [
+      { env: 'NOTION_MEETING_NOTES_DB_ID', name: 'Meeting Notes', sourceType: 'notion_meeting_notes' },
+      { env: 'NOTION_CLIENT_PAGES_DB_ID', name: 'Client Pages', sourceType: 'notion_client_page' },
+      { env: 'NOTION_WEBSITE_OUTLINE_DB_ID', name: 'Website Outline', sourceType: 'notion_website_outline' },
+      { env: 'NOTION_CLIENTS_DB_ID', name: 'Clients', sourceType: 'notion_clients' },
+    ];
+
+    let seeded = 0;
+    for (const { env, name, sourceType } of legacy) {
+      const resourceId = process.env[env];
+      if (!resourceId || registered.has(sourceType)) continue;
+
+      await this.create({ clientId: (await tenantService.getMaster()).id, name, sourceType, resourceId });
+      seeded++;
+    }
+
+    if (seeded > 0) {
+      logger.info('Sync sources registered from environment:', { seeded });
+    }
+    return seeded;
+  }
+
+  private validate(source: SyncSource): void {
+    if (!source.name?.trim()) {
+      throw new ValidationError('name is required');
+    }
+    if (!SYNC_SOURCE_TYPES.includes(source.sourceType)) {
+      throw new ValidationError(`sourceType must be one of: ${SYNC_SOURCE_TYPES.join(', ')}`);
+    }
+    if (!source.resourceId?.trim()) {
+      throw new ValidationError('resourceId is required');
+    }
+    if (!cron.validate(source.cron)) {
+      throw new ValidationError(`Invalid cron expression: ${source.cron}`);
+    }
+    if (source.fullSyncCron && !cron.validate(source.fullSyncCron)) {
+      throw new ValidationError(`Invalid cron expression: ${source.fullSyncCron}`);
+    }
+    if (typeof source.enabled !== 'boolean') {
+      throw new ValidationError('enabled must be a boolean');
+    }
+
+    try {
+      new Intl.DateTimeFormat('en-US', { timeZone: source.timezone });
+    } catch {
+      throw new ValidationError(`Unknown timezone: ${source.timezone}`);
+    }
+  }
+
+  private async assertUnique(source: SyncSource): Promise<void> {
+    const existing = await this.list({ clientId: source.clientId, sourceType: source.sourceType });
+    if (existing.some(other => other.id !== source.id && other.resourceId === source.resourceId)) {
+      throw new ConflictError('This resource is already registered for the client');
+    }
+  }
+}
+
+function toRow(source: SyncSource): Record<string, any> {
+  return {
+    id: source.id,
+    client_id: source.clientId,
+    name: source.name,
+    source_type: source.sourceType,
+    resource_id: source.resourceId,
+    cron: source.cron,
+    full_sync_cron: source.fullSyncCron,
+    timezone: source.timezone,
+    enabled: source.enabled,
+    created_at: source.createdAt,
+    updated_at: source.updatedAt,
+  };
+}
+
+function fromRow(row: any): SyncSource {
+  return {
+    id: row.id,
+    clientId: row.client_id,
+    name: row.name,
+    sourceType: row.source_type,
+    resourceId: row.resource_id,
+    cron: row.cron,
+    fullSyncCron: row.full_sync_cron,
+    timezone: row.timezone,
+    enabled: row.enabled,
+    createdAt: row.created_at,
+    updatedAt: row.updated_at,
+  };
+}
+
+export const syncSourceService = SyncSourceService.getInstance();
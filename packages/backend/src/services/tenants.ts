@@ -0,0 +1,382 @@
+import { v4 as uuidv4 } from 'uuid';
+import { supabase } from '../utils/database';
+import { logger } from '../utils/logger';
+import { isTenantDbConfigured, withTenant } from '../utils/tenantDb';
+import { ConflictError, NotFoundError, ValidationError } from '../types/errors';
+import { getVectorIndex } from './vectorIndex';
+import { routingService } from './routing';
+import { syncSourceService } from './syncSources';
+
+/**
+ * - active: users can sign in and content is synced into it
+ * - suspended: sign-in and API access are refused; data and syncs are kept
+ * - archived: its documents, chunks and conversations have been deleted;
+ *   it no longer resolves. Archiving can't be undone.
+ */
+export type TenantStatus = 'active' | 'suspended' | 'archived';
+
+export const TENANT_STATUSES: TenantStatus[] = ['active', 'suspended', 'archived'];
+
+/**
+ * A client (tenant) from the `clients` table
+ */
+export interface Tenant {
+  id: string;
+  name: string;
+  slug: string;
+  status: TenantStatus;
+  settings: Record<string, any>;
+  suspendedAt: string | null;
+  archivedAt: string | null;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface TenantInput {
+  name: string;
+  slug: string;
+  settings?: Record<string, any>;
+}
+
+export type TenantUpdate = Partial<TenantInput>;
+
+export interface TenantArchiveResult {
+  tenant: Tenant;
+  deleted: {
+    documents: number;
+    conversations: number;
+    syncSources: number;
+    routingRules: number;
+  };
+}
+
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+const SLUG_PATTERN = /^[a-z0-9]+(?:-[a-z0-9]+)*$/;
+const TENANT_CACHE_TTL_MS = 60_000;
+
+// The tenant synced content goes to when no routing rule claims it (UUID or slug).
+// Defaults to the sample client from schema.sql.
+const MASTER_CLIENT = process.env.MASTER_CLIENT || 'demo';
+
+export function isUuid(value: string): boolean {
+  return UUID_PATTERN.test(value);
+}
+
+/**
+ * Registry of tenants in `clients`, resolved by UUID or slug. Lookups are
+ * cached briefly; unknown and archived tenants are NotFoundErrors.
+ */
+export class TenantService {
+  private static instance: TenantService;
+  // Used when Supabase isn't configured: the sample client, plus any created in the process
+  private memory = new Map<string, Tenant>();
+  private cache = new Map<string, { tenant: Tenant; expiresAt: number }>();
+
+  public static getInstance(): TenantService {
+    if (!TenantService.instance) {
+      TenantService.instance = new TenantService();
+    }
+    return TenantService.instance;
+  }
+
+  private constructor() {
+    if (!supabase) {
+      const now = new Date().toISOString();
+      this.memory.set('f47ac10b-58cc-4372-a567-0e02b2c3d479', {
+        id: 'f47ac10b-58cc-4372-a567-0e02b2c3d479',
+        name: 'Demo Client',
+        slug: 'demo',
+        status: 'active',
+        settings: {},
+        suspendedAt: null,
+        archivedAt: null,
+        createdAt: now,
+        updatedAt: now,
+      });
+    }
+  }
+
+  /**
+   * Look up a tenant by UUID or slug
+   */
+  async resolve(ref: string): Promise<Tenant> {
+    const cached = this.cache.get(ref);
+    if (cached && cached.expiresAt > Date.now()) {
+      return cached.tenant;
+    }
+
+    const tenant = await this.find(ref);
+    if (!tenant || tenant.status === 'archived') {
+      throw new NotFoundError(`Unknown client: ${ref}`);
+    }
+
+    const expiresAt = Date.now() + TENANT_CACHE_TTL_MS;
+    this.cache.set(tenant.id, { tenant, expiresAt });
+    this.cache.set(tenant.slug, { tenant, expiresAt });
+    return tenant;
+  }
+
+  async resolveId(ref: string): Promise<string> {
+    return (await this.resolve(ref)).id;
+  }
+
+  /**
+   * The tenant unrouted synced content goes to (MASTER_CLIENT)
+   */
+  async getMaster(): Promise<Tenant> {
+    return this.resolve(MASTER_CLIENT);
+  }
+
+  async list(filters: { status?: TenantStatus } = {}): Promise<Tenant[]> {
+    if (!supabase) {
+      return [...this.memory.values()]
+        .filter(tenant => !filters.status || tenant.status === filters.status)
+        .sort((a, b) => a.name.localeCompare(b.name));
+    }
+
+    let query = supabase.from('clients').select('*').order('name', { ascending: true });
+    if (filters.status) query = query.eq('status', filters.status);
+
+    const { data, error } = await query;
+    if (error) {
+      logger.error('Error listing tenants:', { error, filters });
+      throw error;
+    }
+
+    return (data || []).map(fromRow);
+  }
+
+  /**
+   * A tenant by UUID or slug, archived ones included
+   */
+  async get(ref: string): Promise<Tenant> {
+    const tenant = await this.find(ref);
+    if (!tenant) {
+      throw new NotFoundError('Client not found');
+    }
+    return tenant;
+  }
+
+  async create(input: TenantInput): Promise<Tenant> {
+    const now = new Date().toISOString();
+    const tenant: Tenant = {
+      id: uuidv4(),
+      name: input.name?.trim(),
+      slug: input.slug?.trim().toLowerCase(),
+      status: 'active',
+      settings: input.settings || {},
+      suspendedAt: null,
+      archivedAt: null,
+      createdAt: now,
+      updatedAt: now,
+    };
+
+    this.validate(tenant);
+    await this.assertSlugAvailable(tenant);
+    await this.save(tenant, 'insert');
+
+    logger.info('Tenant created:', { id: tenant.id, slug: tenant.slug });
+    return tenant;
+  }
+
+  /**
+   * Rename a tenant, change its slug or replace its settings
+   */
+  async update(ref: string, changes: TenantUpdate): Promise<Tenant> {
+    const existing = await this.getModifiable(ref);
+    const updated: Tenant = {
+      ...existing,
+      name: changes.name !== undefined ? changes.name.trim() : existing.name,
+      slug: changes.slug !== undefined ? changes.slug.trim().toLowerCase() : existing.slug,
+      settings: changes.settings !== undefined ? changes.settings : existing.settings,
+      updatedAt: new Date().toISOString(),
+    };
+
+    this.validate(updated);
+    if (updated.slug !== existing.slug) {
+      await this.assertSlugAvailable(updated);
+    }
+    await this.save(updated, 'update');
+
+    logger.info('Tenant updated:', { id: existing.id, changes: Object.keys(changes) });
+    return updated;
+  }
+
+  async suspend(ref: string): Promise<Tenant> {
+    const tenant = await this.getModifiable(ref);
+    if (tenant.status === 'suspended') return tenant;
+    await this.assertNotMaster(tenant, 'suspended');
+
+    const now = new Date().toISOString();
+    const suspended: Tenant = { ...tenant, status: 'suspended', suspendedAt: now, updatedAt: now };
+    await this.save(suspended, 'update');
+
+    logger.info('Tenant suspended:', { id: tenant.id });
+    return suspended;
+  }
+
+  async reactivate(ref: string): Promise<Tenant> {
+    const tenant = await this.getModifiable(ref);
+    if (tenant.status === 'active') return tenant;
+
+    const reactivated: Tenant = { ...tenant, status: 'active', suspendedAt: null, updatedAt: new Date().toISOString() };
+    await this.save(reactivated, 'update');
+
+    logger.info('Tenant reactivated:', { id: tenant.id });
+    return reactivated;
+  }
+
+  /**
+   * Archive a tenant and delete its data: documents and their chunks,
+   * conversations and their messages, and the sync sources and routing rules
+   * that would otherwise keep writing into it. Users and the row itself are kept
+   * for auditing. The caller reloads the sync scheduler.
+   */
+  async archive(ref: string): Promise<TenantArchiveResult> {
+    const tenant = await this.getModifiable(ref);
+    const { id } = tenant;
+    await this.assertNotMaster(tenant, 'archived');
+
+    // Archive first so the tenant stops resolving and signing in while its data goes
+    const now = new Date().toISOString();
+    const archived: Tenant = { ...tenant, status: 'archived', archivedAt: now, updatedAt: now };
+    await this.save(archived, 'update');
+
+    const syncSources = await syncSourceService.list({ clientId: id });
+    for (const source of syncSources) {
+      await syncSourceService.delete(source.id);
+    }
+
+    const routingRules = await routingService.list({ clientId: id });
+    for (const rule of routingRules) {
+      await routingService.delete(rule.id);
+    }
+
+    const documents = await getVectorIndex().deleteClient(id);
+    const conversations = await this.deleteConversations(id);
+
+    const deleted = { documents, conversations, syncSources: syncSources.length, routingRules: routingRules.length };
+    logger.info('Tenant archived:', { id, slug: tenant.slug, deleted });
+    return { tenant: archived, deleted };
+  }
+
+  private async deleteConversations(clientId: string): Promise<number> {
+    if (isTenantDbConfigured()) {
+      const { rowCount } = await withTenant(clientId, db =>
+        db.query('DELETE FROM public.conversations WHERE client_id = $1', [clientId]));
+      return rowCount || 0;
+    }
+    if (!supabase) return 0;
+
+    // Messages and feedback cascade with their conversation
+    const { data, error } = await supabase
+      .from('conversations')
+      .delete()
+      .eq('client_id', clientId)
+      .select('id');
+
+    if (error) {
+      logger.error('Error deleting tenant conversations:', { error, clientId });
+      throw error;
+    }
+
+    return data?.length || 0;
+  }
+
+  private async find(ref: string): Promise<Tenant | null> {
+    const column = isUuid(ref) ? 'id' : 'slug';
+
+    if (!supabase) {
+      return [...this.memory.values()].find(tenant => tenant[column] === ref) || null;
+    }
+
+    const { data, error } = await supabase.from('clients').select('*').eq(column, ref).maybeSingle();
+    if (error) {
+      logger.error('Error fetching tenant:', { error, ref });
+      throw error;
+    }
+
+    return data ? fromRow(data) : null;
+  }
+
+  private async save(tenant: Tenant, operation: 'insert' | 'update'): Promise<void> {
+    if (!supabase) {
+      this.memory.set(tenant.id, tenant);
+    } else {
+      const { error } = operation === 'insert'
+        ? await supabase.from('clients').insert(toRow(tenant))
+        : await supabase.from('clients').update(toRow(tenant)).eq('id', tenant.id);
+
+      if (error) {
+        logger.error(`Error saving tenant (${operation}):`, { error, id: tenant.id });
+        throw error;
+      }
+    }
+
+    this.cache.clear();
+  }
+
+  private async getModifiable(ref: string): Promise<Tenant> {
+    const tenant = await this.get(ref);
+    if (tenant.status === 'archived') {
+      throw new ConflictError('Client is archived');
+    }
+    return tenant;
+  }
+
+  private async assertNotMaster(tenant: Tenant, action: string): Promise<void> {
+    const master = await this.find(MASTER_CLIENT);
+    if (master?.id === tenant.id) {
+      throw new ConflictError(`The master client can't be ${action}`);
+    }
+  }
+
+  private async assertSlugAvailable(tenant: Tenant): Promise<void> {
+    const existing = await this.find(tenant.slug);
+    if (existing && existing.id !== tenant.id) {
+      throw new ConflictError('A client with this slug already exists');
+    }
+  }
+
+  private validate(tenant: Tenant): void {
+    if (!tenant.name) {
+      throw new ValidationError('name is required');
+    }
+    if (!tenant.slug || tenant.slug.length > 100 || !SLUG_PATTERN.test(tenant.slug) || isUuid(tenant.slug)) {
+      throw new ValidationError('slug must be lowercase letters, digits and single hyphens (at most 100 characters)');
+    }
+    if (!tenant.settings || typeof tenant.settings !== 'object' || Array.isArray(tenant.settings)) {
+      throw new ValidationError('settings must be an object');
+    }
+  }
+}
+
+function toRow(tenant: Tenant): Record<string, any> {
+  return {
+    id: tenant.id,
+    name: tenant.name,
+    slug: tenant.slug,
+    status: tenant.status,
+    settings: tenant.settings,
+    suspended_at: tenant.suspendedAt,
+    archived_at: tenant.archivedAt,
+    created_at: tenant.createdAt,
+    updated_at: tenant.updatedAt,
+  };
+}
+
+function fromRow(row: any): Tenant {
+  return {
+    id: row.id,
+    name: row.name,
+    slug: row.slug,
+    status: row.status || 'active',
+    settings: row.settings || {},
+    suspendedAt: row.suspended_at || null,
+    archivedAt: row.archived_at || null,
+    createdAt: row.created_at,
+    updatedAt: row.updated_at,
+  };
+}
+
+export const tenantService = TenantService.getInstance();
@@ -0,0 +1,2 @@
+export { tokenBudgetService, TokenBudgetService } from './tokenBudgetService';
+export type { BudgetPeriod, PeriodUsage, TokenBudgets } from './types';
@@ -0,0 +1,33 @@
+import { UsageStore } from './types';
+
+/**
+ * Counters for a single process, when Redis isn't configured
+ */
+export class MemoryUsageStore implements UsageStore {
+  readonly name = 'memory';
+  private counters = new Map<string, { value: number; expiresAt: number }>();
+
+  async increment(key: string, amount: number, ttlMs: number): Promise<number> {
+    const current = this.live(key);
+    if (current) {
+      current.value += amount;
+      return current.value;
+    }
+
+    this.counters.set(key, { value: amount, expiresAt: Date.now() + ttlMs });
+    return amount;
+  }
+
+  async get(keys: string[]): Promise<number[]> {
+    return keys.map(key => this.live(key)?.value || 0);
+  }
+
+  private live(key: string) {
+    const counter = this.counters.get(key);
+    if (counter && counter.expiresAt <= Date.now()) {
+      this.counters.delete(key);
+      return undefined;
+    }
+    return counter;
+  }
+}
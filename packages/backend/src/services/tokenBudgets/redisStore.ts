@@ -0,0 +1,29 @@
+import { RedisClientType } from 'redis';
+import { UsageStore } from './types';
+
+const usageKey = (key: string) => `token-usage:${key}`;
+
+/**
+ * Counters as Redis integers, shared by every backend instance. The expiry is
+ * set only when INCRBY creates the key, so later increments don't extend it.
+ */
+export class RedisUsageStore implements UsageStore {
+  readonly name = 'redis';
+
+  constructor(private getClient: () => Promise<RedisClientType>) {}
+
+  async increment(key: string, amount: number, ttlMs: number): Promise<number> {
+    const redis = await this.getClient();
+    const [total] = await redis.multi()
+      .incrBy(usageKey(key), amount)
+      .pExpire(usageKey(key), ttlMs, 'NX')
+      .exec();
+    return Number(total);
+  }
+
+  async get(keys: string[]): Promise<number[]> {
+    const redis = await this.getClient();
+    const values = await redis.mGet(keys.map(usageKey));
+    return values.map(value => Number(value) || 0);
+  }
+}
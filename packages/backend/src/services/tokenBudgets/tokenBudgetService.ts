@@ -0,0 +1,143 @@
+import { ClientDatabase } from '../../utils/database';
+import { logger } from '../../utils/logger';
+import { getRedisClient, isRedisConfigured } from '../../utils/redis';
+import { RateLimitError } from '../../types/errors';
+import { MemoryUsageStore } from './memoryStore';
+import { RedisUsageStore } from './redisStore';
+import { BudgetPeriod, PeriodUsage, TokenBudgets, UsageStore } from './types';
+
+const PERIODS: BudgetPeriod[] = ['daily', 'monthly'];
+
+/**
+ * Daily and monthly caps on the Claude tokens each client's chats use. A
+ * client's `settings.token_budgets` ({ daily, monthly }; null for no limit)
+ * overrides CLAUDE_DAILY_TOKEN_BUDGET and CLAUDE_MONTHLY_TOKEN_BUDGET.
+ * Periods are UTC days and calendar months.
+ *
+ * Usage is only known once Claude answers, so a request that starts under
+ * budget may finish over it; the next one is refused.
+ */
+export class TokenBudgetService {
+  private static instance: TokenBudgetService;
+  private store: UsageStore | null = null;
+
+  public static getInstance(): TokenBudgetService {
+    if (!TokenBudgetService.instance) {
+      TokenBudgetService.instance = new TokenBudgetService();
+    }
+    return TokenBudgetService.instance;
+  }
+
+  private constructor() {}
+
+  async getBudgets(clientDb: ClientDatabase): Promise<TokenBudgets> {
+    const settings = (await clientDb.getClientSettings()).token_budgets || {};
+
+    return {
+      daily: budget(settings.daily, process.env.CLAUDE_DAILY_TOKEN_BUDGET),
+      monthly: budget(settings.monthly, process.env.CLAUDE_MONTHLY_TOKEN_BUDGET),
+    };
+  }
+
+  async getUsage(clientDb: ClientDatabase, now: Date = new Date()): Promise<PeriodUsage[]> {
+    const clientId = clientDb.getResolvedClientId();
+    const [budgets, used] = await Promise.all([
+      this.getBudgets(clientDb),
+      this.getStore().get(PERIODS.map(period => usageKey(clientId, period, now))),
+    ]);
+
+    return PERIODS.map((period, i) => ({
+      period,
+      used: used[i],
+      limit: budgets[period],
+      resetsAt: periodEnd(period, now).toISOString(),
+    }));
+  }
+
+  /**
+   * Throw a RateLimitError if the client has used up a budget. Retry-After is
+   * the time until the exhausted period (the later one, if both are) resets.
+   * If the usage store is down, requests go through.
+   */
+  async assertAvailable(clientDb: ClientDatabase): Promise<void> {
+    const now = new Date();
+    let usage: PeriodUsage[];
+    try {
+      usage = await this.getUsage(clientDb, now);
+    } catch (error) {
+      logger.error('Failed to check token budget; letting the request through:', {
+        error,
+        clientId: clientDb.getResolvedClientId(),
+      });
+      return;
+    }
+
+    const exhausted = usage.filter(period => period.limit !== null && period.used >= period.limit);
+    if (exhausted.length === 0) return;
+
+    const resetsAt = Math.max(...exhausted.map(period => Date.parse(period.resetsAt)));
+    const retryAfter = Math.ceil((resetsAt - now.getTime()) / 1000);
+    throw new RateLimitError(
+      `The ${exhausted.map(period => period.period).join(' and ')} token budget for this client is used up`,
+      { budgets: exhausted, retryAfter },
+      retryAfter
+    );
+  }
+
+  /**
+   * Count tokens a Claude call used against the client's budgets. Failures are
+   * logged rather than thrown: the answer has already been generated.
+   */
+  async record(clientDb: ClientDatabase, tokens: number): Promise<void> {
+    if (!(tokens > 0)) return;
+
+    const clientId = clientDb.getResolvedClientId();
+    const now = new Date();
+    try {
+      await Promise.all(PERIODS.map(period =>
+        this.getStore().increment(usageKey(clientId, period, now), tokens, periodEnd(period, now).getTime() - now.getTime())
+      ));
+    } catch (error) {
+      logger.error('Failed to record token usage:', { error, clientId, tokens });
+    }
+  }
+
+  private getStore(): UsageStore {
+    if (!this.store) {
+      const configured = process.env.TOKEN_BUDGET_STORE || (isRedisConfigured() ? 'redis' : 'memory');
+
+      if (configured === 'redis') {
+        this.store = new RedisUsageStore(getRedisClient);
+      } else if (configured === 'memory') {
+        this.store = new MemoryUsageStore();
+      } else {
+        throw new Error(`Unknown TOKEN_BUDGET_STORE "${configured}"`);
+      }
+    }
+
+    return this.store;
+  }
+}
+
+/**
+ * A client's setting wins over the environment default, including an explicit
+ * null. Anything that isn't a positive number means no limit.
+ */
+function budget(setting: unknown, fallback: string | undefined): number | null {
+  const value = setting !== undefined ? setting : fallback;
+  const parsed = typeof value === 'string' ? Number(value) : value;
+  return typeof parsed === 'number' && Number.isFinite(parsed) && parsed > 0 ? Math.floor(parsed) : null;
+}
+
+function usageKey(clientId: string, period: BudgetPeriod, now: Date): string {
+  const date = now.toISOString();
+  return `${clientId}:${period}:${period === 'daily' ? date.slice(0, 10) : date.slice(0, 7)}`;
+}
+
+function periodEnd(period: BudgetPeriod, now: Date): Date {
+  return period === 'daily'
+    ? new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), now.getUTCDate() + 1))
+    : new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth() + 1, 1));
+}
+
+export const tokenBudgetService = TokenBudgetService.getInstance();
@@ -0,0 +1,28 @@
+export type BudgetPeriod = 'daily' | 'monthly';
+
+export interface TokenBudgets {
+  /** Claude tokens a client may use per UTC day; null for no limit */
+  daily: number | null;
+  /** Claude tokens a client may use per UTC calendar month; null for no limit */
+  monthly: number | null;
+}
+
+export interface PeriodUsage {
+  period: BudgetPeriod;
+  used: number;
+  limit: number | null;
+  /** When the period's counter starts over */
+  resetsAt: string;
+}
+
+/**
+ * Where usage counters live. Counters expire on their own once their period
+ * is over, so stores never need cleaning up.
+ */
+export interface UsageStore {
+  readonly name: string;
+  /** Add to a counter, creating it with the given lifetime. Returns the new total. */
+  increment(key: string, amount: number, ttlMs: number): Promise<number>;
+  /** Current totals, 0 for counters that don't exist or have expired */
+  get(keys: string[]): Promise<number[]>;
+}
@@ -0,0 +1,794 @@
+import { supabase } from '../utils/database';
+import { logger } from '../utils/logger';
+import { isTenantDbConfigured, withTenant } from '../utils/tenantDb';
+
+export type DocumentSourceType =
+  | 'notion_meeting_notes'
+  | 'notion_client_page'
+  | 'notion_website_outline'
+  | 'slack'
+  | 'upload';
+
+export interface IndexedDocument {
+  id: string;
+  clientId: string;
+  title: string;
+  content: string;
+  source: DocumentSourceType;
+  sourceId: string;
+  metadata: Record<string, any>;
+  /** SHA-256 of the indexed title and content, used to skip re-embedding unchanged items */
+  contentHash?: string | null;
+}
+
+export interface IndexedChunk {
+  id: string;
+  documentId: string;
+  content: string;
+  embedding: number[] | null;
+  embeddingProvider: string | null;
+  embeddingDimension: number | null;
+  chunkIndex: number;
+  tokenCount: number;
+  metadata: Record<string, any>;
+}
+
+export interface VectorSearchOptions {
+  limit: number;
+  /** Minimum cosine similarity (0-1) */
+  threshold?: number;
+  /** Only compare against chunks embedded by this provider */
+  embeddingProvider?: string;
+  sources?: DocumentSourceType[];
+  createdAfter?: Date;
+  createdBefore?: Date;
+}
+
+export type FullTextSearchOptions = Omit<VectorSearchOptions, 'threshold' | 'embeddingProvider'>;
+
+/**
+ * Search hit, shaped like a `document_chunks` row joined to its document so
+ * callers can treat vector and keyword results the same way.
+ */
+export interface VectorSearchResult {
+  id: string;
+  document_id: string;
+  content: string;
+  chunk_index: number;
+  metadata: Record<string, any>;
+  similarity: number;
+  documents: {
+    title: string;
+    source: string;
+    created_at: string;
+  };
+}
+
+/**
+ * Full-text hit; `text_rank` is ts_rank_cd in Postgres or BM25 in memory, so
+ * it is only comparable within one result list.
+ */
+export interface FullTextSearchResult extends Omit<VectorSearchResult, 'similarity'> {
+  text_rank: number;
+}
+
+/**
+ * Storage for retrievable documents and their chunk vectors. Every method is
+ * scoped to a client; implementations must never return another client's rows.
+ */
+export interface VectorIndex {
+  readonly name: string;
+
+  upsertDocument(document: IndexedDocument): Promise<void>;
+  /** Find the document previously stored for an item in a source system */
+  findDocumentBySourceId(clientId: string, source: DocumentSourceType, sourceId: string): Promise<IndexedDocument | null>;
+  upsertChunks(clientId: string, chunks: IndexedChunk[]): Promise<void>;
+  /** Remove a document's chunks, keeping the document row */
+  deleteChunks(clientId: string, documentId: string): Promise<void>;
+  /** Remove a document and its chunks */
+  deleteDocument(clientId: string, documentId: string): Promise<void>;
+  /** Remove every document and chunk of a client; returns how many documents were removed */
+  deleteClient(clientId: string): Promise<number>;
+  search(clientId: string, queryEmbedding: number[], options: VectorSearchOptions): Promise<VectorSearchResult[]>;
+  /** Keyword search over chunk text, best match first */
+  searchFullText(clientId: string, query: string, options: FullTextSearchOptions): Promise<FullTextSearchResult[]>;
+}
+
+const DEFAULT_MATCH_THRESHOLD = 0.1;
+
+/**
+ * pgvector-backed index. Similarity search runs in Postgres through the
+ * `search_similar_chunks` function, using the HNSW index on the embedding column.
+ */
+export class SupabaseVectorIndex implements VectorIndex {
+  readonly name = 'pgvector';
+
+  async upsertDocument(document: IndexedDocument): Promise<void> {
+    // created_at is left to the column default so re-syncing a document keeps it
+    const { error } = await this.db()
+      .from('documents')
+      .upsert({
+        id: document.id,
+        client_id: document.clientId,
+        title: document.title,
+        content: document.content,
+        source: document.source,
+        source_id: document.sourceId,
+        metadata: document.metadata,
+        content_hash: document.contentHash ?? null,
+        updated_at: new Date().toISOString(),
+      });
+
+    if (error) {
+      logger.error('Error inserting document:', { error, document: document.id });
+      throw error;
+    }
+  }
+
+  async findDocumentBySourceId(
+    clientId: string,
+    source: DocumentSourceType,
+    sourceId: string
+  ): Promise<IndexedDocument | null> {
+    const { data, error } = await this.db()
+      .from('documents')
+      .select('id, client_id, title, content, source, source_id, metadata, content_hash')
+      .eq('client_id', clientId)
+      .eq('source', source)
+      .eq('source_id', sourceId)
+      .order('created_at', { ascending: false })
+      .limit(1)
+      .maybeSingle();
+
+    if (error) {
+      logger.error('Error finding document by source id:', { error, source, sourceId });
+      throw error;
+    }
+
+    return data ? {
+      id: data.id,
+      clientId: data.client_id,
+      title: data.title,
+      content: data.content,
+      source: data.source,
+      sourceId: data.source_id,
+      metadata: data.metadata || {},
+      contentHash: data.content_hash,
+    } : null;
+  }
+
+  async upsertChunks(clientId: string, chunks: IndexedChunk[]): Promise<void> {
+    if (chunks.length === 0) return;
+
+    // Chunks have no client_id; check every parent document belongs to this client first
+    const documentIds = [...new Set(chunks.map(chunk => chunk.documentId))];
+    const { data: owned, error: ownershipError } = await this.db()
+      .from('documents')
+      .select('id')
+      .in('id', documentIds)
+      .eq('client_id', clientId);
+
+    if (ownershipError) {
+      logger.error('Error checking document ownership:', { error: ownershipError, documentIds });
+      throw ownershipError;
+    }
+
+    const ownedIds = new Set((owned || []).map(document => document.id));
+    const foreign = documentIds.find(documentId => !ownedIds.has(documentId));
+    if (foreign) {
+      throw new Error(`Document ${foreign} not found for client`);
+    }
+
+    const { error } = await this.db()
+      .from('document_chunks')
+      .upsert(chunks.map(chunk => ({
+        id: chunk.id,
+        document_id: chunk.documentId,
+        content: chunk.content,
+        embedding: chunk.embedding ? `[${chunk.embedding.join(',')}]` : null,
+        embedding_provider: chunk.embeddingProvider,
+        embedding_dimension: chunk.embeddingDimension,
+        chunk_index: chunk.chunkIndex,
+        token_count: chunk.tokenCount,
+        metadata: chunk.metadata,
+        created_at: new Date().toISOString(),
+      })));
+
+    if (error) {
+      logger.error('Error inserting chunks:', { error, clientId, chunkIds: chunks.map(chunk => chunk.id) });
+      throw error;
+    }
+  }
+
+  async deleteChunks(clientId: string, documentId: string): Promise<void> {
+    // Chunks have no client_id; check the parent document belongs to this client first
+    if (!await this.documentBelongsToClient(clientId, documentId)) return;
+
+    const { error } = await this.db()
+      .from('document_chunks')
+      .delete()
+      .eq('document_id', documentId);
+
+    if (error) {
+      logger.error('Error deleting chunks:', { error, documentId });
+      throw error;
+    }
+  }
+
+  async deleteDocument(clientId: string, documentId: string): Promise<void> {
+    await this.deleteChunks(clientId, documentId);
+
+    const { error } = await this.db()
+      .from('documents')
+      .delete()
+      .eq('id', documentId)
+      .eq('client_id', clientId);
+
+    if (error) {
+      logger.error('Error deleting document:', { error, documentId });
+      throw error;
+    }
+  }
+
+  async deleteClient(clientId: string): Promise<number> {
+    // Chunks cascade with their documents
+    const { data, error } = await this.db()
+      .from('documents')
+      .delete()
+      .eq('client_id', clientId)
+      .select('id');
+
+    if (error) {
+      logger.error('Error deleting client documents:', { error, clientId });
+      throw error;
+    }
+
+    return data?.length || 0;
+  }
+
+  async search(
+    clientId: string,
+    queryEmbedding: number[],
+    options: VectorSearchOptions
+  ): Promise<VectorSearchResult[]> {
+    const { data, error } = await this.db().rpc('search_similar_chunks', {
+      query_embedding: `[${queryEmbedding.join(',')}]`,
+      match_client_id: clientId,
+      match_threshold: options.threshold ?? DEFAULT_MATCH_THRESHOLD,
+      match_count: options.limit,
+      filter_embedding_provider: options.embeddingProvider ?? null,
+      filter_sources: options.sources?.length ? options.sources : null,
+      filter_created_after: options.createdAfter?.toISOString() ?? null,
+      filter_created_before: options.createdBefore?.toISOString() ?? null,
+    });
+
+    if (error) {
+      logger.error('Error in pgvector similarity search:', { error, clientId });
+      throw error;
+    }
+
+    return (data || []).map((row: any) => ({
+      id: row.id,
+      document_id: row.document_id,
+      content: row.content,
+      chunk_index: row.chunk_index,
+      metadata: row.metadata || {},
+      similarity: row.similarity,
+      documents: {
+        title: row.title,
+        source: row.source,
+        created_at: row.document_created_at,
+      },
+    }));
+  }
+
+  async searchFullText(
+    clientId: string,
+    query: string,
+    options: FullTextSearchOptions
+  ): Promise<FullTextSearchResult[]> {
+    const { data, error } = await this.db().rpc('search_chunks_fulltext', {
+      query_text: query,
+      match_client_id: clientId,
+      match_count: options.limit,
+      filter_sources: options.sources?.length ? options.sources : null,
+      filter_created_after: options.createdAfter?.toISOString() ?? null,
+      filter_created_before: options.createdBefore?.toISOString() ?? null,
+    });
+
+    if (error) {
+      logger.error('Error in full-text search:', { error, clientId });
+      throw error;
+    }
+
+    return (data || []).map((row: any) => ({
+      id: row.id,
+      document_id: row.document_id,
+      content: row.content,
+      chunk_index: row.chunk_index,
+      metadata: row.metadata || {},
+      text_rank: row.rank,
+      documents: {
+        title: row.title,
+        source: row.source,
+        created_at: row.document_created_at,
+      },
+    }));
+  }
+
+  private async documentBelongsToClient(clientId: string, documentId: string): Promise<boolean> {
+    const { data, error } = await this.db()
+      .from('documents')
+      .select('id')
+      .eq('id', documentId)
+      .eq('client_id', clientId)
+      .maybeSingle();
+
+    if (error) {
+      logger.error('Error checking document ownership:', { error, documentId });
+      throw error;
+    }
+
+    return !!data;
+  }
+
+  private db() {
+    if (!supabase) {
+      throw new Error('Database not configured');
+    }
+    return supabase;
+  }
+}
+
+/**
+ * pgvector index reached over DATABASE_URL instead of the Supabase service
+ * key. Every query runs through withTenant, so row-level security enforces the
+ * client scoping as well as the queries' own filters.
+ */
+export class PostgresVectorIndex implements VectorIndex {
+  readonly name = 'postgres';
+
+  async upsertDocument(document: IndexedDocument): Promise<void> {
+    await withTenant(document.clientId, db => db.query(
+      `INSERT INTO public.documents (id, client_id, title, content, source, source_id, metadata, content_hash, updated_at)
+       VALUES ($1, $2, $3, $4, $5, $6, $7, $8, NOW())
+       ON CONFLICT (id) DO UPDATE SET
+         title = EXCLUDED.title,
+         content = EXCLUDED.content,
+         source = EXCLUDED.source,
+         source_id = EXCLUDED.source_id,
+         metadata = EXCLUDED.metadata,
+         content_hash = EXCLUDED.content_hash,
+         updated_at = EXCLUDED.updated_at`,
+      [
+        document.id,
+        document.clientId,
+        document.title,
+        document.content,
+        document.source,
+        document.sourceId,
+        document.metadata,
+        document.contentHash ?? null,
+      ]
+    ));
+  }
+
+  async findDocumentBySourceId(
+    clientId: string,
+    source: DocumentSourceType,
+    sourceId: string
+  ): Promise<IndexedDocument | null> {
+    const { rows } = await withTenant(clientId, db => db.query(
+      `SELECT id, client_id, title, content, source, source_id, metadata, content_hash
+       FROM public.documents
+       WHERE client_id = $1 AND source = $2 AND source_id = $3
+       ORDER BY created_at DESC
+       LIMIT 1`,
+      [clientId, source, sourceId]
+    ));
+
+    const row = rows[0];
+    return row ? {
+      id: row.id,
+      clientId: row.client_id,
+      title: row.title,
+      content: row.content,
+      source: row.source,
+      sourceId: row.source_id,
+      metadata: row.metadata || {},
+      contentHash: row.content_hash,
+    } : null;
+  }
+
+  async upsertChunks(clientId: string, chunks: IndexedChunk[]): Promise<void> {
+    if (chunks.length === 0) return;
+
+    const columns = 9;
+    const values: any[] = [];
+    const placeholders = chunks.map((chunk, index) => {
+      values.push(
+        chunk.id,
+        chunk.documentId,
+        chunk.content,
+        chunk.embedding ? `[${chunk.embedding.join(',')}]` : null,
+        chunk.embeddingProvider,
+        chunk.embeddingDimension,
+        chunk.chunkIndex,
+        chunk.tokenCount,
+        chunk.metadata
+      );
+      const offset = index * columns;
+      return `($${offset + 1}, $${offset + 2}, $${offset + 3}, $${offset + 4}::vector, $${offset + 5}, `
+        + `$${offset + 6}, $${offset + 7}, $${offset + 8}, $${offset + 9}, NOW())`;
+    });
+
+    await withTenant(clientId, db => db.query(
+      `INSERT INTO public.document_chunks
+         (id, document_id, content, embedding, embedding_provider, embedding_dimension, chunk_index, token_count, metadata, created_at)
+       VALUES ${placeholders.join(', ')}
+       ON CONFLICT (id) DO UPDATE SET
+         content = EXCLUDED.content,
+         embedding = EXCLUDED.embedding,
+         embedding_provider = EXCLUDED.embedding_provider,
+         embedding_dimension = EXCLUDED.embedding_dimension,
+         chunk_index = EXCLUDED.chunk_index,
+         token_count = EXCLUDED.token_count,
+         metadata = EXCLUDED.metadata`,
+      values
+    ));
+  }
+
+  async deleteChunks(clientId: string, documentId: string): Promise<void> {
+    await withTenant(clientId, db => db.query(
+      'DELETE FROM public.document_chunks WHERE document_id = $1',
+      [documentId]
+    ));
+  }
+
+  async deleteDocument(clientId: string, documentId: string): Promise<void> {
+    // Chunks cascade with their document
+    await withTenant(clientId, db => db.query(
+      'DELETE FROM public.documents WHERE id = $1 AND client_id = $2',
+      [documentId, clientId]
+    ));
+  }
+
+  async deleteClient(clientId: string): Promise<number> {
+    const { rowCount } = await withTenant(clientId, db => db.query(
+      'DELETE FROM public.documents WHERE client_id = $1',
+      [clientId]
+    ));
+    return rowCount || 0;
+  }
+
+  async search(
+    clientId: string,
+    queryEmbedding: number[],
+    options: VectorSearchOptions
+  ): Promise<VectorSearchResult[]> {
+    const { rows } = await withTenant(clientId, db => db.query(
+      'SELECT * FROM search_similar_chunks($1::vector, $2, $3, $4, $5, $6, $7, $8)',
+      [
+        `[${queryEmbedding.join(',')}]`,
+        clientId,
+        options.threshold ?? DEFAULT_MATCH_THRESHOLD,
+        options.limit,
+        options.embeddingProvider ?? null,
+        options.sources?.length ? options.sources : null,
+        options.createdAfter ?? null,
+        options.createdBefore ?? null,
+      ]
+    ));
+
+    return rows.map((row: any) => ({
+      id: row.id,
+      document_id: row.document_id,
+      content: row.content,
+      chunk_index: row.chunk_index,
+      metadata: row.metadata || {},
+      similarity: row.similarity,
+      documents: {
+        title: row.title,
+        source: row.source,
+        created_at: row.document_created_at,
+      },
+    }));
+  }
+
+  async searchFullText(
+    clientId: string,
+    query: string,
+    options: FullTextSearchOptions
+  ): Promise<FullTextSearchResult[]> {
+    const { rows } = await withTenant(clientId, db => db.query(
+      'SELECT * FROM search_chunks_fulltext($1, $2, $3, $4, $5, $6)',
+      [
+        query,
+        clientId,
+        options.limit,
+        options.sources?.length ? options.sources : null,
+        options.createdAfter ?? null,
+        options.createdBefore ?? null,
+      ]
+    ));
+
+    return rows.map((row: any) => ({
+      id: row.id,
+      document_id: row.document_id,
+      content: row.content,
+      chunk_index: row.chunk_index,
+      metadata: row.metadata || {},
+      text_rank: row.rank,
+      documents: {
+        title: row.title,
+        source: row.source,
+        created_at: row.document_created_at,
+      },
+    }));
+  }
+}
+
+/**
+ * Process-local index with brute-force cosine search. Used for local
+ * development and tests when Supabase isn't configured; data is lost on restart.
+ */
+export class InMemoryVectorIndex implements VectorIndex {
+  readonly name = 'memory';
+  private documents = new Map<string, IndexedDocument & { createdAt: string }>();
+  private chunks = new Map<string, IndexedChunk>();
+
+  async upsertDocument(document: IndexedDocument): Promise<void> {
+    const existing = this.documents.get(document.id);
+    if (existing && existing.clientId !== document.clientId) {
+      throw new Error(`Document ${document.id} belongs to another client`);
+    }
+
+    this.documents.set(document.id, {
+      ...document,
+      createdAt: existing?.createdAt || new Date().toISOString(),
+    });
+  }
+
+  async findDocumentBySourceId(
+    clientId: string,
+    source: DocumentSourceType,
+    sourceId: string
+  ): Promise<IndexedDocument | null> {
+    for (const document of this.documents.values()) {
+      if (document.clientId === clientId && document.source === source && document.sourceId === sourceId) {
+        const { createdAt, ...indexed } = document;
+        return indexed;
+      }
+    }
+    return null;
+  }
+
+  async upsertChunks(clientId: string, chunks: IndexedChunk[]): Promise<void> {
+    for (const chunk of chunks) {
+      if (this.documents.get(chunk.documentId)?.clientId !== clientId) {
+        throw new Error(`Document ${chunk.documentId} not found for client`);
+      }
+      this.chunks.set(chunk.id, chunk);
+    }
+  }
+
+  async deleteChunks(clientId: string, documentId: string): Promise<void> {
+    if (this.documents.get(documentId)?.clientId !== clientId) return;
+
+    for (const [chunkId, chunk] of this.chunks) {
+      if (chunk.documentId === documentId) {
+        this.chunks.delete(chunkId);
+      }
+    }
+  }
+
+  async deleteDocument(clientId: string, documentId: string): Promise<void> {
+    await this.deleteChunks(clientId, documentId);
+    if (this.documents.get(documentId)?.clientId === clientId) {
+      this.documents.delete(documentId);
+    }
+  }
+
+  async deleteClient(clientId: string): Promise<number> {
+    let deleted = 0;
+    for (const document of [...this.documents.values()]) {
+      if (document.clientId === clientId) {
+        await this.deleteDocument(clientId, document.id);
+        deleted++;
+      }
+    }
+    return deleted;
+  }
+
+  async search(
+    clientId: string,
+    queryEmbedding: number[],
+    options: VectorSearchOptions
+  ): Promise<VectorSearchResult[]> {
+    const threshold = options.threshold ?? DEFAULT_MATCH_THRESHOLD;
+    const results: VectorSearchResult[] = [];
+
+    for (const { chunk, document } of this.candidates(clientId, options)) {
+      if (!chunk.embedding || chunk.embedding.length !== queryEmbedding.length) continue;
+      if (options.embeddingProvider && chunk.embeddingProvider !== options.embeddingProvider) continue;
+
+      const similarity = cosineSimilarity(queryEmbedding, chunk.embedding);
+      if (similarity <= threshold) continue;
+
+      results.push({
+        id: chunk.id,
+        document_id: chunk.documentId,
+        content: chunk.content,
+        chunk_index: chunk.chunkIndex,
+        metadata: chunk.metadata,
+        similarity,
+        documents: {
+          title: document.title,
+          source: document.source,
+          created_at: document.createdAt,
+        },
+      });
+    }
+
+    return results
+      .sort((a, b) => b.similarity - a.similarity)
+      .slice(0, options.limit);
+  }
+
+  /**
+   * Okapi BM25 over the client's chunks. Statistics are computed per query,
+   * which is fine at local-development corpus sizes.
+   */
+  async searchFullText(
+    clientId: string,
+    query: string,
+    options: FullTextSearchOptions
+  ): Promise<FullTextSearchResult[]> {
+    const queryTerms = [...new Set(tokenize(query))];
+    if (queryTerms.length === 0) return [];
+
+    const candidates = this.candidates(clientId, options).map(candidate => ({
+      ...candidate,
+      terms: tokenize(candidate.chunk.content),
+    }));
+    if (candidates.length === 0) return [];
+
+    const avgLength = candidates.reduce((sum, candidate) => sum + candidate.terms.length, 0) / candidates.length;
+    const documentFrequency = new Map<string, number>();
+    for (const candidate of candidates) {
+      for (const term of new Set(candidate.terms)) {
+        documentFrequency.set(term, (documentFrequency.get(term) || 0) + 1);
+      }
+    }
+
+    const results: FullTextSearchResult[] = [];
+
+    for (const { chunk, document, terms } of candidates) {
+      const termFrequency = new Map<string, number>();
+      for (const term of terms) {
+        termFrequency.set(term, (termFrequency.get(term) || 0) + 1);
+      }
+
+      let score = 0;
+      for (const term of queryTerms) {
+        const tf = termFrequency.get(term);
+        if (!tf) continue;
+
+        const df = documentFrequency.get(term) || 0;
+        const idf = Math.log(1 + (candidates.length - df + 0.5) / (df + 0.5));
+        score += idf * (tf * (BM25_K1 + 1)) / (tf + BM25_K1 * (1 - BM25_B + BM25_B * terms.length / (avgLength || 1)));
+      }
+
+      if (score <= 0) continue;
+
+      results.push({
+        id: chunk.id,
+        document_id: chunk.documentId,
+        content: chunk.content,
+        chunk_index: chunk.chunkIndex,
+        metadata: chunk.metadata,
+        text_rank: score,
+        documents: {
+          title: document.title,
+          source: document.source,
+          created_at: document.createdAt,
+        },
+      });
+    }
+
+    return results
+      .sort((a, b) => b.text_rank - a.text_rank)
+      .slice(0, options.limit);
+  }
+
+  /**
+   * The client's chunks whose documents pass the source/date filters
+   */
+  private candidates(clientId: string, options: FullTextSearchOptions) {
+    const candidates: Array<{ chunk: IndexedChunk; document: IndexedDocument & { createdAt: string } }> = [];
+
+    for (const chunk of this.chunks.values()) {
+      const document = this.documents.get(chunk.documentId);
+      if (!document || document.clientId !== clientId) continue;
+      if (options.sources?.length && !options.sources.includes(document.source)) continue;
+      if (options.createdAfter && new Date(document.createdAt) < options.createdAfter) continue;
+      if (options.createdBefore && new Date(document.createdAt) > options.createdBefore) continue;
+
+      candidates.push({ chunk, document });
+    }
+
+    return candidates;
+  }
+}
+
+const BM25_K1 = 1.2;
+const BM25_B = 0.75;
+
+const STOP_WORDS = new Set([
+  'the', 'a', 'an', 'and', 'or', 'but', 'in', 'on', 'at', 'to', 'for',
+  'of', 'with', 'by', 'from', 'up', 'about', 'into', 'through', 'during',
+  'before', 'after', 'above', 'below', 'between', 'among', 'under', 'over',
+  'is', 'are', 'was', 'were', 'be', 'been', 'being', 'have', 'has', 'had',
+  'do', 'does', 'did', 'will', 'would', 'could', 'should', 'may', 'might',
+  'must', 'can', 'what', 'where', 'when', 'why', 'how', 'who', 'which',
+  'tell', 'me', 'you', 'i', 'we', 'they', 'them', 'us', 'it', 'this', 'that'
+]);
+
+/**
+ * Lowercase word tokens with stop words removed
+ */
+function tokenize(text: string): string[] {
+  return text
+    .toLowerCase()
+    .split(/[^a-z0-9]+/)
+    .filter(term => term.length > 1 && !STOP_WORDS.has(term));
+}
+
+/**
+ * Calculate cosine similarity between two vectors
+ */
+function cosineSimilarity(a: number[], b: number[]): number {
+  let dotProduct = 0;
+  let normA = 0;
+  let normB = 0;
+
+  for (let i = 0; i < a.length; i++) {
+    dotProduct += a[i] * b[i];
+    normA += a[i] * a[i];
+    normB += b[i] * b[i];
+  }
+
+  if (normA === 0 || normB === 0) {
+    return 0;
+  }
+
+  return dotProduct / (Math.sqrt(normA) * Math.sqrt(normB));
+}
+
+let vectorIndex: VectorIndex | null = null;
+
+/**
+ * Get the configured index: VECTOR_INDEX=memory|pgvector|postgres, defaulting
+ * to postgres when DATABASE_URL is set, pgvector when Supabase is configured
+ * and memory otherwise.
+ */
+export function getVectorIndex(): VectorIndex {
+  if (!vectorIndex) {
+    const configured = process.env.VECTOR_INDEX
+      || (isTenantDbConfigured() ? 'postgres' : supabase ? 'pgvector' : 'memory');
+
+    if (configured === 'memory') {
+      vectorIndex = new InMemoryVectorIndex();
+    } else if (configured === 'pgvector') {
+      vectorIndex = new SupabaseVectorIndex();
+    } else if (configured === 'postgres') {
+      vectorIndex = new PostgresVectorIndex();
+    } else {
+      throw new Error(`Unknown VECTOR_INDEX "${configured}"`);
+    }
+
+    logger.info('Vector index initialized', { index: vectorIndex.name });
+  }
+
+  return vectorIndex;
+}
@@ -28,6 +28,16 @@ export class ValidationError extends Error {
   }
 }
 
+export class NotFoundError extends Error {
+  public statusCode = 404;
+  public code = 'NOT_FOUND';
+  
+  constructor(message: string, public details?: any) {
+    super(message);
+    this.name = 'NotFoundError';
+  }
+}
+
 export class ConflictError extends Error {
   public statusCode = 409;
   public code = 'CONFLICT_ERROR';
@@ -42,7 +52,8 @@ export class RateLimitError extends Error {
   public statusCode = 429;
   public code = 'RATE_LIMIT_ERROR';
   
-  constructor(message: string, public details?: any) {
+  // retryAfter: seconds until the request may succeed, sent as Retry-After
+  constructor(message: string, public details?: any, public retryAfter?: number) {
     super(message);
     this.name = 'RateLimitError';
   }
@@ -56,4 +67,24 @@ export class PayloadTooLargeError extends Error {
     super(message);
     this.name = 'PayloadTooLargeError';
   }
-} 
\ No newline at end of file
+}
+
+export class UnsupportedFileTypeError extends Error {
+  public statusCode = 415;
+  public code = 'UNSUPPORTED_FILE_TYPE';
+  
+  constructor(message: string, public details?: any) {
+    super(message);
+    this.name = 'UnsupportedFileTypeError';
+  }
+}
+
+export class DocumentParsingError extends Error {
+  public statusCode = 422;
+  public code = 'DOCUMENT_PARSING_ERROR';
+  
+  constructor(message: string, public details?: any) {
+    super(message);
+    this.name = 'DocumentParsingError';
+  }
+}
@@ -4,6 +4,8 @@ declare global {
   namespace Express {
     interface Request {
       file?: File;
+      /** Unparsed request body, kept for webhook signature verification */
+      rawBody?: Buffer;
     }
   }
 } 
\ No newline at end of file
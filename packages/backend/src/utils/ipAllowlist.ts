@@ -0,0 +1,49 @@
+import net from 'net';
+
+// IPv4 clients of a dual-stack server show up as ::ffff:a.b.c.d
+const IPV4_MAPPED_PREFIX = '::ffff:';
+
+function normalize(ip: string): string {
+  const lower = ip.toLowerCase();
+  if (lower.startsWith(IPV4_MAPPED_PREFIX) && net.isIPv4(lower.slice(IPV4_MAPPED_PREFIX.length))) {
+    return lower.slice(IPV4_MAPPED_PREFIX.length);
+  }
+  return lower;
+}
+
+function familyOf(ip: string): 'ipv4' | 'ipv6' {
+  return net.isIPv4(ip) ? 'ipv4' : 'ipv6';
+}
+
+/**
+ * An allowlist entry is an IPv4 or IPv6 address, or a CIDR range of either
+ */
+export function isValidIpEntry(entry: string): boolean {
+  const [address, prefix, ...rest] = entry.split('/');
+  if (rest.length > 0 || !net.isIP(address)) return false;
+  if (prefix === undefined) return true;
+
+  const bits = Number(prefix);
+  return /^\d+$/.test(prefix) && bits <= (net.isIPv4(address) ? 32 : 128);
+}
+
+/**
+ * Whether `ip` matches one of the entries. Invalid entries match nothing.
+ */
+export function isIpAllowed(ip: string | undefined, entries: string[]): boolean {
+  if (!ip || !net.isIP(ip)) return false;
+
+  const list = new net.BlockList();
+  for (const entry of entries.filter(isValidIpEntry)) {
+    const [address, prefix] = entry.split('/');
+    if (prefix === undefined) {
+      const normalized = normalize(address);
+      list.addAddress(normalized, familyOf(normalized));
+    } else {
+      list.addSubnet(address, Number(prefix), familyOf(address));
+    }
+  }
+
+  const normalized = normalize(ip);
+  return list.check(normalized, familyOf(normalized));
+}
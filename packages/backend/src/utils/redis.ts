@@ -0,0 +1,46 @@
+import { createClient, RedisClientType } from 'redis';
+import { logger } from './logger';
+
+let client: RedisClientType | null = null;
+let connecting: Promise<RedisClientType> | null = null;
+
+export function isRedisConfigured(): boolean {
+  return !!process.env.REDIS_URL;
+}
+
+/**
+ * Shared Redis connection, opened on first use. Throws when REDIS_URL isn't set.
+ */
+export async function getRedisClient(): Promise<RedisClientType> {
+  if (client) return client;
+
+  if (!connecting) {
+    if (!isRedisConfigured()) {
+      throw new Error('REDIS_URL must be set to use Redis');
+    }
+
+    const redis: RedisClientType = createClient({ url: process.env.REDIS_URL });
+    redis.on('error', error => logger.error('Redis client error:', { error }));
+
+    connecting = redis.connect()
+      .then(() => {
+        logger.info('Redis client connected');
+        client = redis;
+        return redis;
+      })
+      .catch(error => {
+        connecting = null;
+        throw error;
+      });
+  }
+
+  return connecting;
+}
+
+export async function closeRedisClient(): Promise<void> {
+  if (client) {
+    await client.quit();
+    client = null;
+    connecting = null;
+  }
+}
@@ -0,0 +1,73 @@
+import { Pool, PoolClient, types } from 'pg';
+import { logger } from './logger';
+
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+// Role tenant-scoped transactions switch to. It has no BYPASSRLS and owns no
+// tables, so the RLS policies apply even when DATABASE_URL logs in as the owner.
+const TENANT_ROLE = process.env.TENANT_DB_ROLE || 'asera_tenant';
+
+// Timestamps come back as ISO 8601 strings, as they do from the Supabase client.
+// Microseconds are kept so a timestamp read back matches the stored value exactly.
+types.setTypeParser(types.builtins.TIMESTAMPTZ, value => value.replace(' ', 'T').replace(/([+-]\d\d)$/, '$1:00'));
+
+let pool: Pool | null = null;
+
+export function isTenantDbConfigured(): boolean {
+  return !!process.env.DATABASE_URL;
+}
+
+/**
+ * Shared connection pool, opened on first use. Throws when DATABASE_URL isn't set.
+ */
+export function getPool(): Pool {
+  if (!pool) {
+    if (!isTenantDbConfigured()) {
+      throw new Error('DATABASE_URL must be set to use the tenant database');
+    }
+
+    pool = new Pool({
+      connectionString: process.env.DATABASE_URL,
+      max: parseInt(process.env.DATABASE_POOL_SIZE || '10', 10),
+    });
+    pool.on('error', error => logger.error('Postgres pool error:', { error }));
+  }
+
+  return pool;
+}
+
+/**
+ * Run queries in a transaction bound to one tenant: as TENANT_ROLE, with
+ * `app.current_client_id` set for the transaction only. Row-level security
+ * then hides other tenants' rows and rejects writes into them, whatever the
+ * queries themselves filter on.
+ */
+export async function withTenant<T>(clientId: string, fn: (db: PoolClient) => Promise<T>): Promise<T> {
+  if (!UUID_PATTERN.test(clientId)) {
+    throw new Error(`withTenant needs a client UUID, got "${clientId}"`);
+  }
+
+  const db = await getPool().connect();
+  try {
+    await db.query('BEGIN');
+    // Quoted as an identifier since SET ROLE doesn't take parameters
+    await db.query(`SET LOCAL ROLE "${TENANT_ROLE.replace(/"/g, '""')}"`);
+    await db.query("SELECT set_config('app.current_client_id', $1, true)", [clientId]);
+
+    const result = await fn(db);
+    await db.query('COMMIT');
+    return result;
+  } catch (error) {
+    await db.query('ROLLBACK').catch(rollbackError =>
+      logger.error('Error rolling back tenant transaction:', { error: rollbackError, clientId }));
+    throw error;
+  } finally {
+    db.release();
+  }
+}
+
+export async function closePool(): Promise<void> {
+  if (pool) {
+    await pool.end();
+    pool = null;
+  }
+}
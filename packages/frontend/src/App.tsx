@@ -7,10 +7,158 @@ interface Message {
   timestamp: Date;
 }
 
+function parseServerSentEvent(raw: string): { type: string; data: any } | null {
+  let type = 'message';
+  const dataLines: string[] = [];
+
+  for (const line of raw.split('\n')) {
+    if (line.startsWith('event:')) {
+      type = line.slice(6).trim();
+    } else if (line.startsWith('data:')) {
+      dataLines.push(line.slice(5).trim());
+    }
+  }
+
+  if (dataLines.length === 0) return null;
+
+  try {
+    return { type, data: JSON.parse(dataLines.join('\n')) };
+  } catch {
+    return null;
+  }
+}
+
+const TOKEN_STORAGE_KEY = 'asera_token';
+const REFRESH_TOKEN_STORAGE_KEY = 'asera_refresh_token';
+
+// Trade the stored refresh token for a new pair; null means the session is gone
+async function refreshTokens(): Promise<{ token: string; refreshToken: string } | null> {
+  const refreshToken = localStorage.getItem(REFRESH_TOKEN_STORAGE_KEY);
+  if (!refreshToken) return null;
+
+  const response = await fetch('/api/auth/refresh', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ refresh_token: refreshToken }),
+  });
+  const data = await response.json().catch(() => ({}));
+
+  if (!response.ok || !data.token) return null;
+  return { token: data.token, refreshToken: data.refresh_token };
+}
+
+function LoginForm({ onLogin }: { onLogin: (token: string, refreshToken: string) => void }) {
+  const [email, setEmail] = useState('');
+  const [password, setPassword] = useState('');
+  const [error, setError] = useState<string | null>(null);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  const submit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setIsSubmitting(true);
+    setError(null);
+
+    try {
+      const response = await fetch('/api/auth/login', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ email, password }),
+      });
+      const data = await response.json().catch(() => ({}));
+
+      if (!response.ok || !data.token) {
+        throw new Error(data.error?.message || 'Login failed');
+      }
+
+      onLogin(data.token, data.refresh_token);
+    } catch (error) {
+      setError(error instanceof Error ? error.message : 'Login failed');
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const inputStyle = {
+    padding: '0.75rem',
+    border: '1px solid #d1d5db',
+    borderRadius: '0.5rem',
+    fontSize: '1rem',
+  };
+
+  return (
+    <div style={{
+      minHeight: '100vh',
+      display: 'flex',
+      alignItems: 'center',
+      justifyContent: 'center',
+      backgroundColor: '#f3f4f6',
+      fontFamily: 'system-ui, sans-serif'
+    }}>
+      <form onSubmit={submit} style={{
+        backgroundColor: 'white',
+        padding: '2rem',
+        borderRadius: '1rem',
+        boxShadow: '0 1px 3px rgba(0, 0, 0, 0.1)',
+        display: 'flex',
+        flexDirection: 'column',
+        gap: '0.75rem',
+        width: '320px'
+      }}>
+        <h1 style={{ color: '#1f2937', margin: 0, fontSize: '1.5rem', fontWeight: 'bold' }}>
+          🧠 Sign in to Corra
+        </h1>
+        <input type="email" value={email} onChange={(e) => setEmail(e.target.value)} placeholder="Email" required style={inputStyle} />
+        <input type="password" value={password} onChange={(e) => setPassword(e.target.value)} placeholder="Password" required style={inputStyle} />
+        {error && <div style={{ color: '#dc2626', fontSize: '0.9rem' }}>{error}</div>}
+        <button
+          type="submit"
+          disabled={isSubmitting}
+          style={{
+            padding: '0.75rem',
+            backgroundColor: isSubmitting ? '#9ca3af' : '#3b82f6',
+            color: 'white',
+            border: 'none',
+            borderRadius: '0.5rem',
+            fontSize: '1rem',
+            cursor: isSubmitting ? 'not-allowed' : 'pointer'
+          }}
+        >
+          {isSubmitting ? '...' : 'Sign in'}
+        </button>
+      </form>
+    </div>
+  );
+}
+
 function App() {
+  const [token, setToken] = useState<string | null>(() => localStorage.getItem(TOKEN_STORAGE_KEY));
   const [messages, setMessages] = useState<Message[]>([]);
   const [inputMessage, setInputMessage] = useState('');
   const [isLoading, setIsLoading] = useState(false);
+  const [conversationId, setConversationId] = useState<string | null>(null);
+
+  const login = (newToken: string, refreshToken: string) => {
+    localStorage.setItem(TOKEN_STORAGE_KEY, newToken);
+    localStorage.setItem(REFRESH_TOKEN_STORAGE_KEY, refreshToken);
+    setToken(newToken);
+  };
+
+  const clearSession = () => {
+    localStorage.removeItem(TOKEN_STORAGE_KEY);
+    localStorage.removeItem(REFRESH_TOKEN_STORAGE_KEY);
+    setToken(null);
+    setMessages([]);
+    setConversationId(null);
+  };
+
+  const logout = () => {
+    // Revoke the session server-side; sign out locally either way
+    fetch('/api/auth/logout', {
+      method: 'POST',
+      headers: { 'Authorization': `Bearer ${token}` },
+    }).catch(() => {});
+    clearSession();
+  };
 
   const sendMessage = async () => {
     if (!inputMessage.trim() || isLoading) return;
@@ -21,41 +169,101 @@ function App() {
       content: inputMessage,
       timestamp: new Date()
     };
+    const assistantMessageId = (Date.now() + 1).toString();
 
     setMessages(prev => [...prev, userMessage]);
     setInputMessage('');
     setIsLoading(true);
 
-    try {
-      const response = await fetch('/api/chat', {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-        },
-        body: JSON.stringify({ message: inputMessage }),
+    const appendToAssistant = (text: string) => {
+      setMessages(prev => {
+        const existing = prev.find(message => message.id === assistantMessageId);
+        if (!existing) {
+          return [...prev, {
+            id: assistantMessageId,
+            role: 'assistant',
+            content: text,
+            timestamp: new Date()
+          }];
+        }
+        return prev.map(message =>
+          message.id === assistantMessageId
+            ? { ...message, content: message.content + text }
+            : message
+        );
       });
+    };
+
+    const postChat = (accessToken: string | null) => fetch('/api/chat', {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        'Accept': 'text/event-stream',
+        'Authorization': `Bearer ${accessToken}`,
+      },
+      body: JSON.stringify({
+        message: userMessage.content,
+        stream: true,
+        ...(conversationId && { conversation_id: conversationId }),
+      }),
+    });
+
+    try {
+      let response = await postChat(token);
 
-      const data = await response.json();
-
-      if (data.success) {
-        const assistantMessage: Message = {
-          id: (Date.now() + 1).toString(),
-          role: 'assistant',
-          content: data.response,
-          timestamp: new Date()
-        };
-        setMessages(prev => [...prev, assistantMessage]);
-      } else {
-        throw new Error(data.error || 'Failed to get response');
+      // Access tokens are short-lived: refresh once and retry before giving up
+      if (response.status === 401) {
+        const refreshed = await refreshTokens();
+        if (!refreshed) {
+          clearSession();
+          return;
+        }
+        login(refreshed.token, refreshed.refreshToken);
+        response = await postChat(refreshed.token);
+
+        if (response.status === 401) {
+          clearSession();
+          return;
+        }
+      }
+
+      if (!response.ok || !response.body) {
+        const data = await response.json().catch(() => ({}));
+        throw new Error(data.error?.message || 'Failed to get response');
+      }
+
+      // Parse the server-sent event stream: events are separated by a blank line
+      const reader = response.body.getReader();
+      const decoder = new TextDecoder();
+      let buffer = '';
+
+      while (true) {
+        const { done, value } = await reader.read();
+        if (done) break;
+
+        buffer += decoder.decode(value, { stream: true });
+
+        let boundary: number;
+        while ((boundary = buffer.indexOf('\n\n')) !== -1) {
+          const rawEvent = buffer.slice(0, boundary);
+          buffer = buffer.slice(boundary + 2);
+
+          const event = parseServerSentEvent(rawEvent);
+          if (!event) continue;
+
+          if (event.type === 'token') {
+            appendToAssistant(event.data.text);
+          } else if (event.type === 'start' || event.type === 'done') {
+            if (event.data.conversation_id) {
+              setConversationId(event.data.conversation_id);
+            }
+          } else if (event.type === 'error') {
+            throw new Error(event.data.message || event.data.error);
+          }
+        }
       }
     } catch (error) {
-      const errorMessage: Message = {
-        id: (Date.now() + 1).toString(),
-        role: 'assistant',
-        content: `Error: ${error instanceof Error ? error.message : 'Something went wrong'}`,
-        timestamp: new Date()
-      };
-      setMessages(prev => [...prev, errorMessage]);
+      appendToAssistant(`Error: ${error instanceof Error ? error.message : 'Something went wrong'}`);
     } finally {
       setIsLoading(false);
     }
@@ -68,6 +276,10 @@ function App() {
     }
   };
 
+  if (!token) {
+    return <LoginForm onLogin={login} />;
+  }
+
   return (
     <div style={{ 
       minHeight: '100vh', 
@@ -78,6 +290,7 @@ function App() {
     }}>
       {/* Header */}
       <div style={{
+        position: 'relative',
         backgroundColor: 'white',
         padding: '1rem 2rem',
         borderBottom: '1px solid #e5e7eb',
@@ -98,6 +311,22 @@ function App() {
         }}>
           Powered by Corra AI
         </p>
+        <button
+          onClick={logout}
+          style={{
+            position: 'absolute',
+            top: '1rem',
+            right: '2rem',
+            padding: '0.5rem 1rem',
+            backgroundColor: 'white',
+            color: '#374151',
+            border: '1px solid #d1d5db',
+            borderRadius: '0.5rem',
+            cursor: 'pointer'
+          }}
+        >
+          Sign out
+        </button>
       </div>
 
       {/* Chat Messages */}
@@ -146,7 +375,7 @@ function App() {
           ))
         )}
         
-        {isLoading && (
+        {isLoading && messages[messages.length - 1]?.role === 'user' && (
           <div style={{
             display: 'flex',
             justifyContent: 'flex-start',
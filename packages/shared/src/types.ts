@@ -13,6 +13,7 @@ export const ClientSchema = z.object({
   settings: z.object({
     slack_channel_id: z.string().optional(),
     notion_workspace_id: z.string().optional(),
+    // 'local:<model>', 'openai:<model>' or a legacy 'claude-*' model; optional '@<dimension>' suffix
     embedding_model: z.string().default('claude-3-haiku-20240307'),
     chat_model: z.string().default('claude-3-sonnet-20240229'),
   }),
@@ -56,7 +57,9 @@ export const DocumentChunkSchema = z.object({
   id: z.string().uuid(),
   document_id: z.string().uuid(),
   content: z.string(),
-  embedding: z.array(z.number()),
+  embedding: z.array(z.number()).nullable(),
+  embedding_provider: z.string().nullable(),
+  embedding_dimension: z.number().nullable(),
   chunk_index: z.number(),
   token_count: z.number(),
   metadata: z.record(z.any()),
@@ -91,7 +94,9 @@ export const MessageSchema = z.object({
 export const ConversationSchema = z.object({
   id: z.string().uuid(),
   client_id: z.string().uuid(),
-  user_id: z.string().uuid(),
+  // Exactly one is set: conversations started with an API key have no user
+  user_id: z.string().uuid().nullable(),
+  api_key_id: z.string().uuid().nullable(),
   title: z.string(),
   created_at: z.string().datetime(),
   updated_at: z.string().datetime(),